@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import useSequencer from './hooks/useSequencer';
 import StepSequencer from './components/StepSequencer';
 import TransportControls from './components/TransportControls';
@@ -9,7 +9,16 @@ import Arrangement from './components/Arrangement';
 import AutomationLanes from './components/AutomationLanes';
 import SampleBrowser from './components/SampleBrowser';
 import ResizablePanel from './components/ResizablePanel';
-import type { ViewTab, AutomationTarget } from './types';
+import ExportDialog from './components/ExportDialog';
+import MidiImportDialog from './components/MidiImportDialog';
+import MidiMappingDialog from './components/MidiMappingDialog';
+import InstrumentImportDialog from './components/InstrumentImportDialog';
+import { decodeMidiFile } from './midi/smf';
+import { analyzeMidiFile } from './midi/midiImport';
+import type { MidiImportSource } from './midi/midiImport';
+import { analyzeInstrumentFiles, buildImportedInstrument } from './sampler/instrumentImport';
+import type { InstrumentImportSource } from './sampler/instrumentImport';
+import type { ViewTab, AutomationTarget, RenderOptions, MidiExportScope, MidiImportOptions, MidiLearnTarget, ModRoute, InstrumentChannel } from './types';
 import './App.css';
 
 const VIEW_TABS: { id: ViewTab; label: string; shortcut: string }[] = [
@@ -30,6 +39,21 @@ const AUTOMATION_TARGETS: { value: AutomationTarget; label: string }[] = [
   { value: 'masterDelayMix', label: 'Master Delay Mix' },
 ];
 
+/** Modulation routes offered for automation when there is no active pattern */
+const NO_MOD_ROUTES: ModRoute[] = [];
+/** Instrument channels shown in the mixer when there is no active pattern */
+const NO_INSTRUMENT_CHANNELS: InstrumentChannel[] = [];
+
+/** Trigger a browser download for a generated file. */
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 function App() {
   const {
     state,
@@ -46,6 +70,10 @@ function App() {
     setBpm,
     setTrackVolume,
     setTrackPan,
+    setTrackDrumSynth,
+    addDrumTrack,
+    removeDrumTrack,
+    setDrumTrackModel,
     toggleMute,
     toggleSolo,
     clearTrack,
@@ -56,13 +84,19 @@ function App() {
     renamePattern,
     duplicatePattern,
     addPianoNote,
+    addPianoChord,
     deletePianoNote,
     updatePianoNote,
     slicePianoNote,
     previewPianoNote,
+    previewNoteOn,
+    previewNoteOff,
     movePianoNotes,
     pastePianoNotes,
     updatePianoNoteVelocity,
+    updatePianoNoteExpression,
+    setPianoNotesSlide,
+    transformPianoNotes,
     toggleArrangementBlock,
     placeArrangementBlock,
     resizeArrangementBlock,
@@ -89,7 +123,19 @@ function App() {
     setMasterFilter,
     setMasterLimiter,
     setSynthSettings,
+    addModRoute,
+    updateModRoute,
+    removeModRoute,
+    loadWavetable,
+    setChannelInstrument,
+    setSamplerSettings,
+    addSamplerZone,
+    updateSamplerZone,
+    removeSamplerZone,
+    setArpeggiator,
+    setPatternScale,
     activePattern,
+    activeInstrumentChannel,
     audioEngine,
     // Sample management
     loadSample,
@@ -115,6 +161,18 @@ function App() {
     setSampleTrackTrimEnd,
     setSampleTrackGain,
     setSampleTrackBasePitch,
+    // Instrument channel management
+    addInstrumentChannel,
+    removeInstrumentChannel,
+    selectInstrumentChannel,
+    renameInstrumentChannel,
+    setInstrumentChannelVolume,
+    setInstrumentChannelPan,
+    toggleInstrumentChannelMute,
+    toggleInstrumentChannelSolo,
+    setInstrumentChannelReverbSend,
+    setInstrumentChannelDelaySend,
+    setInstrumentChannelFilterSend,
     // Insert effects
     addInsertEffect,
     removeInsertEffect,
@@ -159,7 +217,23 @@ function App() {
     loadProject,
     listProjects,
     deleteProject: deleteServerProject,
+    exportProjectBundle,
+    importProjectBundle,
     setProjectName,
+    // Export
+    exportSong,
+    exportStems,
+    exportMidi,
+    importMidi,
+    importSamplerInstrument,
+    setSnapResolution,
+    enableMidiInput,
+    selectMidiInput,
+    toggleRecordArm,
+    toggleMidiLearn,
+    setMidiLearnTarget,
+    updateMidiMapping,
+    removeMidiMapping,
     // Synth presets
     listPresets,
     savePreset,
@@ -177,6 +251,13 @@ function App() {
   const [showLoadDialog, setShowLoadDialog] = useState(false);
   const [savedProjects, setSavedProjects] = useState<{ id: string; name: string; updatedAt: string }[]>([]);
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const midiInputRef = useRef<HTMLInputElement>(null);
+  const [midiImport, setMidiImport] = useState<{ fileName: string; source: MidiImportSource } | null>(null);
+  const instrumentInputRef = useRef<HTMLInputElement>(null);
+  const [instrumentImport, setInstrumentImport] = useState<InstrumentImportSource | null>(null);
+  const [showMidiMappings, setShowMidiMappings] = useState(false);
 
   const handleNew = useCallback(() => {
     if (!confirm('Create a new project? Any unsaved changes will be lost.')) return;
@@ -208,16 +289,38 @@ function App() {
     }
   }, [listProjects]);
 
+  const showLoadedStatus = useCallback((missingSamples: string[]) => {
+    if (missingSamples.length > 0) {
+      // Keep this visible: the affected tracks and clips will be silent
+      setSaveStatus(`Loaded, but ${missingSamples.length} sample(s) are missing: ${missingSamples.join(', ')}`);
+    } else {
+      setSaveStatus('Loaded');
+      setTimeout(() => setSaveStatus(null), 2000);
+    }
+  }, []);
+
   const handleLoad = useCallback(async (id: string) => {
     try {
-      await loadProject(id);
+      const { missingSamples } = await loadProject(id);
       setShowLoadDialog(false);
-      setSaveStatus('Loaded');
-      setTimeout(() => setSaveStatus(null), 2000);
+      showLoadedStatus(missingSamples);
     } catch {
       setSaveStatus('Error loading project');
     }
-  }, [loadProject]);
+  }, [loadProject, showLoadedStatus]);
+
+  const handleImportBundle = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { missingSamples } = await importProjectBundle(file);
+      setShowLoadDialog(false);
+      showLoadedStatus(missingSamples);
+    } catch {
+      setSaveStatus('Error importing project bundle');
+    }
+  }, [importProjectBundle, showLoadedStatus]);
 
   const handleDeleteProject = useCallback(async (id: string) => {
     try {
@@ -228,6 +331,113 @@ function App() {
     }
   }, [deleteServerProject]);
 
+  const handleExportSong = useCallback(async (options: RenderOptions) => {
+    const blob = await exportSong(options);
+    downloadBlob(blob, `${state.projectName.trim() || 'Untitled Project'}.wav`);
+  }, [exportSong, state.projectName]);
+
+  const handleExportStems = useCallback(async (
+    options: RenderOptions,
+    onProgress: (index: number, total: number) => void,
+  ) => {
+    const blob = await exportStems(options, onProgress);
+    downloadBlob(blob, `${state.projectName.trim() || 'Untitled Project'} Stems.zip`);
+  }, [exportStems, state.projectName]);
+
+  const handleExportBundle = useCallback(async () => {
+    const blob = await exportProjectBundle();
+    downloadBlob(blob, `${state.projectName.trim() || 'Untitled Project'} Bundle.zip`);
+  }, [exportProjectBundle, state.projectName]);
+
+  const handleExportMidi = useCallback((scope: MidiExportScope) => {
+    const blob = exportMidi(scope);
+    const projectName = state.projectName.trim() || 'Untitled Project';
+    downloadBlob(blob, scope === 'song' ? `${projectName}.mid` : `${projectName} - ${activePattern?.name ?? 'Pattern'}.mid`);
+  }, [exportMidi, state.projectName, activePattern?.name]);
+
+  const handleMidiFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const source = analyzeMidiFile(decodeMidiFile(await file.arrayBuffer()));
+      setMidiImport({ fileName: file.name.replace(/\.midi?$/i, ''), source });
+    } catch {
+      setSaveStatus('Error reading MIDI file');
+    }
+  }, []);
+
+  const handleImportMidi = useCallback((options: MidiImportOptions) => {
+    if (!midiImport) return;
+    try {
+      const count = importMidi(midiImport.source, options, midiImport.fileName);
+      setSaveStatus(`Imported ${count} pattern(s)`);
+      setTimeout(() => setSaveStatus(null), 2000);
+    } catch {
+      setSaveStatus('Nothing to import');
+    }
+    setMidiImport(null);
+  }, [importMidi, midiImport]);
+
+  const handleInstrumentFilesChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      setInstrumentImport(await analyzeInstrumentFiles(files));
+    } catch (err) {
+      setSaveStatus(err instanceof Error ? err.message : 'Error reading instrument');
+    }
+  }, []);
+
+  const handleImportInstrument = useCallback(async (index: number) => {
+    if (!instrumentImport) return;
+    try {
+      const instrument = await buildImportedInstrument(instrumentImport, index);
+      const count = await importSamplerInstrument(instrument);
+      const missing = instrument.missingFiles.length;
+      setSaveStatus(`Imported ${instrument.name} (${count} zones${missing > 0 ? `, ${missing} sample file(s) missing` : ''})`);
+      setTimeout(() => setSaveStatus(null), missing > 0 ? 5000 : 2000);
+    } catch {
+      setSaveStatus('Error importing instrument');
+    }
+    setInstrumentImport(null);
+  }, [importSamplerInstrument, instrumentImport]);
+
+  const handleEnableMidi = useCallback(async () => {
+    try {
+      await enableMidiInput();
+    } catch {
+      setSaveStatus('MIDI input is not available');
+    }
+  }, [enableMidiInput]);
+
+  // MIDI learn: clicking a mappable control selects it instead of changing it
+  useEffect(() => {
+    if (!state.midiLearnActive) return;
+    const handler = (e: PointerEvent) => {
+      const control = (e.target as HTMLElement).closest<HTMLElement>('[data-midi-learn]');
+      if (!control?.dataset.midiLearn) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const range = control instanceof HTMLInputElement
+        ? { min: parseFloat(control.min), max: parseFloat(control.max) }
+        : undefined;
+      setMidiLearnTarget(control.dataset.midiLearn as MidiLearnTarget, range);
+    };
+    document.addEventListener('pointerdown', handler, true);
+    return () => document.removeEventListener('pointerdown', handler, true);
+  }, [state.midiLearnActive, setMidiLearnTarget]);
+
+  // Highlight the control waiting for a controller
+  const pendingLearnTarget = state.midiLearnPending?.target ?? null;
+  useEffect(() => {
+    if (!pendingLearnTarget) return;
+    const control = document.querySelector(`[data-midi-learn="${CSS.escape(pendingLearnTarget)}"]`);
+    control?.classList.add('midi-learn-pending');
+    return () => control?.classList.remove('midi-learn-pending');
+  }, [pendingLearnTarget]);
+
   // Global keyboard shortcuts
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -290,7 +500,7 @@ function App() {
   }, [handleSave, handleNew, undo, redo, togglePlay, toggleMetronome, setPlaybackMode, state.playbackMode]);
 
   return (
-    <div className="app">
+    <div className={`app${state.midiLearnActive ? ' midi-learn-active' : ''}`}>
       <header className="app-header">
         <h1>Musik Maker</h1>
         <span className="app-subtitle">Step Sequencer, Piano Roll &amp; Arrangement</span>
@@ -311,6 +521,34 @@ function App() {
           <button className="project-btn" onClick={handleOpenLoad}>
             Load
           </button>
+          <button className="project-btn" onClick={() => setShowExportDialog(true)}>
+            Export
+          </button>
+          <button className="project-btn" onClick={() => midiInputRef.current?.click()}>
+            Import MIDI
+          </button>
+          <input
+            ref={midiInputRef}
+            type="file"
+            accept=".mid,.midi,audio/midi"
+            style={{ display: 'none' }}
+            onChange={handleMidiFileChange}
+          />
+          <button
+            className="project-btn"
+            onClick={() => instrumentInputRef.current?.click()}
+            title="Import an SF2 SoundFont, or an SFZ file together with its sample files"
+          >
+            Import Instrument
+          </button>
+          <input
+            ref={instrumentInputRef}
+            type="file"
+            accept=".sfz,.sf2,audio/*"
+            multiple
+            style={{ display: 'none' }}
+            onChange={handleInstrumentFilesChange}
+          />
           {saveStatus && <span className="project-status">{saveStatus}</span>}
         </div>
       </header>
@@ -347,10 +585,59 @@ function App() {
                 ))}
               </ul>
             )}
+            <div className="load-dialog-footer">
+              <button className="project-btn" onClick={() => bundleInputRef.current?.click()}>
+                Import Bundle...
+              </button>
+              <input
+                ref={bundleInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                style={{ display: 'none' }}
+                onChange={handleImportBundle}
+              />
+            </div>
           </div>
         </div>
       )}
 
+      {showExportDialog && (
+        <ExportDialog
+          hasLoopRange={state.loopStart !== null && state.loopEnd !== null}
+          onExportSong={handleExportSong}
+          onExportStems={handleExportStems}
+          onExportBundle={handleExportBundle}
+          onExportMidi={handleExportMidi}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {midiImport && (
+        <MidiImportDialog
+          fileName={midiImport.fileName}
+          source={midiImport.source}
+          onImport={handleImportMidi}
+          onClose={() => setMidiImport(null)}
+        />
+      )}
+
+      {instrumentImport && (
+        <InstrumentImportDialog
+          source={instrumentImport}
+          onImport={handleImportInstrument}
+          onClose={() => setInstrumentImport(null)}
+        />
+      )}
+
+      {showMidiMappings && (
+        <MidiMappingDialog
+          state={state}
+          onUpdateMapping={updateMidiMapping}
+          onRemoveMapping={removeMidiMapping}
+          onClose={() => setShowMidiMappings(false)}
+        />
+      )}
+
       <TransportControls
         isPlaying={state.isPlaying}
         bpm={state.bpm}
@@ -365,6 +652,16 @@ function App() {
         onSwingChange={setSwing}
         onToggleMetronome={toggleMetronome}
         onClearAll={clearAll}
+        midiEnabled={state.midiEnabled}
+        midiInputs={state.midiInputs}
+        midiInputId={state.midiInputId}
+        recordArmed={state.recordArmed}
+        onEnableMidi={handleEnableMidi}
+        onSelectMidiInput={selectMidiInput}
+        onToggleRecordArm={toggleRecordArm}
+        midiLearnActive={state.midiLearnActive}
+        onToggleMidiLearn={toggleMidiLearn}
+        onShowMidiMappings={() => setShowMidiMappings(true)}
       />
 
       <PatternSelector
@@ -402,6 +699,10 @@ function App() {
             onToggleStep={toggleStep}
             onSetStepVelocity={setStepVelocity}
             onSetStepPitch={setStepPitch}
+            onSetDrumSynth={setTrackDrumSynth}
+            onSetDrumModel={setDrumTrackModel}
+            onAddDrumTrack={addDrumTrack}
+            onRemoveDrumTrack={removeDrumTrack}
             onStepCountChange={setPatternStepCount}
             onToggleSampleStep={toggleSampleStep}
             onSetSampleStepVelocity={setSampleStepVelocity}
@@ -423,26 +724,56 @@ function App() {
 
       {activeTab === 'piano-roll' && (
         <ResizablePanel defaultHeight={380} minHeight={120} maxHeight={800} className="panel-piano-roll" showDivider={false}>
-          {activePattern && (
+          {activePattern && activeInstrumentChannel && (
             <PianoRoll
-              pianoRoll={activePattern.pianoRoll}
+              pianoRoll={activeInstrumentChannel.pianoRoll}
+              instrumentChannels={activePattern.instrumentChannels}
+              activeInstrumentChannelId={activeInstrumentChannel.id}
               stepCount={activePattern.stepCount}
               currentStep={state.currentStep}
               isPlaying={state.isPlaying && state.playbackMode === 'pattern'}
-              synthSettings={activePattern.synthSettings}
+              synthSettings={activeInstrumentChannel.synthSettings}
+              instrument={activeInstrumentChannel.instrument}
+              sampler={activeInstrumentChannel.sampler}
+              samples={state.samples}
+              arpeggiator={activeInstrumentChannel.arpeggiator}
+              scale={activePattern.scale}
               onAddNote={addPianoNote}
+              onAddChord={addPianoChord}
               onDeleteNote={deletePianoNote}
               onUpdateNote={updatePianoNote}
               onSliceNote={slicePianoNote}
               onPreviewNote={previewPianoNote}
+              onKeyNoteOn={previewNoteOn}
+              onKeyNoteOff={previewNoteOff}
               onMoveNotes={movePianoNotes}
               onPasteNotes={pastePianoNotes}
               onUpdateNoteVelocity={updatePianoNoteVelocity}
+              onUpdateNoteExpression={updatePianoNoteExpression}
+              onSetNotesSlide={setPianoNotesSlide}
+              onTransformNotes={transformPianoNotes}
               onSynthSettingsChange={setSynthSettings}
+              onAddModRoute={addModRoute}
+              onUpdateModRoute={updateModRoute}
+              onRemoveModRoute={removeModRoute}
+              onLoadWavetable={loadWavetable}
+              onInstrumentChange={setChannelInstrument}
+              onSamplerChange={setSamplerSettings}
+              onAddSamplerZone={addSamplerZone}
+              onUpdateSamplerZone={updateSamplerZone}
+              onRemoveSamplerZone={removeSamplerZone}
+              onArpeggiatorChange={setArpeggiator}
+              onScaleChange={setPatternScale}
               onListPresets={listPresets}
               onSavePreset={savePreset}
               onLoadPreset={loadPreset}
               onDeletePreset={deleteServerPreset}
+              snapResolution={state.snapResolution}
+              onSnapResolutionChange={setSnapResolution}
+              onSelectInstrumentChannel={selectInstrumentChannel}
+              onAddInstrumentChannel={addInstrumentChannel}
+              onRemoveInstrumentChannel={removeInstrumentChannel}
+              onRenameInstrumentChannel={renameInstrumentChannel}
             />
           )}
         </ResizablePanel>
@@ -453,6 +784,7 @@ function App() {
           <Mixer
             tracks={tracks}
             sampleTracks={sampleTracks}
+            instrumentChannels={activePattern?.instrumentChannels ?? NO_INSTRUMENT_CHANNELS}
             masterVolume={state.masterVolume}
             masterReverb={state.masterReverb}
             masterDelay={state.masterDelay}
@@ -479,6 +811,13 @@ function App() {
             onSetSampleReverbSend={setSampleTrackReverbSend}
             onSetSampleDelaySend={setSampleTrackDelaySend}
             onSetSampleFilterSend={setSampleTrackFilterSend}
+            onSetInstrumentVolume={setInstrumentChannelVolume}
+            onSetInstrumentPan={setInstrumentChannelPan}
+            onToggleInstrumentMute={toggleInstrumentChannelMute}
+            onToggleInstrumentSolo={toggleInstrumentChannelSolo}
+            onSetInstrumentReverbSend={setInstrumentChannelReverbSend}
+            onSetInstrumentDelaySend={setInstrumentChannelDelaySend}
+            onSetInstrumentFilterSend={setInstrumentChannelFilterSend}
             onAddInsertEffect={addInsertEffect}
             onRemoveInsertEffect={removeInsertEffect}
             onToggleInsertEffect={toggleInsertEffect}
@@ -554,6 +893,8 @@ function App() {
             playbackMode={state.playbackMode}
             drumTracks={tracks}
             sampleTracks={sampleTracks}
+            synthChannelId={activeInstrumentChannel?.id ?? ''}
+            modRoutes={activeInstrumentChannel?.synthSettings.modMatrix ?? NO_MOD_ROUTES}
             onAddLane={addAutomationLane}
             onRemoveLane={removeAutomationLane}
             onToggleLane={toggleAutomationLane}
@@ -1,4 +1,6 @@
-import type { InstrumentName, ReverbSettings, DelaySettings, DelaySync, FilterSettings, MasterLimiterSettings, SynthSettings, OscillatorType, SampleFormat, InsertEffect, FilterEffectParams, ReverbEffectParams, DelayEffectParams, DistortionEffectParams, ChorusEffectParams, FlangerEffectParams, PhaserEffectParams, CompressorEffectParams, EQBand } from '../types';
+import type { DrumModel, DrumSynthParams, OutputTap, ReverbSettings, DelaySettings, DelaySync, FilterSettings, MasterLimiterSettings, SynthSettings, SamplerSettings, SamplerZone, OscillatorType, OscillatorModeSettings, WavetableFrame, ModSource, ModDestination, PianoNoteExpression, LfoSettings, LfoDivision, LfoWaveform, SynthFilterType, SynthFilterSlope, VoiceStealing, SampleFormat, InsertEffect, FilterEffectParams, ReverbEffectParams, DelayEffectParams, DistortionEffectParams, ChorusEffectParams, FlangerEffectParams, PhaserEffectParams, CompressorEffectParams, EQBand } from '../types';
+import { DEFAULT_DRUM_SYNTH_PARAMS } from '../types';
+import { getWavetableFrames } from './wavetables';
 
 /** Accepted MIME types for sample loading */
 const SAMPLE_MIME_TYPES: Record<SampleFormat, string> = {
@@ -10,20 +12,178 @@ const SAMPLE_MIME_TYPES: Record<SampleFormat, string> = {
 export const ACCEPTED_SAMPLE_EXTENSIONS: SampleFormat[] = ['wav', 'mp3', 'ogg'];
 export const ACCEPTED_SAMPLE_MIME_TYPES = Object.values(SAMPLE_MIME_TYPES).join(',');
 
+/** Voices per synth pool when the settings don't specify a polyphony */
+const DEFAULT_POLYPHONY = 8;
+/** Glide time (seconds) of slide notes when the synth has no glide set (TB-303 style) */
+const SLIDE_TIME = 0.06;
+/** Time constant (seconds) of the fade-out of a stolen voice */
+const STEAL_FADE_TIME = 0.005;
+/** How far a note's mod value of ±1 moves the synth's filter cutoff */
+const NOTE_MOD_OCTAVES = 4;
+
+/** How far each modulation destination moves at amount ±1 (see ModDestination) */
+const MOD_DESTINATION_RANGES: Record<ModDestination, number> = {
+  osc1Pitch: 1200,
+  osc2Pitch: 1200,
+  osc3Pitch: 1200,
+  osc1Level: 1,
+  osc2Level: 1,
+  osc3Level: 1,
+  detune: 100,
+  cutoff: 4800,
+  resonance: 12,
+  unisonSpread: 100,
+  pan: 1,
+  amp: 1,
+};
+
+/** Length of one tempo-synced LFO cycle, in quarter notes */
+const LFO_DIVISION_BEATS: Record<LfoDivision, number> = {
+  '4/1': 16,
+  '2/1': 8,
+  '1/1': 4,
+  '1/2': 2,
+  '1/4D': 1.5,
+  '1/4': 1,
+  '1/4T': 2 / 3,
+  '1/8D': 0.75,
+  '1/8': 0.5,
+  '1/8T': 1 / 3,
+  '1/16': 0.25,
+  '1/16T': 1 / 6,
+  '1/32': 0.125,
+};
+
+/** Harmonics of the phase-shifted LFO waveforms */
+const LFO_HARMONICS = 32;
+
+/** Sine amplitude of harmonic n (1-based) of each LFO waveform, as the oscillator types play them */
+const LFO_WAVEFORM_HARMONICS: Record<LfoWaveform, (n: number) => number> = {
+  sine: (n) => (n === 1 ? 1 : 0),
+  sawtooth: (n) => (2 / (Math.PI * n)) * (n % 2 === 1 ? 1 : -1),
+  square: (n) => (n % 2 === 1 ? 4 / (Math.PI * n) : 0),
+  triangle: (n) => (n % 2 === 1 ? (8 / (Math.PI * Math.PI * n * n)) * (n % 4 === 1 ? 1 : -1) : 0),
+};
+
+/** Upper bound for drum filter frequencies (Hz) */
+const MAX_DRUM_FREQ = 20000;
+
+/** Map a 0–1 drum parameter to a multiplier spanning ±`octaves` (0.5 = 1×). */
+function drumParamRatio(value: number, octaves: number): number {
+  return Math.pow(2, (value - 0.5) * 2 * octaves);
+}
+
+/**
+ * Estimated amp envelope level of a voice at `time`: linear attack and decay
+ * to the sustain level, then an exponential fade over the release.
+ */
+function getVoiceLevel(voice: PianoVoice, time: number): number {
+  if (time >= voice.endTime) return 0;
+  const { attack, decay, sustain } = voice.envelope;
+  const envelopeLevel = (t: number) => {
+    const elapsed = t - voice.startTime;
+    if (elapsed <= 0) return 0;
+    if (elapsed < attack) return voice.volume * (elapsed / attack);
+    if (elapsed < attack + decay) return voice.volume + (sustain - voice.volume) * ((elapsed - attack) / decay);
+    return sustain;
+  };
+  if (voice.releaseTime === null || time < voice.releaseTime) return envelopeLevel(time);
+  const releaseLevel = envelopeLevel(voice.releaseTime);
+  if (releaseLevel <= 0.001) return releaseLevel;
+  const progress = (time - voice.releaseTime) / (voice.endTime - voice.releaseTime);
+  return releaseLevel * Math.pow(0.001 / releaseLevel, progress);
+}
+
+/** A synth note owned by a voice pool */
+interface PianoVoice {
+  /** Note currently sounding (changes when a legato note takes the voice over) */
+  midiNote: number;
+  volume: number;
+  startTime: number;
+  /** When the release phase starts (null while held) */
+  releaseTime: number | null;
+  /** When the voice falls silent (Infinity while held) */
+  endTime: number;
+  /** Amp envelope times (s) and sustain level, to estimate how loud the voice is */
+  envelope: { attack: number; decay: number; sustain: number };
+  /** Change pitch without retriggering the envelopes, sweeping over `glideTime` seconds */
+  setNote: (midiNote: number, time: number, glideTime: number) => void;
+  release: (time: number, fromCurrentLevel: boolean) => void;
+  /** Fade out quickly to make room for another note */
+  steal: (time: number) => void;
+}
+
+/** One oscillator of a synth voice, built in its basic, wavetable or FM mode */
+interface SynthOscillator {
+  /** Output of the oscillator, before its mix level */
+  output: AudioNode;
+  /** Source nodes, started and stopped with the voice */
+  sources: OscillatorNode[];
+  /** Params that follow the note, as multiples of the oscillator frequency (retuned on glides) */
+  pitched: Array<{ param: AudioParam; multiple: number }>;
+  /** Detune params of every source, for unison spread and pitch LFOs */
+  detunes: AudioParam[];
+}
+
+/** One filter stage of a synth voice */
+interface SynthFilterStage {
+  input: AudioNode;
+  output: AudioNode;
+  /** Biquads in series, one per 12 dB of slope */
+  poles: BiquadFilterNode[];
+  /** The pole carrying the resonance */
+  resonant: BiquadFilterNode;
+}
+
+/** Wavetable position of one oscillator of a note, shared by its unison voices */
+interface WavetablePosition {
+  /** Position offset (0–1), swept by the envelope and LFOs */
+  source: ConstantSourceNode;
+  /** Gain of each frame at the current position */
+  weights: WaveShaperNode[];
+  base: number;
+}
+
+/** A sampler zone with its sample resolved to the URL of its loaded buffer */
+export interface SamplerVoiceZone extends SamplerZone {
+  url: string;
+}
+
+/** Sampler settings as played by the engine (zones without a sample left out) */
+export interface SamplerVoiceSettings extends Omit<SamplerSettings, 'zones'> {
+  zones: SamplerVoiceZone[];
+}
+
+/** The voices of one piano roll instrument (a pattern's synth or sampler) */
+interface VoicePool {
+  voices: PianoVoice[];
+  /** Keys held in mono/legato mode, most recent last */
+  heldNotes: Array<{
+    midiNote: number;
+    volume: number;
+    settings: SynthSettings | undefined;
+    sampler: SamplerVoiceSettings | null;
+    expression: PianoNoteExpression;
+    barStart: number | null;
+  }>;
+  /** Most recently started note, where glides start from */
+  lastNote: number | null;
+}
+
 class AudioEngine {
-  private context: AudioContext;
+  private context: BaseAudioContext;
   private masterGain: GainNode;
   private noiseBuffer: AudioBuffer;
-  private channelGains: Map<InstrumentName, GainNode> = new Map();
-  private panners: Map<InstrumentName, StereoPannerNode> = new Map();
-  private channelAnalysers: Map<InstrumentName, AnalyserNode> = new Map();
+  private channelGains: Map<string, GainNode> = new Map();
+  private panners: Map<string, StereoPannerNode> = new Map();
+  private channelAnalysers: Map<string, AnalyserNode> = new Map();
   private masterAnalyser: AnalyserNode;
 
   // Master bus limiter (DynamicsCompressor configured as a brickwall limiter)
   private masterLimiter: DynamicsCompressorNode;
 
   // Reverb send/return bus
-  private reverbSendGains: Map<InstrumentName, GainNode> = new Map();
+  private reverbSendGains: Map<string, GainNode> = new Map();
   private reverbBus: GainNode;
   private reverbPreDelay: DelayNode;
   private reverbConvolver: ConvolverNode;
@@ -31,7 +191,7 @@ class AudioEngine {
   private reverbReturnGain: GainNode;
 
   // Delay send/return bus
-  private delaySendGains: Map<InstrumentName, GainNode> = new Map();
+  private delaySendGains: Map<string, GainNode> = new Map();
   private delayBus: GainNode;
   private delayNode: DelayNode;
   private delayFeedback: GainNode;
@@ -39,8 +199,15 @@ class AudioEngine {
   private delayReturnGain: GainNode;
   private delayBpm: number = 120;
 
+  /** Tempo that tempo-synced synth LFOs follow */
+  private bpm: number = 120;
+  /** Running tempo-synced LFOs, retuned on tempo changes */
+  private syncedLfos: Map<OscillatorNode, LfoDivision> = new Map();
+  /** Phase-shifted LFO waveforms, keyed `waveform:degrees` */
+  private lfoWaves: Map<string, PeriodicWave> = new Map();
+
   // Filter send/return bus
-  private filterSendGains: Map<InstrumentName, GainNode> = new Map();
+  private filterSendGains: Map<string, GainNode> = new Map();
   private filterBus: GainNode;
   private filterNode: BiquadFilterNode;
   private filterReturnGain: GainNode;
@@ -79,8 +246,26 @@ class AudioEngine {
   // Track which mixer track each channel is routed to (channelId → mixerTrackId)
   private channelMixerRouting: Map<string, string> = new Map();
 
-  constructor() {
-    this.context = new AudioContext();
+  // Synth voice pools keyed by instrument channel ID
+  private voicePools: Map<string, VoicePool> = new Map();
+  // Next zone to play per sampler round-robin group, keyed by `${poolId}:${group}`
+  private samplerRoundRobin: Map<string, number> = new Map();
+
+  // Saturation curves for drum drive, keyed by drive in percent
+  private driveCurves: Map<number, Float32Array<ArrayBuffer>> = new Map();
+  /** MIDI modulation wheel (0–1), a modulation source shared by every synth voice */
+  private modWheel: ConstantSourceNode;
+  /** PeriodicWaves of the wavetables played so far, per frame list */
+  private periodicWaves: WeakMap<WavetableFrame[], PeriodicWave[]> = new WeakMap();
+  /** Frame crossfade curves of the wavetable oscillators, keyed `frameCount:frame` */
+  private frameWeightCurves: Map<string, Float32Array<ArrayBuffer>> = new Map();
+
+  /**
+   * @param context  Context to build the graph in. Pass an OfflineAudioContext
+   *                 to render the same graph faster than real time.
+   */
+  constructor(context: BaseAudioContext = new AudioContext()) {
+    this.context = context;
     this.masterGain = this.context.createGain();
 
     // Master bus limiter (brickwall limiter before the analyser/output)
@@ -101,6 +286,10 @@ class AudioEngine {
     this.masterAnalyser.connect(this.context.destination);
     this.masterGain.gain.value = 0.8;
 
+    this.modWheel = this.context.createConstantSource();
+    this.modWheel.offset.value = 0;
+    this.modWheel.start();
+
     // Reverb send/return bus
     // Signal flow: channel send gains → reverbBus → preDelay → convolver → damping → returnGain → masterGain
     this.reverbBus = this.context.createGain();
@@ -160,46 +349,9 @@ class AudioEngine {
     this.filterNode.connect(this.filterReturnGain);
     this.filterReturnGain.connect(this.masterGain);
 
-    // Create a gain + stereo panner + analyser per instrument channel
-    const instruments: InstrumentName[] = ['kick', 'snare', 'hihat', 'clap', 'openhat', 'percussion'];
-    for (const name of instruments) {
-      const analyser = this.context.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.3;
-
-      // Channel gain node for real-time volume automation
-      const channelGain = this.context.createGain();
-      channelGain.gain.value = 1; // unity by default; per-hit volume multiplied at trigger time
-
-      const panner = this.context.createStereoPanner();
-      channelGain.connect(panner);
-      panner.connect(analyser);
-      analyser.connect(this.masterGain);
-
-      // Reverb send: taps from panner output into the reverb bus
-      const sendGain = this.context.createGain();
-      sendGain.gain.value = 0; // dry by default
-      panner.connect(sendGain);
-      sendGain.connect(this.reverbBus);
-
-      // Delay send: taps from panner output into the delay bus
-      const delaySendGain = this.context.createGain();
-      delaySendGain.gain.value = 0; // dry by default
-      panner.connect(delaySendGain);
-      delaySendGain.connect(this.delayBus);
-
-      // Filter send: taps from panner output into the filter bus
-      const filterSendGain = this.context.createGain();
-      filterSendGain.gain.value = 0; // dry by default
-      panner.connect(filterSendGain);
-      filterSendGain.connect(this.filterBus);
-
-      this.channelGains.set(name, channelGain);
-      this.panners.set(name, panner);
-      this.channelAnalysers.set(name, analyser);
-      this.reverbSendGains.set(name, sendGain);
-      this.delaySendGains.set(name, delaySendGain);
-      this.filterSendGains.set(name, filterSendGain);
+    // Channels of the stock drum kit; user-added drum channels are created on demand
+    for (const id of ['kick', 'snare', 'hihat', 'clap', 'openhat', 'percussion']) {
+      this.ensureDrumChannel(id);
     }
 
     // Pre-generate a reusable white noise buffer (2 seconds of noise)
@@ -213,27 +365,199 @@ class AudioEngine {
   }
 
   async resume(): Promise<void> {
-    if (this.context.state === 'suspended') {
+    // Offline contexts are driven by startRendering(), never resumed here
+    if (this.context instanceof AudioContext && this.context.state === 'suspended') {
       await this.context.resume();
     }
   }
 
+  /** Current time of the audio clock in seconds (the scheduler's timebase). */
+  getCurrentTime(): number {
+    return this.context.currentTime;
+  }
+
   /**
-   * Play a pitched piano note using a polyphonic subtractive synth.
+   * Play a pitched piano note through an instrument channel's voice pool.
+   * @param poolId    Voice pool the note belongs to (the instrument channel ID)
    * @param midiNote  MIDI note number (60 = C4)
    * @param volume    0–1
    * @param duration  Duration in seconds
    * @param settings  Optional synth voice settings (oscillator types, detune, filter)
+   * @param time      AudioContext time to start at (defaults to now)
+   * @param slide     Glide into this note from the previous one without retriggering
+   * @param sampler   Play the note on this sampler instead of the synth oscillators
+   * @param expression  The note's pan, fine pitch, release velocity and mod value (synth only)
+   * @param barStart  Start time of the bar the note is in, where LFOs retriggered per bar
+   *                  restart (null restarts them at the note, as outside the sequencer)
    */
   async playPianoNote(
+    poolId: string,
     midiNote: number,
     volume: number,
     duration: number = 0.2,
     settings?: SynthSettings,
+    time?: number,
+    slide: boolean = false,
+    sampler: SamplerVoiceSettings | null = null,
+    expression: PianoNoteExpression = {},
+    barStart: number | null = null,
   ): Promise<void> {
     await this.resume();
-    const now = this.context.currentTime;
-    const freq = 440 * Math.pow(2, (midiNote - 69) / 12);
+    const now = time ?? this.context.currentTime;
+    this.startVoice(poolId, midiNote, volume, settings, now, slide, sampler, expression, barStart);
+    this.releaseVoice(poolId, midiNote, now + duration);
+  }
+
+  /**
+   * Start a synth or sampler note that sustains until noteOff (live MIDI input).
+   * @param volume  0–1
+   */
+  async noteOn(
+    poolId: string,
+    midiNote: number,
+    volume: number,
+    settings?: SynthSettings,
+    sampler: SamplerVoiceSettings | null = null,
+  ): Promise<void> {
+    await this.resume();
+    this.startVoice(poolId, midiNote, volume, settings, this.context.currentTime, false, sampler);
+  }
+
+  /** Release a note started with noteOn. */
+  noteOff(poolId: string, midiNote: number): void {
+    this.releaseVoice(poolId, midiNote, this.context.currentTime);
+  }
+
+  /**
+   * Allocate a voice for a note at `time`: retune the held voice in legato
+   * mode or for a slide note, otherwise start a new one, stealing voices
+   * beyond the polyphony limit.
+   * @param slide    Glide into this note from the previous one without retriggering
+   * @param sampler  Sampler to build the voice from instead of the synth oscillators
+   */
+  private startVoice(
+    poolId: string,
+    midiNote: number,
+    volume: number,
+    settings: SynthSettings | undefined,
+    time: number,
+    slide: boolean = false,
+    sampler: SamplerVoiceSettings | null = null,
+    expression: PianoNoteExpression = {},
+    barStart: number | null = null,
+  ): void {
+    this.ensureInstrumentChannel(poolId);
+    let pool = this.voicePools.get(poolId);
+    if (!pool) {
+      pool = { voices: [], heldNotes: [], lastNote: null };
+      this.voicePools.set(poolId, pool);
+    }
+    pool.voices = pool.voices.filter((v) => v.endTime > time);
+    const mode = settings?.voiceMode ?? 'poly';
+    const glideTime = settings?.glideTime ?? 0;
+    const previousNote = pool.lastNote;
+    pool.lastNote = midiNote;
+    // A voice still sounding the previous note; a slide also joins a note ending right now
+    const held = pool.voices.filter((v) =>
+      v.releaseTime === null || v.releaseTime > time || (slide && v.releaseTime === time),
+    ).pop();
+
+    if (mode !== 'poly') {
+      pool.heldNotes = pool.heldNotes.filter((n) => n.midiNote !== midiNote);
+      pool.heldNotes.push({ midiNote, volume, settings, sampler, expression, barStart });
+    } else {
+      pool.heldNotes = [];
+    }
+
+    if (held && (slide || mode === 'legato')) {
+      held.setNote(midiNote, time, slide && glideTime === 0 ? SLIDE_TIME : glideTime);
+      return;
+    }
+
+    let glideFrom: number | null = null;
+    if (mode !== 'poly') {
+      // Mono retriggers; it glides from the previous note when notes overlap
+      // (or always, in "always" glide mode)
+      const glideAlways = settings?.glideMode === 'always';
+      if (glideTime > 0 && (glideAlways || held)) glideFrom = previousNote;
+      for (const voice of pool.voices) voice.steal(time);
+      pool.voices = [];
+    } else {
+      const polyphony = Math.max(1, settings?.polyphony ?? DEFAULT_POLYPHONY);
+      while (pool.voices.length >= polyphony) {
+        const victim = this.pickVoiceToSteal(pool.voices, time, settings?.voiceStealing ?? 'oldest');
+        victim.steal(time);
+        pool.voices = pool.voices.filter((v) => v !== victim);
+      }
+    }
+
+    const voice = sampler
+      ? this.createSamplerVoice(poolId, glideFrom ?? midiNote, volume, sampler, time)
+      : this.createPianoVoice(poolId, glideFrom ?? midiNote, volume, settings, time, expression, barStart);
+    if (glideFrom !== null) voice.setNote(midiNote, time, glideTime);
+    pool.voices.push(voice);
+  }
+
+  /**
+   * The voice with the lowest envelope level at `time`, or the oldest one
+   * (voices already in their release phase first).
+   */
+  private pickVoiceToSteal(voices: PianoVoice[], time: number, stealing: VoiceStealing): PianoVoice {
+    if (stealing === 'quietest') {
+      return voices.reduce((best, v) => (getVoiceLevel(v, time) < getVoiceLevel(best, time) ? v : best));
+    }
+    const releasing = voices.filter((v) => v.releaseTime !== null && v.releaseTime <= time);
+    const candidates = releasing.length > 0 ? releasing : voices;
+    return candidates.reduce((best, v) => (v.startTime < best.startTime ? v : best));
+  }
+
+  /**
+   * End a note at `time`. In mono and legato modes, releasing the sounding
+   * key falls back to the most recent key still held.
+   */
+  private releaseVoice(poolId: string, midiNote: number, time: number): void {
+    const pool = this.voicePools.get(poolId);
+    if (!pool) return;
+    const voice = pool.voices.find((v) => v.midiNote === midiNote && v.releaseTime === null);
+    const wasHeld = pool.heldNotes.length > 0;
+    pool.heldNotes = pool.heldNotes.filter((n) => n.midiNote !== midiNote);
+    if (!voice) return;
+
+    const previous = pool.heldNotes[pool.heldNotes.length - 1];
+    if (wasHeld && previous) {
+      if (previous.settings?.voiceMode === 'legato') {
+        voice.setNote(previous.midiNote, time, previous.settings.glideTime ?? 0);
+        pool.lastNote = previous.midiNote;
+      } else {
+        pool.heldNotes.pop();
+        this.startVoice(
+          poolId, previous.midiNote, previous.volume, previous.settings, time, false, previous.sampler,
+          previous.expression, previous.barStart,
+        );
+      }
+      return;
+    }
+    voice.release(time, false);
+  }
+
+  /**
+   * Build the oscillators, filter, envelopes and LFOs of one synth note.
+   * The note is held until its release() is called. Its expression stays
+   * with the voice when a legato note takes it over.
+   */
+  private createPianoVoice(
+    poolId: string,
+    midiNote: number,
+    volume: number,
+    settings: SynthSettings | undefined,
+    now: number,
+    expression: PianoNoteExpression = {},
+    barStart: number | null = null,
+  ): PianoVoice {
+    const fineRatio = Math.pow(2, (expression.fine ?? 0) / 1200);
+    const noteFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12) * fineRatio;
+    const freq = noteFrequency(midiNote);
+    const noteMod = expression.mod ?? 0;
 
     const osc1Type: OscillatorType = settings?.oscType ?? 'sawtooth';
     const osc1Octave = settings?.oscOctave ?? 0;
@@ -246,38 +570,87 @@ class AudioEngine {
     const osc3Detune = settings?.osc3Detune ?? 0;
     const osc3Octave = settings?.osc3Octave ?? 0;
     const osc3Mix = settings?.osc3Mix ?? 0;
-    const cutoff = settings?.filterCutoff ?? Math.min(freq * 4, 12000);
+    const cutoff = Math.min(
+      (settings?.filterCutoff ?? Math.min(freq * 4, 12000)) * Math.pow(2, noteMod * NOTE_MOD_OCTAVES),
+      20000,
+    );
     const resonance = settings?.filterResonance ?? 1;
+    const ladderDrive = settings?.filterMode === 'ladder' ? settings.filterDrive : null;
+    const filter2Enabled = settings?.filter2Enabled ?? false;
+    // Key tracking moves every filter pole by cents relative to C4
+    const filterKeyTrack = settings?.filterKeyTrack ?? 0;
+    const keyTrackCents = (note: number) => (note - 60) * 100 * filterKeyTrack;
 
     // Unison settings
     const unisonVoices = settings?.unisonVoices ?? 1;
     const unisonSpread = settings?.unisonSpread ?? 20;
     const unisonPanSpread = settings?.unisonPan ?? 0.5;
 
+    // Filter envelope params
+    const filterEnvAmount = settings?.filterEnvAmount ?? 0;
+    const fAttack = settings?.filterEnvAttack ?? 0.005;
+    const fDecay = settings?.filterEnvDecay ?? 0.3;
+    const fSustainLevel = settings?.filterEnvSustain ?? 0;
+    const fRelease = settings?.filterEnvRelease ?? 0.15;
+    const peakCutoff = Math.min(cutoff * Math.pow(2, filterEnvAmount / 12), 20000);
+    const sustainCutoff = cutoff + (peakCutoff - cutoff) * fSustainLevel;
+
     // ADSR envelope params (shared across all unison voices)
     const attack = settings?.ampAttack ?? 0.005;
     const decay = settings?.ampDecay ?? 0.05;
     const sustainLevel = (settings?.ampSustain ?? 0.7) * volume;
-    const release = settings?.ampRelease ?? 0.15;
+    // Release velocity scales the release from 2× (0) to ½× (1)
+    const ampRelease = (settings?.ampRelease ?? 0.15) * Math.pow(2, 1 - 2 * (expression.releaseVelocity ?? 0.5));
 
     const attackEnd = now + attack;
     const decayEnd = attackEnd + decay;
-    const releaseStart = now + duration;
-    const releaseEnd = releaseStart + release;
 
     // Volume compensation: 1/sqrt(N) to maintain perceived loudness
     const voiceGainCompensation = 1 / Math.sqrt(unisonVoices);
 
-    // Collect all oscillator nodes for starting/stopping
-    const allOscillators: OscillatorNode[] = [];
-    // Collect per-voice nodes for LFO connections
+    // Oscillators of the note: osc 1 and 2 always sound, osc 3 when enabled
+    const oscSpecs: Array<{ type: OscillatorType; octave: number; detune: number; mix: number; mode: OscillatorModeSettings | undefined }> = [
+      { type: osc1Type, octave: osc1Octave, detune: 0, mix: 1 - osc2Mix, mode: settings?.osc1Mode },
+      { type: osc2Type, octave: osc2Octave, detune: detuneCents, mix: osc2Mix, mode: settings?.osc2Mode },
+    ];
+    if (osc3Enabled && osc3Mix > 0) {
+      oscSpecs.push({ type: osc3Type, octave: osc3Octave, detune: osc3Detune, mix: osc3Mix, mode: settings?.osc3Mode });
+    }
+
+    // Wavetable positions follow the filter envelope's shape, scaled by wtEnvAmount
+    const wtEnvAmount = settings?.wtEnvAmount ?? 0;
+    const positions = oscSpecs.map((spec) => {
+      if (spec.mode?.mode !== 'wavetable') return null;
+      const position = this.createWavetablePosition(getWavetableFrames(spec.mode).length, spec.mode.wtPosition, now);
+      if (wtEnvAmount !== 0) {
+        position.source.offset.linearRampToValueAtTime(position.base + wtEnvAmount, now + fAttack);
+        position.source.offset.linearRampToValueAtTime(position.base + wtEnvAmount * fSustainLevel, now + fAttack + fDecay);
+      }
+      return position;
+    });
+    const positionSources = positions.flatMap((position) => (position ? [position.source] : []));
+
+    // Filter poles retuned by key tracking when a legato note takes over the voice
+    const keyTrackedPoles: BiquadFilterNode[] = [];
+    // Collect all source nodes for starting/stopping
+    const allOscillators: AudioScheduledSourceNode[] = [...positionSources];
+    // Params following the note frequency, retuned when a legato note takes over the voice
+    const pitchedParams: Array<{ param: AudioParam; multiple: number }> = [];
+    // Collect per-voice nodes for LFO and modulation matrix connections
     const voiceNodes: Array<{
-      osc1: OscillatorNode;
-      osc2: OscillatorNode;
-      osc3: OscillatorNode | null;
-      filter: BiquadFilterNode;
+      detunes: AudioParam[];
+      /** Detune params and mix gain of each oscillator, in oscSpecs order */
+      oscs: Array<{ detunes: AudioParam[]; mix: GainNode }>;
+      /** Position of the voice in the unison spread (−0.5 to 0.5) */
+      spread: number;
+      /** Poles of filter 1, which the filter envelope and modulation move */
+      filters: BiquadFilterNode[];
+      resonant: BiquadFilterNode;
       gain: GainNode;
+      /** Level after the envelope, modulated by tremolo and the amp destination */
+      level: GainNode;
       panNode: StereoPannerNode;
+      sustain: number;
     }> = [];
 
     for (let v = 0; v < unisonVoices; v++) {
@@ -291,65 +664,52 @@ class AudioEngine {
         ? 0
         : ((v / (unisonVoices - 1)) - 0.5) * unisonPanSpread * 2;
 
-      // Oscillator 1 (with octave offset + unison detune)
-      const osc1 = this.context.createOscillator();
-      osc1.type = osc1Type;
-      osc1.frequency.setValueAtTime(freq * Math.pow(2, osc1Octave), now);
-      osc1.detune.setValueAtTime(detuneOffset, now);
-
-      // Oscillator 2 (detuned, with octave offset + unison detune)
-      const osc2 = this.context.createOscillator();
-      osc2.type = osc2Type;
-      osc2.frequency.setValueAtTime(freq * Math.pow(2, osc2Octave), now);
-      osc2.detune.setValueAtTime(detuneCents + detuneOffset, now);
-
-      // Oscillator mix gains
-      const osc1Gain = this.context.createGain();
-      osc1Gain.gain.value = 1 - osc2Mix;
-      const osc2Gain = this.context.createGain();
-      osc2Gain.gain.value = osc2Mix;
-
-      // Oscillator 3 (optional, with its own detune and octave + unison detune)
-      let osc3: OscillatorNode | null = null;
-      let osc3GainNode: GainNode | null = null;
-      if (osc3Enabled && osc3Mix > 0) {
-        osc3 = this.context.createOscillator();
-        osc3.type = osc3Type;
-        osc3.frequency.setValueAtTime(freq * Math.pow(2, osc3Octave), now);
-        osc3.detune.setValueAtTime(osc3Detune + detuneOffset, now);
-
-        osc3GainNode = this.context.createGain();
-        osc3GainNode.gain.value = osc3Mix;
+      // Filter 1, and filter 2 after or alongside it
+      const filter1 = this.createSynthFilterStage(
+        settings?.filterType ?? 'lowpass', settings?.filterSlope ?? 12, ladderDrive, cutoff, resonance, keyTrackCents(midiNote), now,
+      );
+      let filterOutputs = [filter1.output];
+      if (filter2Enabled && settings) {
+        const filter2 = this.createSynthFilterStage(
+          settings.filter2Type, settings.filter2Slope, null, settings.filter2Cutoff, settings.filter2Resonance, keyTrackCents(midiNote), now,
+        );
+        if (settings.filterRouting === 'parallel') {
+          filter1.input.connect(filter2.input);
+          filterOutputs.push(filter2.output);
+        } else {
+          filter1.output.connect(filter2.input);
+          filterOutputs = [filter2.output];
+        }
+        keyTrackedPoles.push(...filter2.poles);
       }
-
-      // Low-pass filter (subtractive)
-      const filter = this.context.createBiquadFilter();
-      filter.type = 'lowpass';
-      filter.Q.setValueAtTime(resonance, now);
-
-      // Filter envelope
-      const filterEnvAmount = settings?.filterEnvAmount ?? 0;
+      keyTrackedPoles.push(...filter1.poles);
+
+      // Oscillators (with octave offset, their own detune + unison detune) → mix gains → filter
+      const detunes: AudioParam[] = [];
+      const oscs = oscSpecs.map((spec, i) => {
+        const octaveRatio = Math.pow(2, spec.octave);
+        const osc = this.createSynthOscillator(
+          spec.type, spec.mode, freq * octaveRatio, spec.detune + detuneOffset, now, positions[i]?.weights ?? null,
+        );
+        const mixGain = this.context.createGain();
+        mixGain.gain.value = spec.mix;
+        osc.output.connect(mixGain);
+        mixGain.connect(filter1.input);
+        allOscillators.push(...osc.sources);
+        for (const { param, multiple } of osc.pitched) pitchedParams.push({ param, multiple: multiple * octaveRatio });
+        detunes.push(...osc.detunes);
+        return { detunes: osc.detunes, mix: mixGain };
+      });
+
+      // Filter envelope (its release is scheduled by releaseVoice)
       if (filterEnvAmount > 0) {
-        const fAttack = settings?.filterEnvAttack ?? 0.005;
-        const fDecay = settings?.filterEnvDecay ?? 0.3;
-        const fSustainLevel = settings?.filterEnvSustain ?? 0;
-        const fRelease = settings?.filterEnvRelease ?? 0.15;
-
-        const peakCutoff = Math.min(cutoff * Math.pow(2, filterEnvAmount / 12), 20000);
-        const sustainCutoff = cutoff + (peakCutoff - cutoff) * fSustainLevel;
-
         const fAttackEnd = now + fAttack;
         const fDecayEnd = fAttackEnd + fDecay;
-        const fReleaseStart = now + duration;
-        const fReleaseEnd = fReleaseStart + fRelease;
-
-        filter.frequency.setValueAtTime(cutoff, now);
-        filter.frequency.linearRampToValueAtTime(peakCutoff, fAttackEnd);
-        filter.frequency.linearRampToValueAtTime(sustainCutoff, fDecayEnd);
-        filter.frequency.setValueAtTime(sustainCutoff, fReleaseStart);
-        filter.frequency.linearRampToValueAtTime(cutoff, fReleaseEnd);
-      } else {
-        filter.frequency.setValueAtTime(cutoff, now);
+
+        for (const filter of filter1.poles) {
+          filter.frequency.linearRampToValueAtTime(peakCutoff, fAttackEnd);
+          filter.frequency.linearRampToValueAtTime(sustainCutoff, fDecayEnd);
+        }
       }
 
       // ADSR envelope (with unison gain compensation)
@@ -360,39 +720,41 @@ class AudioEngine {
       gain.gain.setValueAtTime(0, now);
       gain.gain.linearRampToValueAtTime(voiceVol, attackEnd);
       gain.gain.linearRampToValueAtTime(voiceSustain, decayEnd);
-      gain.gain.setValueAtTime(voiceSustain, releaseStart);
-      gain.gain.exponentialRampToValueAtTime(0.001, releaseEnd);
-
-      // Connect oscillators → filter → gain → pan → master
-      osc1.connect(osc1Gain);
-      osc2.connect(osc2Gain);
-      osc1Gain.connect(filter);
-      osc2Gain.connect(filter);
-      if (osc3 && osc3GainNode) {
-        osc3.connect(osc3GainNode);
-        osc3GainNode.connect(filter);
-      }
-      filter.connect(gain);
 
-      const panNode = this.context.createStereoPanner();
-      panNode.pan.setValueAtTime(panOffset, now);
-      gain.connect(panNode);
-      panNode.connect(this.masterGain);
+      // Connect filters → gain → level → pan → instrument channel
+      for (const output of filterOutputs) output.connect(gain);
+      const level = this.context.createGain();
+      level.gain.setValueAtTime(1, now);
+      gain.connect(level);
 
-      allOscillators.push(osc1, osc2);
-      if (osc3) allOscillators.push(osc3);
+      const panNode = this.context.createStereoPanner();
+      panNode.pan.setValueAtTime(Math.max(-1, Math.min(1, panOffset + (expression.pan ?? 0))), now);
+      level.connect(panNode);
+      panNode.connect(this.channelGains.get(poolId)!);
 
-      voiceNodes.push({ osc1, osc2, osc3, filter, gain, panNode });
+      const spread = unisonVoices === 1 ? 0 : (v / (unisonVoices - 1)) - 0.5;
+      voiceNodes.push({
+        detunes, oscs, spread, filters: filter1.poles, resonant: filter1.resonant, gain, level, panNode, sustain: voiceSustain,
+      });
     }
 
-    // Apply LFO modulation (shared LFOs connected to all unison voices)
+    // Modulation matrix routes (automated amounts arrive with the settings)
+    const routes = (settings?.modMatrix ?? []).filter((route) => route.amount !== 0);
+    const modSources = new Map<ModSource, AudioNode>();
+
+    // Apply LFO modulation (shared LFOs connected to all unison voices).
+    // An LFO also runs while disabled when the modulation matrix uses it.
     const lfoNodes: OscillatorNode[] = [];
-    for (const lfo of [settings?.lfo1, settings?.lfo2]) {
-      if (!lfo || !lfo.enabled || lfo.depth <= 0) continue;
+    for (const key of ['lfo1', 'lfo2'] as const) {
+      const lfo = settings?.[key];
+      if (!lfo) continue;
+      const routed = routes.some((route) => route.source === key);
+      if ((!lfo.enabled || lfo.depth <= 0) && !routed) continue;
 
-      const lfoOsc = this.context.createOscillator();
-      lfoOsc.type = lfo.waveform;
-      lfoOsc.frequency.setValueAtTime(lfo.rate, now);
+      const lfoOsc = this.createSynthLfo(lfo, now, barStart);
+      lfoNodes.push(lfoOsc);
+      modSources.set(key, lfoOsc);
+      if (!lfo.enabled || lfo.depth <= 0) continue;
 
       const lfoGain = this.context.createGain();
 
@@ -401,9 +763,7 @@ class AudioEngine {
           lfoGain.gain.setValueAtTime(lfo.depth * 200, now);
           lfoOsc.connect(lfoGain);
           for (const vn of voiceNodes) {
-            lfoGain.connect(vn.osc1.detune);
-            lfoGain.connect(vn.osc2.detune);
-            if (vn.osc3) lfoGain.connect(vn.osc3.detune);
+            for (const detune of vn.detunes) lfoGain.connect(detune);
           }
           break;
         }
@@ -411,7 +771,7 @@ class AudioEngine {
           lfoGain.gain.setValueAtTime(lfo.depth * 4000, now);
           lfoOsc.connect(lfoGain);
           for (const vn of voiceNodes) {
-            lfoGain.connect(vn.filter.frequency);
+            for (const filter of vn.filters) lfoGain.connect(filter.frequency);
           }
           break;
         }
@@ -419,13 +779,7 @@ class AudioEngine {
           lfoGain.gain.setValueAtTime(lfo.depth * 0.5, now);
           lfoOsc.connect(lfoGain);
           for (const vn of voiceNodes) {
-            const tremoloGain = this.context.createGain();
-            tremoloGain.gain.setValueAtTime(1, now);
-            lfoGain.connect(tremoloGain.gain);
-            // Re-route: gain → tremoloGain → panNode
-            vn.gain.disconnect(vn.panNode);
-            vn.gain.connect(tremoloGain);
-            tremoloGain.connect(vn.panNode);
+            lfoGain.connect(vn.level.gain);
           }
           break;
         }
@@ -437,44 +791,744 @@ class AudioEngine {
           }
           break;
         }
+        case 'wtPosition': {
+          lfoGain.gain.setValueAtTime(lfo.depth * 0.5, now);
+          lfoOsc.connect(lfoGain);
+          for (const source of positionSources) {
+            lfoGain.connect(source.offset);
+          }
+          break;
+        }
       }
+    }
 
-      lfoOsc.start(now);
-      lfoOsc.stop(releaseEnd + 0.01);
-      lfoNodes.push(lfoOsc);
+    // Envelope sources of the matrix rise to 1, fall to their sustain and release to 0
+    const modEnvelopes: Array<{ source: ConstantSourceNode; sustain: number; release: number }> = [];
+    const createEnvelopeSource = (envAttack: number, envDecay: number, sustain: number, envRelease: number) => {
+      const source = this.context.createConstantSource();
+      source.offset.setValueAtTime(0, now);
+      source.offset.linearRampToValueAtTime(1, now + envAttack);
+      source.offset.linearRampToValueAtTime(sustain, now + envAttack + envDecay);
+      modEnvelopes.push({ source, sustain, release: envRelease });
+      return source;
+    };
+    const createConstantSource = (value: number) => {
+      const source = this.context.createConstantSource();
+      source.offset.setValueAtTime(value, now);
+      return source;
+    };
+    let keyTrack: ConstantSourceNode | null = null;
+    // The mod wheel is shared, so each voice taps it through a gain it disconnects when it ends
+    let wheelTap: GainNode | null = null;
+    for (const route of routes) {
+      if (modSources.has(route.source)) continue;
+      let source: ConstantSourceNode | GainNode;
+      switch (route.source) {
+        case 'lfo1':
+        case 'lfo2':
+          continue;
+        case 'filterEnv':
+          source = createEnvelopeSource(fAttack, fDecay, fSustainLevel, fRelease);
+          break;
+        case 'modEnv':
+          source = createEnvelopeSource(
+            settings?.modEnvAttack ?? 0.005,
+            settings?.modEnvDecay ?? 0.3,
+            settings?.modEnvSustain ?? 0,
+            settings?.modEnvRelease ?? 0.15,
+          );
+          break;
+        case 'velocity':
+          source = createConstantSource(volume);
+          break;
+        case 'noteMod':
+          source = createConstantSource(noteMod);
+          break;
+        case 'keyTrack':
+          keyTrack = createConstantSource((midiNote - 60) / 48);
+          source = keyTrack;
+          break;
+        case 'modWheel':
+          wheelTap = this.context.createGain();
+          this.modWheel.connect(wheelTap);
+          source = wheelTap;
+          break;
+      }
+      if (source instanceof ConstantSourceNode) allOscillators.push(source);
+      modSources.set(route.source, source);
+    }
+
+    for (const route of routes) {
+      const source = modSources.get(route.source);
+      if (!source) continue;
+      const depth = this.context.createGain();
+      depth.gain.setValueAtTime(route.amount * MOD_DESTINATION_RANGES[route.destination], now);
+      source.connect(depth);
+      for (const vn of voiceNodes) {
+        switch (route.destination) {
+          case 'osc1Pitch':
+          case 'osc2Pitch':
+          case 'osc3Pitch':
+            // The digit of osc1Pitch…osc3Level picks the oscillator
+            for (const detune of vn.oscs[Number(route.destination[3]) - 1]?.detunes ?? []) depth.connect(detune);
+            break;
+          case 'osc1Level':
+          case 'osc2Level':
+          case 'osc3Level': {
+            const osc = vn.oscs[Number(route.destination[3]) - 1];
+            if (osc) depth.connect(osc.mix.gain);
+            break;
+          }
+          case 'detune':
+            for (const osc of vn.oscs.slice(1)) {
+              for (const detune of osc.detunes) depth.connect(detune);
+            }
+            break;
+          case 'cutoff':
+            for (const filter of vn.filters) depth.connect(filter.detune);
+            break;
+          case 'resonance':
+            depth.connect(vn.resonant.Q);
+            break;
+          case 'unisonSpread': {
+            // Each unison voice moves by its place in the spread
+            const spreadGain = this.context.createGain();
+            spreadGain.gain.setValueAtTime(vn.spread, now);
+            depth.connect(spreadGain);
+            for (const detune of vn.detunes) spreadGain.connect(detune);
+            break;
+          }
+          case 'pan':
+            depth.connect(vn.panNode.pan);
+            break;
+          case 'amp':
+            depth.connect(vn.level.gain);
+            break;
+        }
+      }
+    }
+    if (wheelTap) {
+      const tap = wheelTap;
+      allOscillators[0].addEventListener('ended', () => this.modWheel.disconnect(tap));
     }
 
-    // Start and stop all oscillators
     for (const osc of allOscillators) {
       osc.start(now);
-      osc.stop(releaseEnd + 0.01);
     }
+
+    /**
+     * Schedule the release phase and stop the oscillators once it ends.
+     * A live note fades from its current level; a scheduled note releases
+     * from its sustain level.
+     */
+    const release = (time: number, fromCurrentLevel: boolean) => {
+      if (voice.releaseTime !== null) return;
+      voice.releaseTime = time;
+      voice.endTime = time + ampRelease;
+      for (const vn of voiceNodes) {
+        if (fromCurrentLevel) {
+          const level = vn.gain.gain.value;
+          vn.gain.gain.cancelScheduledValues(time);
+          vn.gain.gain.setValueAtTime(level, time);
+        } else {
+          vn.gain.gain.setValueAtTime(vn.sustain, time);
+        }
+        vn.gain.gain.exponentialRampToValueAtTime(0.001, voice.endTime);
+
+        if (filterEnvAmount > 0) {
+          for (const filter of vn.filters) {
+            if (fromCurrentLevel) {
+              const level = filter.frequency.value;
+              filter.frequency.cancelScheduledValues(time);
+              filter.frequency.setValueAtTime(level, time);
+            } else {
+              filter.frequency.setValueAtTime(sustainCutoff, time);
+            }
+            filter.frequency.linearRampToValueAtTime(cutoff, time + fRelease);
+          }
+        }
+      }
+      if (wtEnvAmount !== 0) {
+        for (const position of positions) {
+          if (!position) continue;
+          const offset = position.source.offset;
+          if (fromCurrentLevel) {
+            const level = offset.value;
+            offset.cancelScheduledValues(time);
+            offset.setValueAtTime(level, time);
+          } else {
+            offset.setValueAtTime(position.base + wtEnvAmount * fSustainLevel, time);
+          }
+          offset.linearRampToValueAtTime(position.base, time + fRelease);
+        }
+      }
+      for (const envelope of modEnvelopes) {
+        const offset = envelope.source.offset;
+        if (fromCurrentLevel) {
+          const level = offset.value;
+          offset.cancelScheduledValues(time);
+          offset.setValueAtTime(level, time);
+        } else {
+          offset.setValueAtTime(envelope.sustain, time);
+        }
+        offset.linearRampToValueAtTime(0, time + envelope.release);
+      }
+      for (const osc of [...allOscillators, ...lfoNodes]) {
+        osc.stop(voice.endTime + 0.01);
+      }
+    };
+
+    const voice: PianoVoice = {
+      midiNote,
+      volume,
+      startTime: now,
+      releaseTime: null,
+      endTime: Infinity,
+      envelope: { attack, decay, sustain: sustainLevel },
+      setNote: (note, time, glideTime) => {
+        // A legato note continues a voice whose release was already scheduled:
+        // drop that release (the new note's own release replaces the stop time)
+        if (voice.releaseTime !== null && voice.releaseTime > time) {
+          for (const vn of voiceNodes) {
+            vn.gain.gain.cancelScheduledValues(voice.releaseTime);
+            for (const filter of vn.filters) filter.frequency.cancelScheduledValues(voice.releaseTime);
+          }
+          for (const source of [...positionSources, ...modEnvelopes.map((e) => e.source)]) {
+            source.offset.cancelScheduledValues(voice.releaseTime);
+          }
+          voice.releaseTime = null;
+          voice.endTime = Infinity;
+        }
+        const fromFreq = noteFrequency(voice.midiNote);
+        const noteFreq = noteFrequency(note);
+        if (keyTrack) {
+          keyTrack.offset.setValueAtTime((voice.midiNote - 60) / 48, time);
+          if (glideTime > 0) keyTrack.offset.linearRampToValueAtTime((note - 60) / 48, time + glideTime);
+          else keyTrack.offset.setValueAtTime((note - 60) / 48, time);
+        }
+        if (filterKeyTrack > 0) {
+          for (const filter of keyTrackedPoles) {
+            filter.detune.setValueAtTime(keyTrackCents(voice.midiNote), time);
+            if (glideTime > 0) filter.detune.linearRampToValueAtTime(keyTrackCents(note), time + glideTime);
+            else filter.detune.setValueAtTime(keyTrackCents(note), time);
+          }
+        }
+        voice.midiNote = note;
+        for (const { param, multiple } of pitchedParams) {
+          if (glideTime > 0) {
+            param.setValueAtTime(fromFreq * multiple, time);
+            param.exponentialRampToValueAtTime(noteFreq * multiple, time + glideTime);
+          } else {
+            param.setValueAtTime(noteFreq * multiple, time);
+          }
+        }
+      },
+      release,
+      steal: (time) => {
+        voice.releaseTime = time;
+        voice.endTime = time + STEAL_FADE_TIME * 10;
+        for (const vn of voiceNodes) {
+          vn.gain.gain.cancelScheduledValues(time);
+          vn.gain.gain.setTargetAtTime(0, time, STEAL_FADE_TIME);
+        }
+        for (const osc of [...allOscillators, ...lfoNodes]) {
+          osc.stop(voice.endTime);
+        }
+      },
+    };
+    return voice;
+  }
+
+  /**
+   * Build one oscillator of a synth voice:
+   * - basic: an oscillator of the waveform
+   * - wavetable: an oscillator per frame, each faded in by its weight at the position
+   * - fm: the waveform as carrier, modulated by a chain of sine operators whose
+   *   frequency deviation is their index × their own frequency
+   * @param frameWeights  Frame gains of the note's wavetable position (wavetable mode)
+   */
+  private createSynthOscillator(
+    type: OscillatorType,
+    mode: OscillatorModeSettings | undefined,
+    freq: number,
+    detune: number,
+    now: number,
+    frameWeights: WaveShaperNode[] | null,
+  ): SynthOscillator {
+    const createSource = (oscType: OscillatorType, multiple: number) => {
+      const osc = this.context.createOscillator();
+      osc.type = oscType;
+      osc.frequency.setValueAtTime(freq * multiple, now);
+      osc.detune.setValueAtTime(detune, now);
+      return osc;
+    };
+
+    if (mode?.mode === 'wavetable' && frameWeights) {
+      const output = this.context.createGain();
+      const sources = this.getPeriodicWaves(getWavetableFrames(mode)).map((wave, i) => {
+        const osc = createSource('sine', 1);
+        osc.setPeriodicWave(wave);
+        const frameGain = this.context.createGain();
+        frameGain.gain.value = 0;
+        frameWeights[i].connect(frameGain.gain);
+        osc.connect(frameGain);
+        frameGain.connect(output);
+        return osc;
+      });
+      return {
+        output,
+        sources,
+        pitched: sources.map((osc) => ({ param: osc.frequency, multiple: 1 })),
+        detunes: sources.map((osc) => osc.detune),
+      };
+    }
+
+    const carrier = createSource(type, 1);
+    const result: SynthOscillator = {
+      output: carrier,
+      sources: [carrier],
+      pitched: [{ param: carrier.frequency, multiple: 1 }],
+      detunes: [carrier.detune],
+    };
+    if (mode?.mode === 'fm') {
+      // 4-op stacks three modulators in series: op 4 → op 3 → op 2 → carrier
+      let target = carrier.frequency;
+      let targetMultiple = 1;
+      for (let i = 0; i < (mode.fmOperators === 4 ? 3 : 1); i++) {
+        const index = mode.fmIndexes[i] ?? 0;
+        // An idle operator also cuts off the ones modulating it
+        if (index <= 0) break;
+        const multiple = targetMultiple * (mode.fmRatios[i] ?? 1);
+        const modulator = createSource('sine', multiple);
+        const depth = this.context.createGain();
+        depth.gain.setValueAtTime(freq * multiple * index, now);
+        modulator.connect(depth);
+        depth.connect(target);
+        result.sources.push(modulator);
+        result.pitched.push({ param: modulator.frequency, multiple }, { param: depth.gain, multiple: multiple * index });
+        result.detunes.push(modulator.detune);
+        target = modulator.frequency;
+        targetMultiple = multiple;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Build one filter stage of a synth voice: a biquad per 12 dB of slope,
+   * or in ladder mode two poles with a saturator before each. Only the last
+   * pole resonates, so a 24 dB stage keeps a single peak.
+   * @param ladderDrive    Drive of the ladder mode (null = clean biquads)
+   * @param keyTrackCents  Cutoff offset of the note's key tracking
+   */
+  private createSynthFilterStage(
+    type: SynthFilterType,
+    slope: SynthFilterSlope,
+    ladderDrive: number | null,
+    cutoff: number,
+    resonance: number,
+    keyTrackCents: number,
+    now: number,
+  ): SynthFilterStage {
+    const input = this.context.createGain();
+    const poleCount = ladderDrive !== null || slope === 24 ? 2 : 1;
+    const poles: BiquadFilterNode[] = [];
+    let tail: AudioNode = input;
+    for (let i = 0; i < poleCount; i++) {
+      if (ladderDrive !== null) {
+        const shaper = this.createDriveShaper(ladderDrive);
+        tail.connect(shaper);
+        tail = shaper;
+      }
+      const pole = this.context.createBiquadFilter();
+      pole.type = type;
+      pole.frequency.setValueAtTime(cutoff, now);
+      pole.detune.setValueAtTime(keyTrackCents, now);
+      // Lowpass/highpass Q is in dB: 0 keeps the first pole of a pair flat;
+      // bandpass and notch poles share the bandwidth
+      const lastPole = i === poleCount - 1;
+      pole.Q.setValueAtTime(lastPole || (type !== 'lowpass' && type !== 'highpass') ? resonance : 0, now);
+      tail.connect(pole);
+      tail = pole;
+      poles.push(pole);
+    }
+    return { input, output: tail, poles, resonant: poles[poles.length - 1] };
   }
 
-  async playSound(instrument: InstrumentName, volume: number, pitchOffset: number = 0): Promise<void> {
+  /**
+   * Start a synth LFO at the phase its retrigger mode puts it at: the phase
+   * offset at the note start, or where a continuous LFO (running since time
+   * zero or since the bar start) would be by now.
+   * @param barStart  Start of the note's bar (null when the note is outside the sequencer)
+   */
+  private createSynthLfo(lfo: LfoSettings, now: number, barStart: number | null): OscillatorNode {
+    const rate = lfo.sync ? this.getLfoSyncRate(lfo.division) : lfo.rate;
+    let phase = lfo.phase;
+    if (lfo.retrigger === 'free') phase += now * rate;
+    else if (lfo.retrigger === 'bar' && barStart !== null) phase += Math.max(0, now - barStart) * rate;
+    const degrees = Math.round((phase % 1) * 360) % 360;
+
+    const osc = this.context.createOscillator();
+    if (degrees === 0) {
+      osc.type = lfo.waveform;
+    } else {
+      const key = `${lfo.waveform}:${degrees}`;
+      let wave = this.lfoWaves.get(key);
+      if (!wave) {
+        // Each harmonic moves n times as far as the fundamental
+        const shift = (degrees / 360) * 2 * Math.PI;
+        const real = new Float32Array(LFO_HARMONICS + 1);
+        const imag = new Float32Array(LFO_HARMONICS + 1);
+        for (let n = 1; n <= LFO_HARMONICS; n++) {
+          const amplitude = LFO_WAVEFORM_HARMONICS[lfo.waveform](n);
+          real[n] = amplitude * Math.sin(n * shift);
+          imag[n] = amplitude * Math.cos(n * shift);
+        }
+        wave = this.context.createPeriodicWave(real, imag);
+        this.lfoWaves.set(key, wave);
+      }
+      osc.setPeriodicWave(wave);
+    }
+    osc.frequency.setValueAtTime(rate, now);
+    osc.start(now);
+    if (lfo.sync) {
+      this.syncedLfos.set(osc, lfo.division);
+      osc.addEventListener('ended', () => this.syncedLfos.delete(osc));
+    }
+    return osc;
+  }
+
+  /** Rate in Hz of a tempo-synced LFO at the current tempo */
+  private getLfoSyncRate(division: LfoDivision): number {
+    return this.bpm / 60 / LFO_DIVISION_BEATS[division];
+  }
+
+  /** PeriodicWaves of a wavetable's frames, created once per frame list. */
+  private getPeriodicWaves(frames: WavetableFrame[]): PeriodicWave[] {
+    let waves = this.periodicWaves.get(frames);
+    if (!waves) {
+      waves = frames.map((frame) => this.context.createPeriodicWave(frame.real, frame.imag));
+      this.periodicWaves.set(frames, waves);
+    }
+    return waves;
+  }
+
+  /**
+   * A wavetable position source and the frame weights it drives: each
+   * frame fades in and out linearly around its place in the table.
+   */
+  private createWavetablePosition(frameCount: number, position: number, now: number): WavetablePosition {
+    const source = this.context.createConstantSource();
+    source.offset.setValueAtTime(position, now);
+    const weights = Array.from({ length: frameCount }, (_, i) => {
+      const key = `${frameCount}:${i}`;
+      let curve = this.frameWeightCurves.get(key);
+      if (!curve) {
+        // The shaper maps −1…1 onto the curve; positions below 0 hold the first frame
+        curve = new Float32Array(1025);
+        for (let k = 0; k < curve.length; k++) {
+          const x = Math.max(0, (k / (curve.length - 1)) * 2 - 1);
+          curve[k] = frameCount === 1 ? 1 : Math.max(0, 1 - Math.abs(x * (frameCount - 1) - i));
+        }
+        this.frameWeightCurves.set(key, curve);
+      }
+      const shaper = this.context.createWaveShaper();
+      shaper.curve = curve;
+      source.connect(shaper);
+      return shaper;
+    });
+    return { source, weights, base: position };
+  }
+
+  /**
+   * Zones of a sampler that play a note: every zone whose key range and
+   * velocity layer match, but only the next zone of each round-robin group.
+   * @param velocity  MIDI velocity (1–127)
+   */
+  private pickSamplerZones(poolId: string, zones: SamplerVoiceZone[], midiNote: number, velocity: number): SamplerVoiceZone[] {
+    const matching = zones.filter((z) =>
+      midiNote >= z.keyLow && midiNote <= z.keyHigh && velocity >= z.velLow && velocity <= z.velHigh,
+    );
+    const picked = matching.filter((z) => z.roundRobinGroup <= 0);
+    const groups = new Set(matching.map((z) => z.roundRobinGroup).filter((g) => g > 0));
+    for (const group of groups) {
+      const members = matching.filter((z) => z.roundRobinGroup === group);
+      const key = `${poolId}:${group}`;
+      const next = this.samplerRoundRobin.get(key) ?? 0;
+      picked.push(members[next % members.length]);
+      this.samplerRoundRobin.set(key, next + 1);
+    }
+    return picked;
+  }
+
+  /**
+   * Build the sample sources, filter and envelope of one sampler note. Each
+   * zone is repitched from its root note and loops its loop region while held.
+   * The note is held until its release() is called.
+   */
+  private createSamplerVoice(
+    poolId: string,
+    midiNote: number,
+    volume: number,
+    sampler: SamplerVoiceSettings,
+    now: number,
+  ): PianoVoice {
+    const velocity = Math.min(127, Math.max(1, Math.round(volume * 127)));
+    const zones = this.pickSamplerZones(poolId, sampler.zones, midiNote, velocity);
+    const sustainLevel = sampler.ampSustain * volume;
+
+    const filter = this.context.createBiquadFilter();
+    filter.type = sampler.filterType;
+    filter.frequency.setValueAtTime(sampler.filterCutoff, now);
+    filter.Q.setValueAtTime(sampler.filterResonance, now);
+
+    // ADSR envelope
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(volume, now + sampler.ampAttack);
+    gain.gain.linearRampToValueAtTime(sustainLevel, now + sampler.ampAttack + sampler.ampDecay);
+
+    filter.connect(gain);
+    gain.connect(this.channelGains.get(poolId)!);
+
+    const sources: Array<{ source: AudioBufferSourceNode; rootNote: number }> = [];
+    for (const zone of zones) {
+      const buffer = this.sampleBuffers.get(zone.url);
+      if (!buffer) continue;
+      const source = this.context.createBufferSource();
+      source.buffer = buffer;
+      // Fine tuning shifts the pitch the sample is transposed from
+      const rootNote = zone.rootNote - zone.tune / 100;
+      source.playbackRate.setValueAtTime(Math.pow(2, (midiNote - rootNote) / 12), now);
+      if (zone.loop && zone.loopEnd > zone.loopStart) {
+        source.loop = true;
+        source.loopStart = zone.loopStart * buffer.duration;
+        source.loopEnd = zone.loopEnd * buffer.duration;
+      }
+      const zoneGain = this.context.createGain();
+      zoneGain.gain.value = Math.pow(10, zone.gain / 20);
+      source.connect(zoneGain);
+      zoneGain.connect(filter);
+      source.start(now);
+      sources.push({ source, rootNote });
+    }
+
+    /**
+     * Schedule the release phase and stop the sources once it ends.
+     * A live note fades from its current level; a scheduled note releases
+     * from its sustain level.
+     */
+    const release = (time: number, fromCurrentLevel: boolean) => {
+      if (voice.releaseTime !== null) return;
+      voice.releaseTime = time;
+      voice.endTime = time + sampler.ampRelease;
+      if (fromCurrentLevel) {
+        const level = gain.gain.value;
+        gain.gain.cancelScheduledValues(time);
+        gain.gain.setValueAtTime(level, time);
+      } else {
+        gain.gain.setValueAtTime(sustainLevel, time);
+      }
+      gain.gain.exponentialRampToValueAtTime(0.001, voice.endTime);
+      for (const { source } of sources) {
+        source.stop(voice.endTime + 0.01);
+      }
+    };
+
+    const voice: PianoVoice = {
+      midiNote,
+      volume,
+      startTime: now,
+      releaseTime: null,
+      endTime: Infinity,
+      envelope: { attack: sampler.ampAttack, decay: sampler.ampDecay, sustain: sustainLevel },
+      setNote: (note, time, glideTime) => {
+        // A legato note continues a voice whose release was already scheduled:
+        // drop that release (the new note's own release replaces the stop time)
+        if (voice.releaseTime !== null && voice.releaseTime > time) {
+          gain.gain.cancelScheduledValues(voice.releaseTime);
+          voice.releaseTime = null;
+          voice.endTime = Infinity;
+        }
+        const fromNote = voice.midiNote;
+        voice.midiNote = note;
+        for (const { source, rootNote } of sources) {
+          const rate = Math.pow(2, (note - rootNote) / 12);
+          if (glideTime > 0) {
+            source.playbackRate.setValueAtTime(Math.pow(2, (fromNote - rootNote) / 12), time);
+            source.playbackRate.exponentialRampToValueAtTime(rate, time + glideTime);
+          } else {
+            source.playbackRate.setValueAtTime(rate, time);
+          }
+        }
+      },
+      release,
+      steal: (time) => {
+        voice.releaseTime = time;
+        voice.endTime = time + STEAL_FADE_TIME * 10;
+        gain.gain.cancelScheduledValues(time);
+        gain.gain.setTargetAtTime(0, time, STEAL_FADE_TIME);
+        for (const { source } of sources) {
+          source.stop(voice.endTime);
+        }
+      },
+    };
+    return voice;
+  }
+
+  /**
+   * Create the gain → panner → analyser chain and effect sends for a drum
+   * channel if it doesn't exist yet.
+   */
+  ensureDrumChannel(channelId: string): void {
+    this.createChannelStrip(channelId);
+  }
+
+  /**
+   * Create the mixer strip of a piano roll instrument channel if it doesn't
+   * exist yet. Like drum channels, its volume is multiplied into each note's
+   * velocity at trigger time.
+   */
+  ensureInstrumentChannel(channelId: string): void {
+    this.createChannelStrip(channelId);
+  }
+
+  /** Gain → panner → analyser chain and effect sends shared by drum and instrument channels */
+  private createChannelStrip(channelId: string): void {
+    if (this.panners.has(channelId)) return;
+
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 256;
+    analyser.smoothingTimeConstant = 0.3;
+
+    // Channel gain node for real-time volume automation
+    const channelGain = this.context.createGain();
+    channelGain.gain.value = 1; // unity by default; per-hit volume multiplied at trigger time
+
+    const panner = this.context.createStereoPanner();
+    channelGain.connect(panner);
+    panner.connect(analyser);
+    // A channel may have been routed before its strip was created
+    analyser.connect(this.getChannelOutputDestination(channelId));
+
+    // Reverb send: taps from panner output into the reverb bus
+    const sendGain = this.context.createGain();
+    sendGain.gain.value = 0; // dry by default
+    panner.connect(sendGain);
+    sendGain.connect(this.reverbBus);
+
+    // Delay send: taps from panner output into the delay bus
+    const delaySendGain = this.context.createGain();
+    delaySendGain.gain.value = 0; // dry by default
+    panner.connect(delaySendGain);
+    delaySendGain.connect(this.delayBus);
+
+    // Filter send: taps from panner output into the filter bus
+    const filterSendGain = this.context.createGain();
+    filterSendGain.gain.value = 0; // dry by default
+    panner.connect(filterSendGain);
+    filterSendGain.connect(this.filterBus);
+
+    this.channelGains.set(channelId, channelGain);
+    this.panners.set(channelId, panner);
+    this.channelAnalysers.set(channelId, analyser);
+    this.reverbSendGains.set(channelId, sendGain);
+    this.delaySendGains.set(channelId, delaySendGain);
+    this.filterSendGains.set(channelId, filterSendGain);
+  }
+
+  /** Remove a drum channel. */
+  removeDrumChannel(channelId: string): void {
+    this.removeChannelStrip(channelId);
+  }
+
+  /** Remove an instrument channel, cutting off its sounding voices. */
+  removeInstrumentChannel(channelId: string): void {
+    this.removeChannelStrip(channelId);
+    this.voicePools.delete(channelId);
+  }
+
+  private removeChannelStrip(channelId: string): void {
+    this.channelGains.get(channelId)?.disconnect();
+    this.panners.get(channelId)?.disconnect();
+    this.channelAnalysers.get(channelId)?.disconnect();
+    this.reverbSendGains.get(channelId)?.disconnect();
+    this.delaySendGains.get(channelId)?.disconnect();
+    this.filterSendGains.get(channelId)?.disconnect();
+    this.channelGains.delete(channelId);
+    this.panners.delete(channelId);
+    this.channelAnalysers.delete(channelId);
+    this.reverbSendGains.delete(channelId);
+    this.delaySendGains.delete(channelId);
+    this.filterSendGains.delete(channelId);
+    // Insert effects, send channel sends and routing belong to the strip, too
+    for (const fx of this.insertEffectChains.get(channelId)?.effects ?? []) {
+      for (const node of fx.nodes) node.disconnect();
+      fx.bypassGain.disconnect();
+      fx.wetGain.disconnect();
+    }
+    this.insertEffectChains.delete(channelId);
+    for (const [key, sendGain] of this.sendChannelSendGains) {
+      if (!key.startsWith(`${channelId}:`)) continue;
+      sendGain.disconnect();
+      this.sendChannelSendGains.delete(key);
+    }
+    this.channelMixerRouting.delete(channelId);
+  }
+
+  /**
+   * Trigger a drum voice on a drum channel.
+   * @param time    AudioContext time to start at (defaults to now)
+   * @param params  The channel's synth parameters (defaults to the model's stock sound)
+   */
+  async playSound(channelId: string, model: DrumModel, volume: number, pitchOffset: number = 0, time?: number, params?: DrumSynthParams): Promise<void> {
     await this.resume();
-    const output = this.channelGains.get(instrument) ?? this.panners.get(instrument) ?? this.masterGain;
+    time = time ?? this.context.currentTime;
+    this.ensureDrumChannel(channelId);
+    const channelOutput = this.channelGains.get(channelId) ?? this.panners.get(channelId) ?? this.masterGain;
+    const voice = params ?? DEFAULT_DRUM_SYNTH_PARAMS[model];
+    const output = this.createDrumDrive(voice.drive, channelOutput);
 
-    switch (instrument) {
+    switch (model) {
       case 'kick':
-        this.playKick(volume, pitchOffset, output);
+        this.playKick(volume, pitchOffset, voice, output, time);
         break;
       case 'snare':
-        this.playSnare(volume, pitchOffset, output);
+        this.playSnare(volume, pitchOffset, voice, output, time);
+        break;
+      case 'hat':
+        this.playHihat(volume, pitchOffset, voice, output, time);
         break;
-      case 'hihat':
-        this.playHihat(volume, pitchOffset, output);
+      case 'openHat':
+        this.playOpenHat(volume, pitchOffset, voice, output, time);
         break;
       case 'clap':
-        this.playClap(volume, pitchOffset, output);
+        this.playClap(volume, pitchOffset, voice, output, time);
+        break;
+      case 'tom':
+        this.playTom(volume, pitchOffset, voice, output, time);
+        break;
+      case 'rim':
+        this.playRim(volume, pitchOffset, voice, output, time);
+        break;
+      case 'cowbell':
+        this.playCowbell(volume, pitchOffset, voice, output, time);
         break;
-      case 'openhat':
-        this.playOpenHat(volume, pitchOffset, output);
+      case 'noise':
+        this.playNoise(volume, pitchOffset, voice, output, time);
         break;
-      case 'percussion':
-        this.playPercussion(volume, pitchOffset, output);
+      case 'fmPerc':
+        this.playFmPerc(volume, pitchOffset, voice, output, time);
         break;
     }
+    if (voice.click > 0) {
+      this.playDrumClick(volume * voice.click, voice, output, time);
+    }
+  }
+
+  /** Set the MIDI modulation wheel (0–1); sounding synth notes follow it. */
+  setModWheel(value: number): void {
+    this.modWheel.offset.setValueAtTime(Math.max(0, Math.min(1, value)), this.context.currentTime);
   }
 
   setMasterVolume(value: number): void {
@@ -486,23 +1540,23 @@ class AudioEngine {
   }
 
   /** Set the persistent channel volume (used by automation). */
-  setChannelVolume(instrument: InstrumentName, value: number): void {
-    const gain = this.channelGains.get(instrument);
+  setChannelVolume(channelId: string, value: number): void {
+    const gain = this.channelGains.get(channelId);
     if (gain) {
       gain.gain.value = Math.max(0, Math.min(1, value));
     }
   }
 
-  setChannelPan(instrument: InstrumentName, value: number): void {
-    const panner = this.panners.get(instrument);
+  setChannelPan(channelId: string, value: number): void {
+    const panner = this.panners.get(channelId);
     if (panner) {
       panner.pan.value = Math.max(-1, Math.min(1, value));
     }
   }
 
   /** Read peak level (0–1) for a channel analyser. */
-  getChannelLevel(instrument: InstrumentName): number {
-    const analyser = this.channelAnalysers.get(instrument);
+  getChannelLevel(channelId: string): number {
+    const analyser = this.channelAnalysers.get(channelId);
     if (!analyser) return 0;
     return this.readPeak(analyser);
   }
@@ -517,8 +1571,8 @@ class AudioEngine {
   // ---------------------------------------------------------------------------
 
   /** Set the reverb send level for a channel (0–1). */
-  setChannelReverbSend(instrument: InstrumentName, value: number): void {
-    const sendGain = this.reverbSendGains.get(instrument);
+  setChannelReverbSend(channelId: string, value: number): void {
+    const sendGain = this.reverbSendGains.get(channelId);
     if (sendGain) {
       sendGain.gain.value = Math.max(0, Math.min(1, value));
     }
@@ -546,8 +1600,8 @@ class AudioEngine {
   // ---------------------------------------------------------------------------
 
   /** Set the delay send level for a channel (0–1). */
-  setChannelDelaySend(instrument: InstrumentName, value: number): void {
-    const sendGain = this.delaySendGains.get(instrument);
+  setChannelDelaySend(channelId: string, value: number): void {
+    const sendGain = this.delaySendGains.get(channelId);
     if (sendGain) {
       sendGain.gain.value = Math.max(0, Math.min(1, value));
     }
@@ -572,6 +1626,15 @@ class AudioEngine {
     this.delayNode.delayTime.value = this.syncToSeconds(sync, bpm);
   }
 
+  /** Update the tempo, retuning the running tempo-synced LFOs. */
+  setTempo(bpm: number): void {
+    this.bpm = bpm;
+    const now = this.context.currentTime;
+    for (const [osc, division] of this.syncedLfos) {
+      osc.frequency.setValueAtTime(this.getLfoSyncRate(division), now);
+    }
+  }
+
   /** Update the master delay parameters. */
   setDelayParams(params: Partial<DelaySettings>): void {
     if (params.sync !== undefined) {
@@ -590,8 +1653,8 @@ class AudioEngine {
   // ---------------------------------------------------------------------------
 
   /** Set the filter send level for a channel (0–1). */
-  setChannelFilterSend(instrument: InstrumentName, value: number): void {
-    const sendGain = this.filterSendGains.get(instrument);
+  setChannelFilterSend(channelId: string, value: number): void {
+    const sendGain = this.filterSendGains.get(channelId);
     if (sendGain) {
       sendGain.gain.value = Math.max(0, Math.min(1, value));
     }
@@ -631,6 +1694,27 @@ class AudioEngine {
     }
   }
 
+  /**
+   * Silence the master output and send a single point of the graph straight
+   * to the destination instead (pre-master, pre-limiter). Used to render stems.
+   */
+  isolateOutput(tap: OutputTap): void {
+    let node: AudioNode | undefined;
+    switch (tap.kind) {
+      case 'channel':
+        node = this.channelAnalysers.get(tap.id) ?? this.sampleAnalysers.get(tap.id);
+        break;
+      case 'mixerTrack':
+        node = this.mixerTrackNodes.get(tap.id)?.analyser;
+        break;
+      case 'sendChannel':
+        node = this.sendChannelBuses.get(tap.id)?.outputGain;
+        break;
+    }
+    this.masterAnalyser.disconnect();
+    node?.connect(this.context.destination);
+  }
+
   /** Get the current gain reduction of the master limiter in dB (negative value). */
   getMasterLimiterReduction(): number {
     return this.masterLimiter.reduction;
@@ -643,30 +1727,30 @@ class AudioEngine {
   /**
    * Rebuild the insert effect chain for a channel.
    * Disconnects old chain, creates new Web Audio nodes, and wires them in series.
-   * @param channelId  Either an InstrumentName or a sample track ID
+   * @param channelId  Either a drum channel ID or a sample track ID
    * @param effects    Array of InsertEffect definitions
    */
   rebuildInsertEffects(channelId: string, effects: InsertEffect[]): void {
     // Determine the panner, analyser, and send gains for this channel
-    const isInstrument = this.panners.has(channelId as InstrumentName);
+    const isInstrument = this.panners.has(channelId);
     const panner = isInstrument
-      ? this.panners.get(channelId as InstrumentName)!
+      ? this.panners.get(channelId)!
       : this.samplePanners.get(channelId);
     const analyser = isInstrument
-      ? this.channelAnalysers.get(channelId as InstrumentName)!
+      ? this.channelAnalysers.get(channelId)!
       : this.sampleAnalysers.get(channelId);
 
     if (!panner || !analyser) return;
 
     // Get send gains (reverb, delay, filter) for reconnection
     const reverbSend = isInstrument
-      ? this.reverbSendGains.get(channelId as InstrumentName)
+      ? this.reverbSendGains.get(channelId)
       : this.sampleReverbSendGains.get(channelId);
     const delaySend = isInstrument
-      ? this.delaySendGains.get(channelId as InstrumentName)
+      ? this.delaySendGains.get(channelId)
       : this.sampleDelaySendGains.get(channelId);
     const filterSend = isInstrument
-      ? this.filterSendGains.get(channelId as InstrumentName)
+      ? this.filterSendGains.get(channelId)
       : this.sampleFilterSendGains.get(channelId);
 
     // Disconnect old chain
@@ -1407,9 +2491,9 @@ class AudioEngine {
    * We change only the analyser's output destination.
    */
   private rewireChannelOutput(channelId: string, _mixerTrackId: string | null): void {
-    const isInstrument = this.channelAnalysers.has(channelId as InstrumentName);
+    const isInstrument = this.channelAnalysers.has(channelId);
     const analyser = isInstrument
-      ? this.channelAnalysers.get(channelId as InstrumentName)
+      ? this.channelAnalysers.get(channelId)
       : this.sampleAnalysers.get(channelId);
 
     if (!analyser) return;
@@ -1435,9 +2519,9 @@ class AudioEngine {
       mergeNode.connect(sendGain);
     } else {
       // No insert effects: connect from the panner
-      const isInstrument = this.panners.has(sourceChannelId as InstrumentName);
+      const isInstrument = this.panners.has(sourceChannelId);
       const panner = isInstrument
-        ? this.panners.get(sourceChannelId as InstrumentName)
+        ? this.panners.get(sourceChannelId)
         : this.samplePanners.get(sourceChannelId);
       if (panner) {
         panner.connect(sendGain);
@@ -1481,11 +2565,26 @@ class AudioEngine {
     return audioBuffer;
   }
 
+  /** Decode an audio file without caching it, e.g. a wavetable to analyze. */
+  decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+    return this.context.decodeAudioData(data);
+  }
+
   /** Remove a cached sample buffer. */
   removeSample(url: string): void {
     this.sampleBuffers.delete(url);
   }
 
+  /**
+   * Reuse the decoded sample buffers of another engine (AudioBuffers are not
+   * bound to a context), e.g. when rendering offline.
+   */
+  copySampleBuffersFrom(other: AudioEngine): void {
+    for (const [url, buffer] of other.sampleBuffers) {
+      this.sampleBuffers.set(url, buffer);
+    }
+  }
+
   /** Check if a sample is loaded. */
   hasSample(url: string): boolean {
     return this.sampleBuffers.has(url);
@@ -1552,14 +2651,18 @@ class AudioEngine {
     this.sampleFilterSendGains.delete(trackId);
   }
 
-  /** Play a loaded sample on a sample track channel. */
-  async playSample(sampleUrl: string, trackId: string, volume: number, pitchOffset: number = 0, loop: boolean = false, trimStart: number = 0, trimEnd: number = 1, gainDb: number = 0): Promise<void> {
+  /**
+   * Play a loaded sample on a sample track channel.
+   * @param time  AudioContext time to start at (defaults to now)
+   */
+  async playSample(sampleUrl: string, trackId: string, volume: number, pitchOffset: number = 0, loop: boolean = false, trimStart: number = 0, trimEnd: number = 1, gainDb: number = 0, time?: number): Promise<void> {
     await this.resume();
     const buffer = this.sampleBuffers.get(sampleUrl);
     if (!buffer) return;
+    const startTime = time ?? this.context.currentTime;
 
     // Stop any currently playing source on this track (for both oneshot re-triggers and loop restarts)
-    this.stopSample(trackId);
+    this.stopSample(trackId, startTime);
 
     this.ensureSampleChannel(trackId);
     const output = this.sampleChannelGains.get(trackId) ?? this.samplePanners.get(trackId) ?? this.masterGain;
@@ -1585,11 +2688,13 @@ class AudioEngine {
 
     source.connect(gain);
     gain.connect(output);
-    source.start(0, startOffset, loop ? undefined : trimDuration);
+    source.start(startTime, startOffset, loop ? undefined : trimDuration);
 
     // Track active source so it can be stopped later
     this.activeSampleSources.set(trackId, { source, gain });
     source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
       // Only clean up if this is still the active source
       const active = this.activeSampleSources.get(trackId);
       if (active?.source === source) {
@@ -1598,17 +2703,23 @@ class AudioEngine {
     };
   }
 
-  /** Stop a currently playing sample on a track. */
-  stopSample(trackId: string): void {
+  /**
+   * Stop a currently playing sample on a track.
+   * When `time` is given the source is stopped at that AudioContext time and
+   * disconnected once it ends, so a scheduled re-trigger cuts it sample-accurately.
+   */
+  stopSample(trackId: string, time?: number): void {
     const active = this.activeSampleSources.get(trackId);
     if (active) {
       try {
-        active.source.stop();
+        active.source.stop(time);
       } catch {
         // Already stopped
       }
-      active.source.disconnect();
-      active.gain.disconnect();
+      if (time === undefined) {
+        active.source.disconnect();
+        active.gain.disconnect();
+      }
       this.activeSampleSources.delete(trackId);
     }
   }
@@ -1715,10 +2826,11 @@ class AudioEngine {
    * Play a metronome click sound.
    * @param accent  True for the downbeat (beat 1), which plays a higher pitch.
    * @param volume  0–1
+   * @param time    AudioContext time to click at (defaults to now)
    */
-  async playMetronome(accent: boolean, volume: number = 0.5): Promise<void> {
+  async playMetronome(accent: boolean, volume: number = 0.5, time?: number): Promise<void> {
     await this.resume();
-    const now = this.context.currentTime;
+    const now = time ?? this.context.currentTime;
     const freq = accent ? 1500 : 1000;
     const duration = 0.03;
 
@@ -1746,99 +2858,169 @@ class AudioEngine {
     return Math.pow(2, semitones / 12);
   }
 
-  private playKick(volume: number, pitchOffset: number = 0, output: AudioNode = this.masterGain): void {
-    const now = this.context.currentTime;
-    const ratio = this.pitchRatio(pitchOffset);
+  /**
+   * Route a drum hit through a saturator when drive is on.
+   * @returns The node the voice should connect to
+   */
+  private createDrumDrive(drive: number, output: AudioNode): AudioNode {
+    if (drive <= 0) return output;
+    const shaper = this.createDriveShaper(drive);
+    shaper.connect(output);
+    return shaper;
+  }
+
+  /** A tanh saturator for a drive amount (0–1), with its curve cached per percent. */
+  private createDriveShaper(drive: number): WaveShaperNode {
+    const key = Math.round(drive * 100);
+    let curve = this.driveCurves.get(key);
+    if (!curve) {
+      // tanh saturation normalised so full scale stays at ±1
+      const k = 1 + key / 5;
+      curve = new Float32Array(1024);
+      for (let i = 0; i < curve.length; i++) {
+        const x = (i / (curve.length - 1)) * 2 - 1;
+        curve[i] = Math.tanh(k * x) / Math.tanh(k);
+      }
+      this.driveCurves.set(key, curve);
+    }
+    const shaper = this.context.createWaveShaper();
+    shaper.curve = curve;
+    shaper.oversample = '2x';
+    return shaper;
+  }
+
+  /** Short high-passed noise burst layered on the attack of a drum hit. */
+  private playDrumClick(level: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const noise = this.createNoiseSource();
+
+    const highpass = this.context.createBiquadFilter();
+    highpass.type = 'highpass';
+    highpass.frequency.setValueAtTime(Math.min(MAX_DRUM_FREQ, 2500 * drumParamRatio(voice.noiseColor, 2)), time);
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(level, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.006);
+
+    noise.connect(highpass);
+    highpass.connect(gain);
+    gain.connect(output);
 
-    // Oscillator: sine wave with pitch sweep 150Hz -> 40Hz over 0.15s
+    noise.start(time);
+    noise.stop(time + 0.006);
+  }
+
+  /**
+   * Sweep a frequency down to `freq` over `duration`, starting `pitchEnv`
+   * × 4 octaves above it.
+   */
+  private applyDrumPitchEnv(param: AudioParam, freq: number, pitchEnv: number, time: number, duration: number): void {
+    if (pitchEnv <= 0) {
+      param.setValueAtTime(freq, time);
+      return;
+    }
+    param.setValueAtTime(Math.min(MAX_DRUM_FREQ, freq * Math.pow(2, pitchEnv * 4)), time);
+    param.exponentialRampToValueAtTime(freq, time + duration);
+  }
+
+  private playKick(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
+    const ratio = this.pitchRatio(pitchOffset) * drumParamRatio(voice.tone, 1);
+    const decay = 0.3 * drumParamRatio(voice.decay, 2);
+
+    // Oscillator: sine wave sweeping down to 40Hz over 0.15s (from 150Hz at the stock setting)
     const osc = this.context.createOscillator();
     osc.type = 'sine';
-    osc.frequency.setValueAtTime(150 * ratio, now);
-    osc.frequency.exponentialRampToValueAtTime(40 * ratio, now + 0.15);
+    this.applyDrumPitchEnv(osc.frequency, 40 * ratio, voice.pitchEnv, now, 0.15);
 
-    // Gain envelope: 0.7 -> 0 over 0.3s
+    // Gain envelope: 0.7 -> 0 over the decay time (0.3s stock)
     const gain = this.context.createGain();
     gain.gain.setValueAtTime(0.7 * volume, now);
-    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
 
     osc.connect(gain);
     gain.connect(output);
 
     osc.start(now);
-    osc.stop(now + 0.3);
+    osc.stop(now + decay);
   }
 
-  private playSnare(volume: number, pitchOffset: number = 0, output: AudioNode = this.masterGain): void {
-    const now = this.context.currentTime;
+  private playSnare(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
     const ratio = this.pitchRatio(pitchOffset);
+    const decayScale = drumParamRatio(voice.decay, 2);
+    const toneDecay = 0.08 * decayScale;
+    const noiseDecay = 0.15 * decayScale;
 
     // --- Tonal component: triangle wave at 200Hz with quick decay ---
     const osc = this.context.createOscillator();
     osc.type = 'triangle';
-    osc.frequency.setValueAtTime(200 * ratio, now);
+    this.applyDrumPitchEnv(osc.frequency, 200 * ratio * drumParamRatio(voice.tone, 1), voice.pitchEnv, now, 0.05);
 
     const oscGain = this.context.createGain();
     oscGain.gain.setValueAtTime(0.5 * volume, now);
-    oscGain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+    oscGain.gain.exponentialRampToValueAtTime(0.001, now + toneDecay);
 
     osc.connect(oscGain);
     oscGain.connect(output);
 
     osc.start(now);
-    osc.stop(now + 0.08);
+    osc.stop(now + toneDecay);
 
     // --- Noise component: white noise bandpass filtered around 5000Hz ---
     const noise = this.createNoiseSource();
 
     const bandpass = this.context.createBiquadFilter();
     bandpass.type = 'bandpass';
-    bandpass.frequency.setValueAtTime(5000 * ratio, now);
+    bandpass.frequency.setValueAtTime(Math.min(MAX_DRUM_FREQ, 5000 * ratio * drumParamRatio(voice.noiseColor, 2)), now);
     bandpass.Q.setValueAtTime(1, now);
 
     const noiseGain = this.context.createGain();
     noiseGain.gain.setValueAtTime(0.6 * volume, now);
-    noiseGain.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, now + noiseDecay);
 
     noise.connect(bandpass);
     bandpass.connect(noiseGain);
     noiseGain.connect(output);
 
     noise.start(now);
-    noise.stop(now + 0.15);
+    noise.stop(now + noiseDecay);
   }
 
-  private playHihat(volume: number, pitchOffset: number = 0, output: AudioNode = this.masterGain): void {
-    const now = this.context.currentTime;
+  private playHihat(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
     const ratio = this.pitchRatio(pitchOffset);
+    const decay = 0.05 * drumParamRatio(voice.decay, 2);
 
     const noise = this.createNoiseSource();
 
     const highpass = this.context.createBiquadFilter();
     highpass.type = 'highpass';
-    highpass.frequency.setValueAtTime(7000 * ratio, now);
+    this.applyDrumPitchEnv(highpass.frequency, Math.min(MAX_DRUM_FREQ, 7000 * ratio * drumParamRatio(voice.noiseColor, 2)), voice.pitchEnv, now, decay);
+    highpass.Q.setValueAtTime(drumParamRatio(voice.tone, 3), now);
 
     const gain = this.context.createGain();
     gain.gain.setValueAtTime(0.3 * volume, now);
-    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.05);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
 
     noise.connect(highpass);
     highpass.connect(gain);
     gain.connect(output);
 
     noise.start(now);
-    noise.stop(now + 0.05);
+    noise.stop(now + decay);
   }
 
-  private playClap(volume: number, pitchOffset: number = 0, output: AudioNode = this.masterGain): void {
-    const now = this.context.currentTime;
+  private playClap(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
     const ratio = this.pitchRatio(pitchOffset);
+    const decay = 0.15 * drumParamRatio(voice.decay, 2);
 
     const noise = this.createNoiseSource();
 
     const bandpass = this.context.createBiquadFilter();
     bandpass.type = 'bandpass';
-    bandpass.frequency.setValueAtTime(1500 * ratio, now);
-    bandpass.Q.setValueAtTime(0.8, now);
+    this.applyDrumPitchEnv(bandpass.frequency, Math.min(MAX_DRUM_FREQ, 1500 * ratio * drumParamRatio(voice.noiseColor, 2)), voice.pitchEnv, now, decay);
+    bandpass.Q.setValueAtTime(0.8 * drumParamRatio(voice.tone, 3), now);
 
     const gain = this.context.createGain();
 
@@ -1856,56 +3038,190 @@ class AudioEngine {
     // Final sustain and decay after the bursts
     const decayStart = now + 3 * burstGap;
     gain.gain.setValueAtTime(0.6 * volume, decayStart);
-    gain.gain.exponentialRampToValueAtTime(0.001, decayStart + 0.15);
+    gain.gain.exponentialRampToValueAtTime(0.001, decayStart + decay);
 
     noise.connect(bandpass);
     bandpass.connect(gain);
     gain.connect(output);
 
     noise.start(now);
-    noise.stop(decayStart + 0.15);
+    noise.stop(decayStart + decay);
   }
 
-  private playOpenHat(volume: number, pitchOffset: number = 0, output: AudioNode = this.masterGain): void {
-    const now = this.context.currentTime;
+  private playOpenHat(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
     const ratio = this.pitchRatio(pitchOffset);
+    const decay = 0.3 * drumParamRatio(voice.decay, 2);
 
     const noise = this.createNoiseSource();
 
     const highpass = this.context.createBiquadFilter();
     highpass.type = 'highpass';
-    highpass.frequency.setValueAtTime(6000 * ratio, now);
+    this.applyDrumPitchEnv(highpass.frequency, Math.min(MAX_DRUM_FREQ, 6000 * ratio * drumParamRatio(voice.noiseColor, 2)), voice.pitchEnv, now, decay);
+    highpass.Q.setValueAtTime(drumParamRatio(voice.tone, 3), now);
 
     const gain = this.context.createGain();
     gain.gain.setValueAtTime(0.25 * volume, now);
-    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
 
     noise.connect(highpass);
     highpass.connect(gain);
     gain.connect(output);
 
     noise.start(now);
-    noise.stop(now + 0.3);
+    noise.stop(now + decay);
   }
 
-  private playPercussion(volume: number, pitchOffset: number = 0, output: AudioNode = this.masterGain): void {
-    const now = this.context.currentTime;
-    const ratio = this.pitchRatio(pitchOffset);
+  private playTom(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
+    const ratio = this.pitchRatio(pitchOffset) * drumParamRatio(voice.tone, 1);
+    const decay = 0.4 * drumParamRatio(voice.decay, 2);
 
+    // Sine body settling at 110Hz after a short downward sweep
     const osc = this.context.createOscillator();
     osc.type = 'sine';
-    osc.frequency.setValueAtTime(800 * ratio, now);
-    osc.frequency.exponentialRampToValueAtTime(400 * ratio, now + 0.08);
+    this.applyDrumPitchEnv(osc.frequency, 110 * ratio, voice.pitchEnv, now, 0.1);
 
     const gain = this.context.createGain();
-    gain.gain.setValueAtTime(0.5 * volume, now);
-    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+    gain.gain.setValueAtTime(0.7 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
 
     osc.connect(gain);
     gain.connect(output);
 
     osc.start(now);
-    osc.stop(now + 0.08);
+    osc.stop(now + decay);
+  }
+
+  private playRim(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
+    const ratio = this.pitchRatio(pitchOffset);
+    const decay = 0.03 * drumParamRatio(voice.decay, 2);
+
+    // --- Tonal component: short triangle ping at 480Hz ---
+    const osc = this.context.createOscillator();
+    osc.type = 'triangle';
+    this.applyDrumPitchEnv(osc.frequency, 480 * ratio * drumParamRatio(voice.tone, 1), voice.pitchEnv, now, decay);
+
+    const oscGain = this.context.createGain();
+    oscGain.gain.setValueAtTime(0.5 * volume, now);
+    oscGain.gain.exponentialRampToValueAtTime(0.001, now + decay);
+
+    osc.connect(oscGain);
+    oscGain.connect(output);
+
+    osc.start(now);
+    osc.stop(now + decay);
+
+    // --- Noise component: narrow band around 2500Hz for the stick attack ---
+    const noise = this.createNoiseSource();
+
+    const bandpass = this.context.createBiquadFilter();
+    bandpass.type = 'bandpass';
+    bandpass.frequency.setValueAtTime(Math.min(MAX_DRUM_FREQ, 2500 * ratio * drumParamRatio(voice.noiseColor, 2)), now);
+    bandpass.Q.setValueAtTime(3, now);
+
+    const noiseGain = this.context.createGain();
+    noiseGain.gain.setValueAtTime(0.6 * volume, now);
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, now + decay * 0.7);
+
+    noise.connect(bandpass);
+    bandpass.connect(noiseGain);
+    noiseGain.connect(output);
+
+    noise.start(now);
+    noise.stop(now + decay);
+  }
+
+  private playCowbell(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
+    const ratio = this.pitchRatio(pitchOffset) * drumParamRatio(voice.tone, 1);
+    const decay = 0.35 * drumParamRatio(voice.decay, 2);
+
+    // Two detuned square waves (540Hz and 800Hz) through a bandpass, 808-style
+    const bandpass = this.context.createBiquadFilter();
+    bandpass.type = 'bandpass';
+    bandpass.frequency.setValueAtTime(Math.min(MAX_DRUM_FREQ, 2000 * ratio * drumParamRatio(voice.noiseColor, 2)), now);
+    bandpass.Q.setValueAtTime(1, now);
+
+    // Fast initial drop, then a longer tail
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0.4 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.15 * volume, now + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
+
+    bandpass.connect(gain);
+    gain.connect(output);
+
+    for (const freq of [540, 800]) {
+      const osc = this.context.createOscillator();
+      osc.type = 'square';
+      this.applyDrumPitchEnv(osc.frequency, freq * ratio, voice.pitchEnv, now, 0.02);
+      osc.connect(bandpass);
+      osc.start(now);
+      osc.stop(now + decay);
+    }
+  }
+
+  private playNoise(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
+    const ratio = this.pitchRatio(pitchOffset);
+    const decay = 0.25 * drumParamRatio(voice.decay, 2);
+
+    const noise = this.createNoiseSource();
+
+    const lowpass = this.context.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    this.applyDrumPitchEnv(lowpass.frequency, Math.min(MAX_DRUM_FREQ, 4000 * ratio * drumParamRatio(voice.noiseColor, 2)), voice.pitchEnv, now, decay);
+    lowpass.Q.setValueAtTime(drumParamRatio(voice.tone, 3), now);
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0.4 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
+
+    noise.connect(lowpass);
+    lowpass.connect(gain);
+    gain.connect(output);
+
+    noise.start(now);
+    noise.stop(now + decay);
+  }
+
+  private playFmPerc(volume: number, pitchOffset: number, voice: DrumSynthParams, output: AudioNode, time: number): void {
+    const now = time;
+    const ratio = this.pitchRatio(pitchOffset) * drumParamRatio(voice.tone, 1);
+    const decay = 0.08 * drumParamRatio(voice.decay, 2);
+    const carrierFreq = 400 * ratio;
+
+    // Carrier: sine sweeping down to 400Hz (from 800Hz at the stock setting)
+    const carrier = this.context.createOscillator();
+    carrier.type = 'sine';
+    this.applyDrumPitchEnv(carrier.frequency, carrierFreq, voice.pitchEnv, now, 0.08);
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0.5 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
+
+    carrier.connect(gain);
+    gain.connect(output);
+
+    // Inharmonic modulator; noise colour sets the depth (0 = pure sine)
+    const modDepth = carrierFreq * voice.noiseColor * 4;
+    if (modDepth > 0) {
+      const modulator = this.context.createOscillator();
+      modulator.type = 'sine';
+      modulator.frequency.setValueAtTime(carrierFreq * 1.4, now);
+      const modGain = this.context.createGain();
+      modGain.gain.setValueAtTime(modDepth, now);
+      modGain.gain.exponentialRampToValueAtTime(Math.max(0.001, modDepth * 0.01), now + decay);
+      modulator.connect(modGain);
+      modGain.connect(carrier.frequency);
+      modulator.start(now);
+      modulator.stop(now + decay);
+    }
+
+    carrier.start(now);
+    carrier.stop(now + decay);
   }
 
   // ---------------------------------------------------------------------------
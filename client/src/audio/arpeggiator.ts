@@ -0,0 +1,216 @@
+import type { ArpeggiatorSettings, ArpMode, ArpRate, PianoNote, SynthSettings } from '../types';
+import { TICKS_PER_STEP } from '../types';
+import type AudioEngine from './AudioEngine';
+import type { SamplerVoiceSettings } from './AudioEngine';
+
+/**
+ * Arpeggiator stage between the piano roll (or live MIDI keys) and the synth:
+ * turns the notes held at a time into a rhythmic sequence of single notes.
+ */
+
+/** Length of one arpeggiator step, in 16th steps */
+export const ARP_RATE_STEPS: Record<ArpRate, number> = {
+  '1/4': 4,
+  '1/8': 2,
+  '1/8T': 4 / 3,
+  '1/16': 1,
+  '1/16T': 2 / 3,
+  '1/32': 0.5,
+};
+
+/** Highest octave range the arpeggio climbs through */
+export const MAX_ARP_OCTAVES = 4;
+
+/** Tolerance for comparing fractional step positions */
+const EPSILON = 1e-6;
+
+/** How often (ms) the live arpeggiator queues notes, and how far ahead (seconds) */
+const LIVE_INTERVAL_MS = 25;
+const LIVE_SCHEDULE_AHEAD = 0.1;
+
+/** A note feeding the arpeggiator */
+export interface ArpInputNote {
+  pitch: number;
+  velocity: number;
+  /** When the note was played relative to the others (as-played order) */
+  order: number;
+}
+
+/** A note the arpeggiator plays within one 16th step */
+export interface ArpEvent {
+  pitch: number;
+  velocity: number;
+  /** Start within the step, as a fraction of it (0–1) */
+  offset: number;
+  /** Length in 16th steps */
+  duration: number;
+}
+
+/** One cycle of the arpeggio for the given notes, spread over the octave range. */
+export function buildArpSequence(notes: ArpInputNote[], mode: ArpMode, octaves: number): ArpInputNote[] {
+  const base = [...notes].sort((a, b) =>
+    mode === 'asPlayed' ? a.order - b.order || a.pitch - b.pitch : a.pitch - b.pitch,
+  );
+  const up: ArpInputNote[] = [];
+  const octaveCount = Math.max(1, Math.min(MAX_ARP_OCTAVES, Math.round(octaves)));
+  for (let o = 0; o < octaveCount; o++) {
+    for (const note of base) {
+      if (note.pitch + o * 12 <= 127) up.push({ ...note, pitch: note.pitch + o * 12 });
+    }
+  }
+  switch (mode) {
+    case 'down':
+      return up.reverse();
+    case 'upDown':
+      // Don't repeat the top and bottom notes at the turns
+      return up.length > 2 ? [...up, ...up.slice(1, -1).reverse()] : up;
+    default:
+      return up;
+  }
+}
+
+/** The note played at the given tick of an arpeggio cycle. */
+export function getArpNote(sequence: ArpInputNote[], tick: number, mode: ArpMode): ArpInputNote {
+  if (mode === 'random') return sequence[Math.floor(Math.random() * sequence.length)];
+  return sequence[((tick % sequence.length) + sequence.length) % sequence.length];
+}
+
+/**
+ * Arpeggiated notes of a piano roll that start within one 16th step.
+ * Each chord starts its arpeggio from the beginning; with latch, the last
+ * chord keeps playing until the next note starts.
+ */
+export function getArpStepEvents(notes: PianoNote[], settings: ArpeggiatorSettings, step: number): ArpEvent[] {
+  const rate = ARP_RATE_STEPS[settings.rate];
+  const events: ArpEvent[] = [];
+  // Note positions in (fractional) 16th steps
+  const timed = notes.map((n) => ({
+    ...n,
+    start: n.startTick / TICKS_PER_STEP,
+    end: (n.startTick + n.durationTicks) / TICKS_PER_STEP,
+  }));
+
+  for (let k = Math.ceil(step / rate - EPSILON); k * rate < step + 1 - EPSILON; k++) {
+    const pos = k * rate;
+    let held = timed.filter((n) => n.start <= pos + EPSILON && pos < n.end - EPSILON);
+    if (held.length === 0 && settings.latch) {
+      const started = timed.filter((n) => n.start <= pos + EPSILON);
+      const lastStart = Math.max(...started.map((n) => n.start));
+      held = started.filter((n) => n.start === lastStart);
+    }
+    if (held.length === 0) continue;
+
+    const chordStart = Math.max(...held.map((n) => n.start));
+    const tick = k - Math.ceil(chordStart / rate - EPSILON);
+    const sequence = buildArpSequence(
+      held.map((n) => ({ pitch: n.pitch, velocity: n.velocity, order: n.start })),
+      settings.mode,
+      settings.octaves,
+    );
+    const note = getArpNote(sequence, tick, settings.mode);
+    events.push({
+      pitch: note.pitch,
+      velocity: note.velocity,
+      offset: pos - step,
+      duration: rate * settings.gate,
+    });
+  }
+  return events;
+}
+
+/** What the live arpeggiator plays into, read at every tick so changes apply immediately */
+export interface LiveArpTarget {
+  /** Synth voice pool (the active instrument channel ID) */
+  poolId: string;
+  /** Channel volume, multiplied into each note's velocity */
+  volume: number;
+  bpm: number;
+  arpeggiator: ArpeggiatorSettings;
+  synthSettings: SynthSettings;
+  /** Sampler played instead of the synth (null = synth) */
+  sampler: SamplerVoiceSettings | null;
+}
+
+/**
+ * Arpeggiates keys played live (MIDI input). Runs its own lookahead clock
+ * at the project tempo while keys are held or latched.
+ */
+export class LiveArpeggiator {
+  private engine: AudioEngine;
+  private getTarget: () => LiveArpTarget | null;
+  /** Keys currently down */
+  private held: ArpInputNote[] = [];
+  /** Every key of the current chord, kept when latch is on */
+  private chord: ArpInputNote[] = [];
+  private order = 0;
+  private tick = 0;
+  private nextTime = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(engine: AudioEngine, getTarget: () => LiveArpTarget | null) {
+    this.engine = engine;
+    this.getTarget = getTarget;
+  }
+
+  noteOn(pitch: number, velocity: number): void {
+    // The first key after all were released starts a new chord
+    if (this.held.length === 0) {
+      this.chord = [];
+      this.tick = 0;
+    }
+    const note = { pitch, velocity, order: this.order++ };
+    this.held = [...this.held.filter((n) => n.pitch !== pitch), note];
+    this.chord = [...this.chord.filter((n) => n.pitch !== pitch), note];
+    if (this.timer === null) {
+      this.nextTime = this.engine.getCurrentTime();
+      this.timer = setInterval(() => this.schedule(), LIVE_INTERVAL_MS);
+      this.schedule();
+    }
+  }
+
+  noteOff(pitch: number): void {
+    this.held = this.held.filter((n) => n.pitch !== pitch);
+    const target = this.getTarget();
+    if (!target?.arpeggiator.latch) this.chord = this.chord.filter((n) => n.pitch !== pitch);
+    if (this.chord.length === 0) this.stop();
+  }
+
+  /** Silence the arpeggio, including a latched chord. */
+  stop(): void {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.held = [];
+    this.chord = [];
+  }
+
+  private schedule(): void {
+    const target = this.getTarget();
+    const notes = this.held.length > 0 || target?.arpeggiator.latch ? this.chord : [];
+    if (!target || !target.arpeggiator.enabled || notes.length === 0) {
+      this.stop();
+      return;
+    }
+    const { arpeggiator, bpm } = target;
+    const stepDuration = (60 / bpm / 4) * ARP_RATE_STEPS[arpeggiator.rate];
+    const now = this.engine.getCurrentTime();
+    // Don't try to catch up after the tab was suspended
+    if (this.nextTime < now - stepDuration) this.nextTime = now;
+
+    const sequence = buildArpSequence(notes, arpeggiator.mode, arpeggiator.octaves);
+    while (this.nextTime < now + LIVE_SCHEDULE_AHEAD) {
+      const note = getArpNote(sequence, this.tick, arpeggiator.mode);
+      this.engine.playPianoNote(
+        target.poolId,
+        note.pitch,
+        note.velocity * target.volume,
+        stepDuration * arpeggiator.gate,
+        target.synthSettings,
+        this.nextTime,
+        false,
+        target.sampler,
+      );
+      this.tick++;
+      this.nextTime += stepDuration;
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import type { SequencerState, Pattern, InstrumentChannel, RenderOptions, OutputTap, StemKind } from '../types';
+import AudioEngine from './AudioEngine';
+import { getStepDuration, getMeasureSteps, scheduleStep, applyAutomationAt, hasSongAutomation, getAudioClipChannelId } from './sequencePlayback';
+import type { TransportPosition, ChannelFilter } from './sequencePlayback';
+
+/** Sample rate of rendered audio */
+const RENDER_SAMPLE_RATE = 44100;
+/** Frames per render quantum; an OfflineAudioContext suspends on quantum boundaries */
+const RENDER_QUANTUM = 128;
+
+/** Extra seconds rendered after the last step so releases and FX tails ring out */
+const RENDER_TAIL_SECONDS = 2;
+
+/** A scheduled step of the render timeline */
+interface TimelineEvent extends TransportPosition {
+  /** Start time in seconds from the beginning of the render */
+  time: number;
+}
+
+/** Measure range [startMeasure, endMeasure) covered by a render. */
+export function getRenderRange(
+  state: SequencerState,
+  loopRangeOnly: boolean,
+): { startMeasure: number; endMeasure: number } {
+  if (loopRangeOnly && state.loopStart !== null && state.loopEnd !== null) {
+    return { startMeasure: state.loopStart, endMeasure: state.loopEnd };
+  }
+  return { startMeasure: 0, endMeasure: state.arrangementLength };
+}
+
+/** Every step in the measure range with its swing-adjusted start time. */
+function buildTimeline(
+  state: SequencerState,
+  startMeasure: number,
+  endMeasure: number,
+): { events: TimelineEvent[]; duration: number } {
+  const measureSteps = getMeasureSteps(state);
+  const events: TimelineEvent[] = [];
+  let time = 0;
+  for (let measure = startMeasure; measure < endMeasure; measure++) {
+    for (let step = 0; step < measureSteps; step++) {
+      events.push({ step, measure, time });
+      time += getStepDuration(step, state.bpm, state.swing);
+    }
+  }
+  return { events, duration: time };
+}
+
+/**
+ * Apply the project's master, send channel, mixer track and channel settings
+ * to a freshly constructed engine.
+ */
+export function syncEngineToState(engine: AudioEngine, state: SequencerState): void {
+  engine.setMasterVolume(state.masterVolume);
+  engine.setReverbParams(state.masterReverb);
+  engine.setDelayParams(state.masterDelay);
+  engine.setDelayBpm(state.bpm, state.masterDelay.sync);
+  engine.setTempo(state.bpm);
+  engine.setFilterParams(state.masterFilter);
+  engine.setMasterLimiter(state.masterLimiter);
+
+  for (const sc of state.sendChannels) {
+    engine.ensureSendChannel(sc.id, sc.volume);
+    if (sc.insertEffects.length > 0) {
+      engine.rebuildSendChannelInsertEffects(sc.id, sc.insertEffects);
+    }
+  }
+  for (const mt of state.mixerTracks) {
+    engine.ensureMixerTrack(mt.id, mt.volume, mt.pan, mt.eqBands, mt.eqEnabled);
+  }
+
+  // Drum channels are shared by every pattern; apply the active pattern last
+  // so its channel settings win, as they do in the live mixer.
+  const patterns = [
+    ...state.patterns.filter((p) => p.id !== state.activePatternId),
+    ...state.patterns.filter((p) => p.id === state.activePatternId),
+  ];
+  for (const pattern of patterns) {
+    for (const t of pattern.tracks) {
+      engine.ensureDrumChannel(t.id);
+      engine.setChannelPan(t.id, t.pan);
+      engine.setChannelReverbSend(t.id, t.reverbSend);
+      engine.setChannelDelaySend(t.id, t.delaySend);
+      engine.setChannelFilterSend(t.id, t.filterSend);
+      engine.setChannelMixerRouting(t.id, t.mixerTrackId ?? null);
+      engine.rebuildInsertEffects(t.id, t.insertEffects ?? []);
+      for (const [sendId, level] of Object.entries(t.sends ?? {})) {
+        engine.setChannelSendLevel(t.id, sendId, level);
+      }
+    }
+    for (const t of pattern.sampleTracks) {
+      engine.ensureSampleChannel(t.id);
+      engine.setSampleChannelPan(t.id, t.pan);
+      engine.setSampleChannelReverbSend(t.id, t.reverbSend);
+      engine.setSampleChannelDelaySend(t.id, t.delaySend);
+      engine.setSampleChannelFilterSend(t.id, t.filterSend);
+      engine.setChannelMixerRouting(t.id, t.mixerTrackId ?? null);
+      engine.rebuildInsertEffects(t.id, t.insertEffects ?? []);
+      for (const [sendId, level] of Object.entries(t.sends ?? {})) {
+        engine.setChannelSendLevel(t.id, sendId, level);
+      }
+    }
+    for (const c of pattern.instrumentChannels) {
+      syncInstrumentChannel(engine, c);
+    }
+  }
+}
+
+/** Create an instrument channel's mixer strip and apply its settings. */
+export function syncInstrumentChannel(engine: AudioEngine, channel: InstrumentChannel): void {
+  engine.ensureInstrumentChannel(channel.id);
+  engine.setChannelPan(channel.id, channel.pan);
+  engine.setChannelReverbSend(channel.id, channel.reverbSend);
+  engine.setChannelDelaySend(channel.id, channel.delaySend);
+  engine.setChannelFilterSend(channel.id, channel.filterSend);
+  engine.setChannelMixerRouting(channel.id, channel.mixerTrackId);
+  engine.rebuildInsertEffects(channel.id, channel.insertEffects);
+  for (const [sendId, level] of Object.entries(channel.sends)) {
+    engine.setChannelSendLevel(channel.id, sendId, level);
+  }
+}
+
+/** Source of a stem: what to schedule and which point of the graph to record */
+export interface StemSource {
+  name: string;
+  kind: StemKind;
+  sourceId: string;
+  tap: OutputTap;
+  /** Restrict scheduling to these channels (all channels when omitted) */
+  filter?: ChannelFilter;
+}
+
+/** Patterns placed in the arrangement within the measure range */
+function getArrangedPatterns(state: SequencerState, startMeasure: number, endMeasure: number): Pattern[] {
+  const ids = new Set<string>();
+  for (const arrTrack of state.arrangement) {
+    if (arrTrack.muted) continue;
+    for (const block of arrTrack.blocks) {
+      const blockEnd = block.startMeasure + (block.duration ?? 1);
+      if (block.startMeasure < endMeasure && blockEnd > startMeasure) ids.add(block.patternId);
+    }
+  }
+  return state.patterns.filter((p) => ids.has(p.id));
+}
+
+/**
+ * Every stem of the song: drum channels, sample tracks and instrument
+ * channels of the arranged patterns, audio clips, plus mixer tracks with channels
+ * routed to them and send channels that receive signal.
+ */
+export function listStemSources(state: SequencerState, options: RenderOptions): StemSource[] {
+  const { startMeasure, endMeasure } = getRenderRange(state, options.loopRangeOnly);
+  const patterns = getArrangedPatterns(state, startMeasure, endMeasure);
+  const sources: StemSource[] = [];
+  const only = (channelId: string): ChannelFilter => (id) => id === channelId;
+
+  const drums = new Map<string, string>();
+  const sampleTracks = new Map<string, string>();
+  const routedMixerTracks = new Set<string>();
+  const usedSends = new Set<string>();
+  for (const pattern of patterns) {
+    for (const t of pattern.tracks) {
+      if (t.steps.some((v) => v > 0)) drums.set(t.id, t.name);
+    }
+    for (const t of pattern.sampleTracks) {
+      if (t.sampleId && t.steps.some((v) => v > 0)) sampleTracks.set(t.id, t.name);
+    }
+    for (const t of [...pattern.tracks, ...pattern.sampleTracks, ...pattern.instrumentChannels]) {
+      if (t.mixerTrackId) routedMixerTracks.add(t.mixerTrackId);
+      for (const [sendId, level] of Object.entries(t.sends ?? {})) {
+        if (level > 0) usedSends.add(sendId);
+      }
+    }
+  }
+
+  for (const [id, name] of drums) {
+    sources.push({ name, kind: 'drum', sourceId: id, tap: { kind: 'channel', id }, filter: only(id) });
+  }
+  for (const [id, name] of sampleTracks) {
+    sources.push({ name, kind: 'sample', sourceId: id, tap: { kind: 'channel', id }, filter: only(id) });
+  }
+  for (const pattern of patterns) {
+    for (const c of pattern.instrumentChannels) {
+      if (c.pianoRoll.notes.length === 0) continue;
+      sources.push({
+        name: `${pattern.name} ${c.name}`,
+        kind: 'instrument',
+        sourceId: c.id,
+        tap: { kind: 'channel', id: c.id },
+        filter: only(c.id),
+      });
+    }
+  }
+  for (const arrTrack of state.arrangement) {
+    if (arrTrack.muted) continue;
+    for (const clip of arrTrack.audioClips ?? []) {
+      if (clip.startMeasure < startMeasure || clip.startMeasure >= endMeasure) continue;
+      const channelId = getAudioClipChannelId(clip.id);
+      const sample = state.samples.find((s) => s.id === clip.sampleId);
+      sources.push({
+        name: `${arrTrack.name} ${sample?.name ?? 'Audio Clip'}`,
+        kind: 'audioClip',
+        sourceId: clip.id,
+        tap: { kind: 'channel', id: channelId },
+        filter: only(channelId),
+      });
+    }
+  }
+  for (const mt of state.mixerTracks) {
+    if (!routedMixerTracks.has(mt.id)) continue;
+    sources.push({ name: mt.name, kind: 'mixerTrack', sourceId: mt.id, tap: { kind: 'mixerTrack', id: mt.id } });
+  }
+  for (const sc of state.sendChannels) {
+    if (!usedSends.has(sc.id)) continue;
+    sources.push({ name: sc.name, kind: 'sendChannel', sourceId: sc.id, tap: { kind: 'sendChannel', id: sc.id } });
+  }
+  return sources;
+}
+
+/**
+ * Render the arrangement through an OfflineAudioContext copy of the live
+ * graph. Every render of the same state and options has the same length,
+ * so stems line up sample for sample with each other and the full mix.
+ * @param liveEngine  Engine whose decoded sample buffers are reused
+ * @param stem        Record only this stem instead of the master output
+ */
+export async function renderSong(
+  liveEngine: AudioEngine,
+  state: SequencerState,
+  options: RenderOptions,
+  stem?: StemSource,
+): Promise<AudioBuffer> {
+  // Render the arrangement without the metronome click
+  const renderState: SequencerState = { ...state, playbackMode: 'song', metronomeEnabled: false };
+  const { startMeasure, endMeasure } = getRenderRange(renderState, options.loopRangeOnly);
+  if (endMeasure <= startMeasure) throw new Error('Nothing to render');
+
+  const { events, duration } = buildTimeline(renderState, startMeasure, endMeasure);
+  const length = Math.ceil((duration + RENDER_TAIL_SECONDS) * RENDER_SAMPLE_RATE);
+  const context = new OfflineAudioContext(2, length, RENDER_SAMPLE_RATE);
+  const engine = new AudioEngine(context);
+  engine.copySampleBuffersFrom(liveEngine);
+  syncEngineToState(engine, renderState);
+
+  if (stem) {
+    // Audio clip channels are normally created on first playback
+    if (stem.kind === 'audioClip' && stem.tap.kind === 'channel') {
+      engine.ensureSampleChannel(stem.tap.id);
+    }
+    engine.isolateOutput(stem.tap);
+  }
+
+  // Automation setters act immediately, so pause rendering at each step to
+  // apply them at the right moment (the first step is applied up front).
+  // The context suspends on the next render quantum boundary and only once
+  // per quantum, so steps sharing a quantum are applied together.
+  const suspensions: Promise<void>[] = [];
+  let automationError: unknown = null;
+  if (hasSongAutomation(renderState)) {
+    applyAutomationAt(engine, renderState, events[0]);
+    const stepsByQuantum = new Map<number, TimelineEvent[]>();
+    for (const event of events.slice(1)) {
+      const quantum = Math.ceil((event.time * RENDER_SAMPLE_RATE) / RENDER_QUANTUM);
+      if (quantum === 0) continue;
+      const steps = stepsByQuantum.get(quantum);
+      if (steps) steps.push(event);
+      else stepsByQuantum.set(quantum, [event]);
+    }
+    for (const [quantum, steps] of stepsByQuantum) {
+      suspensions.push(
+        context.suspend((quantum * RENDER_QUANTUM) / RENDER_SAMPLE_RATE)
+          .then(() => {
+            try {
+              for (const event of steps) applyAutomationAt(engine, renderState, event);
+            } finally {
+              void context.resume();
+            }
+          })
+          .catch((err: unknown) => {
+            automationError ??= err;
+          }),
+      );
+    }
+  }
+
+  await Promise.all(events.map((event) => scheduleStep(engine, renderState, event, event.time, stem?.filter)));
+  const rendered = await context.startRendering();
+  await Promise.all(suspensions);
+  // A failed automation step would leave the render silently wrong
+  if (automationError) throw automationError;
+  return rendered;
+}
+
+/** Time in seconds from the start of the song to the start of a measure. */
+export function getMeasureStartTime(state: SequencerState, measure: number): number {
+  return buildTimeline(state, 0, measure).duration;
+}
@@ -0,0 +1,526 @@
+import type {
+  Pattern,
+  InstrumentChannel,
+  Track,
+  DrumSynthParams,
+  SynthSettings,
+  SequencerState,
+  AutomationPoint,
+  AutomationTarget,
+  ChannelAutomationParam,
+  DrumSynthParam,
+  SampleInstrument,
+} from '../types';
+import { TICKS_PER_STEP } from '../types';
+import type AudioEngine from './AudioEngine';
+import type { SamplerVoiceSettings, SamplerVoiceZone } from './AudioEngine';
+import { getArpStepEvents } from './arpeggiator';
+
+/**
+ * Step scheduling shared by live playback (the lookahead scheduler in
+ * useSequencer) and offline rendering, so both produce the same events.
+ */
+
+/** Step count used when no pattern is active */
+const FALLBACK_STEP_COUNT = 16;
+
+/** A step position on the transport (measure is unused in pattern mode) */
+export interface TransportPosition {
+  step: number;
+  measure: number;
+}
+
+/**
+ * Decides whether events of a channel are scheduled. Channel IDs are drum
+ * channel IDs, sample track IDs, instrument channel IDs and
+ * `audio-clip-<clipId>` for arrangement audio clips.
+ */
+export type ChannelFilter = (channelId: string) => boolean;
+
+/** Automation values (0–1) at one song position, by target */
+export type AutomationValues = Map<AutomationTarget, number>;
+
+/** The instrument channel a pattern's piano roll edits. */
+export function getActiveInstrumentChannel(pattern: Pattern): InstrumentChannel {
+  return pattern.instrumentChannels.find((c) => c.id === pattern.activeInstrumentChannelId)
+    ?? pattern.instrumentChannels[0];
+}
+
+/** Engine channel ID an arrangement audio clip plays on. */
+export function getAudioClipChannelId(clipId: string): string {
+  return `audio-clip-${clipId}`;
+}
+
+/**
+ * The sampler an instrument channel plays, with each zone's sample resolved
+ * to its buffer URL, or null when the channel plays the synth.
+ */
+export function getChannelSampler(channel: InstrumentChannel, samples: SampleInstrument[]): SamplerVoiceSettings | null {
+  if (channel.instrument !== 'sampler') return null;
+  const zones: SamplerVoiceZone[] = [];
+  for (const zone of channel.sampler.zones) {
+    const sample = samples.find((s) => s.id === zone.sampleId);
+    if (sample) zones.push({ ...zone, url: sample.url });
+  }
+  return { ...channel.sampler, zones };
+}
+
+/**
+ * Duration in seconds of the given 16th step, accounting for swing.
+ * Swing shifts odd-numbered 16th notes later within each 8th-note pair.
+ * At swing=0 both 16ths are equal (50/50 split of the 8th note).
+ * At swing=1 the split is 2:1 (triplet feel, 66.7/33.3).
+ */
+export function getStepDuration(step: number, bpm: number, swing: number): number {
+  const sixteenth = 60 / bpm / 4;
+  if (swing === 0) return sixteenth;
+  // Ratio shifts from 0.5 (even) toward 2/3 (triplet) based on swing
+  const ratio = 0.5 + swing * (1 / 6); // 0.5 → 0.667
+  const eighth = sixteenth * 2;
+  // An even step is followed by the long portion, an odd step by the short one
+  return step % 2 === 0 ? eighth * ratio : eighth * (1 - ratio);
+}
+
+/** Steps per measure: song mode uses the active pattern's step count, too. */
+export function getMeasureSteps(state: SequencerState): number {
+  const activePattern = state.patterns.find((p) => p.id === state.activePatternId);
+  return activePattern?.stepCount ?? FALLBACK_STEP_COUNT;
+}
+
+/**
+ * Position that follows `pos`, or null when song playback reaches the end
+ * of the arrangement without a loop range.
+ */
+export function getNextPosition(
+  state: SequencerState,
+  pos: TransportPosition,
+): TransportPosition | null {
+  const step = (pos.step + 1) % getMeasureSteps(state);
+
+  if (state.playbackMode === 'pattern') {
+    return { step, measure: pos.measure };
+  }
+
+  let measure = pos.measure;
+  // Advance to next measure when we wrap around to step 0
+  if (step === 0) {
+    measure = pos.measure + 1;
+
+    const hasLoop = state.loopStart !== null && state.loopEnd !== null;
+    const loopEnd = hasLoop ? state.loopEnd! : state.arrangementLength;
+
+    if (measure >= loopEnd) {
+      if (!hasLoop) return null;
+      // Loop back to loop start
+      measure = state.loopStart!;
+    }
+  }
+  return { step, measure };
+}
+
+/** A drum channel's synth parameters with their automated values at this step */
+function getAutomatedDrumSynth(track: Track, automation?: AutomationValues): DrumSynthParams {
+  if (!automation || automation.size === 0) return track.drumSynth;
+  const params = { ...track.drumSynth };
+  for (const param of Object.keys(params) as DrumSynthParam[]) {
+    const value = automation.get(`drum:${track.id}:${param}`);
+    if (value !== undefined) params[param] = Math.max(0, Math.min(1, value));
+  }
+  return params;
+}
+
+/** An instrument channel's synth settings with the automated mod route amounts at this step */
+function getAutomatedSynthSettings(channel: InstrumentChannel, automation?: AutomationValues): SynthSettings {
+  if (!automation || automation.size === 0) return channel.synthSettings;
+  const modMatrix = channel.synthSettings.modMatrix.map((route) => {
+    const value = automation.get(`synth:${channel.id}:${route.id}`);
+    // 0–1 maps to an amount of −1–1
+    return value === undefined ? route : { ...route, amount: Math.max(-1, Math.min(1, value * 2 - 1)) };
+  });
+  return { ...channel.synthSettings, modMatrix };
+}
+
+/**
+ * Trigger every drum, sample and synth event of a pattern at one step,
+ * starting at the given AudioContext time.
+ * @param barStart    AudioContext time the step's bar started at
+ * @param automation  Automation values at this step, for the parameters a voice takes when it starts
+ */
+export function schedulePatternStep(
+  engine: AudioEngine,
+  state: SequencerState,
+  pattern: Pattern,
+  step: number,
+  time: number,
+  barStart: number,
+  filter?: ChannelFilter,
+  automation?: AutomationValues,
+): Promise<void>[] {
+  const pending: Promise<void>[] = [];
+
+  const anySoloed = pattern.tracks.some((t) => t.solo);
+  for (const track of pattern.tracks) {
+    const stepVelocity = track.steps[step];
+    if (stepVelocity <= 0) continue;
+    const effectivelyMuted =
+      track.muted || (anySoloed && !track.solo);
+    if (!effectivelyMuted && (!filter || filter(track.id))) {
+      const pitchOffset = track.pitches?.[step] ?? 0;
+      pending.push(engine.playSound(
+        track.id, track.model, track.volume * stepVelocity, pitchOffset, time, getAutomatedDrumSynth(track, automation),
+      ));
+    }
+  }
+
+  // Play sample tracks at this step
+  const anySampleSoloed = pattern.sampleTracks.some((t) => t.solo);
+  for (const sTrack of pattern.sampleTracks) {
+    const stepVelocity = sTrack.steps[step];
+    if (stepVelocity <= 0) continue;
+    const effectivelyMuted =
+      sTrack.muted || (anySampleSoloed && !sTrack.solo);
+    if (!effectivelyMuted && sTrack.sampleId && (!filter || filter(sTrack.id))) {
+      const sample = state.samples.find((s) => s.id === sTrack.sampleId);
+      if (sample) {
+        const pitchOffset = (sTrack.basePitch ?? 0) + (sTrack.pitches?.[step] ?? 0);
+        pending.push(engine.playSample(sample.url, sTrack.id, sTrack.volume * stepVelocity, pitchOffset, sTrack.playbackMode === 'loop', sTrack.trimStart ?? 0, sTrack.trimEnd ?? 1, sTrack.gain ?? 0, time));
+      }
+    }
+  }
+
+  // Play piano roll notes of each instrument channel at this step
+  const anyChannelSoloed = pattern.instrumentChannels.some((c) => c.solo);
+  for (const channel of pattern.instrumentChannels) {
+    const effectivelyMuted =
+      channel.muted || (anyChannelSoloed && !channel.solo);
+    if (!effectivelyMuted && (!filter || filter(channel.id))) {
+      pending.push(...scheduleInstrumentChannelStep(engine, state, channel, step, time, barStart, automation));
+    }
+  }
+
+  return pending;
+}
+
+/** Trigger the piano roll notes (or arpeggio) of one instrument channel at a step. */
+function scheduleInstrumentChannelStep(
+  engine: AudioEngine,
+  state: SequencerState,
+  channel: InstrumentChannel,
+  step: number,
+  time: number,
+  barStart: number,
+  automation?: AutomationValues,
+): Promise<void>[] {
+  const pending: Promise<void>[] = [];
+  const sampler = getChannelSampler(channel, state.samples);
+  const synthSettings = getAutomatedSynthSettings(channel, automation);
+  const stepDuration = getStepDuration(step, state.bpm, state.swing);
+  if (channel.arpeggiator.enabled) {
+    for (const event of getArpStepEvents(channel.pianoRoll.notes, channel.arpeggiator, step)) {
+      pending.push(engine.playPianoNote(
+        channel.id,
+        event.pitch,
+        event.velocity * channel.volume,
+        (event.duration * (60 / state.bpm)) / 4,
+        synthSettings,
+        time + event.offset * stepDuration,
+        false,
+        sampler,
+        undefined,
+        barStart,
+      ));
+    }
+    return pending;
+  }
+  // Notes starting inside this step play at their offset within it
+  const stepStartTick = step * TICKS_PER_STEP;
+  for (const note of channel.pianoRoll.notes) {
+    const offset = note.startTick - stepStartTick;
+    if (offset >= 0 && offset < TICKS_PER_STEP) {
+      const durationSec =
+        (note.durationTicks / TICKS_PER_STEP) * (60 / state.bpm) / 4;
+      pending.push(engine.playPianoNote(
+        channel.id,
+        note.pitch,
+        note.velocity * channel.volume,
+        durationSec,
+        synthSettings,
+        time + (offset / TICKS_PER_STEP) * stepDuration,
+        note.slide,
+        sampler,
+        note,
+        barStart,
+      ));
+    }
+  }
+  return pending;
+}
+
+/**
+ * Schedule all audio for one transport position (pattern or song mode).
+ * Resolves once every voice has been connected to the graph.
+ */
+export async function scheduleStep(
+  engine: AudioEngine,
+  state: SequencerState,
+  pos: TransportPosition,
+  time: number,
+  filter?: ChannelFilter,
+): Promise<void> {
+  const pending: Promise<void>[] = [];
+  // Start of the bar, where LFOs retriggered per bar restart
+  let barStart = time;
+  for (let i = 0; i < pos.step; i++) barStart -= getStepDuration(i, state.bpm, state.swing);
+
+  if (state.playbackMode === 'pattern') {
+    const pattern = state.patterns.find(
+      (p) => p.id === state.activePatternId,
+    );
+    if (pattern) pending.push(...schedulePatternStep(engine, state, pattern, pos.step, time, barStart, filter));
+  } else {
+    const automation = getAutomationValuesAt(state, pos);
+    // Find all patterns playing at this measure
+    for (const arrTrack of state.arrangement) {
+      if (arrTrack.muted) continue;
+
+      for (const block of arrTrack.blocks) {
+        const blockEnd = block.startMeasure + (block.duration ?? 1);
+        if (pos.measure >= block.startMeasure && pos.measure < blockEnd) {
+          const pattern = state.patterns.find(
+            (p) => p.id === block.patternId,
+          );
+          if (!pattern) continue;
+
+          // Only play steps within this pattern's step count
+          if (pos.step >= pattern.stepCount) continue;
+
+          pending.push(...schedulePatternStep(engine, state, pattern, pos.step, time, barStart, filter, automation));
+        }
+      }
+    }
+
+    // Play audio clips on the arrangement timeline
+    if (pos.step === 0) {
+      for (const arrTrack of state.arrangement) {
+        if (arrTrack.muted) continue;
+        for (const clip of arrTrack.audioClips ?? []) {
+          if (clip.startMeasure === pos.measure && (!filter || filter(getAudioClipChannelId(clip.id)))) {
+            const sample = state.samples.find((s) => s.id === clip.sampleId);
+            if (sample) {
+              pending.push(engine.playSample(
+                sample.url,
+                getAudioClipChannelId(clip.id),
+                clip.volume,
+                clip.pitchOffset,
+                false,
+                0,
+                1,
+                clip.gain,
+                time,
+              ));
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Metronome click on each beat (every 4 steps)
+  if (state.metronomeEnabled && pos.step % 4 === 0) {
+    pending.push(engine.playMetronome(pos.step === 0, undefined, time));
+  }
+
+  await Promise.all(pending);
+}
+
+// ---------------------------------------------------------------------------
+// Automation
+// ---------------------------------------------------------------------------
+
+/** Spacing of measures when flattening (measure, tick) into one number; larger than any measure */
+const MEASURE_TICK_SPAN = 100000;
+
+/** Interpolate an automation value at a given position (tick within the measure). */
+export function getAutomationValue(
+  points: AutomationPoint[],
+  measure: number,
+  tick: number,
+): number | null {
+  if (points.length === 0) return null;
+  // Position as a single number for comparison
+  const pos = measure * MEASURE_TICK_SPAN + tick;
+  // Find surrounding points
+  let before: AutomationPoint | null = null;
+  let after: AutomationPoint | null = null;
+  for (const p of points) {
+    const pPos = p.measure * MEASURE_TICK_SPAN + p.tick;
+    if (pPos <= pos) before = p;
+    if (pPos >= pos && after === null) after = p;
+  }
+  if (before === null && after === null) return null;
+  if (before === null) return after!.value;
+  if (after === null) return before.value;
+  if (before === after) return before.value;
+  // Linear interpolation
+  const bPos = before.measure * MEASURE_TICK_SPAN + before.tick;
+  const aPos = after.measure * MEASURE_TICK_SPAN + after.tick;
+  const t = (pos - bPos) / (aPos - bPos);
+  return before.value + (after.value - before.value) * t;
+}
+
+/** Apply a normalized (0–1) automation value to the audio engine. */
+export function applyAutomation(
+  engine: AudioEngine,
+  target: AutomationTarget,
+  normalizedValue: number,
+): void {
+  // Modulation route amounts ("synth:instrumentChannelId:routeId") are
+  // resolved per note when it is scheduled
+  if (target.startsWith('synth:')) return;
+
+  // Handle per-channel targets: "drum:kick:volume", "sample:trackId:pan", etc.
+  if (target.startsWith('drum:') || target.startsWith('sample:')) {
+    const parts = target.split(':');
+    const channelType = parts[0] as 'drum' | 'sample';
+    const channelId = parts[1];
+    const param = parts[2] as ChannelAutomationParam | DrumSynthParam;
+
+    if (channelType === 'drum') {
+      switch (param) {
+        case 'volume':
+          engine.setChannelVolume(channelId, normalizedValue);
+          break;
+        case 'pan':
+          // Map 0–1 to -1–+1
+          engine.setChannelPan(channelId, normalizedValue * 2 - 1);
+          break;
+        case 'reverbSend':
+          engine.setChannelReverbSend(channelId, normalizedValue);
+          break;
+        case 'delaySend':
+          engine.setChannelDelaySend(channelId, normalizedValue);
+          break;
+        case 'filterSend':
+          engine.setChannelFilterSend(channelId, normalizedValue);
+          break;
+        default:
+          // Drum synth parameters are resolved per hit when it is scheduled
+          break;
+      }
+    } else {
+      // sample channel
+      switch (param) {
+        case 'volume':
+          engine.setSampleChannelVolume(channelId, normalizedValue);
+          break;
+        case 'pan':
+          engine.setSampleChannelPan(channelId, normalizedValue * 2 - 1);
+          break;
+        case 'reverbSend':
+          engine.setSampleChannelReverbSend(channelId, normalizedValue);
+          break;
+        case 'delaySend':
+          engine.setSampleChannelDelaySend(channelId, normalizedValue);
+          break;
+        case 'filterSend':
+          engine.setSampleChannelFilterSend(channelId, normalizedValue);
+          break;
+      }
+    }
+    return;
+  }
+
+  switch (target) {
+    case 'masterVolume':
+      engine.setMasterVolume(normalizedValue);
+      break;
+    case 'masterFilterCutoff': {
+      // Map 0–1 to 20–20000 Hz (exponential)
+      const cutoff = 20 * Math.pow(1000, normalizedValue);
+      engine.setFilterParams({ cutoff });
+      break;
+    }
+    case 'masterFilterResonance': {
+      // Map 0–1 to 0.1–25
+      const resonance = 0.1 + normalizedValue * 24.9;
+      engine.setFilterParams({ resonance });
+      break;
+    }
+    case 'masterReverbDecay': {
+      // Map 0–1 to 0.1–10
+      const decay = 0.1 + normalizedValue * 9.9;
+      engine.setReverbParams({ decay });
+      break;
+    }
+    case 'masterReverbDamping': {
+      engine.setReverbParams({ damping: normalizedValue });
+      break;
+    }
+    case 'masterDelayFeedback': {
+      // Map 0–1 to 0–0.9
+      engine.setDelayParams({ feedback: normalizedValue * 0.9 });
+      break;
+    }
+    case 'masterDelayMix': {
+      engine.setDelayParams({ mix: normalizedValue });
+      break;
+    }
+  }
+}
+
+/** True when song playback has any enabled automation lane or clip. */
+export function hasSongAutomation(state: SequencerState): boolean {
+  return (
+    state.automationLanes.some((l) => l.enabled && l.points.length > 0) ||
+    state.arrangement.some((t) =>
+      !t.muted && (t.automationClips ?? []).some((c) => c.enabled && c.points.length > 0),
+    )
+  );
+}
+
+/**
+ * Values of the enabled automation lanes and clips at a song position.
+ * A clip overrides a lane (or an earlier clip) with the same target.
+ */
+export function getAutomationValuesAt(state: SequencerState, pos: TransportPosition): AutomationValues {
+  const values: AutomationValues = new Map();
+  if (state.playbackMode !== 'song') return values;
+
+  for (const lane of state.automationLanes) {
+    if (!lane.enabled || lane.points.length === 0) continue;
+    const val = getAutomationValue(lane.points, pos.measure, pos.step * TICKS_PER_STEP);
+    if (val !== null) values.set(lane.target, val);
+  }
+
+  // Automation clips from arrangement tracks
+  for (const arrTrack of state.arrangement) {
+    if (arrTrack.muted) continue;
+    for (const clip of arrTrack.automationClips ?? []) {
+      if (!clip.enabled || clip.points.length === 0) continue;
+      // Check if the current position is within this clip's range
+      if (pos.measure >= clip.startMeasure && pos.measure < clip.startMeasure + clip.duration) {
+        // Points are stored relative to the clip start
+        const relMeasure = pos.measure - clip.startMeasure;
+        const val = getAutomationValue(clip.points, relMeasure, pos.step * TICKS_PER_STEP);
+        if (val !== null) values.set(clip.target, val);
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Apply automation lanes and clips for a song position. Parameter setters
+ * act immediately, so callers invoke this when the position is reached
+ * rather than when it is scheduled. Parameters a voice takes when it starts
+ * are instead resolved by scheduleStep.
+ */
+export function applyAutomationAt(
+  engine: AudioEngine,
+  state: SequencerState,
+  pos: TransportPosition,
+): void {
+  for (const [target, value] of getAutomationValuesAt(state, pos)) {
+    applyAutomation(engine, target, value);
+  }
+}
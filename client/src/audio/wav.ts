@@ -0,0 +1,136 @@
+import type { WavBitDepth } from '../types';
+
+/** WAVE format tags */
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+
+/**
+ * Encode an AudioBuffer as a RIFF/WAVE file.
+ * 16- and 24-bit output is integer PCM; 32-bit output is IEEE float.
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const isFloat = bitDepth === 32;
+
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, isFloat ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk (interleaved frames)
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      if (isFloat) {
+        view.setFloat32(offset, channels[c][i], true);
+      } else if (bitDepth === 24) {
+        const int = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        view.setUint8(offset, int & 0xff);
+        view.setUint8(offset + 1, (int >> 8) & 0xff);
+        view.setUint8(offset + 2, (int >> 16) & 0xff);
+      } else {
+        view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+/** Encode mono 16-bit PCM frames as a RIFF/WAVE file. */
+export function encodePcm16Wav(frames: Int16Array, sampleRate: number): Blob {
+  const dataSize = frames.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, FORMAT_PCM, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < frames.length; i++) {
+    view.setInt16(44 + i * 2, frames[i], true);
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+/** Length and embedded loop of a WAVE file */
+export interface WavInfo {
+  frames: number;
+  /** First loop of the `smpl` chunk in frames (end inclusive), if any */
+  loop: { start: number; end: number } | null;
+}
+
+/** Read the frame count and sampler loop of a RIFF/WAVE file; null if it isn't one. */
+export function readWavInfo(data: ArrayBuffer): WavInfo | null {
+  const view = new DataView(data);
+  const readString = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+  if (data.byteLength < 12 || readString(0) !== 'RIFF' || readString(8) !== 'WAVE') return null;
+
+  let blockAlign = 0;
+  let dataSize = -1;
+  let loop: WavInfo['loop'] = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const id = readString(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ' && size >= 16) {
+      blockAlign = view.getUint16(body + 12, true);
+    } else if (id === 'data') {
+      dataSize = Math.min(size, data.byteLength - body);
+    } else if (id === 'smpl' && size >= 36 + 24 && view.getUint32(body + 28, true) > 0) {
+      // First sample loop: cue id, type, start, end, fraction, play count
+      loop = { start: view.getUint32(body + 36 + 8, true), end: view.getUint32(body + 36 + 12, true) };
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+  if (blockAlign === 0 || dataSize < 0) return null;
+  return { frames: Math.floor(dataSize / blockAlign), loop };
+}
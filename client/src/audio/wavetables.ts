@@ -0,0 +1,110 @@
+import type { OscillatorModeSettings, WavetableFrame, WavetableName } from '../types';
+
+/**
+ * Wavetables of the synth's wavetable oscillators: the built-in tables and
+ * the analysis of single-cycle WAV files into frames.
+ */
+
+/** Harmonics kept per frame */
+const HARMONICS = 64;
+/** Most frames a loaded wavetable keeps */
+const MAX_WAVETABLE_FRAMES = 16;
+/** Samples per frame of a multi-frame wavetable file (the common 2048-sample cycle) */
+const WAVETABLE_CYCLE = 2048;
+
+/** Build a frame from the sine and cosine amplitude of each harmonic (1-based) */
+function buildFrame(sine: (n: number) => number, cosine: (n: number) => number = () => 0): WavetableFrame {
+  const real = [0];
+  const imag = [0];
+  for (let n = 1; n <= HARMONICS; n++) {
+    real.push(cosine(n));
+    imag.push(sine(n));
+  }
+  return { real, imag };
+}
+
+const odd = (n: number) => n % 2 === 1;
+
+/** First two formants (Hz) of the vowels a, e, i, o, u */
+const VOWEL_FORMANTS: Array<[number, number]> = [[730, 1090], [530, 1840], [270, 2290], [570, 840], [300, 870]];
+/** Fundamental (Hz) the formant frames are voiced at */
+const FORMANT_FUNDAMENTAL = 110;
+
+const BUILT_IN_WAVETABLES: Record<Exclude<WavetableName, 'custom'>, WavetableFrame[]> = {
+  // Sine → triangle → saw → square
+  analog: [
+    buildFrame((n) => (n === 1 ? 1 : 0)),
+    buildFrame((n) => (odd(n) ? (8 / (Math.PI * Math.PI * n * n)) * (n % 4 === 1 ? 1 : -1) : 0)),
+    buildFrame((n) => (2 / (Math.PI * n)) * (odd(n) ? 1 : -1)),
+    buildFrame((n) => (odd(n) ? 4 / (Math.PI * n) : 0)),
+  ],
+  // Pulse narrowing from square to a thin spike
+  pwm: [0.5, 0.4, 0.3, 0.2, 0.12, 0.06].map((width) =>
+    buildFrame(() => 0, (n) => (2 * Math.sin(Math.PI * n * width)) / (Math.PI * n)),
+  ),
+  // Saw harmonics added in octaves, from a sine to the full series
+  harmonics: [1, 2, 4, 8, 16, 32, 64].map((count) =>
+    buildFrame((n) => (n <= count ? 1 / n : 0)),
+  ),
+  // Vowels a → e → i → o → u
+  formant: VOWEL_FORMANTS.map(([f1, f2]) =>
+    buildFrame((n) => {
+      const freq = n * FORMANT_FUNDAMENTAL;
+      const peak = (formant: number) => Math.exp(-Math.pow((freq - formant) / 150, 2));
+      return peak(f1) + 0.6 * peak(f2) + 0.1 / n;
+    }),
+  ),
+};
+
+/** Frames an oscillator plays in wavetable mode; an empty custom table falls back to `analog`. */
+export function getWavetableFrames(settings: OscillatorModeSettings): WavetableFrame[] {
+  if (settings.wavetable === 'custom') {
+    return settings.customFrames.length > 0 ? settings.customFrames : BUILT_IN_WAVETABLES.analog;
+  }
+  return BUILT_IN_WAVETABLES[settings.wavetable] ?? BUILT_IN_WAVETABLES.analog;
+}
+
+const roundCoefficient = (value: number) => Math.round(value * 1e5) / 1e5;
+
+/**
+ * Analyze a wavetable file into frames. A file whose length is a multiple
+ * of 2048 samples holds one cycle per 2048 samples; any other file is a
+ * single cycle. Long tables are thinned out to 16 evenly spaced frames,
+ * and silent frames are left out.
+ * @param samples       The decoded (possibly resampled) first channel
+ * @param sourceLength  Length of the file in frames before decoding
+ * @throws Error if the file is silent
+ */
+export function analyzeWavetable(samples: Float32Array, sourceLength: number): WavetableFrame[] {
+  const cycles = sourceLength >= WAVETABLE_CYCLE * 2 && sourceLength % WAVETABLE_CYCLE === 0
+    ? sourceLength / WAVETABLE_CYCLE
+    : 1;
+  const cycleLength = Math.floor(samples.length / cycles);
+  const frameCount = Math.min(cycles, MAX_WAVETABLE_FRAMES);
+  const harmonics = Math.min(HARMONICS, Math.floor(cycleLength / 2));
+  if (harmonics < 1) throw new Error('The wavetable file is too short');
+
+  const frames: WavetableFrame[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    const cycle = frameCount === 1 ? 0 : Math.round((f * (cycles - 1)) / (frameCount - 1));
+    const offset = cycle * cycleLength;
+    const real = [0];
+    const imag = [0];
+    for (let n = 1; n <= harmonics; n++) {
+      let re = 0;
+      let im = 0;
+      for (let k = 0; k < cycleLength; k++) {
+        const phase = (2 * Math.PI * n * k) / cycleLength;
+        re += samples[offset + k] * Math.cos(phase);
+        im += samples[offset + k] * Math.sin(phase);
+      }
+      real.push(roundCoefficient((2 * re) / cycleLength));
+      imag.push(roundCoefficient((2 * im) / cycleLength));
+    }
+    // A silent frame has nothing to normalize a PeriodicWave by
+    if (real.some((v) => v !== 0) || imag.some((v) => v !== 0)) frames.push({ real, imag });
+  }
+
+  if (frames.length === 0) throw new Error('The wavetable file is silent');
+  return frames;
+}
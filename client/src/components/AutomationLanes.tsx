@@ -1,5 +1,6 @@
 import React, { useState, useCallback, useRef, useMemo } from 'react';
-import type { AutomationLane, AutomationTarget, ChannelAutomationParam } from '../types';
+import type { AutomationLane, AutomationTarget, ChannelAutomationParam, DrumSynthParam, ModRoute } from '../types';
+import { TICKS_PER_STEP, MOD_SOURCE_LABELS, MOD_DESTINATION_LABELS } from '../types';
 
 /** Drawing tool mode for automation lanes */
 type DrawMode = 'point' | 'freehand' | 'line' | 'erase';
@@ -19,11 +20,14 @@ interface AutomationLanesProps {
   playbackMode: 'pattern' | 'song';
   drumTracks: TrackInfo[];
   sampleTracks: TrackInfo[];
+  /** Instrument channel whose synth modulation routes can be automated */
+  synthChannelId: string;
+  modRoutes: ModRoute[];
   onAddLane: (target: AutomationTarget) => void;
   onRemoveLane: (laneId: string) => void;
   onToggleLane: (laneId: string) => void;
-  onSetPoint: (laneId: string, measure: number, step: number, value: number) => void;
-  onRemovePoint: (laneId: string, measure: number, step: number) => void;
+  onSetPoint: (laneId: string, measure: number, tick: number, value: number) => void;
+  onRemovePoint: (laneId: string, measure: number, tick: number) => void;
   onClearLane: (laneId: string) => void;
 }
 
@@ -45,6 +49,16 @@ const CHANNEL_PARAMS: { param: ChannelAutomationParam; label: string }[] = [
   { param: 'filterSend', label: 'Filter Send' },
 ];
 
+/** Synth parameters automatable on drum channels only */
+const DRUM_SYNTH_PARAMS: { param: DrumSynthParam; label: string }[] = [
+  { param: 'tone', label: 'Tone' },
+  { param: 'decay', label: 'Decay' },
+  { param: 'pitchEnv', label: 'Pitch Env' },
+  { param: 'noiseColor', label: 'Noise Color' },
+  { param: 'click', label: 'Click' },
+  { param: 'drive', label: 'Drive' },
+];
+
 /** Cell width must match arrangement grid (48px cell + 2px gap) */
 const CELL_WIDTH = 48;
 const CELL_GAP = 2;
@@ -75,6 +89,8 @@ const AutomationLanes = React.memo<AutomationLanesProps>(function AutomationLane
   playbackMode,
   drumTracks,
   sampleTracks,
+  synthChannelId,
+  modRoutes,
   onAddLane,
   onRemoveLane,
   onToggleLane,
@@ -96,7 +112,7 @@ const AutomationLanes = React.memo<AutomationLanesProps>(function AutomationLane
     // Per-drum-channel targets
     for (const track of drumTracks) {
       const name = track.name;
-      for (const { param, label } of CHANNEL_PARAMS) {
+      for (const { param, label } of [...CHANNEL_PARAMS, ...DRUM_SYNTH_PARAMS]) {
         targets.push({
           value: `drum:${track.id}:${param}` as AutomationTarget,
           label: `${name} ${label}`,
@@ -115,8 +131,16 @@ const AutomationLanes = React.memo<AutomationLanesProps>(function AutomationLane
         });
       }
     }
+    // Per-route amounts of the synth modulation matrix
+    for (const route of modRoutes) {
+      targets.push({
+        value: `synth:${synthChannelId}:${route.id}`,
+        label: `${MOD_SOURCE_LABELS[route.source]} → ${MOD_DESTINATION_LABELS[route.destination]}`,
+        group: 'Synth Mod',
+      });
+    }
     return targets;
-  }, [drumTracks, sampleTracks]);
+  }, [drumTracks, sampleTracks, synthChannelId, modRoutes]);
 
   const usedTargets = new Set(lanes.map((l) => l.target));
   const availableTargets = allTargets.filter((t) => !usedTargets.has(t.value));
@@ -196,8 +220,8 @@ const AutomationLanes = React.memo<AutomationLanesProps>(function AutomationLane
           onToggle={() => onToggleLane(lane.id)}
           onRemove={() => onRemoveLane(lane.id)}
           onClear={() => onClearLane(lane.id)}
-          onSetPoint={(m, s, v) => onSetPoint(lane.id, m, s, v)}
-          onRemovePoint={(m, s) => onRemovePoint(lane.id, m, s)}
+          onSetPoint={(m, t, v) => onSetPoint(lane.id, m, t, v)}
+          onRemovePoint={(m, t) => onRemovePoint(lane.id, m, t)}
         />
       ))}
     </div>
@@ -216,8 +240,9 @@ interface AutomationLaneRowProps {
   onToggle: () => void;
   onRemove: () => void;
   onClear: () => void;
-  onSetPoint: (measure: number, step: number, value: number) => void;
-  onRemovePoint: (measure: number, step: number) => void;
+  /** Points are addressed by measure and tick within the measure */
+  onSetPoint: (measure: number, tick: number, value: number) => void;
+  onRemovePoint: (measure: number, tick: number) => void;
 }
 
 const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function AutomationLaneRow({
@@ -270,7 +295,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
     return { measure: arrangementLength - 1, step: STEPS_PER_MEASURE - 1 };
   }, [arrangementLength]);
 
-  // Convert (measure, step) to pixel X
+  // Convert (measure, step) to pixel X; the step may be fractional (off-grid points)
   const measureStepToX = useCallback((measure: number, step: number): number => {
     let accX = 0;
     for (let m = 0; m < measure; m++) {
@@ -307,7 +332,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
       const lin2 = toLinear(ms2.measure, ms2.step);
 
       if (lin1 === lin2) {
-        onSetPoint(ms2.measure, ms2.step, v2);
+        onSetPoint(ms2.measure, ms2.step * TICKS_PER_STEP, v2);
         return;
       }
 
@@ -318,7 +343,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
         const value = v1 + t * (v2 - v1);
         const { measure, step } = fromLinear(i);
         if (measure < arrangementLength) {
-          onSetPoint(measure, step, value);
+          onSetPoint(measure, step * TICKS_PER_STEP, value);
         }
       }
     },
@@ -329,11 +354,11 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
   const eraseNear = useCallback(
     (x: number, y: number) => {
       for (const pt of lane.points) {
-        const px = measureStepToX(pt.measure, pt.step);
+        const px = measureStepToX(pt.measure, pt.tick / TICKS_PER_STEP);
         const py = (1 - pt.value) * LANE_HEIGHT;
         const dist = Math.sqrt((px - x) ** 2 + (py - y) ** 2);
         if (dist < 14) {
-          onRemovePoint(pt.measure, pt.step);
+          onRemovePoint(pt.measure, pt.tick);
         }
       }
     },
@@ -438,7 +463,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
     ctx.moveTo(startX, startY);
 
     for (const pt of lane.points) {
-      const px = measureStepToX(pt.measure, pt.step);
+      const px = measureStepToX(pt.measure, pt.tick / TICKS_PER_STEP);
       const py = (1 - pt.value) * LANE_HEIGHT;
       ctx.lineTo(px, py);
     }
@@ -460,7 +485,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
 
     // Draw point handles
     for (const pt of lane.points) {
-      const px = measureStepToX(pt.measure, pt.step);
+      const px = measureStepToX(pt.measure, pt.tick / TICKS_PER_STEP);
       const py = (1 - pt.value) * LANE_HEIGHT;
       ctx.beginPath();
       ctx.arc(px, py, 4, 0, Math.PI * 2);
@@ -506,17 +531,17 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
     // Right-click always removes nearest point regardless of mode
     if (e.button === 2) {
       e.preventDefault();
-      let closest: { m: number; s: number; dist: number } | null = null;
+      let closest: { m: number; t: number; dist: number } | null = null;
       for (const pt of lane.points) {
-        const px = measureStepToX(pt.measure, pt.step);
+        const px = measureStepToX(pt.measure, pt.tick / TICKS_PER_STEP);
         const py = (1 - pt.value) * LANE_HEIGHT;
         const dist = Math.sqrt((px - x) ** 2 + (py - y) ** 2);
         if (dist < 12 && (!closest || dist < closest.dist)) {
-          closest = { m: pt.measure, s: pt.step, dist };
+          closest = { m: pt.measure, t: pt.tick, dist };
         }
       }
       if (closest) {
-        onRemovePoint(closest.m, closest.s);
+        onRemovePoint(closest.m, closest.t);
       }
       return;
     }
@@ -525,13 +550,13 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
       setDrawing(true);
       const { measure, step } = xToMeasureStep(x);
       const value = 1 - y / LANE_HEIGHT;
-      onSetPoint(measure, step, value);
+      onSetPoint(measure, step * TICKS_PER_STEP, value);
     } else if (drawMode === 'freehand') {
       setDrawing(true);
       lastDrawPos.current = { x, y };
       const { measure, step } = xToMeasureStep(x);
       const value = 1 - y / LANE_HEIGHT;
-      onSetPoint(measure, step, value);
+      onSetPoint(measure, step * TICKS_PER_STEP, value);
     } else if (drawMode === 'line') {
       const { measure, step } = xToMeasureStep(x);
       const value = 1 - y / LANE_HEIGHT;
@@ -539,7 +564,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
       if (!lineAnchor.current) {
         // First click: set anchor
         lineAnchor.current = { measure, step, value };
-        onSetPoint(measure, step, value);
+        onSetPoint(measure, step * TICKS_PER_STEP, value);
       } else {
         // Second click: draw line from anchor to here
         const anchor = lineAnchor.current;
@@ -571,7 +596,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
     if (drawMode === 'point') {
       const { measure, step } = xToMeasureStep(x);
       const value = 1 - y / LANE_HEIGHT;
-      onSetPoint(measure, step, value);
+      onSetPoint(measure, step * TICKS_PER_STEP, value);
     } else if (drawMode === 'freehand') {
       const prev = lastDrawPos.current;
       if (prev) {
@@ -579,7 +604,7 @@ const AutomationLaneRow = React.memo<AutomationLaneRowProps>(function Automation
       } else {
         const { measure, step } = xToMeasureStep(x);
         const value = 1 - y / LANE_HEIGHT;
-        onSetPoint(measure, step, value);
+        onSetPoint(measure, step * TICKS_PER_STEP, value);
       }
       lastDrawPos.current = { x, y };
     } else if (drawMode === 'erase') {
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import type { RenderOptions, WavBitDepth, MidiExportScope } from '../types';
+
+interface ExportDialogProps {
+  /** Whether the project has a loop range that can be rendered on its own */
+  hasLoopRange: boolean;
+  onExportSong: (options: RenderOptions) => Promise<void>;
+  onExportStems: (options: RenderOptions, onProgress: (index: number, total: number) => void) => Promise<void>;
+  /** Save the project and download it with its samples and presets as one archive */
+  onExportBundle: () => Promise<void>;
+  /** Download the active pattern or the arrangement as a .mid file */
+  onExportMidi: (scope: MidiExportScope) => void;
+  onClose: () => void;
+}
+
+const BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: '16-bit PCM' },
+  { value: 24, label: '24-bit PCM' },
+  { value: 32, label: '32-bit float' },
+];
+
+const ExportDialog = React.memo<ExportDialogProps>(function ExportDialog({
+  hasLoopRange,
+  onExportSong,
+  onExportStems,
+  onExportBundle,
+  onExportMidi,
+  onClose,
+}) {
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [loopRangeOnly, setLoopRangeOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const options: RenderOptions = { bitDepth, loopRangeOnly: hasLoopRange && loopRangeOnly };
+
+  const handleExport = async () => {
+    setBusy(true);
+    setStatus('Rendering...');
+    try {
+      await onExportSong(options);
+      setStatus('Done');
+    } catch {
+      setStatus('Error rendering song');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExportStems = async () => {
+    setBusy(true);
+    setStatus('Rendering stems...');
+    try {
+      await onExportStems(options, (index, total) => {
+        setStatus(`Rendering stem ${index + 1}/${total}...`);
+      });
+      setStatus('Done');
+    } catch {
+      setStatus('Error rendering stems');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExportBundle = async () => {
+    setBusy(true);
+    setStatus('Packaging project...');
+    try {
+      await onExportBundle();
+      setStatus('Done');
+    } catch {
+      setStatus('Error exporting project bundle');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExportMidi = (scope: MidiExportScope) => {
+    try {
+      onExportMidi(scope);
+      setStatus('Done');
+    } catch {
+      setStatus('Error exporting MIDI');
+    }
+  };
+
+  return (
+    <div className="load-dialog-overlay" onClick={busy ? undefined : onClose}>
+      <div className="load-dialog export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="load-dialog-header">
+          <h2>Export</h2>
+          <button className="load-dialog-close" onClick={onClose} disabled={busy}>
+            X
+          </button>
+        </div>
+
+        <label className="export-dialog-row">
+          <span>Format</span>
+          <select
+            value={bitDepth}
+            onChange={(e) => setBitDepth(Number(e.target.value) as WavBitDepth)}
+            disabled={busy}
+          >
+            {BIT_DEPTHS.map((d) => (
+              <option key={d.value} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="export-dialog-row">
+          <span>Loop range only</span>
+          <input
+            type="checkbox"
+            checked={hasLoopRange && loopRangeOnly}
+            onChange={(e) => setLoopRangeOnly(e.target.checked)}
+            disabled={busy || !hasLoopRange}
+          />
+        </label>
+
+        <div className="export-dialog-actions">
+          <button className="project-btn project-save-btn" onClick={handleExport} disabled={busy}>
+            Export WAV
+          </button>
+          <button className="project-btn" onClick={handleExportStems} disabled={busy}>
+            Export Stems
+          </button>
+          <button
+            className="project-btn"
+            onClick={handleExportBundle}
+            disabled={busy}
+            title="Project file with all samples and synth presets, for moving it to another machine"
+          >
+            Export Project Bundle
+          </button>
+          {status && <span className="project-status">{status}</span>}
+        </div>
+
+        <div className="export-dialog-actions">
+          <button className="project-btn" onClick={() => handleExportMidi('pattern')} disabled={busy}>
+            Pattern MIDI
+          </button>
+          <button className="project-btn" onClick={() => handleExportMidi('song')} disabled={busy}>
+            Song MIDI
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default ExportDialog;
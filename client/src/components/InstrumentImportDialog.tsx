@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import type { InstrumentImportSource } from '../sampler/instrumentImport';
+
+interface InstrumentImportDialogProps {
+  source: InstrumentImportSource;
+  /** Import the instrument at this index of the source's choices */
+  onImport: (index: number) => void;
+  onClose: () => void;
+}
+
+const InstrumentImportDialog = React.memo<InstrumentImportDialogProps>(function InstrumentImportDialog({
+  source,
+  onImport,
+  onClose,
+}) {
+  const [selected, setSelected] = useState(0);
+  const [importing, setImporting] = useState(false);
+
+  const handleImport = () => {
+    setImporting(true);
+    onImport(selected);
+  };
+
+  return (
+    <div className="load-dialog-overlay" onClick={onClose}>
+      <div className="load-dialog export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="load-dialog-header">
+          <h2>Import Instrument: {source.fileName}</h2>
+          <button className="load-dialog-close" onClick={onClose}>
+            X
+          </button>
+        </div>
+
+        <ul className="load-dialog-list">
+          {source.choices.map((choice, i) => (
+            <li key={i} className="load-dialog-item">
+              <label className="midi-import-part">
+                <input type="radio" checked={selected === i} onChange={() => setSelected(i)} />
+                <span>{choice.name}</span>
+              </label>
+              <span className="load-dialog-item-date">{choice.detail}</span>
+            </li>
+          ))}
+        </ul>
+
+        <p className="export-dialog-row">
+          The active instrument channel will play the instrument on its sampler
+        </p>
+
+        <div className="export-dialog-actions">
+          <button className="project-btn project-save-btn" onClick={handleImport} disabled={importing}>
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+          <button className="project-btn" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default InstrumentImportDialog;
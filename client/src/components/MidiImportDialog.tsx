@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { MidiImportOptions } from '../types';
+import type { MidiImportSource } from '../midi/midiImport';
+
+interface MidiImportDialogProps {
+  /** Name of the imported file (without extension) */
+  fileName: string;
+  source: MidiImportSource;
+  onImport: (options: MidiImportOptions) => void;
+  onClose: () => void;
+}
+
+const QUANTIZE_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: '1/16' },
+  { value: 2, label: '1/8' },
+  { value: 4, label: '1/4' },
+  { value: 0, label: 'Off' },
+];
+
+const MidiImportDialog = React.memo<MidiImportDialogProps>(function MidiImportDialog({
+  fileName,
+  source,
+  onImport,
+  onClose,
+}) {
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(source.parts.map((_, i) => i)),
+  );
+  const [quantize, setQuantize] = useState(1);
+  const [addToArrangement, setAddToArrangement] = useState(true);
+
+  const togglePart = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport({ partIndexes: [...selected].sort((a, b) => a - b), quantize, addToArrangement });
+  };
+
+  return (
+    <div className="load-dialog-overlay" onClick={onClose}>
+      <div className="load-dialog export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="load-dialog-header">
+          <h2>Import MIDI: {fileName}</h2>
+          <button className="load-dialog-close" onClick={onClose}>
+            X
+          </button>
+        </div>
+
+        {source.parts.length === 0 ? (
+          <p className="load-dialog-empty">No notes in this file</p>
+        ) : (
+          <ul className="load-dialog-list">
+            {source.parts.map((part, i) => (
+              <li key={i} className="load-dialog-item">
+                <label className="midi-import-part">
+                  <input type="checkbox" checked={selected.has(i)} onChange={() => togglePart(i)} />
+                  <span>{part.name}</span>
+                </label>
+                <span className="load-dialog-item-date">
+                  {part.isDrum ? 'Drums' : `Ch ${part.channel + 1}`} · {part.notes.length} notes
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <label className="export-dialog-row">
+          <span>Quantize</span>
+          <select value={quantize} onChange={(e) => setQuantize(Number(e.target.value))}>
+            {QUANTIZE_OPTIONS.map((q) => (
+              <option key={q.value} value={q.value}>{q.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="export-dialog-row">
+          <span>Add to arrangement</span>
+          <input
+            type="checkbox"
+            checked={addToArrangement}
+            onChange={(e) => setAddToArrangement(e.target.checked)}
+          />
+        </label>
+
+        {source.bpm !== null && (
+          <p className="export-dialog-row">Tempo will be set to {Math.round(source.bpm)} BPM</p>
+        )}
+
+        <div className="export-dialog-actions">
+          <button
+            className="project-btn project-save-btn"
+            onClick={handleImport}
+            disabled={selected.size === 0}
+          >
+            Import
+          </button>
+          <button className="project-btn" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default MidiImportDialog;
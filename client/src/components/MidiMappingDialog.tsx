@@ -0,0 +1,72 @@
+import React from 'react';
+import type { MidiMapping, SequencerState } from '../types';
+import { getMidiLearnLabel } from '../midi/midiLearn';
+
+interface MidiMappingDialogProps {
+  state: SequencerState;
+  onUpdateMapping: (mappingId: string, params: Partial<Pick<MidiMapping, 'min' | 'max'>>) => void;
+  onRemoveMapping: (mappingId: string) => void;
+  onClose: () => void;
+}
+
+const MidiMappingDialog = React.memo<MidiMappingDialogProps>(function MidiMappingDialog({
+  state,
+  onUpdateMapping,
+  onRemoveMapping,
+  onClose,
+}) {
+  return (
+    <div className="load-dialog-overlay" onClick={onClose}>
+      <div className="load-dialog export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="load-dialog-header">
+          <h2>MIDI Mappings</h2>
+          <button className="load-dialog-close" onClick={onClose}>
+            X
+          </button>
+        </div>
+
+        {state.midiMappings.length === 0 ? (
+          <p className="load-dialog-empty">
+            No mappings yet. Turn on Learn, click a control, then move a knob or fader.
+          </p>
+        ) : (
+          <ul className="load-dialog-list">
+            {state.midiMappings.map((mapping) => (
+              <li key={mapping.id} className="load-dialog-item">
+                <span className="load-dialog-item-date">
+                  CC {mapping.controller} · Ch {mapping.channel + 1}
+                </span>
+                <span className="midi-mapping-target">{getMidiLearnLabel(mapping.target, state)}</span>
+                <input
+                  className="midi-mapping-range"
+                  type="number"
+                  value={mapping.min}
+                  step="any"
+                  onChange={(e) => onUpdateMapping(mapping.id, { min: parseFloat(e.target.value) || 0 })}
+                  title="Value at controller minimum"
+                />
+                <input
+                  className="midi-mapping-range"
+                  type="number"
+                  value={mapping.max}
+                  step="any"
+                  onChange={(e) => onUpdateMapping(mapping.id, { max: parseFloat(e.target.value) || 0 })}
+                  title="Value at controller maximum"
+                />
+                <button
+                  className="load-dialog-item-delete"
+                  onClick={() => onRemoveMapping(mapping.id)}
+                  title="Remove mapping"
+                >
+                  X
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default MidiMappingDialog;
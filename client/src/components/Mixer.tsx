@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react';
-import type { InstrumentName, Track, SampleTrack, ReverbSettings, DelaySettings, DelaySync, FilterSettings, FilterType, MasterLimiterSettings, InsertEffectType, InsertEffectParams, InsertEffect, FilterEffectParams, ReverbEffectParams, DelayEffectParams, DistortionEffectParams, DistortionMode, ChorusEffectParams, FlangerEffectParams, PhaserEffectParams, CompressorEffectParams, SendChannel, MixerTrack as MixerTrackType, EQBand, EQBandType } from '../types';
+import type { Track, SampleTrack, InstrumentChannel, ReverbSettings, DelaySettings, DelaySync, FilterSettings, FilterType, MasterLimiterSettings, InsertEffectType, InsertEffectParams, InsertEffect, FilterEffectParams, ReverbEffectParams, DelayEffectParams, DistortionEffectParams, DistortionMode, ChorusEffectParams, FlangerEffectParams, PhaserEffectParams, CompressorEffectParams, SendChannel, MixerTrack as MixerTrackType, EQBand, EQBandType, MidiLearnTarget } from '../types';
 import { MAX_INSERT_EFFECTS, MAX_SEND_CHANNELS, MAX_MIXER_TRACKS } from '../types';
 import type AudioEngine from '../audio/AudioEngine';
 
@@ -30,23 +30,25 @@ const INSERT_EFFECT_OPTIONS: { value: InsertEffectType; label: string }[] = [
 interface MixerProps {
   tracks: Track[];
   sampleTracks: SampleTrack[];
+  /** Instrument channels of the active pattern's piano roll */
+  instrumentChannels: InstrumentChannel[];
   masterVolume: number;
   masterReverb: ReverbSettings;
   masterDelay: DelaySettings;
   masterFilter: FilterSettings;
   masterLimiter: MasterLimiterSettings;
   audioEngine: AudioEngine;
-  onSetVolume: (trackId: InstrumentName, volume: number) => void;
-  onSetPan: (trackId: InstrumentName, pan: number) => void;
-  onToggleMute: (trackId: InstrumentName) => void;
-  onToggleSolo: (trackId: InstrumentName) => void;
-  onClearTrack: (trackId: InstrumentName) => void;
+  onSetVolume: (trackId: string, volume: number) => void;
+  onSetPan: (trackId: string, pan: number) => void;
+  onToggleMute: (trackId: string) => void;
+  onToggleSolo: (trackId: string) => void;
+  onClearTrack: (trackId: string) => void;
   onSetMasterVolume: (volume: number) => void;
-  onSetReverbSend: (trackId: InstrumentName, send: number) => void;
+  onSetReverbSend: (trackId: string, send: number) => void;
   onSetMasterReverb: (params: Partial<ReverbSettings>) => void;
-  onSetDelaySend: (trackId: InstrumentName, send: number) => void;
+  onSetDelaySend: (trackId: string, send: number) => void;
   onSetMasterDelay: (params: Partial<DelaySettings>) => void;
-  onSetFilterSend: (trackId: InstrumentName, send: number) => void;
+  onSetFilterSend: (trackId: string, send: number) => void;
   onSetMasterFilter: (params: Partial<FilterSettings>) => void;
   onSetMasterLimiter: (params: Partial<MasterLimiterSettings>) => void;
   onSetSampleVolume: (trackId: string, volume: number) => void;
@@ -57,6 +59,13 @@ interface MixerProps {
   onSetSampleReverbSend: (trackId: string, send: number) => void;
   onSetSampleDelaySend: (trackId: string, send: number) => void;
   onSetSampleFilterSend: (trackId: string, send: number) => void;
+  onSetInstrumentVolume: (channelId: string, volume: number) => void;
+  onSetInstrumentPan: (channelId: string, pan: number) => void;
+  onToggleInstrumentMute: (channelId: string) => void;
+  onToggleInstrumentSolo: (channelId: string) => void;
+  onSetInstrumentReverbSend: (channelId: string, send: number) => void;
+  onSetInstrumentDelaySend: (channelId: string, send: number) => void;
+  onSetInstrumentFilterSend: (channelId: string, send: number) => void;
   onAddInsertEffect: (channelId: string, effectType: InsertEffectType) => void;
   onRemoveInsertEffect: (channelId: string, effectId: string) => void;
   onToggleInsertEffect: (channelId: string, effectId: string) => void;
@@ -133,6 +142,7 @@ const InsertEffectEditor: React.FC<{
   onMove: (channelId: string, effectId: string, direction: 'up' | 'down') => void;
 }> = React.memo(({ effect, channelId, onToggle, onRemove, onUpdateParams, onMove }) => {
   const [expanded, setExpanded] = useState(false);
+  const learnTarget = (param: string): MidiLearnTarget => `fx:${channelId}:${effect.id}:${param}`;
 
   const renderParams = () => {
     switch (effect.effectType) {
@@ -154,12 +164,14 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Cutoff</label>
               <input type="range" min={20} max={20000} step={1} value={p.cutoff}
+                data-midi-learn={learnTarget('cutoff')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { cutoff: parseFloat(e.target.value) })} />
               <span>{p.cutoff >= 1000 ? `${(p.cutoff / 1000).toFixed(1)}k` : Math.round(p.cutoff)}Hz</span>
             </div>
             <div className="insert-fx-param">
               <label>Res</label>
               <input type="range" min={0.1} max={25} step={0.1} value={p.resonance}
+                data-midi-learn={learnTarget('resonance')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { resonance: parseFloat(e.target.value) })} />
               <span>{p.resonance.toFixed(1)}</span>
             </div>
@@ -173,12 +185,14 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Decay</label>
               <input type="range" min={0.1} max={10} step={0.1} value={p.decay}
+                data-midi-learn={learnTarget('decay')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { decay: parseFloat(e.target.value) })} />
               <span>{p.decay.toFixed(1)}s</span>
             </div>
             <div className="insert-fx-param">
               <label>Mix</label>
               <input type="range" min={0} max={1} step={0.01} value={p.mix}
+                data-midi-learn={learnTarget('mix')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { mix: parseFloat(e.target.value) })} />
               <span>{Math.round(p.mix * 100)}%</span>
             </div>
@@ -192,18 +206,21 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Time</label>
               <input type="range" min={0.01} max={2} step={0.01} value={p.time}
+                data-midi-learn={learnTarget('time')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { time: parseFloat(e.target.value) })} />
               <span>{(p.time * 1000).toFixed(0)}ms</span>
             </div>
             <div className="insert-fx-param">
               <label>FB</label>
               <input type="range" min={0} max={0.9} step={0.01} value={p.feedback}
+                data-midi-learn={learnTarget('feedback')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { feedback: parseFloat(e.target.value) })} />
               <span>{Math.round(p.feedback * 100)}%</span>
             </div>
             <div className="insert-fx-param">
               <label>Mix</label>
               <input type="range" min={0} max={1} step={0.01} value={p.mix}
+                data-midi-learn={learnTarget('mix')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { mix: parseFloat(e.target.value) })} />
               <span>{Math.round(p.mix * 100)}%</span>
             </div>
@@ -228,24 +245,28 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Drive</label>
               <input type="range" min={1} max={100} step={1} value={p.drive}
+                data-midi-learn={learnTarget('drive')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { drive: parseFloat(e.target.value) })} />
               <span>{Math.round(p.drive)}</span>
             </div>
             <div className="insert-fx-param">
               <label>Tone</label>
               <input type="range" min={200} max={20000} step={1} value={p.tone ?? 8000}
+                data-midi-learn={learnTarget('tone')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { tone: parseFloat(e.target.value) })} />
               <span>{(p.tone ?? 8000) >= 1000 ? `${((p.tone ?? 8000) / 1000).toFixed(1)}k` : Math.round(p.tone ?? 8000)}Hz</span>
             </div>
             <div className="insert-fx-param">
               <label>Mix</label>
               <input type="range" min={0} max={1} step={0.01} value={p.mix ?? 1}
+                data-midi-learn={learnTarget('mix')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { mix: parseFloat(e.target.value) })} />
               <span>{Math.round((p.mix ?? 1) * 100)}%</span>
             </div>
             <div className="insert-fx-param">
               <label>Out</label>
               <input type="range" min={0} max={1} step={0.01} value={p.outputGain}
+                data-midi-learn={learnTarget('outputGain')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { outputGain: parseFloat(e.target.value) })} />
               <span>{Math.round(p.outputGain * 100)}%</span>
             </div>
@@ -259,18 +280,21 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Rate</label>
               <input type="range" min={0.1} max={10} step={0.1} value={p.rate}
+                data-midi-learn={learnTarget('rate')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { rate: parseFloat(e.target.value) })} />
               <span>{p.rate.toFixed(1)}Hz</span>
             </div>
             <div className="insert-fx-param">
               <label>Depth</label>
               <input type="range" min={0} max={1} step={0.01} value={p.depth}
+                data-midi-learn={learnTarget('depth')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { depth: parseFloat(e.target.value) })} />
               <span>{Math.round(p.depth * 100)}%</span>
             </div>
             <div className="insert-fx-param">
               <label>Mix</label>
               <input type="range" min={0} max={1} step={0.01} value={p.mix}
+                data-midi-learn={learnTarget('mix')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { mix: parseFloat(e.target.value) })} />
               <span>{Math.round(p.mix * 100)}%</span>
             </div>
@@ -284,24 +308,28 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Rate</label>
               <input type="range" min={0.05} max={5} step={0.05} value={p.rate}
+                data-midi-learn={learnTarget('rate')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { rate: parseFloat(e.target.value) })} />
               <span>{p.rate.toFixed(2)}Hz</span>
             </div>
             <div className="insert-fx-param">
               <label>Depth</label>
               <input type="range" min={0} max={1} step={0.01} value={p.depth}
+                data-midi-learn={learnTarget('depth')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { depth: parseFloat(e.target.value) })} />
               <span>{Math.round(p.depth * 100)}%</span>
             </div>
             <div className="insert-fx-param">
               <label>Feedback</label>
               <input type="range" min={-0.95} max={0.95} step={0.01} value={p.feedback}
+                data-midi-learn={learnTarget('feedback')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { feedback: parseFloat(e.target.value) })} />
               <span>{Math.round(p.feedback * 100)}%</span>
             </div>
             <div className="insert-fx-param">
               <label>Mix</label>
               <input type="range" min={0} max={1} step={0.01} value={p.mix}
+                data-midi-learn={learnTarget('mix')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { mix: parseFloat(e.target.value) })} />
               <span>{Math.round(p.mix * 100)}%</span>
             </div>
@@ -315,18 +343,21 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Rate</label>
               <input type="range" min={0.05} max={10} step={0.05} value={p.rate}
+                data-midi-learn={learnTarget('rate')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { rate: parseFloat(e.target.value) })} />
               <span>{p.rate.toFixed(2)}Hz</span>
             </div>
             <div className="insert-fx-param">
               <label>Depth</label>
               <input type="range" min={0} max={1} step={0.01} value={p.depth}
+                data-midi-learn={learnTarget('depth')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { depth: parseFloat(e.target.value) })} />
               <span>{Math.round(p.depth * 100)}%</span>
             </div>
             <div className="insert-fx-param">
               <label>Feedback</label>
               <input type="range" min={-0.95} max={0.95} step={0.01} value={p.feedback}
+                data-midi-learn={learnTarget('feedback')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { feedback: parseFloat(e.target.value) })} />
               <span>{Math.round(p.feedback * 100)}%</span>
             </div>
@@ -344,6 +375,7 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Mix</label>
               <input type="range" min={0} max={1} step={0.01} value={p.mix}
+                data-midi-learn={learnTarget('mix')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { mix: parseFloat(e.target.value) })} />
               <span>{Math.round(p.mix * 100)}%</span>
             </div>
@@ -357,30 +389,35 @@ const InsertEffectEditor: React.FC<{
             <div className="insert-fx-param">
               <label>Thresh</label>
               <input type="range" min={-60} max={0} step={0.5} value={p.threshold}
+                data-midi-learn={learnTarget('threshold')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { threshold: parseFloat(e.target.value) })} />
               <span>{p.threshold.toFixed(1)}dB</span>
             </div>
             <div className="insert-fx-param">
               <label>Ratio</label>
               <input type="range" min={1} max={20} step={0.5} value={p.ratio}
+                data-midi-learn={learnTarget('ratio')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { ratio: parseFloat(e.target.value) })} />
               <span>{p.ratio.toFixed(1)}:1</span>
             </div>
             <div className="insert-fx-param">
               <label>Attack</label>
               <input type="range" min={0.001} max={1} step={0.001} value={p.attack}
+                data-midi-learn={learnTarget('attack')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { attack: parseFloat(e.target.value) })} />
               <span>{(p.attack * 1000).toFixed(0)}ms</span>
             </div>
             <div className="insert-fx-param">
               <label>Release</label>
               <input type="range" min={0.01} max={1} step={0.01} value={p.release}
+                data-midi-learn={learnTarget('release')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { release: parseFloat(e.target.value) })} />
               <span>{(p.release * 1000).toFixed(0)}ms</span>
             </div>
             <div className="insert-fx-param">
               <label>Gain</label>
               <input type="range" min={0} max={40} step={0.5} value={p.gain}
+                data-midi-learn={learnTarget('gain')}
                 onChange={(e) => onUpdateParams(channelId, effect.id, { gain: parseFloat(e.target.value) })} />
               <span>{p.gain > 0 ? '+' : ''}{p.gain.toFixed(1)}dB</span>
             </div>
@@ -588,6 +625,7 @@ MixerTrackEQ.displayName = 'MixerTrackEQ';
 const Mixer: React.FC<MixerProps> = ({
   tracks,
   sampleTracks,
+  instrumentChannels,
   masterVolume,
   masterReverb,
   masterDelay,
@@ -615,6 +653,13 @@ const Mixer: React.FC<MixerProps> = ({
   onSetSampleReverbSend,
   onSetSampleDelaySend,
   onSetSampleFilterSend,
+  onSetInstrumentVolume,
+  onSetInstrumentPan,
+  onToggleInstrumentMute,
+  onToggleInstrumentSolo,
+  onSetInstrumentReverbSend,
+  onSetInstrumentDelaySend,
+  onSetInstrumentFilterSend,
   onAddInsertEffect,
   onRemoveInsertEffect,
   onToggleInsertEffect,
@@ -666,7 +711,7 @@ const Mixer: React.FC<MixerProps> = ({
       } else if (id.startsWith('strack-')) {
         level = audioEngine.getSampleChannelLevel(id);
       } else {
-        level = audioEngine.getChannelLevel(id as InstrumentName);
+        level = audioEngine.getChannelLevel(id);
       }
 
       const segments = meter.querySelectorAll<HTMLDivElement>('.vu-segment');
@@ -698,6 +743,7 @@ const Mixer: React.FC<MixerProps> = ({
               min={0}
               max={1}
               step={0.01}
+              data-midi-learn={`channel:${track.id}:volume`}
               value={track.volume}
               onChange={(e) => onSetVolume(track.id, parseFloat(e.target.value))}
             />
@@ -711,6 +757,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={-1}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:pan`}
             value={track.pan}
             onChange={(e) => onSetPan(track.id, parseFloat(e.target.value))}
           />
@@ -724,6 +771,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:reverbSend`}
             value={track.reverbSend}
             onChange={(e) => onSetReverbSend(track.id, parseFloat(e.target.value))}
           />
@@ -737,6 +785,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:delaySend`}
             value={track.delaySend}
             onChange={(e) => onSetDelaySend(track.id, parseFloat(e.target.value))}
           />
@@ -750,6 +799,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:filterSend`}
             value={track.filterSend}
             onChange={(e) => onSetFilterSend(track.id, parseFloat(e.target.value))}
           />
@@ -765,6 +815,7 @@ const Mixer: React.FC<MixerProps> = ({
                 min={0}
                 max={1}
                 step={0.01}
+                data-midi-learn={`send:${track.id}:${sc.id}`}
                 value={track.sends?.[sc.id] ?? 0}
                 onChange={(e) => onSetChannelSendLevel(track.id, sc.id, parseFloat(e.target.value))}
               />
@@ -814,6 +865,7 @@ const Mixer: React.FC<MixerProps> = ({
               min={0}
               max={1}
               step={0.01}
+              data-midi-learn={`channel:${track.id}:volume`}
               value={track.volume}
               onChange={(e) => onSetSampleVolume(track.id, parseFloat(e.target.value))}
             />
@@ -827,6 +879,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={-1}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:pan`}
             value={track.pan}
             onChange={(e) => onSetSamplePan(track.id, parseFloat(e.target.value))}
           />
@@ -840,6 +893,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:reverbSend`}
             value={track.reverbSend}
             onChange={(e) => onSetSampleReverbSend(track.id, parseFloat(e.target.value))}
           />
@@ -853,6 +907,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:delaySend`}
             value={track.delaySend}
             onChange={(e) => onSetSampleDelaySend(track.id, parseFloat(e.target.value))}
           />
@@ -866,6 +921,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn={`channel:${track.id}:filterSend`}
             value={track.filterSend}
             onChange={(e) => onSetSampleFilterSend(track.id, parseFloat(e.target.value))}
           />
@@ -881,6 +937,7 @@ const Mixer: React.FC<MixerProps> = ({
                 min={0}
                 max={1}
                 step={0.01}
+                data-midi-learn={`send:${track.id}:${sc.id}`}
                 value={track.sends?.[sc.id] ?? 0}
                 onChange={(e) => onSetChannelSendLevel(track.id, sc.id, parseFloat(e.target.value))}
               />
@@ -919,6 +976,122 @@ const Mixer: React.FC<MixerProps> = ({
         </div>
       ))}
 
+      {instrumentChannels.map((channel) => (
+        <div key={channel.id} className="mixer-channel instrument-mixer-channel">
+          <label className="mixer-channel-name">{channel.name}</label>
+          <div className="mixer-meter-and-slider">
+            <VuMeter meterId={channel.id} />
+            <input
+              type="range"
+              className="mixer-volume-slider"
+              min={0}
+              max={1}
+              step={0.01}
+              data-midi-learn={`channel:${channel.id}:volume`}
+              value={channel.volume}
+              onChange={(e) => onSetInstrumentVolume(channel.id, parseFloat(e.target.value))}
+            />
+          </div>
+          <span className="mixer-volume-display">
+            {Math.round(channel.volume * 100)}%
+          </span>
+          <input
+            type="range"
+            className="mixer-pan-slider"
+            min={-1}
+            max={1}
+            step={0.01}
+            data-midi-learn={`channel:${channel.id}:pan`}
+            value={channel.pan}
+            onChange={(e) => onSetInstrumentPan(channel.id, parseFloat(e.target.value))}
+          />
+          <span className="mixer-pan-display">
+            {channel.pan === 0 ? 'C' : channel.pan < 0 ? `L${Math.round(Math.abs(channel.pan) * 100)}` : `R${Math.round(channel.pan * 100)}`}
+          </span>
+          <label className="mixer-reverb-label">REV</label>
+          <input
+            type="range"
+            className="mixer-reverb-slider"
+            min={0}
+            max={1}
+            step={0.01}
+            data-midi-learn={`channel:${channel.id}:reverbSend`}
+            value={channel.reverbSend}
+            onChange={(e) => onSetInstrumentReverbSend(channel.id, parseFloat(e.target.value))}
+          />
+          <span className="mixer-reverb-display">
+            {Math.round(channel.reverbSend * 100)}%
+          </span>
+          <label className="mixer-delay-label">DLY</label>
+          <input
+            type="range"
+            className="mixer-delay-slider"
+            min={0}
+            max={1}
+            step={0.01}
+            data-midi-learn={`channel:${channel.id}:delaySend`}
+            value={channel.delaySend}
+            onChange={(e) => onSetInstrumentDelaySend(channel.id, parseFloat(e.target.value))}
+          />
+          <span className="mixer-delay-display">
+            {Math.round(channel.delaySend * 100)}%
+          </span>
+          <label className="mixer-filter-label">FLT</label>
+          <input
+            type="range"
+            className="mixer-filter-slider"
+            min={0}
+            max={1}
+            step={0.01}
+            data-midi-learn={`channel:${channel.id}:filterSend`}
+            value={channel.filterSend}
+            onChange={(e) => onSetInstrumentFilterSend(channel.id, parseFloat(e.target.value))}
+          />
+          <span className="mixer-filter-display">
+            {Math.round(channel.filterSend * 100)}%
+          </span>
+          {sendChannels.map((sc) => (
+            <React.Fragment key={sc.id}>
+              <label className="mixer-send-label">{sc.name.length > 6 ? sc.name.slice(0, 6) : sc.name}</label>
+              <input
+                type="range"
+                className="mixer-send-slider"
+                min={0}
+                max={1}
+                step={0.01}
+                data-midi-learn={`send:${channel.id}:${sc.id}`}
+                value={channel.sends?.[sc.id] ?? 0}
+                onChange={(e) => onSetChannelSendLevel(channel.id, sc.id, parseFloat(e.target.value))}
+              />
+              <span className="mixer-send-display">
+                {Math.round((channel.sends?.[sc.id] ?? 0) * 100)}%
+              </span>
+            </React.Fragment>
+          ))}
+          <InsertEffectRack
+            channelId={channel.id}
+            effects={channel.insertEffects ?? []}
+            onAdd={onAddInsertEffect}
+            onRemove={onRemoveInsertEffect}
+            onToggle={onToggleInsertEffect}
+            onUpdateParams={onUpdateInsertEffectParams}
+            onMove={onMoveInsertEffect}
+          />
+          <button
+            className={`mixer-btn mute-btn${channel.muted ? ' active' : ''}`}
+            onClick={() => onToggleInstrumentMute(channel.id)}
+          >
+            M
+          </button>
+          <button
+            className={`mixer-btn solo-btn${channel.solo ? ' active' : ''}`}
+            onClick={() => onToggleInstrumentSolo(channel.id)}
+          >
+            S
+          </button>
+        </div>
+      ))}
+
       <div className="mixer-channel mixer-master-channel">
         <label className="mixer-channel-name mixer-master-label">Master</label>
         <div className="mixer-meter-and-slider">
@@ -929,6 +1102,7 @@ const Mixer: React.FC<MixerProps> = ({
             min={0}
             max={1}
             step={0.01}
+            data-midi-learn="masterVolume"
             value={masterVolume}
             onChange={(e) => onSetMasterVolume(parseFloat(e.target.value))}
           />
@@ -1084,6 +1258,7 @@ const Mixer: React.FC<MixerProps> = ({
               min={20}
               max={20000}
               step={1}
+              data-midi-learn="masterFilter:cutoff"
               value={masterFilter.cutoff}
               onChange={(e) => onSetMasterFilter({ cutoff: parseFloat(e.target.value) })}
             />
@@ -1096,6 +1271,7 @@ const Mixer: React.FC<MixerProps> = ({
               min={0.1}
               max={25}
               step={0.1}
+              data-midi-learn="masterFilter:resonance"
               value={masterFilter.resonance}
               onChange={(e) => onSetMasterFilter({ resonance: parseFloat(e.target.value) })}
             />
@@ -1,5 +1,9 @@
 import { memo, useCallback, useMemo, useRef, useState, useEffect } from 'react';
-import type { PianoRollData, PianoNote, PianoRollTool, SynthSettings, SynthPreset, OscillatorType, SnapResolution, LfoWaveform, LfoTarget, LfoSettings } from '../types';
+import type { PianoRollData, PianoNote, PianoNoteExpression, PianoRollTool, SynthSettings, SynthPreset, OscillatorType, OscillatorMode, OscillatorModeSettings, WavetableName, ModRoute, ModSource, ModDestination, SnapResolution, LfoWaveform, LfoTarget, LfoSettings, LfoDivision, LfoRetrigger, SynthVoiceMode, VoiceStealing, GlideMode, ArpeggiatorSettings, ArpMode, ArpRate, ScaleSettings, ScaleType, ChordType, PianoNoteTransform, PianoInstrument, SamplerSettings, SamplerZone, SampleInstrument, FilterType, SynthFilterType, SynthFilterSlope, SynthFilterRouting, InstrumentChannel } from '../types';
+import { TICKS_PER_STEP, MOD_SOURCE_LABELS, MOD_DESTINATION_LABELS } from '../types';
+import { snapStepSize } from '../utils/snap';
+import { MAX_ARP_OCTAVES } from '../audio/arpeggiator';
+import { SCALE_LABELS, CHORD_LABELS, isInScale, snapToScale, getChordPitches, parseChordIntervals } from '../utils/scales';
 
 /** Note names in chromatic order */
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
@@ -59,22 +63,6 @@ const SNAP_OPTIONS: { value: SnapResolution; label: string }[] = [
   { value: '1/16T', label: '1/16T' },
 ];
 
-/**
- * Get the snap grid size in steps for a given resolution.
- * Steps are 1/16th notes (16 steps = 1 bar of 4/4).
- */
-function snapStepSize(resolution: SnapResolution): number {
-  switch (resolution) {
-    case '1/4':  return 4;
-    case '1/8':  return 2;
-    case '1/16': return 1;
-    case '1/32': return 0.5;
-    case '1/4T': return 4 / 3;   // triplet quarter = 2.667 steps
-    case '1/8T': return 2 / 3;   // triplet eighth = 1.333 steps
-    case '1/16T': return 1 / 3;  // triplet sixteenth = 0.333 steps
-  }
-}
-
 /** Snap a step value down to the nearest grid position (floor) */
 function snapFloor(step: number, resolution: SnapResolution): number {
   const size = snapStepSize(resolution);
@@ -87,9 +75,49 @@ function snapCeil(step: number, resolution: SnapResolution): number {
   return Math.ceil(step / size) * size;
 }
 
-/** Get the minimum duration for a given snap resolution (at least 1 grid unit) */
-function snapMinDuration(resolution: SnapResolution): number {
-  return Math.max(1, snapStepSize(resolution));
+/** Convert a (possibly fractional) step position to whole ticks */
+function toTicks(steps: number): number {
+  return Math.round(steps * TICKS_PER_STEP);
+}
+
+/** Note start in (possibly fractional) steps */
+function getNoteStart(note: PianoNote): number {
+  return note.startTick / TICKS_PER_STEP;
+}
+
+/** Note length in (possibly fractional) steps */
+function getNoteLength(note: PianoNote): number {
+  return note.durationTicks / TICKS_PER_STEP;
+}
+
+/** First grid cell a note touches */
+function getFirstCell(note: PianoNote): number {
+  return Math.floor(note.startTick / TICKS_PER_STEP);
+}
+
+/** Last grid cell a note touches */
+function getLastCell(note: PianoNote): number {
+  return Math.max(getFirstCell(note), Math.ceil((note.startTick + note.durationTicks) / TICKS_PER_STEP) - 1);
+}
+
+/** Whether a note starts and ends on step boundaries (drawn as whole cells) */
+function isOnGrid(note: PianoNote): boolean {
+  return note.startTick % TICKS_PER_STEP === 0 && note.durationTicks % TICKS_PER_STEP === 0;
+}
+
+/** Horizontal position in steps of the mouse over a grid cell */
+function getPointerStep(step: number, e: React.MouseEvent): number {
+  const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+  const fraction = rect.width > 0 ? (e.clientX - rect.left) / rect.width : 0;
+  return step + Math.max(0, Math.min(0.999, fraction));
+}
+
+/** Style for a note bar starting `offset` steps into its first cell and `length` steps long */
+function getNoteBarStyle(offset: number, length: number): React.CSSProperties {
+  return {
+    left: offset > 0 ? `${offset * 100}%` : undefined,
+    width: `calc(${length * 100}% + ${Math.max(0, Math.ceil(offset + length) - 1) * 2}px)`,
+  };
 }
 
 /** Tool definitions with labels, shortcuts and descriptions */
@@ -99,12 +127,27 @@ const TOOLS: { id: PianoRollTool; label: string; shortcut: string; title: string
   { id: 'slice', label: 'Slice', shortcut: 'C', title: 'Slice tool (C) — Click on a note to split it at that position' },
   { id: 'paint', label: 'Paint', shortcut: 'P', title: 'Paint tool (P) — Click/drag to paint notes continuously' },
   { id: 'erase', label: 'Erase', shortcut: 'E', title: 'Erase tool (E) — Click/drag to erase notes' },
+  { id: 'chord', label: 'Chord', shortcut: 'K', title: 'Chord tool (K) — Click to stamp a chord on the clicked root, drag to set duration' },
+];
+
+const SCALE_TYPES = Object.keys(SCALE_LABELS) as ScaleType[];
+const CHORD_TYPES = Object.keys(CHORD_LABELS) as ChordType[];
+/** Inversion choices for the chord tool (0 = root position) */
+const CHORD_INVERSIONS = [
+  { value: 0, label: 'Root' },
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
 ];
 
 interface DragState {
   pitch: number;
+  /** Cell where the drag started */
   startStep: number;
+  /** Cell the mouse is over */
   currentStep: number;
+  /** Exact (fractional) step where the drag started */
+  startPos: number;
 }
 
 interface ResizeState {
@@ -112,11 +155,11 @@ interface ResizeState {
   pitch: number;
   /** 'left' = dragging left edge, 'right' = dragging right edge */
   edge: 'left' | 'right';
-  /** Original note start step */
+  /** Original note start in (fractional) steps */
   origStep: number;
-  /** Original note duration */
+  /** Original note length in (fractional) steps */
   origDuration: number;
-  /** Current step the mouse is over */
+  /** Current cell the mouse is over */
   currentStep: number;
 }
 
@@ -134,6 +177,8 @@ interface MoveState {
   startPitch: number;
   /** The step of the cell where the drag started */
   startStep: number;
+  /** Exact (fractional) step where the drag started */
+  startPos: number;
   /** Current pitch under the cursor */
   currentPitch: number;
   /** Current step under the cursor */
@@ -165,49 +210,789 @@ const LFO_TARGET_LABELS: Record<LfoTarget, string> = {
   filter: 'Filter',
   volume: 'Vol',
   pan: 'Pan',
+  wtPosition: 'WT',
+};
+const LFO_TARGETS: LfoTarget[] = ['pitch', 'filter', 'volume', 'pan', 'wtPosition'];
+
+const LFO_DIVISIONS: LfoDivision[] = [
+  '4/1', '2/1', '1/1', '1/2', '1/4D', '1/4', '1/4T', '1/8D', '1/8', '1/8T', '1/16', '1/16T', '1/32',
+];
+
+/** Lanes under the grid: velocity, then the per-note expression values */
+type NoteLane = 'velocity' | keyof PianoNoteExpression;
+
+const NOTE_LANES: {
+  value: NoteLane;
+  label: string;
+  min: number;
+  max: number;
+  /** Value of a note that doesn't set it */
+  neutral: number;
+  /** Bars grow up or down from the middle */
+  bipolar: boolean;
+  format: (value: number) => string;
+}[] = [
+  { value: 'velocity', label: 'VEL', min: 0, max: 1, neutral: 0, bipolar: false, format: (v) => `Velocity: ${Math.round(v * 100)}%` },
+  {
+    value: 'pan', label: 'PAN', min: -1, max: 1, neutral: 0, bipolar: true,
+    format: (v) => `Pan: ${v === 0 ? 'C' : `${v < 0 ? 'L' : 'R'}${Math.round(Math.abs(v) * 100)}`}`,
+  },
+  { value: 'fine', label: 'FINE', min: -100, max: 100, neutral: 0, bipolar: true, format: (v) => `Fine: ${v > 0 ? '+' : ''}${Math.round(v)} cents` },
+  {
+    value: 'releaseVelocity', label: 'REL', min: 0, max: 1, neutral: 0.5, bipolar: false,
+    format: (v) => `Release Velocity: ${Math.round(v * 100)}%`,
+  },
+  { value: 'mod', label: 'MOD', min: -1, max: 1, neutral: 0, bipolar: true, format: (v) => `Mod: ${Math.round(v * 100)}%` },
+];
+
+/** A note's expression values, carried over to copies of it */
+function getNoteExpression(note: Omit<PianoNote, 'id'>): PianoNoteExpression {
+  return { pan: note.pan, fine: note.fine, releaseVelocity: note.releaseVelocity, mod: note.mod };
+}
+
+/** LFO retrigger modes */
+const LFO_RETRIGGERS: { value: LfoRetrigger; label: string; title: string }[] = [
+  { value: 'note', label: 'Note', title: 'Restart the LFO with each note' },
+  { value: 'free', label: 'Free', title: 'Free-running: notes join the LFO mid-cycle' },
+  { value: 'bar', label: 'Bar', title: 'Restart the LFO at each bar' },
+];
+
+/** Oscillator modes: the plain waveform, a wavetable, or FM on the waveform */
+const OSC_MODES: { value: OscillatorMode; label: string; title: string }[] = [
+  { value: 'basic', label: 'Wave', title: 'Plain waveform' },
+  { value: 'wavetable', label: 'WT', title: 'Wavetable, crossfaded at its position' },
+  { value: 'fm', label: 'FM', title: 'FM: the waveform modulated by sine operators' },
+];
+
+/** Display labels for the built-in wavetables */
+const WAVETABLE_LABELS: Record<Exclude<WavetableName, 'custom'>, string> = {
+  analog: 'Analog',
+  pwm: 'PWM',
+  harmonics: 'Harmonics',
+  formant: 'Formant',
+};
+const WAVETABLES = Object.keys(WAVETABLE_LABELS) as Array<Exclude<WavetableName, 'custom'>>;
+
+/** Display labels for voice allocation modes */
+const VOICE_MODE_LABELS: Record<SynthVoiceMode, string> = {
+  poly: 'Poly',
+  mono: 'Mono',
+  legato: 'Legato',
+};
+const VOICE_MODES: SynthVoiceMode[] = ['poly', 'mono', 'legato'];
+
+/** Display labels for voice stealing strategies */
+const VOICE_STEALING_LABELS: Record<VoiceStealing, string> = {
+  oldest: 'Oldest',
+  quietest: 'Quietest',
+};
+const VOICE_STEALING_MODES: VoiceStealing[] = ['oldest', 'quietest'];
+
+/** Display labels for glide modes */
+const GLIDE_MODE_LABELS: Record<GlideMode, string> = {
+  always: 'Always',
+  legato: 'Legato',
+};
+const GLIDE_MODES: GlideMode[] = ['always', 'legato'];
+
+/** Display labels for arpeggiator modes */
+const ARP_MODE_LABELS: Record<ArpMode, string> = {
+  up: 'Up',
+  down: 'Down',
+  upDown: 'Up/Dn',
+  random: 'Rnd',
+  asPlayed: 'Played',
 };
-const LFO_TARGETS: LfoTarget[] = ['pitch', 'filter', 'volume', 'pan'];
+const ARP_MODES: ArpMode[] = ['up', 'down', 'upDown', 'random', 'asPlayed'];
+const ARP_RATES: ArpRate[] = ['1/4', '1/8', '1/8T', '1/16', '1/16T', '1/32'];
+
+/** Instruments the piano roll can play */
+const PIANO_INSTRUMENTS: { value: PianoInstrument; label: string; title: string }[] = [
+  { value: 'synth', label: 'Synth', title: 'Oscillator synth' },
+  { value: 'sampler', label: 'Sampler', title: 'Multi-sample sampler with key and velocity zones' },
+];
+
+const SAMPLER_FILTER_TYPES: { value: FilterType; label: string }[] = [
+  { value: 'lowpass', label: 'LP' },
+  { value: 'highpass', label: 'HP' },
+  { value: 'bandpass', label: 'BP' },
+];
+
+const SYNTH_FILTER_TYPES: { value: SynthFilterType; label: string }[] = [
+  ...SAMPLER_FILTER_TYPES,
+  { value: 'notch', label: 'Notch' },
+];
+
+const SYNTH_FILTER_SLOPES: SynthFilterSlope[] = [12, 24];
+
+const FILTER_ROUTINGS: { value: SynthFilterRouting; label: string }[] = [
+  { value: 'serial', label: 'Serial' },
+  { value: 'parallel', label: 'Parallel' },
+];
+
+/** Envelope time for slider titles: milliseconds below one second */
+function formatEnvTime(seconds: number): string {
+  return seconds >= 1 ? `${seconds.toFixed(1)}s` : `${Math.round(seconds * 1000)}ms`;
+}
+
+interface SamplerControlsProps {
+  sampler: SamplerSettings;
+  /** Loaded samples the zones can play */
+  samples: SampleInstrument[];
+  onSamplerChange: (params: Partial<Omit<SamplerSettings, 'zones'>>) => void;
+  onAddZone: (sampleId: string | null) => void;
+  onUpdateZone: (zoneId: string, params: Partial<Omit<SamplerZone, 'id'>>) => void;
+  onRemoveZone: (zoneId: string) => void;
+}
+
+/** Sampler envelope, filter and zone map, shown in place of the synth controls */
+const SamplerControls = memo(function SamplerControls({
+  sampler,
+  samples,
+  onSamplerChange,
+  onAddZone,
+  onUpdateZone,
+  onRemoveZone,
+}: SamplerControlsProps) {
+  /** Clamp a MIDI note or velocity typed into a zone field */
+  const clampMidi = (value: number, min: number) => Math.min(127, Math.max(min, Math.round(value) || min));
+
+  return (
+    <>
+      {(['ampAttack', 'ampDecay', 'ampRelease'] as const).map((field) => (
+        <div key={field} className="synth-control-group">
+          <label className="synth-label">{field === 'ampAttack' ? 'Atk' : field === 'ampDecay' ? 'Dec' : 'Rel'}</label>
+          <input
+            type="range"
+            className="synth-slider"
+            min={1}
+            max={2000}
+            value={Math.round(sampler[field] * 1000)}
+            onChange={(e) => onSamplerChange({ [field]: Number(e.target.value) / 1000 })}
+            title={formatEnvTime(sampler[field])}
+          />
+        </div>
+      ))}
+      <div className="synth-control-group">
+        <label className="synth-label">Sus</label>
+        <input
+          type="range"
+          className="synth-slider"
+          min={0}
+          max={100}
+          value={Math.round(sampler.ampSustain * 100)}
+          onChange={(e) => onSamplerChange({ ampSustain: Number(e.target.value) / 100 })}
+          title={`Sustain: ${Math.round(sampler.ampSustain * 100)}%`}
+        />
+      </div>
+
+      <div className="synth-control-divider" />
+
+      <div className="synth-control-group">
+        <label className="synth-label">Filter</label>
+        <div className="synth-osc-buttons">
+          {SAMPLER_FILTER_TYPES.map((t) => (
+            <button
+              key={t.value}
+              className={`synth-osc-btn${sampler.filterType === t.value ? ' active' : ''}`}
+              onClick={() => onSamplerChange({ filterType: t.value })}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="synth-control-group">
+        <label className="synth-label">Cutoff</label>
+        <input
+          type="range"
+          className="synth-slider"
+          min={0}
+          max={100}
+          value={Math.round(Math.log(sampler.filterCutoff / 20) / Math.log(20000 / 20) * 100)}
+          onChange={(e) => onSamplerChange({ filterCutoff: Math.round(20 * Math.pow(20000 / 20, Number(e.target.value) / 100)) })}
+          title={`${sampler.filterCutoff} Hz`}
+        />
+      </div>
+      <div className="synth-control-group">
+        <label className="synth-label">Reso</label>
+        <input
+          type="range"
+          className="synth-slider"
+          min={1}
+          max={250}
+          value={Math.round(sampler.filterResonance * 10)}
+          onChange={(e) => onSamplerChange({ filterResonance: Number(e.target.value) / 10 })}
+          title={`Q: ${sampler.filterResonance.toFixed(1)}`}
+        />
+      </div>
+
+      <div className="sampler-zones">
+        {sampler.zones.map((zone) => (
+          <div key={zone.id} className="sampler-zone">
+            <select
+              className="sample-select"
+              value={zone.sampleId ?? ''}
+              onChange={(e) => onUpdateZone(zone.id, { sampleId: e.target.value || null })}
+              title="Sample"
+            >
+              <option value="">No sample</option>
+              {samples.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+            <label className="synth-label">Keys</label>
+            <input
+              type="number"
+              className="sampler-zone-input"
+              min={0}
+              max={127}
+              value={zone.keyLow}
+              onChange={(e) => onUpdateZone(zone.id, { keyLow: clampMidi(Number(e.target.value), 0) })}
+              title={`Lowest key: ${midiToLabel(zone.keyLow)}`}
+            />
+            <input
+              type="number"
+              className="sampler-zone-input"
+              min={0}
+              max={127}
+              value={zone.keyHigh}
+              onChange={(e) => onUpdateZone(zone.id, { keyHigh: clampMidi(Number(e.target.value), 0) })}
+              title={`Highest key: ${midiToLabel(zone.keyHigh)}`}
+            />
+            <label className="synth-label">Root</label>
+            <input
+              type="number"
+              className="sampler-zone-input"
+              min={0}
+              max={127}
+              value={zone.rootNote}
+              onChange={(e) => onUpdateZone(zone.id, { rootNote: clampMidi(Number(e.target.value), 0) })}
+              title={`Root note: ${midiToLabel(zone.rootNote)}`}
+            />
+            <input
+              type="range"
+              className="synth-slider"
+              min={-100}
+              max={100}
+              value={zone.tune}
+              onChange={(e) => onUpdateZone(zone.id, { tune: Number(e.target.value) })}
+              title={`Tune: ${zone.tune > 0 ? '+' : ''}${zone.tune} cents`}
+            />
+            <label className="synth-label">Vel</label>
+            <input
+              type="number"
+              className="sampler-zone-input"
+              min={1}
+              max={127}
+              value={zone.velLow}
+              onChange={(e) => onUpdateZone(zone.id, { velLow: clampMidi(Number(e.target.value), 1) })}
+              title="Lowest velocity of the layer"
+            />
+            <input
+              type="number"
+              className="sampler-zone-input"
+              min={1}
+              max={127}
+              value={zone.velHigh}
+              onChange={(e) => onUpdateZone(zone.id, { velHigh: clampMidi(Number(e.target.value), 1) })}
+              title="Highest velocity of the layer"
+            />
+            <label className="synth-label">RR</label>
+            <input
+              type="number"
+              className="sampler-zone-input"
+              min={0}
+              max={16}
+              value={zone.roundRobinGroup}
+              onChange={(e) => onUpdateZone(zone.id, { roundRobinGroup: Math.min(16, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+              title="Round-robin group: zones of the same group take turns (0 = off)"
+            />
+            <label className="synth-label">Gain</label>
+            <input
+              type="range"
+              className="synth-slider"
+              min={-24}
+              max={24}
+              step={0.5}
+              value={zone.gain}
+              onChange={(e) => onUpdateZone(zone.id, { gain: Number(e.target.value) })}
+              title={`${zone.gain > 0 ? '+' : ''}${zone.gain.toFixed(1)} dB`}
+            />
+            <label className="synth-label">
+              <input
+                type="checkbox"
+                checked={zone.loop}
+                onChange={(e) => onUpdateZone(zone.id, { loop: e.target.checked })}
+              />
+              Loop
+            </label>
+            <input
+              type="range"
+              className="synth-slider"
+              min={0}
+              max={1000}
+              value={Math.round(zone.loopStart * 1000)}
+              onChange={(e) => onUpdateZone(zone.id, { loopStart: Math.min(Number(e.target.value) / 1000, zone.loopEnd - 0.001) })}
+              title={`Loop start: ${(zone.loopStart * 100).toFixed(1)}%`}
+              disabled={!zone.loop}
+            />
+            <input
+              type="range"
+              className="synth-slider"
+              min={0}
+              max={1000}
+              value={Math.round(zone.loopEnd * 1000)}
+              onChange={(e) => onUpdateZone(zone.id, { loopEnd: Math.max(Number(e.target.value) / 1000, zone.loopStart + 0.001) })}
+              title={`Loop end: ${(zone.loopEnd * 100).toFixed(1)}%`}
+              disabled={!zone.loop}
+            />
+            <button className="sample-remove-btn" onClick={() => onRemoveZone(zone.id)} title="Remove zone">
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          className="synth-osc-btn"
+          onClick={() => onAddZone(samples[0]?.id ?? null)}
+          title="Add a zone spanning every key and velocity"
+        >
+          + Zone
+        </button>
+      </div>
+    </>
+  );
+});
+
+interface ModMatrixControlsProps {
+  synthSettings: SynthSettings;
+  onSynthSettingsChange: (params: Partial<SynthSettings>) => void;
+  onAddRoute: () => void;
+  onUpdateRoute: (routeId: string, params: Partial<Omit<ModRoute, 'id'>>) => void;
+  onRemoveRoute: (routeId: string) => void;
+}
+
+/** Mod envelope and the routes of the modulation matrix */
+const ModMatrixControls = memo(function ModMatrixControls({
+  synthSettings,
+  onSynthSettingsChange,
+  onAddRoute,
+  onUpdateRoute,
+  onRemoveRoute,
+}: ModMatrixControlsProps) {
+  return (
+    <div className="mod-matrix">
+      <div className="synth-lfo-group">
+        <label className="synth-label">Mod Env</label>
+        {(['modEnvAttack', 'modEnvDecay', 'modEnvRelease'] as const).map((field) => (
+          <input
+            key={field}
+            type="range"
+            className="synth-slider"
+            min={1}
+            max={2000}
+            data-midi-learn={`synth:${field}`}
+            value={Math.round(synthSettings[field] * 1000)}
+            onChange={(e) => onSynthSettingsChange({ [field]: Number(e.target.value) / 1000 })}
+            title={`${field === 'modEnvAttack' ? 'Attack' : field === 'modEnvDecay' ? 'Decay' : 'Release'}: ${formatEnvTime(synthSettings[field])}`}
+          />
+        ))}
+        <input
+          type="range"
+          className="synth-slider"
+          min={0}
+          max={100}
+          data-midi-learn="synth:modEnvSustain"
+          value={Math.round(synthSettings.modEnvSustain * 100)}
+          onChange={(e) => onSynthSettingsChange({ modEnvSustain: Number(e.target.value) / 100 })}
+          title={`Sustain: ${Math.round(synthSettings.modEnvSustain * 100)}%`}
+        />
+      </div>
+      {synthSettings.modMatrix.map((route) => (
+        <div key={route.id} className="synth-lfo-group">
+          <select
+            className="sample-select"
+            value={route.source}
+            onChange={(e) => onUpdateRoute(route.id, { source: e.target.value as ModSource })}
+            title="Source"
+          >
+            {(Object.keys(MOD_SOURCE_LABELS) as ModSource[]).map((source) => (
+              <option key={source} value={source}>{MOD_SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+          <span className="synth-label">→</span>
+          <select
+            className="sample-select"
+            value={route.destination}
+            onChange={(e) => onUpdateRoute(route.id, { destination: e.target.value as ModDestination })}
+            title="Destination"
+          >
+            {(Object.keys(MOD_DESTINATION_LABELS) as ModDestination[]).map((destination) => (
+              <option key={destination} value={destination}>{MOD_DESTINATION_LABELS[destination]}</option>
+            ))}
+          </select>
+          <input
+            type="range"
+            className="synth-slider"
+            min={-100}
+            max={100}
+            value={Math.round(route.amount * 100)}
+            onChange={(e) => onUpdateRoute(route.id, { amount: Number(e.target.value) / 100 })}
+            title={`Amount: ${route.amount > 0 ? '+' : ''}${Math.round(route.amount * 100)}%`}
+          />
+          <button className="sample-remove-btn" onClick={() => onRemoveRoute(route.id)} title="Remove route">
+            ×
+          </button>
+        </div>
+      ))}
+      <button className="synth-osc-btn" onClick={onAddRoute} title="Route a modulation source to a destination">
+        + Mod
+      </button>
+    </div>
+  );
+});
+
+interface OscillatorModeControlsProps {
+  /** Oscillator number, for labels and MIDI learn targets */
+  osc: 1 | 2 | 3;
+  settings: OscillatorModeSettings;
+  disabled?: boolean;
+  onChange: (osc: 1 | 2 | 3, params: Partial<OscillatorModeSettings>) => void;
+  onLoadWavetable: (osc: 1 | 2 | 3, file: File) => void;
+}
+
+/** Mode of one synth oscillator, with its wavetable or FM operator controls */
+const OscillatorModeControls = memo(function OscillatorModeControls({
+  osc,
+  settings,
+  disabled = false,
+  onChange,
+  onLoadWavetable,
+}: OscillatorModeControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const modulatorCount = settings.fmOperators === 4 ? 3 : 1;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoadWavetable(osc, file);
+  };
+
+  /** Set one modulator's entry of fmRatios or fmIndexes */
+  const setOperator = (field: 'fmRatios' | 'fmIndexes', index: number, value: number) => {
+    onChange(osc, { [field]: settings[field].map((v, i) => (i === index ? value : v)) });
+  };
+
+  return (
+    <>
+      <div className="synth-control-group">
+        <label className="synth-label">Mode {osc}</label>
+        <div className="synth-osc-buttons">
+          {OSC_MODES.map((m) => (
+            <button
+              key={m.value}
+              className={`synth-osc-btn${settings.mode === m.value ? ' active' : ''}${disabled ? ' disabled' : ''}`}
+              onClick={() => onChange(osc, { mode: m.value })}
+              title={m.title}
+              disabled={disabled}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.mode === 'wavetable' && (
+        <>
+          <div className="synth-control-group">
+            <label className="synth-label">Table</label>
+            <select
+              className="sample-select"
+              value={settings.wavetable}
+              onChange={(e) => onChange(osc, { wavetable: e.target.value as WavetableName })}
+              disabled={disabled}
+              title="Wavetable"
+            >
+              {WAVETABLES.map((name) => (
+                <option key={name} value={name}>{WAVETABLE_LABELS[name]}</option>
+              ))}
+              {settings.customFrames.length > 0 && (
+                <option value="custom">{settings.customName || 'Loaded'}</option>
+              )}
+            </select>
+            <button
+              className="synth-osc-btn"
+              onClick={() => fileInputRef.current?.click()}
+              title="Load a single-cycle WAV, or a wavetable of 2048-sample frames"
+              disabled={disabled}
+            >
+              Load
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".wav,audio/*"
+              style={{ display: 'none' }}
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="synth-control-group">
+            <label className="synth-label">Pos {osc}</label>
+            <input
+              type="range"
+              className="synth-slider"
+              min={0}
+              max={100}
+              data-midi-learn={`synth:osc${osc}Mode.wtPosition`}
+              value={Math.round(settings.wtPosition * 100)}
+              onChange={(e) => onChange(osc, { wtPosition: Number(e.target.value) / 100 })}
+              title={`Wavetable position: ${Math.round(settings.wtPosition * 100)}%`}
+              disabled={disabled}
+            />
+          </div>
+        </>
+      )}
+
+      {settings.mode === 'fm' && (
+        <>
+          <div className="synth-control-group">
+            <label className="synth-label">Ops</label>
+            <div className="synth-osc-buttons">
+              {([2, 4] as const).map((count) => (
+                <button
+                  key={count}
+                  className={`synth-osc-btn${settings.fmOperators === count ? ' active' : ''}${disabled ? ' disabled' : ''}`}
+                  onClick={() => onChange(osc, { fmOperators: count })}
+                  title={count === 2 ? 'One modulator' : 'Three modulators in series'}
+                  disabled={disabled}
+                >
+                  {count}-op
+                </button>
+              ))}
+            </div>
+          </div>
+          {Array.from({ length: modulatorCount }, (_, i) => (
+            <div key={i} className="synth-control-group">
+              <label className="synth-label">Op {i + 2}</label>
+              <input
+                type="range"
+                className="synth-slider"
+                min={0.25}
+                max={16}
+                step={0.25}
+                value={settings.fmRatios[i]}
+                onChange={(e) => setOperator('fmRatios', i, Number(e.target.value))}
+                title={`Ratio: ${settings.fmRatios[i]}×`}
+                disabled={disabled}
+              />
+              <input
+                type="range"
+                className="synth-slider"
+                min={0}
+                max={10}
+                step={0.1}
+                value={settings.fmIndexes[i]}
+                onChange={(e) => setOperator('fmIndexes', i, Number(e.target.value))}
+                title={`Index: ${settings.fmIndexes[i].toFixed(1)}`}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </>
+  );
+});
+
+interface InstrumentChannelTabsProps {
+  channels: InstrumentChannel[];
+  activeChannelId: string;
+  onSelect: (channelId: string) => void;
+  onAdd: () => void;
+  onRemove: (channelId: string) => void;
+  onRename: (channelId: string, name: string) => void;
+}
+
+/** Switches the instrument channel the piano roll edits; double-click a name to rename it */
+const InstrumentChannelTabs = memo(function InstrumentChannelTabs({
+  channels,
+  activeChannelId,
+  onSelect,
+  onAdd,
+  onRemove,
+  onRename,
+}: InstrumentChannelTabsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onRename(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="pr-channel-tabs">
+      {channels.map((channel) => (
+        <div
+          key={channel.id}
+          className={`pr-channel-tab${channel.id === activeChannelId ? ' active' : ''}${channel.muted ? ' muted' : ''}`}
+          onClick={() => onSelect(channel.id)}
+          title={`${channel.name} (${channel.instrument === 'sampler' ? 'Sampler' : 'Synth'})`}
+        >
+          {editingId === channel.id ? (
+            <input
+              className="pattern-rename-input"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              autoFocus
+            />
+          ) : (
+            <span
+              className="pr-channel-name"
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                setEditingId(channel.id);
+                setEditName(channel.name);
+              }}
+            >
+              {channel.name}
+            </span>
+          )}
+          {channel.id === activeChannelId && channels.length > 1 && (
+            <button
+              className="pattern-action-btn delete"
+              title="Remove channel"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(channel.id);
+              }}
+            >
+              x
+            </button>
+          )}
+        </div>
+      ))}
+      <button className="pr-channel-add" onClick={onAdd} title="Add an instrument channel">
+        + Channel
+      </button>
+    </div>
+  );
+});
 
 interface PianoRollProps {
   pianoRoll: PianoRollData;
+  /** Instrument channels of the active pattern; the piano roll edits the active one */
+  instrumentChannels: InstrumentChannel[];
+  activeInstrumentChannelId: string;
   stepCount: number;
   currentStep: number;
   isPlaying: boolean;
   synthSettings: SynthSettings;
-  onAddNote: (pitch: number, step: number, duration: number) => void;
+  /** Which instrument the piano roll plays */
+  instrument: PianoInstrument;
+  sampler: SamplerSettings;
+  /** Loaded samples the sampler zones can play */
+  samples: SampleInstrument[];
+  arpeggiator: ArpeggiatorSettings;
+  /** Key and scale of the active pattern */
+  scale: ScaleSettings;
+  onAddNote: (pitch: number, startTick: number, durationTicks: number) => void;
+  onAddChord: (pitches: number[], startTick: number, durationTicks: number) => void;
   onDeleteNote: (noteId: string) => void;
-  onUpdateNote: (noteId: string, updates: { step?: number; duration?: number }) => void;
-  onSliceNote: (noteId: string, sliceStep: number) => void;
+  onUpdateNote: (noteId: string, updates: { startTick?: number; durationTicks?: number }) => void;
+  onSliceNote: (noteId: string, sliceTick: number) => void;
   onPreviewNote: (pitch: number) => void;
-  onMoveNotes: (noteIds: Set<string>, stepDelta: number, pitchDelta: number) => void;
+  /** Press and release a key of the keyboard; the note sustains while it is held */
+  onKeyNoteOn: (pitch: number) => void;
+  onKeyNoteOff: (pitch: number) => void;
+  onMoveNotes: (noteIds: Set<string>, tickDelta: number, pitchDelta: number) => void;
   onPasteNotes: (notes: Omit<PianoNote, 'id'>[]) => void;
   onUpdateNoteVelocity: (noteId: string, velocity: number) => void;
+  onUpdateNoteExpression: (noteId: string, expression: PianoNoteExpression) => void;
+  onSetNotesSlide: (noteIds: Set<string>, slide: boolean) => void;
+  /** Apply a bulk edit (quantize, humanize, legato…) to the given notes */
+  onTransformNotes: (noteIds: Set<string>, transform: PianoNoteTransform) => void;
   onSynthSettingsChange: (params: Partial<SynthSettings>) => void;
+  onAddModRoute: () => void;
+  onUpdateModRoute: (routeId: string, params: Partial<Omit<ModRoute, 'id'>>) => void;
+  onRemoveModRoute: (routeId: string) => void;
+  /** Load a wavetable file into an oscillator; resolves to its frame count */
+  onLoadWavetable: (osc: 1 | 2 | 3, file: File) => Promise<number>;
+  onInstrumentChange: (instrument: PianoInstrument) => void;
+  onSamplerChange: (params: Partial<Omit<SamplerSettings, 'zones'>>) => void;
+  onAddSamplerZone: (sampleId: string | null) => void;
+  onUpdateSamplerZone: (zoneId: string, params: Partial<Omit<SamplerZone, 'id'>>) => void;
+  onRemoveSamplerZone: (zoneId: string) => void;
+  onArpeggiatorChange: (params: Partial<ArpeggiatorSettings>) => void;
+  onScaleChange: (params: Partial<ScaleSettings>) => void;
   onListPresets: () => Promise<{ id: string; name: string; updatedAt: string }[]>;
   onSavePreset: (name: string) => Promise<SynthPreset>;
   onLoadPreset: (id: string) => Promise<void>;
   onDeletePreset: (id: string) => Promise<void>;
+  /** Snap-to-grid resolution (shared with MIDI recording) */
+  snapResolution: SnapResolution;
+  onSnapResolutionChange: (resolution: SnapResolution) => void;
+  onSelectInstrumentChannel: (channelId: string) => void;
+  onAddInstrumentChannel: () => void;
+  onRemoveInstrumentChannel: (channelId: string) => void;
+  onRenameInstrumentChannel: (channelId: string, name: string) => void;
 }
 
 function PianoRoll({
   pianoRoll,
+  instrumentChannels,
+  activeInstrumentChannelId,
   stepCount,
   currentStep,
   isPlaying,
   synthSettings,
+  instrument,
+  sampler,
+  samples,
+  arpeggiator,
+  scale,
   onAddNote,
+  onAddChord,
   onDeleteNote,
   onUpdateNote,
   onSliceNote,
   onPreviewNote,
+  onKeyNoteOn,
+  onKeyNoteOff,
   onMoveNotes,
   onPasteNotes,
   onUpdateNoteVelocity,
+  onUpdateNoteExpression,
+  onSetNotesSlide,
+  onTransformNotes,
   onSynthSettingsChange,
+  onAddModRoute,
+  onUpdateModRoute,
+  onRemoveModRoute,
+  onLoadWavetable,
+  onInstrumentChange,
+  onSamplerChange,
+  onAddSamplerZone,
+  onUpdateSamplerZone,
+  onRemoveSamplerZone,
+  onArpeggiatorChange,
+  onScaleChange,
   onListPresets,
   onSavePreset,
   onLoadPreset,
   onDeletePreset,
+  snapResolution,
+  onSnapResolutionChange,
+  onSelectInstrumentChannel,
+  onAddInstrumentChannel,
+  onRemoveInstrumentChannel,
+  onRenameInstrumentChannel,
 }: PianoRollProps) {
   const [activeTool, setActiveTool] = useState<PianoRollTool>('draw');
   /** Erase drag: true while the erase tool is actively dragging */
@@ -223,19 +1008,69 @@ function PianoRoll({
   const moveRef = useRef<MoveState | null>(null);
   const [boxSelect, setBoxSelect] = useState<BoxSelectState | null>(null);
   const boxSelectRef = useRef<BoxSelectState | null>(null);
+  const allSelectedSlide = selectedNoteIds.size > 0 &&
+    pianoRoll.notes.every((n) => !selectedNoteIds.has(n.id) || n.slide === true);
   /** Clipboard: stores copied notes with positions relative to the selection origin */
   const clipboardRef = useRef<Omit<PianoNote, 'id'>[]>([]);
   const velocityLaneRef = useRef<HTMLDivElement>(null);
+  const [noteLane, setNoteLane] = useState<NoteLane>('velocity');
+  const lane = NOTE_LANES.find((l) => l.value === noteLane) ?? NOTE_LANES[0];
   /** Refs for scroll containers (used by wheel + middle-click pan) */
   const bodyRef = useRef<HTMLDivElement>(null);   // horizontal scroll
   const scrollRef = useRef<HTMLDivElement>(null);  // vertical scroll
   /** Middle-click pan state */
   const panRef = useRef<{ active: boolean; startX: number; startY: number; scrollLeft: number; scrollTop: number } | null>(null);
-  /** Snap-to-grid resolution */
-  const [snapResolution, setSnapResolution] = useState<SnapResolution>('1/16');
   const [snapEnabled, setSnapEnabled] = useState(true);
   const [hZoom, setHZoom] = useState(DEFAULT_H_ZOOM);
   const [vZoom, setVZoom] = useState(DEFAULT_V_ZOOM);
+  /** Snap drawn pitches to the pattern's scale */
+  const [scaleSnap, setScaleSnap] = useState(false);
+  /** Hide rows outside the pattern's scale */
+  const [scaleFold, setScaleFold] = useState(false);
+  const [chordType, setChordType] = useState<ChordType>('major');
+  const [chordInversion, setChordInversion] = useState(0);
+  const [customChord, setCustomChord] = useState('0 4 7 11');
+  // Selection edit parameters
+  const [quantizeResolution, setQuantizeResolution] = useState<SnapResolution>('1/16');
+  const [quantizeStrength, setQuantizeStrength] = useState(1);
+  const [quantizeEnds, setQuantizeEnds] = useState(false);
+  const [humanizeTiming, setHumanizeTiming] = useState(6);
+  const [humanizeVelocity, setHumanizeVelocity] = useState(0.1);
+  const [strumSpread, setStrumSpread] = useState(6);
+  const [strumDirection, setStrumDirection] = useState<'up' | 'down'>('up');
+  /** Invert axis as a MIDI note, or null for the centre of the selection */
+  const [invertAxis, setInvertAxis] = useState<number | null>(null);
+  const hasSelection = selectedNoteIds.size > 0;
+
+  const applyTransform = useCallback(
+    (transform: PianoNoteTransform) => onTransformNotes(selectedNoteIds, transform),
+    [onTransformNotes, selectedNoteIds],
+  );
+  const scaleActive = scale.type !== 'chromatic';
+
+  /** Apply scale snapping to a pitch under the cursor */
+  const toScalePitch = useCallback(
+    (pitch: number): number => {
+      if (!scaleSnap || !scaleActive) return pitch;
+      const snapped = snapToScale(pitch, scale);
+      return snapped < MIDI_LOW || snapped > MIDI_HIGH ? pitch : snapped;
+    },
+    [scaleSnap, scaleActive, scale],
+  );
+
+  /** Pitches the chord tool places for a given root, limited to the visible range */
+  const getChordFor = useCallback(
+    (root: number): number[] =>
+      getChordPitches(root, chordType, chordInversion, scale, parseChordIntervals(customChord))
+        .filter((p) => p >= MIDI_LOW && p <= MIDI_HIGH),
+    [chordType, chordInversion, scale, customChord],
+  );
+
+  /** Rows to render: every key, or only in-scale keys when folded */
+  const visibleKeys = useMemo(
+    () => (scaleFold && scaleActive ? KEY_RANGE.filter((m) => isInScale(m, scale)) : KEY_RANGE),
+    [scaleFold, scaleActive, scale],
+  );
 
   // Preset state
   const [presetList, setPresetList] = useState<{ id: string; name: string; updatedAt: string }[]>([]);
@@ -277,6 +1112,21 @@ function PianoRoll({
     }
   }, [onLoadPreset]);
 
+  const handleOscModeChange = useCallback((osc: 1 | 2 | 3, params: Partial<OscillatorModeSettings>) => {
+    const field = `osc${osc}Mode` as const;
+    onSynthSettingsChange({ [field]: { ...synthSettings[field], ...params } });
+  }, [synthSettings, onSynthSettingsChange]);
+
+  const handleLoadWavetable = useCallback(async (osc: 1 | 2 | 3, file: File) => {
+    try {
+      const frames = await onLoadWavetable(osc, file);
+      setPresetStatus(`Wavetable: ${frames} frame${frames === 1 ? '' : 's'}`);
+    } catch (err) {
+      setPresetStatus(err instanceof Error ? err.message : 'Error loading wavetable');
+    }
+    setTimeout(() => setPresetStatus(null), 2000);
+  }, [onLoadWavetable]);
+
   const handleDeletePreset = useCallback(async (id: string) => {
     try {
       await onDeletePreset(id);
@@ -307,55 +1157,108 @@ function PianoRoll({
     notesByPitch.current.set(note.pitch, list);
   }
 
-  // Build a lookup: for each step, the notes that start there (for velocity lane)
+  // Build a lookup: for each step, the notes that start there (for the note lanes)
   const notesByStep = useRef<Map<number, PianoNote[]>>(new Map());
   notesByStep.current = new Map();
   for (const note of pianoRoll.notes) {
-    const list = notesByStep.current.get(note.step) ?? [];
+    const cell = getFirstCell(note);
+    const list = notesByStep.current.get(cell) ?? [];
     list.push(note);
-    notesByStep.current.set(note.step, list);
+    notesByStep.current.set(cell, list);
   }
 
-  // Build a coverage map: "pitch-step" -> note (for cells covered by a note's duration)
+  // Build a coverage map: "pitch-step" -> note (for cells touched by a note)
   const cellCoverage = useRef<Map<string, PianoNote>>(new Map());
   cellCoverage.current = new Map();
   for (const note of pianoRoll.notes) {
-    for (let s = note.step; s < note.step + note.duration && s < stepCount; s++) {
+    for (let s = getFirstCell(note); s <= getLastCell(note) && s < stepCount; s++) {
       cellCoverage.current.set(`${note.pitch}-${s}`, note);
     }
   }
 
-  // Find note that starts at a specific pitch+step
+  // Cells covered by the notes of the pattern's other channels, drawn as ghost notes
+  const ghostCells = useMemo(() => {
+    const cells = new Set<string>();
+    for (const channel of instrumentChannels) {
+      if (channel.id === activeInstrumentChannelId) continue;
+      for (const note of channel.pianoRoll.notes) {
+        for (let s = getFirstCell(note); s <= getLastCell(note) && s < stepCount; s++) {
+          cells.add(`${note.pitch}-${s}`);
+        }
+      }
+    }
+    return cells;
+  }, [instrumentChannels, activeInstrumentChannelId, stepCount]);
+
+  // Find note that starts within a specific pitch+step cell
   const findNoteStart = useCallback(
     (pitch: number, step: number): PianoNote | undefined => {
-      return pianoRoll.notes.find((n) => n.pitch === pitch && n.step === step);
+      return pianoRoll.notes.find((n) => n.pitch === pitch && getFirstCell(n) === step);
     },
     [pianoRoll.notes],
   );
 
-  const handleKeyClick = useCallback(
+  /** Exact (fractional) step under the mouse, updated as it moves over the grid */
+  const pointerStepRef = useRef(0);
+
+  /** Whether a note range (in ticks) on a pitch is free of other notes */
+  const isRangeFree = useCallback(
+    (pitch: number, startTick: number, endTick: number): boolean =>
+      !pianoRoll.notes.some(
+        (n) => n.pitch === pitch && n.startTick < endTick && n.startTick + n.durationTicks > startTick,
+      ),
+    [pianoRoll.notes],
+  );
+
+  /** Place a paint-tool note at the pointer unless something is already there */
+  const paintNoteAt = useCallback(
+    (pitch: number, pos: number) => {
+      const start = snapEnabled ? snapFloor(pos, snapResolution) : Math.floor(pos);
+      const length = snapEnabled ? snapStepSize(snapResolution) : 1;
+      const startTick = toTicks(start);
+      const durationTicks = toTicks(length);
+      if (!isRangeFree(pitch, startTick, startTick + durationTicks)) return;
+      onAddNote(pitch, startTick, durationTicks);
+      onPreviewNote(pitch);
+    },
+    [snapEnabled, snapResolution, isRangeFree, onAddNote, onPreviewNote],
+  );
+
+  /** Keyboard key held down with the mouse, released on mouse up or when the pointer leaves it */
+  const heldKeyRef = useRef<number | null>(null);
+
+  const handleKeyDown = useCallback(
     (midi: number) => {
-      onPreviewNote(midi);
+      heldKeyRef.current = midi;
+      onKeyNoteOn(midi);
     },
-    [onPreviewNote],
+    [onKeyNoteOn],
   );
 
+  const handleKeyUp = useCallback(() => {
+    if (heldKeyRef.current === null) return;
+    onKeyNoteOff(heldKeyRef.current);
+    heldKeyRef.current = null;
+  }, [onKeyNoteOff]);
+
+  // Don't leave a held key sounding when the piano roll closes
+  useEffect(() => handleKeyUp, [handleKeyUp]);
+
   /** Detect if mouse is near a note edge for resize */
   function detectEdge(e: React.MouseEvent, pitch: number, step: number): { note: PianoNote; edge: 'left' | 'right' } | null {
     const coveredNote = cellCoverage.current.get(`${pitch}-${step}`);
-    if (!coveredNote || coveredNote.duration < 1) return null;
+    if (!coveredNote) return null;
 
     const rect = (e.target as HTMLElement).getBoundingClientRect();
     const xInCell = e.clientX - rect.left;
     const cellWidth = rect.width;
 
     // Left edge: only on the first step of the note
-    if (step === coveredNote.step && xInCell < RESIZE_EDGE_PX) {
+    if (step === getFirstCell(coveredNote) && xInCell < RESIZE_EDGE_PX) {
       return { note: coveredNote, edge: 'left' };
     }
     // Right edge: only on the last step of the note
-    const lastStep = coveredNote.step + coveredNote.duration - 1;
-    if (step === lastStep && xInCell > cellWidth - RESIZE_EDGE_PX) {
+    if (step === getLastCell(coveredNote) && xInCell > cellWidth - RESIZE_EDGE_PX) {
       return { note: coveredNote, edge: 'right' };
     }
 
@@ -371,13 +1274,12 @@ function PianoRoll({
 
     const ids = new Set<string>();
     for (const note of pianoRoll.notes) {
-      const noteEnd = note.step + note.duration - 1;
       // Note overlaps box if pitch is in range and step ranges overlap
       if (
         note.pitch >= minPitch &&
         note.pitch <= maxPitch &&
-        noteEnd >= minStep &&
-        note.step <= maxStep
+        getLastCell(note) >= minStep &&
+        getFirstCell(note) <= maxStep
       ) {
         ids.add(note.id);
       }
@@ -390,6 +1292,8 @@ function PianoRoll({
       e.preventDefault();
 
       const coveredNote = cellCoverage.current.get(`${pitch}-${step}`);
+      const pos = getPointerStep(step, e);
+      pointerStepRef.current = pos;
 
       // ── Erase tool ──────────────────────────────────────────────
       if (activeTool === 'erase') {
@@ -402,20 +1306,17 @@ function PianoRoll({
 
       // ── Slice tool ──────────────────────────────────────────────
       if (activeTool === 'slice') {
-        if (coveredNote && step > coveredNote.step && step < coveredNote.step + coveredNote.duration) {
-          onSliceNote(coveredNote.id, step);
+        if (coveredNote) {
+          const size = snapStepSize(snapResolution);
+          const cut = snapEnabled ? Math.round(pos / size) * size : pos;
+          onSliceNote(coveredNote.id, toTicks(cut));
         }
         return;
       }
 
       // ── Paint tool ──────────────────────────────────────────────
       if (activeTool === 'paint') {
-        if (!coveredNote) {
-          const dur = snapEnabled ? Math.max(1, Math.round(snapStepSize(snapResolution))) : 1;
-          const snappedStep = snapEnabled ? Math.round(snapFloor(step, snapResolution)) : step;
-          onAddNote(pitch, snappedStep, dur);
-          onPreviewNote(pitch);
-        }
+        paintNoteAt(toScalePitch(pitch), pos);
         paintDragRef.current = true;
         return;
       }
@@ -438,8 +1339,8 @@ function PianoRoll({
             noteId: edgeHit.note.id,
             pitch: edgeHit.note.pitch,
             edge: edgeHit.edge,
-            origStep: edgeHit.note.step,
-            origDuration: edgeHit.note.duration,
+            origStep: getNoteStart(edgeHit.note),
+            origDuration: getNoteLength(edgeHit.note),
             currentStep: step,
           };
           resizeRef.current = newResize;
@@ -462,6 +1363,7 @@ function PianoRoll({
             const newMove: MoveState = {
               startPitch: pitch,
               startStep: step,
+              startPos: pos,
               currentPitch: pitch,
               currentStep: step,
             };
@@ -472,6 +1374,7 @@ function PianoRoll({
             const newMove: MoveState = {
               startPitch: pitch,
               startStep: step,
+              startPos: pos,
               currentPitch: pitch,
               currentStep: step,
             };
@@ -496,7 +1399,7 @@ function PianoRoll({
         return;
       }
 
-      // ── Draw tool (default) ─────────────────────────────────────
+      // ── Draw / chord tool (default) ─────────────────────────────
       // On a note: check for resize edge first
       const edgeHit = detectEdge(e, pitch, step);
       if (edgeHit) {
@@ -513,8 +1416,8 @@ function PianoRoll({
           noteId: edgeHit.note.id,
           pitch: edgeHit.note.pitch,
           edge: edgeHit.edge,
-          origStep: edgeHit.note.step,
-          origDuration: edgeHit.note.duration,
+          origStep: getNoteStart(edgeHit.note),
+          origDuration: getNoteLength(edgeHit.note),
           currentStep: step,
         };
         resizeRef.current = newResize;
@@ -537,6 +1440,7 @@ function PianoRoll({
           const newMove: MoveState = {
             startPitch: pitch,
             startStep: step,
+            startPos: pos,
             currentPitch: pitch,
             currentStep: step,
           };
@@ -547,6 +1451,7 @@ function PianoRoll({
           const newMove: MoveState = {
             startPitch: pitch,
             startStep: step,
+            startPos: pos,
             currentPitch: pitch,
             currentStep: step,
           };
@@ -573,12 +1478,17 @@ function PianoRoll({
       }
 
       setSelectedNoteIds(new Set());
-      onPreviewNote(pitch);
-      const newDrag: DragState = { pitch, startStep: step, currentStep: step };
+      const drawPitch = toScalePitch(pitch);
+      if (activeTool === 'chord') {
+        for (const p of getChordFor(drawPitch)) onPreviewNote(p);
+      } else {
+        onPreviewNote(drawPitch);
+      }
+      const newDrag: DragState = { pitch: drawPitch, startStep: step, currentStep: step, startPos: pos };
       dragRef.current = newDrag;
       setDrag(newDrag);
     },
-    [activeTool, onPreviewNote, onDeleteNote, onSliceNote, onAddNote, snapEnabled, snapResolution],
+    [activeTool, onPreviewNote, onDeleteNote, onSliceNote, paintNoteAt, snapEnabled, snapResolution, toScalePitch, getChordFor],
   );
 
   /** Right-click on a note to delete it (always available regardless of tool) */
@@ -610,17 +1520,8 @@ function PianoRoll({
         }
         return;
       }
-      // Handle paint drag
-      if (paintDragRef.current) {
-        const coveredNote = cellCoverage.current.get(`${pitch}-${step}`);
-        if (!coveredNote) {
-          const dur = snapEnabled ? Math.max(1, Math.round(snapStepSize(snapResolution))) : 1;
-          const snappedStep = snapEnabled ? Math.round(snapFloor(step, snapResolution)) : step;
-          onAddNote(pitch, snappedStep, dur);
-          onPreviewNote(pitch);
-        }
-        return;
-      }
+      // Paint drag is handled by handleCellMouseMove
+      if (paintDragRef.current) return;
       // Handle box select drag
       if (boxSelectRef.current) {
         const updated = { ...boxSelectRef.current, currentPitch: pitch, currentStep: step };
@@ -646,12 +1547,22 @@ function PianoRoll({
       // Handle new-note drag
       if (!dragRef.current) return;
       // Only allow horizontal dragging on the same pitch
-      if (pitch !== dragRef.current.pitch) return;
+      if (toScalePitch(pitch) !== dragRef.current.pitch) return;
       const updated = { ...dragRef.current, currentStep: step };
       dragRef.current = updated;
       setDrag(updated);
     },
-    [onDeleteNote, onAddNote, onPreviewNote, snapEnabled, snapResolution],
+    [onDeleteNote, toScalePitch],
+  );
+
+  /** Track the exact pointer position; the paint tool can place several notes per cell */
+  const handleCellMouseMove = useCallback(
+    (pitch: number, step: number, e: React.MouseEvent) => {
+      const pos = getPointerStep(step, e);
+      pointerStepRef.current = pos;
+      if (paintDragRef.current) paintNoteAt(toScalePitch(pitch), pos);
+    },
+    [paintNoteAt, toScalePitch],
   );
 
   const handleMouseUp = useCallback(() => {
@@ -677,17 +1588,19 @@ function PianoRoll({
     }
 
     // Handle move completion
+    const pointer = pointerStepRef.current;
     const m = moveRef.current;
     if (m) {
-      let stepDelta = m.currentStep - m.startStep;
+      let stepDelta = pointer - m.startPos;
       const pitchDelta = m.currentPitch - m.startPitch;
       // Snap the step delta to the grid
-      if (snapEnabled && stepDelta !== 0) {
+      if (snapEnabled) {
         const size = snapStepSize(snapResolution);
         stepDelta = Math.round(stepDelta / size) * size;
       }
-      if (stepDelta !== 0 || pitchDelta !== 0) {
-        onMoveNotes(selectedNoteIds, stepDelta, pitchDelta);
+      const tickDelta = toTicks(stepDelta);
+      if (tickDelta !== 0 || pitchDelta !== 0) {
+        onMoveNotes(selectedNoteIds, tickDelta, pitchDelta);
       }
       moveRef.current = null;
       setMove(null);
@@ -697,32 +1610,23 @@ function PianoRoll({
     // Handle resize completion
     const r = resizeRef.current;
     if (r) {
+      const minDuration = snapEnabled ? snapStepSize(snapResolution) : 1 / TICKS_PER_STEP;
+      const origEnd = r.origStep + r.origDuration;
       let newStep = r.origStep;
-      let newDuration = r.origDuration;
+      let newEnd = origEnd;
       if (r.edge === 'right') {
-        // Right edge: new end = currentStep, keep start fixed
-        let newEnd = Math.max(r.currentStep, r.origStep);
-        if (snapEnabled) {
-          // Snap the end position to grid (snap the cell after the end)
-          newEnd = Math.max(r.origStep, Math.round(snapCeil(newEnd + 1, snapResolution)) - 1);
-        }
-        newDuration = newEnd - r.origStep + 1;
+        // Right edge: new end under the pointer, keep start fixed
+        newEnd = snapEnabled ? snapCeil(pointer, snapResolution) : pointer;
+        newEnd = Math.max(newEnd, r.origStep + minDuration);
       } else {
-        // Left edge: new start = currentStep, keep end fixed
-        const origEnd = r.origStep + r.origDuration - 1;
-        newStep = Math.min(r.currentStep, origEnd);
-        if (snapEnabled) {
-          newStep = Math.min(origEnd, Math.round(snapFloor(newStep, snapResolution)));
-        }
-        newDuration = origEnd - newStep + 1;
-      }
-      // Ensure minimum duration
-      if (snapEnabled) {
-        newDuration = Math.max(newDuration, Math.round(snapMinDuration(snapResolution)));
+        // Left edge: new start under the pointer, keep end fixed
+        newStep = snapEnabled ? snapFloor(pointer, snapResolution) : pointer;
+        newStep = Math.max(0, Math.min(newStep, origEnd - minDuration));
       }
-      if (newDuration < 1) newDuration = 1;
-      if (newStep !== r.origStep || newDuration !== r.origDuration) {
-        onUpdateNote(r.noteId, { step: Math.round(newStep), duration: Math.round(newDuration) });
+      const startTick = toTicks(newStep);
+      const durationTicks = Math.max(1, toTicks(newEnd) - startTick);
+      if (startTick !== toTicks(r.origStep) || durationTicks !== toTicks(r.origDuration)) {
+        onUpdateNote(r.noteId, { startTick, durationTicks });
       }
       resizeRef.current = null;
       setResize(null);
@@ -732,19 +1636,25 @@ function PianoRoll({
     // Handle new-note drag completion
     const d = dragRef.current;
     if (!d) return;
-    let minStep = Math.min(d.startStep, d.currentStep);
-    let maxStep = Math.max(d.startStep, d.currentStep);
+    let start = Math.min(d.startPos, pointer);
+    let end = Math.max(d.startPos, pointer);
     if (snapEnabled) {
-      minStep = Math.round(snapFloor(minStep, snapResolution));
-      maxStep = Math.round(snapCeil(maxStep + 1, snapResolution)) - 1;
+      start = snapFloor(start, snapResolution);
       // Ensure at least one grid unit
-      if (maxStep < minStep) maxStep = minStep + Math.round(snapMinDuration(snapResolution)) - 1;
+      end = Math.max(snapCeil(end, snapResolution), start + snapStepSize(snapResolution));
+    } else {
+      end = Math.max(end, start + 1);
+    }
+    const startTick = toTicks(start);
+    const durationTicks = toTicks(end) - startTick;
+    if (activeTool === 'chord') {
+      onAddChord(getChordFor(d.pitch), startTick, durationTicks);
+    } else {
+      onAddNote(d.pitch, startTick, durationTicks);
     }
-    const duration = maxStep - minStep + 1;
-    onAddNote(d.pitch, Math.round(minStep), Math.round(duration));
     dragRef.current = null;
     setDrag(null);
-  }, [onAddNote, onUpdateNote, onMoveNotes, selectedNoteIds, snapEnabled, snapResolution]);
+  }, [activeTool, onAddNote, onAddChord, getChordFor, onUpdateNote, onMoveNotes, selectedNoteIds, snapEnabled, snapResolution]);
 
   // Global mouseup listener to catch releases outside the grid
   useEffect(() => {
@@ -760,6 +1670,9 @@ function PianoRoll({
   // Keyboard handler: Delete/Backspace, Escape, Ctrl+A, tool shortcuts
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
+      // Leave keys alone while typing in a text field (preset name, custom chord)
+      if ((e.target as HTMLElement).tagName === 'INPUT' && (e.target as HTMLInputElement).type === 'text') return;
+
       // Tool switching shortcuts (single keys, not with modifiers)
       if (!e.ctrlKey && !e.metaKey && !e.altKey) {
         const lower = e.key.toLowerCase();
@@ -768,6 +1681,7 @@ function PianoRoll({
         if (lower === 'c' && !e.shiftKey) { setActiveTool('slice'); return; }
         if (lower === 'p') { setActiveTool('paint'); return; }
         if (lower === 'e') { setActiveTool('erase'); return; }
+        if (lower === 'k') { setActiveTool('chord'); return; }
       }
 
       // Ctrl+A / Cmd+A: select all notes
@@ -783,13 +1697,15 @@ function PianoRoll({
         e.preventDefault();
         const selected = pianoRoll.notes.filter((n) => selectedNoteIds.has(n.id));
         // Store relative to the top-left of the selection
-        const minStep = Math.min(...selected.map((n) => n.step));
+        const minTick = Math.min(...selected.map((n) => n.startTick));
         const minPitch = Math.min(...selected.map((n) => n.pitch));
         clipboardRef.current = selected.map((n) => ({
           pitch: n.pitch - minPitch,
-          step: n.step - minStep,
-          duration: n.duration,
+          startTick: n.startTick - minTick,
+          durationTicks: n.durationTicks,
           velocity: n.velocity,
+          slide: n.slide,
+          ...getNoteExpression(n),
         }));
         return;
       }
@@ -799,18 +1715,20 @@ function PianoRoll({
         if (clipboardRef.current.length === 0) return;
         e.preventDefault();
         // Paste at the earliest selected note position, or at step 0 / lowest pitch if nothing selected
-        let baseStep = 0;
+        let baseTick = 0;
         let basePitch = 60; // middle C default
         if (selectedNoteIds.size > 0) {
           const selected = pianoRoll.notes.filter((n) => selectedNoteIds.has(n.id));
-          baseStep = Math.min(...selected.map((n) => n.step));
+          baseTick = Math.min(...selected.map((n) => n.startTick));
           basePitch = Math.min(...selected.map((n) => n.pitch));
         }
         const pasted = clipboardRef.current.map((n) => ({
           pitch: n.pitch + basePitch,
-          step: n.step + baseStep,
-          duration: n.duration,
+          startTick: n.startTick + baseTick,
+          durationTicks: n.durationTicks,
           velocity: n.velocity,
+          slide: n.slide,
+          ...getNoteExpression(n),
         }));
         onPasteNotes(pasted);
         // Select the newly pasted notes (they'll get new IDs from the hook)
@@ -824,14 +1742,16 @@ function PianoRoll({
         if (selectedNoteIds.size === 0) return;
         e.preventDefault();
         const selected = pianoRoll.notes.filter((n) => selectedNoteIds.has(n.id));
-        const maxEnd = Math.max(...selected.map((n) => n.step + n.duration));
-        const minStep = Math.min(...selected.map((n) => n.step));
-        const stepOffset = maxEnd - minStep;
+        const maxEnd = Math.max(...selected.map((n) => n.startTick + n.durationTicks));
+        const minTick = Math.min(...selected.map((n) => n.startTick));
+        const tickOffset = maxEnd - minTick;
         const duplicated = selected.map((n) => ({
           pitch: n.pitch,
-          step: n.step + stepOffset,
-          duration: n.duration,
+          startTick: n.startTick + tickOffset,
+          durationTicks: n.durationTicks,
           velocity: n.velocity,
+          slide: n.slide,
+          ...getNoteExpression(n),
         }));
         onPasteNotes(duplicated);
         setSelectedNoteIds(new Set());
@@ -863,10 +1783,10 @@ function PianoRoll({
       // Arrow keys: move selected notes
       if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'ArrowUp' || e.key === 'ArrowDown') {
         e.preventDefault();
-        const snapSize = snapEnabled ? Math.max(1, Math.round(snapStepSize(snapResolution))) : 1;
-        const stepDelta = e.key === 'ArrowLeft' ? -snapSize : e.key === 'ArrowRight' ? snapSize : 0;
+        const snapTicks = snapEnabled ? toTicks(snapStepSize(snapResolution)) : TICKS_PER_STEP;
+        const tickDelta = e.key === 'ArrowLeft' ? -snapTicks : e.key === 'ArrowRight' ? snapTicks : 0;
         const pitchDelta = e.key === 'ArrowUp' ? 1 : e.key === 'ArrowDown' ? -1 : 0;
-        onMoveNotes(selectedNoteIds, stepDelta, pitchDelta);
+        onMoveNotes(selectedNoteIds, tickDelta, pitchDelta);
       }
     };
     window.addEventListener('keydown', onKeyDown);
@@ -894,20 +1814,24 @@ function PianoRoll({
   // Compute drag preview range
   const dragMin = drag ? Math.min(drag.startStep, drag.currentStep) : -1;
   const dragMax = drag ? Math.max(drag.startStep, drag.currentStep) : -1;
-  const dragPitch = drag?.pitch ?? -1;
+  const dragPitches = useMemo(
+    () => new Set(drag ? (activeTool === 'chord' ? getChordFor(drag.pitch) : [drag.pitch]) : []),
+    [drag, activeTool, getChordFor],
+  );
 
   // Compute resize preview range
   let resizePreviewStart = -1;
   let resizePreviewEnd = -1;
   const resizePitch = resize?.pitch ?? -1;
   if (resize) {
+    const origFirst = Math.floor(resize.origStep);
+    const origLast = Math.max(origFirst, Math.ceil(resize.origStep + resize.origDuration) - 1);
     if (resize.edge === 'right') {
-      resizePreviewStart = resize.origStep;
-      resizePreviewEnd = Math.max(resize.currentStep, resize.origStep);
+      resizePreviewStart = origFirst;
+      resizePreviewEnd = Math.max(resize.currentStep, origFirst);
     } else {
-      const origEnd = resize.origStep + resize.origDuration - 1;
-      resizePreviewStart = Math.min(resize.currentStep, origEnd);
-      resizePreviewEnd = origEnd;
+      resizePreviewStart = Math.min(resize.currentStep, origLast);
+      resizePreviewEnd = origLast;
     }
   }
 
@@ -919,11 +1843,11 @@ function PianoRoll({
   if (move && (moveStepDelta !== 0 || movePitchDelta !== 0)) {
     for (const note of pianoRoll.notes) {
       if (!selectedNoteIds.has(note.id)) continue;
-      const newStep = note.step + moveStepDelta;
-      const newPitch = note.pitch + movePitchDelta;
-      for (let s = newStep; s < newStep + note.duration && s < stepCount; s++) {
-        if (s >= 0 && newPitch >= MIDI_LOW && newPitch <= MIDI_HIGH) {
-          movePreviewCells.current.set(`${newPitch}-${s}`, { ...note, step: newStep, pitch: newPitch });
+      const moved = { ...note, startTick: note.startTick + moveStepDelta * TICKS_PER_STEP, pitch: note.pitch + movePitchDelta };
+      if (moved.pitch < MIDI_LOW || moved.pitch > MIDI_HIGH) continue;
+      for (let s = getFirstCell(moved); s <= getLastCell(moved) && s < stepCount; s++) {
+        if (s >= 0) {
+          movePreviewCells.current.set(`${moved.pitch}-${s}`, moved);
         }
       }
     }
@@ -947,41 +1871,48 @@ function PianoRoll({
     return remainder < 0.001 || (snapSize - remainder) < 0.001;
   }, [snapEnabled, snapSize]);
 
-  /** Velocity lane: compute velocity from mouse Y position relative to the bar container */
-  const velocityFromMouseY = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+  /** Note lane: compute the lane's value from mouse Y position relative to the bar container */
+  const laneValueFromMouseY = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const y = e.clientY - rect.top;
-    // Top = velocity 1, bottom = velocity 0.05
-    return Math.max(0.05, Math.min(1, 1 - y / rect.height));
-  }, []);
+    // Top = the lane's maximum, bottom = its minimum (velocity stops at 0.05)
+    const position = Math.max(0, Math.min(1, 1 - y / rect.height));
+    if (lane.value === 'velocity') return Math.max(0.05, position);
+    const value = lane.min + position * (lane.max - lane.min);
+    // Snap to the neutral value near the middle of a bipolar lane
+    return lane.bipolar && Math.abs(value - lane.neutral) < (lane.max - lane.min) * 0.04 ? lane.neutral : value;
+  }, [lane]);
+
+  /** Set the active lane's value of every note starting at a step */
+  const setLaneValue = useCallback(
+    (step: number, value: number) => {
+      for (const note of notesByStep.current.get(step) ?? []) {
+        if (lane.value === 'velocity') onUpdateNoteVelocity(note.id, value);
+        else onUpdateNoteExpression(note.id, { [lane.value]: value });
+      }
+    },
+    [lane, onUpdateNoteVelocity, onUpdateNoteExpression],
+  );
 
   const velocityDragRef = useRef<boolean>(false);
 
   const handleVelocityMouseDown = useCallback(
     (step: number, e: React.MouseEvent<HTMLDivElement>) => {
       e.preventDefault();
-      const velocity = velocityFromMouseY(e);
       const notes = notesByStep.current.get(step);
       if (!notes || notes.length === 0) return;
       velocityDragRef.current = true;
-      for (const note of notes) {
-        onUpdateNoteVelocity(note.id, velocity);
-      }
+      setLaneValue(step, laneValueFromMouseY(e));
     },
-    [onUpdateNoteVelocity, velocityFromMouseY],
+    [setLaneValue, laneValueFromMouseY],
   );
 
   const handleVelocityMouseEnter = useCallback(
     (step: number, e: React.MouseEvent<HTMLDivElement>) => {
       if (!velocityDragRef.current) return;
-      const velocity = velocityFromMouseY(e);
-      const notes = notesByStep.current.get(step);
-      if (!notes || notes.length === 0) return;
-      for (const note of notes) {
-        onUpdateNoteVelocity(note.id, velocity);
-      }
+      setLaneValue(step, laneValueFromMouseY(e));
     },
-    [onUpdateNoteVelocity, velocityFromMouseY],
+    [setLaneValue, laneValueFromMouseY],
   );
 
   useEffect(() => {
@@ -1056,6 +1987,14 @@ function PianoRoll({
       <div className="piano-roll-header">
         <div className="piano-roll-title-row">
           <div className="piano-roll-title">Piano Roll</div>
+          <InstrumentChannelTabs
+            channels={instrumentChannels}
+            activeChannelId={activeInstrumentChannelId}
+            onSelect={onSelectInstrumentChannel}
+            onAdd={onAddInstrumentChannel}
+            onRemove={onRemoveInstrumentChannel}
+            onRename={onRenameInstrumentChannel}
+          />
           <div className="pr-tool-buttons">
             {TOOLS.map((tool) => (
               <button
@@ -1107,7 +2046,7 @@ function PianoRoll({
             <select
               className="snap-select"
               value={snapResolution}
-              onChange={(e) => setSnapResolution(e.target.value as SnapResolution)}
+              onChange={(e) => onSnapResolutionChange(e.target.value as SnapResolution)}
               disabled={!snapEnabled}
               title="Grid resolution"
             >
@@ -1118,463 +2057,1013 @@ function PianoRoll({
               ))}
             </select>
           </div>
-        </div>
-
-        <div className="synth-controls">
-          <div className="synth-preset-bar">
-            <input
-              className="synth-preset-name"
-              type="text"
-              placeholder="Preset name…"
-              value={presetName}
-              onChange={(e) => setPresetName(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Enter') handleSavePreset(); }}
-            />
-            <button className="synth-preset-btn" onClick={handleSavePreset} disabled={!presetName.trim()} title="Save current settings as preset">
-              Save
+          <div className="snap-controls">
+            <select
+              className="snap-select"
+              value={scale.root}
+              onChange={(e) => onScaleChange({ root: Number(e.target.value) })}
+              title="Key"
+            >
+              {NOTE_NAMES.map((name, i) => (
+                <option key={name} value={i}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <select
+              className="snap-select"
+              value={scale.type}
+              onChange={(e) => onScaleChange({ type: e.target.value as ScaleType })}
+              title="Scale"
+            >
+              {SCALE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {SCALE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <button
+              className={`snap-toggle${scaleSnap ? ' active' : ''}`}
+              onClick={() => setScaleSnap((v) => !v)}
+              disabled={!scaleActive}
+              title="Snap drawn notes to the scale"
+            >
+              Lock
             </button>
-            <button className={`synth-preset-btn${presetOpen ? ' active' : ''}`} onClick={handleTogglePresetBrowser} title="Browse presets">
-              Presets
+            <button
+              className={`snap-toggle${scaleFold ? ' active' : ''}`}
+              onClick={() => setScaleFold((v) => !v)}
+              disabled={!scaleActive}
+              title="Fold: hide rows outside the scale"
+            >
+              Fold
             </button>
-            {presetStatus && <span className="synth-preset-status">{presetStatus}</span>}
           </div>
-          {presetOpen && (
-            <div className="synth-preset-browser">
-              {presetList.length === 0 ? (
-                <div className="synth-preset-empty">No saved presets</div>
-              ) : (
-                presetList.map((p) => (
-                  <div key={p.id} className="synth-preset-item">
-                    <button className="synth-preset-load" onClick={() => handleLoadPreset(p.id)} title={`Load "${p.name}"`}>
-                      {p.name}
-                    </button>
-                    <button className="synth-preset-delete" onClick={() => handleDeletePreset(p.id)} title="Delete preset">
-                      ×
-                    </button>
-                  </div>
-                ))
+          {activeTool === 'chord' && (
+            <div className="snap-controls">
+              <select
+                className="snap-select"
+                value={chordType}
+                onChange={(e) => setChordType(e.target.value as ChordType)}
+                title="Chord type (Scale Triad/7th follow the pattern's scale)"
+              >
+                {CHORD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CHORD_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="snap-select"
+                value={chordInversion}
+                onChange={(e) => setChordInversion(Number(e.target.value))}
+                title="Inversion"
+              >
+                {CHORD_INVERSIONS.map((inv) => (
+                  <option key={inv.value} value={inv.value}>
+                    {inv.label}
+                  </option>
+                ))}
+              </select>
+              {chordType === 'custom' && (
+                <input
+                  className="pr-chord-custom"
+                  type="text"
+                  value={customChord}
+                  onChange={(e) => setCustomChord(e.target.value)}
+                  placeholder="0 4 7"
+                  title="Custom voicing: semitones above the root, separated by spaces or commas"
+                />
               )}
             </div>
           )}
+        </div>
+
+        <div className="synth-controls">
+          <div className="synth-control-group">
+            <label className="synth-label">Instr</label>
+            <div className="synth-osc-buttons">
+              {PIANO_INSTRUMENTS.map((i) => (
+                <button
+                  key={i.value}
+                  className={`synth-osc-btn${instrument === i.value ? ' active' : ''}`}
+                  onClick={() => onInstrumentChange(i.value)}
+                  title={i.title}
+                >
+                  {i.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {instrument === 'synth' ? (
+            <>
+              <div className="synth-preset-bar">
+                <input
+                  className="synth-preset-name"
+                  type="text"
+                  placeholder="Preset name…"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSavePreset(); }}
+                />
+                <button className="synth-preset-btn" onClick={handleSavePreset} disabled={!presetName.trim()} title="Save current settings as preset">
+                  Save
+                </button>
+                <button className={`synth-preset-btn${presetOpen ? ' active' : ''}`} onClick={handleTogglePresetBrowser} title="Browse presets">
+                  Presets
+                </button>
+                {presetStatus && <span className="synth-preset-status">{presetStatus}</span>}
+              </div>
+              {presetOpen && (
+                <div className="synth-preset-browser">
+                  {presetList.length === 0 ? (
+                    <div className="synth-preset-empty">No saved presets</div>
+                  ) : (
+                    presetList.map((p) => (
+                      <div key={p.id} className="synth-preset-item">
+                        <button className="synth-preset-load" onClick={() => handleLoadPreset(p.id)} title={`Load "${p.name}"`}>
+                          {p.name}
+                        </button>
+                        <button className="synth-preset-delete" onClick={() => handleDeletePreset(p.id)} title="Delete preset">
+                          ×
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+              <div className="synth-control-group">
+                <label className="synth-label">OSC 1</label>
+                <div className="synth-osc-buttons">
+                  {OSC_TYPES.map((t) => (
+                    <button
+                      key={t}
+                      className={`synth-osc-btn${synthSettings.oscType === t ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ oscType: t })}
+                      title={OSC_LABELS[t]}
+                    >
+                      {OSC_LABELS[t]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Oct 1</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={-2}
+                  max={2}
+                  step={1}
+                  data-midi-learn="synth:oscOctave"
+                  value={synthSettings.oscOctave}
+                  onChange={(e) => onSynthSettingsChange({ oscOctave: Number(e.target.value) })}
+                  title={`Octave: ${synthSettings.oscOctave > 0 ? '+' : ''}${synthSettings.oscOctave}`}
+                />
+              </div>
+
+              <OscillatorModeControls
+                osc={1}
+                settings={synthSettings.osc1Mode}
+                onChange={handleOscModeChange}
+                onLoadWavetable={handleLoadWavetable}
+              />
+
+              <div className="synth-control-group">
+                <label className="synth-label">OSC 2</label>
+                <div className="synth-osc-buttons">
+                  {OSC_TYPES.map((t) => (
+                    <button
+                      key={t}
+                      className={`synth-osc-btn${synthSettings.osc2Type === t ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ osc2Type: t })}
+                      title={OSC_LABELS[t]}
+                    >
+                      {OSC_LABELS[t]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Oct 2</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={-2}
+                  max={2}
+                  step={1}
+                  data-midi-learn="synth:osc2Octave"
+                  value={synthSettings.osc2Octave}
+                  onChange={(e) => onSynthSettingsChange({ osc2Octave: Number(e.target.value) })}
+                  title={`Octave: ${synthSettings.osc2Octave > 0 ? '+' : ''}${synthSettings.osc2Octave}`}
+                />
+              </div>
+
+              <OscillatorModeControls
+                osc={2}
+                settings={synthSettings.osc2Mode}
+                onChange={handleOscModeChange}
+                onLoadWavetable={handleLoadWavetable}
+              />
+
+              <div className="synth-control-group">
+                <label className="synth-label">Detune</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:osc2Detune"
+                  value={synthSettings.osc2Detune}
+                  onChange={(e) => onSynthSettingsChange({ osc2Detune: Number(e.target.value) })}
+                  title={`${synthSettings.osc2Detune} cents`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Mix</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:osc2Mix"
+                  value={Math.round(synthSettings.osc2Mix * 100)}
+                  onChange={(e) => onSynthSettingsChange({ osc2Mix: Number(e.target.value) / 100 })}
+                  title={`${Math.round(synthSettings.osc2Mix * 100)}%`}
+                />
+              </div>
+
+              <div className="synth-control-divider" />
+
+              <div className="synth-control-group">
+                <label className="synth-label">
+                  <input
+                    type="checkbox"
+                    checked={synthSettings.osc3Enabled}
+                    onChange={(e) => onSynthSettingsChange({ osc3Enabled: e.target.checked })}
+                  />
+                  {' OSC 3'}
+                </label>
+                <div className="synth-osc-buttons">
+                  {OSC_TYPES.map((t) => (
+                    <button
+                      key={t}
+                      className={`synth-osc-btn${synthSettings.osc3Type === t ? ' active' : ''}${!synthSettings.osc3Enabled ? ' disabled' : ''}`}
+                      onClick={() => synthSettings.osc3Enabled && onSynthSettingsChange({ osc3Type: t })}
+                      title={OSC_LABELS[t]}
+                      disabled={!synthSettings.osc3Enabled}
+                    >
+                      {OSC_LABELS[t]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Oct 3</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={-2}
+                  max={2}
+                  step={1}
+                  data-midi-learn="synth:osc3Octave"
+                  value={synthSettings.osc3Octave}
+                  onChange={(e) => onSynthSettingsChange({ osc3Octave: Number(e.target.value) })}
+                  title={`Octave: ${synthSettings.osc3Octave > 0 ? '+' : ''}${synthSettings.osc3Octave}`}
+                  disabled={!synthSettings.osc3Enabled}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Det 3</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:osc3Detune"
+                  value={synthSettings.osc3Detune}
+                  onChange={(e) => onSynthSettingsChange({ osc3Detune: Number(e.target.value) })}
+                  title={`${synthSettings.osc3Detune} cents`}
+                  disabled={!synthSettings.osc3Enabled}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Mix 3</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:osc3Mix"
+                  value={Math.round(synthSettings.osc3Mix * 100)}
+                  onChange={(e) => onSynthSettingsChange({ osc3Mix: Number(e.target.value) / 100 })}
+                  title={`${Math.round(synthSettings.osc3Mix * 100)}%`}
+                  disabled={!synthSettings.osc3Enabled}
+                />
+              </div>
+
+              <OscillatorModeControls
+                osc={3}
+                settings={synthSettings.osc3Mode}
+                disabled={!synthSettings.osc3Enabled}
+                onChange={handleOscModeChange}
+                onLoadWavetable={handleLoadWavetable}
+              />
+
+              <div className="synth-control-group">
+                <label className="synth-label">Cutoff</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:filterCutoff"
+                  value={Math.round(Math.log(synthSettings.filterCutoff / 20) / Math.log(20000 / 20) * 100)}
+                  onChange={(e) => {
+                    const normalized = Number(e.target.value) / 100;
+                    const freq = 20 * Math.pow(20000 / 20, normalized);
+                    onSynthSettingsChange({ filterCutoff: Math.round(freq) });
+                  }}
+                  title={`${synthSettings.filterCutoff} Hz`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Reso</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={250}
+                  data-midi-learn="synth:filterResonance"
+                  value={Math.round(synthSettings.filterResonance * 10)}
+                  onChange={(e) => onSynthSettingsChange({ filterResonance: Number(e.target.value) / 10 })}
+                  title={`Q: ${synthSettings.filterResonance.toFixed(1)}`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Filter</label>
+                <div className="synth-osc-buttons">
+                  {SYNTH_FILTER_TYPES.map((t) => (
+                    <button
+                      key={t.value}
+                      className={`synth-osc-btn${synthSettings.filterType === t.value ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ filterType: t.value })}
+                    >
+                      {t.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Slope</label>
+                <div className="synth-osc-buttons">
+                  {SYNTH_FILTER_SLOPES.map((slope) => (
+                    <button
+                      key={slope}
+                      className={`synth-osc-btn${synthSettings.filterMode === 'clean' && synthSettings.filterSlope === slope ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ filterSlope: slope, filterMode: 'clean' })}
+                    >
+                      {slope} dB
+                    </button>
+                  ))}
+                  <button
+                    className={`synth-osc-btn${synthSettings.filterMode === 'ladder' ? ' active' : ''}`}
+                    onClick={() => onSynthSettingsChange({ filterMode: 'ladder' })}
+                    title="24 dB with saturation between the poles"
+                  >
+                    Ladder
+                  </button>
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Drive</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:filterDrive"
+                  value={Math.round(synthSettings.filterDrive * 100)}
+                  onChange={(e) => onSynthSettingsChange({ filterDrive: Number(e.target.value) / 100 })}
+                  title={`Ladder Drive: ${Math.round(synthSettings.filterDrive * 100)}%`}
+                  disabled={synthSettings.filterMode !== 'ladder'}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Key</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:filterKeyTrack"
+                  value={Math.round(synthSettings.filterKeyTrack * 100)}
+                  onChange={(e) => onSynthSettingsChange({ filterKeyTrack: Number(e.target.value) / 100 })}
+                  title={`Key Tracking: ${Math.round(synthSettings.filterKeyTrack * 100)}%`}
+                />
+              </div>
+
+              <div className="synth-control-divider" />
+
+              <div className="synth-control-group">
+                <label className="synth-label">
+                  <input
+                    type="checkbox"
+                    checked={synthSettings.filter2Enabled}
+                    onChange={(e) => onSynthSettingsChange({ filter2Enabled: e.target.checked })}
+                  />
+                  {' F2'}
+                </label>
+                <div className="synth-osc-buttons">
+                  {SYNTH_FILTER_TYPES.map((t) => (
+                    <button
+                      key={t.value}
+                      className={`synth-osc-btn${synthSettings.filter2Type === t.value ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ filter2Type: t.value })}
+                      disabled={!synthSettings.filter2Enabled}
+                    >
+                      {t.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Slope 2</label>
+                <div className="synth-osc-buttons">
+                  {SYNTH_FILTER_SLOPES.map((slope) => (
+                    <button
+                      key={slope}
+                      className={`synth-osc-btn${synthSettings.filter2Slope === slope ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ filter2Slope: slope })}
+                      disabled={!synthSettings.filter2Enabled}
+                    >
+                      {slope} dB
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Cutoff 2</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:filter2Cutoff"
+                  value={Math.round(Math.log(synthSettings.filter2Cutoff / 20) / Math.log(20000 / 20) * 100)}
+                  onChange={(e) => {
+                    const normalized = Number(e.target.value) / 100;
+                    const freq = 20 * Math.pow(20000 / 20, normalized);
+                    onSynthSettingsChange({ filter2Cutoff: Math.round(freq) });
+                  }}
+                  title={`${synthSettings.filter2Cutoff} Hz`}
+                  disabled={!synthSettings.filter2Enabled}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Reso 2</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={250}
+                  data-midi-learn="synth:filter2Resonance"
+                  value={Math.round(synthSettings.filter2Resonance * 10)}
+                  onChange={(e) => onSynthSettingsChange({ filter2Resonance: Number(e.target.value) / 10 })}
+                  title={`Q: ${synthSettings.filter2Resonance.toFixed(1)}`}
+                  disabled={!synthSettings.filter2Enabled}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Routing</label>
+                <div className="synth-osc-buttons">
+                  {FILTER_ROUTINGS.map((r) => (
+                    <button
+                      key={r.value}
+                      className={`synth-osc-btn${synthSettings.filterRouting === r.value ? ' active' : ''}`}
+                      onClick={() => onSynthSettingsChange({ filterRouting: r.value })}
+                      disabled={!synthSettings.filter2Enabled}
+                      title={r.value === 'serial' ? 'Filter 1 into filter 2' : 'Filter 1 and filter 2 side by side'}
+                    >
+                      {r.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="synth-control-divider" />
+
+              <div className="synth-control-group">
+                <label className="synth-label">FAtk</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={2000}
+                  data-midi-learn="synth:filterEnvAttack"
+                  value={Math.round(synthSettings.filterEnvAttack * 1000)}
+                  onChange={(e) => onSynthSettingsChange({ filterEnvAttack: Number(e.target.value) / 1000 })}
+                  title={`Filter Attack: ${synthSettings.filterEnvAttack >= 1 ? `${synthSettings.filterEnvAttack.toFixed(1)}s` : `${Math.round(synthSettings.filterEnvAttack * 1000)}ms`}`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">FDec</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={2000}
+                  data-midi-learn="synth:filterEnvDecay"
+                  value={Math.round(synthSettings.filterEnvDecay * 1000)}
+                  onChange={(e) => onSynthSettingsChange({ filterEnvDecay: Number(e.target.value) / 1000 })}
+                  title={`Filter Decay: ${synthSettings.filterEnvDecay >= 1 ? `${synthSettings.filterEnvDecay.toFixed(1)}s` : `${Math.round(synthSettings.filterEnvDecay * 1000)}ms`}`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">FSus</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:filterEnvSustain"
+                  value={Math.round(synthSettings.filterEnvSustain * 100)}
+                  onChange={(e) => onSynthSettingsChange({ filterEnvSustain: Number(e.target.value) / 100 })}
+                  title={`Filter Sustain: ${Math.round(synthSettings.filterEnvSustain * 100)}%`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">FRel</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={2000}
+                  data-midi-learn="synth:filterEnvRelease"
+                  value={Math.round(synthSettings.filterEnvRelease * 1000)}
+                  onChange={(e) => onSynthSettingsChange({ filterEnvRelease: Number(e.target.value) / 1000 })}
+                  title={`Filter Release: ${synthSettings.filterEnvRelease >= 1 ? `${synthSettings.filterEnvRelease.toFixed(1)}s` : `${Math.round(synthSettings.filterEnvRelease * 1000)}ms`}`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">FAmt</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:filterEnvAmount"
+                  value={Math.round(synthSettings.filterEnvAmount)}
+                  onChange={(e) => onSynthSettingsChange({ filterEnvAmount: Number(e.target.value) })}
+                  title={`Filter Env Amount: ${Math.round(synthSettings.filterEnvAmount)} semitones`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">WAmt</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={-100}
+                  max={100}
+                  data-midi-learn="synth:wtEnvAmount"
+                  value={Math.round(synthSettings.wtEnvAmount * 100)}
+                  onChange={(e) => onSynthSettingsChange({ wtEnvAmount: Number(e.target.value) / 100 })}
+                  title={`Wavetable Env Amount: ${Math.round(synthSettings.wtEnvAmount * 100)}% of the table (filter envelope shape)`}
+                />
+              </div>
+
+              <div className="synth-control-divider" />
+
+              <div className="synth-control-group">
+                <label className="synth-label">Atk</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={2000}
+                  data-midi-learn="synth:ampAttack"
+                  value={Math.round(synthSettings.ampAttack * 1000)}
+                  onChange={(e) => onSynthSettingsChange({ ampAttack: Number(e.target.value) / 1000 })}
+                  title={`Attack: ${synthSettings.ampAttack >= 1 ? `${synthSettings.ampAttack.toFixed(1)}s` : `${Math.round(synthSettings.ampAttack * 1000)}ms`}`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Dec</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={2000}
+                  data-midi-learn="synth:ampDecay"
+                  value={Math.round(synthSettings.ampDecay * 1000)}
+                  onChange={(e) => onSynthSettingsChange({ ampDecay: Number(e.target.value) / 1000 })}
+                  title={`Decay: ${synthSettings.ampDecay >= 1 ? `${synthSettings.ampDecay.toFixed(1)}s` : `${Math.round(synthSettings.ampDecay * 1000)}ms`}`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Sus</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:ampSustain"
+                  value={Math.round(synthSettings.ampSustain * 100)}
+                  onChange={(e) => onSynthSettingsChange({ ampSustain: Number(e.target.value) / 100 })}
+                  title={`Sustain: ${Math.round(synthSettings.ampSustain * 100)}%`}
+                />
+              </div>
+
+              <div className="synth-control-group">
+                <label className="synth-label">Rel</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={2000}
+                  data-midi-learn="synth:ampRelease"
+                  value={Math.round(synthSettings.ampRelease * 1000)}
+                  onChange={(e) => onSynthSettingsChange({ ampRelease: Number(e.target.value) / 1000 })}
+                  title={`Release: ${synthSettings.ampRelease >= 1 ? `${synthSettings.ampRelease.toFixed(1)}s` : `${Math.round(synthSettings.ampRelease * 1000)}ms`}`}
+                />
+              </div>
+            </>
+          ) : (
+            <SamplerControls
+              sampler={sampler}
+              samples={samples}
+              onSamplerChange={onSamplerChange}
+              onAddZone={onAddSamplerZone}
+              onUpdateZone={onUpdateSamplerZone}
+              onRemoveZone={onRemoveSamplerZone}
+            />
+          )}
+
+          <div className="synth-control-divider" />
+
+          {/* Voice allocation controls */}
           <div className="synth-control-group">
-            <label className="synth-label">OSC 1</label>
+            <label className="synth-label">Voice</label>
             <div className="synth-osc-buttons">
-              {OSC_TYPES.map((t) => (
+              {VOICE_MODES.map((m) => (
                 <button
-                  key={t}
-                  className={`synth-osc-btn${synthSettings.oscType === t ? ' active' : ''}`}
-                  onClick={() => onSynthSettingsChange({ oscType: t })}
-                  title={OSC_LABELS[t]}
+                  key={m}
+                  className={`synth-osc-btn${synthSettings.voiceMode === m ? ' active' : ''}`}
+                  onClick={() => onSynthSettingsChange({ voiceMode: m })}
                 >
-                  {OSC_LABELS[t]}
+                  {VOICE_MODE_LABELS[m]}
                 </button>
               ))}
             </div>
           </div>
-
           <div className="synth-control-group">
-            <label className="synth-label">Oct 1</label>
+            <label className="synth-label">Poly</label>
             <input
               type="range"
               className="synth-slider"
-              min={-2}
-              max={2}
+              min={1}
+              max={16}
               step={1}
-              value={synthSettings.oscOctave}
-              onChange={(e) => onSynthSettingsChange({ oscOctave: Number(e.target.value) })}
-              title={`Octave: ${synthSettings.oscOctave > 0 ? '+' : ''}${synthSettings.oscOctave}`}
+              data-midi-learn="synth:polyphony"
+              value={synthSettings.polyphony}
+              onChange={(e) => onSynthSettingsChange({ polyphony: Number(e.target.value) })}
+              title={`Polyphony: ${synthSettings.polyphony} note${synthSettings.polyphony > 1 ? 's' : ''}`}
+              disabled={synthSettings.voiceMode !== 'poly'}
             />
           </div>
-
           <div className="synth-control-group">
-            <label className="synth-label">OSC 2</label>
+            <label className="synth-label">Steal</label>
             <div className="synth-osc-buttons">
-              {OSC_TYPES.map((t) => (
+              {VOICE_STEALING_MODES.map((m) => (
                 <button
-                  key={t}
-                  className={`synth-osc-btn${synthSettings.osc2Type === t ? ' active' : ''}`}
-                  onClick={() => onSynthSettingsChange({ osc2Type: t })}
-                  title={OSC_LABELS[t]}
+                  key={m}
+                  className={`synth-osc-btn${synthSettings.voiceStealing === m ? ' active' : ''}`}
+                  onClick={() => onSynthSettingsChange({ voiceStealing: m })}
+                  title={`When the polyphony is used up, cut the ${m} note`}
+                  disabled={synthSettings.voiceMode !== 'poly'}
                 >
-                  {OSC_LABELS[t]}
+                  {VOICE_STEALING_LABELS[m]}
                 </button>
               ))}
             </div>
           </div>
 
           <div className="synth-control-group">
-            <label className="synth-label">Oct 2</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={-2}
-              max={2}
-              step={1}
-              value={synthSettings.osc2Octave}
-              onChange={(e) => onSynthSettingsChange({ osc2Octave: Number(e.target.value) })}
-              title={`Octave: ${synthSettings.osc2Octave > 0 ? '+' : ''}${synthSettings.osc2Octave}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Detune</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={synthSettings.osc2Detune}
-              onChange={(e) => onSynthSettingsChange({ osc2Detune: Number(e.target.value) })}
-              title={`${synthSettings.osc2Detune} cents`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Mix</label>
+            <label className="synth-label">Glide</label>
             <input
               type="range"
               className="synth-slider"
               min={0}
-              max={100}
-              value={Math.round(synthSettings.osc2Mix * 100)}
-              onChange={(e) => onSynthSettingsChange({ osc2Mix: Number(e.target.value) / 100 })}
-              title={`${Math.round(synthSettings.osc2Mix * 100)}%`}
+              max={1000}
+              data-midi-learn="synth:glideTime"
+              value={Math.round(synthSettings.glideTime * 1000)}
+              onChange={(e) => onSynthSettingsChange({ glideTime: Number(e.target.value) / 1000 })}
+              title={`Glide: ${Math.round(synthSettings.glideTime * 1000)}ms (mono and legato modes)`}
             />
-          </div>
-
-          <div className="synth-control-divider" />
-
-          <div className="synth-control-group">
-            <label className="synth-label">
-              <input
-                type="checkbox"
-                checked={synthSettings.osc3Enabled}
-                onChange={(e) => onSynthSettingsChange({ osc3Enabled: e.target.checked })}
-              />
-              {' OSC 3'}
-            </label>
             <div className="synth-osc-buttons">
-              {OSC_TYPES.map((t) => (
+              {GLIDE_MODES.map((m) => (
                 <button
-                  key={t}
-                  className={`synth-osc-btn${synthSettings.osc3Type === t ? ' active' : ''}${!synthSettings.osc3Enabled ? ' disabled' : ''}`}
-                  onClick={() => synthSettings.osc3Enabled && onSynthSettingsChange({ osc3Type: t })}
-                  title={OSC_LABELS[t]}
-                  disabled={!synthSettings.osc3Enabled}
+                  key={m}
+                  className={`synth-osc-btn${synthSettings.glideMode === m ? ' active' : ''}`}
+                  onClick={() => onSynthSettingsChange({ glideMode: m })}
+                  title={m === 'always' ? 'Glide into every note' : 'Glide only between overlapping notes'}
+                  disabled={synthSettings.voiceMode === 'poly'}
                 >
-                  {OSC_LABELS[t]}
+                  {GLIDE_MODE_LABELS[m]}
                 </button>
               ))}
             </div>
           </div>
 
-          <div className="synth-control-group">
-            <label className="synth-label">Oct 3</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={-2}
-              max={2}
-              step={1}
-              value={synthSettings.osc3Octave}
-              onChange={(e) => onSynthSettingsChange({ osc3Octave: Number(e.target.value) })}
-              title={`Octave: ${synthSettings.osc3Octave > 0 ? '+' : ''}${synthSettings.osc3Octave}`}
-              disabled={!synthSettings.osc3Enabled}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Det 3</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={synthSettings.osc3Detune}
-              onChange={(e) => onSynthSettingsChange({ osc3Detune: Number(e.target.value) })}
-              title={`${synthSettings.osc3Detune} cents`}
-              disabled={!synthSettings.osc3Enabled}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Mix 3</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={Math.round(synthSettings.osc3Mix * 100)}
-              onChange={(e) => onSynthSettingsChange({ osc3Mix: Number(e.target.value) / 100 })}
-              title={`${Math.round(synthSettings.osc3Mix * 100)}%`}
-              disabled={!synthSettings.osc3Enabled}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Cutoff</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={Math.round(Math.log(synthSettings.filterCutoff / 20) / Math.log(20000 / 20) * 100)}
-              onChange={(e) => {
-                const normalized = Number(e.target.value) / 100;
-                const freq = 20 * Math.pow(20000 / 20, normalized);
-                onSynthSettingsChange({ filterCutoff: Math.round(freq) });
-              }}
-              title={`${synthSettings.filterCutoff} Hz`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Reso</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={250}
-              value={Math.round(synthSettings.filterResonance * 10)}
-              onChange={(e) => onSynthSettingsChange({ filterResonance: Number(e.target.value) / 10 })}
-              title={`Q: ${synthSettings.filterResonance.toFixed(1)}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">FAtk</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={2000}
-              value={Math.round(synthSettings.filterEnvAttack * 1000)}
-              onChange={(e) => onSynthSettingsChange({ filterEnvAttack: Number(e.target.value) / 1000 })}
-              title={`Filter Attack: ${synthSettings.filterEnvAttack >= 1 ? `${synthSettings.filterEnvAttack.toFixed(1)}s` : `${Math.round(synthSettings.filterEnvAttack * 1000)}ms`}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">FDec</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={2000}
-              value={Math.round(synthSettings.filterEnvDecay * 1000)}
-              onChange={(e) => onSynthSettingsChange({ filterEnvDecay: Number(e.target.value) / 1000 })}
-              title={`Filter Decay: ${synthSettings.filterEnvDecay >= 1 ? `${synthSettings.filterEnvDecay.toFixed(1)}s` : `${Math.round(synthSettings.filterEnvDecay * 1000)}ms`}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">FSus</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={Math.round(synthSettings.filterEnvSustain * 100)}
-              onChange={(e) => onSynthSettingsChange({ filterEnvSustain: Number(e.target.value) / 100 })}
-              title={`Filter Sustain: ${Math.round(synthSettings.filterEnvSustain * 100)}%`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">FRel</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={2000}
-              value={Math.round(synthSettings.filterEnvRelease * 1000)}
-              onChange={(e) => onSynthSettingsChange({ filterEnvRelease: Number(e.target.value) / 1000 })}
-              title={`Filter Release: ${synthSettings.filterEnvRelease >= 1 ? `${synthSettings.filterEnvRelease.toFixed(1)}s` : `${Math.round(synthSettings.filterEnvRelease * 1000)}ms`}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">FAmt</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={Math.round(synthSettings.filterEnvAmount)}
-              onChange={(e) => onSynthSettingsChange({ filterEnvAmount: Number(e.target.value) })}
-              title={`Filter Env Amount: ${Math.round(synthSettings.filterEnvAmount)} semitones`}
-            />
-          </div>
-
-          <div className="synth-control-divider" />
-
-          <div className="synth-control-group">
-            <label className="synth-label">Atk</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={2000}
-              value={Math.round(synthSettings.ampAttack * 1000)}
-              onChange={(e) => onSynthSettingsChange({ ampAttack: Number(e.target.value) / 1000 })}
-              title={`Attack: ${synthSettings.ampAttack >= 1 ? `${synthSettings.ampAttack.toFixed(1)}s` : `${Math.round(synthSettings.ampAttack * 1000)}ms`}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Dec</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={2000}
-              value={Math.round(synthSettings.ampDecay * 1000)}
-              onChange={(e) => onSynthSettingsChange({ ampDecay: Number(e.target.value) / 1000 })}
-              title={`Decay: ${synthSettings.ampDecay >= 1 ? `${synthSettings.ampDecay.toFixed(1)}s` : `${Math.round(synthSettings.ampDecay * 1000)}ms`}`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Sus</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={Math.round(synthSettings.ampSustain * 100)}
-              onChange={(e) => onSynthSettingsChange({ ampSustain: Number(e.target.value) / 100 })}
-              title={`Sustain: ${Math.round(synthSettings.ampSustain * 100)}%`}
-            />
-          </div>
-
-          <div className="synth-control-group">
-            <label className="synth-label">Rel</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={2000}
-              value={Math.round(synthSettings.ampRelease * 1000)}
-              onChange={(e) => onSynthSettingsChange({ ampRelease: Number(e.target.value) / 1000 })}
-              title={`Release: ${synthSettings.ampRelease >= 1 ? `${synthSettings.ampRelease.toFixed(1)}s` : `${Math.round(synthSettings.ampRelease * 1000)}ms`}`}
-            />
-          </div>
-
-          <div className="synth-control-divider" />
-
-          {/* Unison controls */}
-          <div className="synth-control-group">
-            <label className="synth-label">Uni V</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={1}
-              max={8}
-              step={1}
-              value={synthSettings.unisonVoices}
-              onChange={(e) => onSynthSettingsChange({ unisonVoices: Number(e.target.value) })}
-              title={`Unison: ${synthSettings.unisonVoices} voice${synthSettings.unisonVoices > 1 ? 's' : ''}`}
-            />
-          </div>
-          <div className="synth-control-group">
-            <label className="synth-label">Spread</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={synthSettings.unisonSpread}
-              onChange={(e) => onSynthSettingsChange({ unisonSpread: Number(e.target.value) })}
-              title={`Spread: ${synthSettings.unisonSpread} cents`}
-              disabled={synthSettings.unisonVoices <= 1}
-            />
-          </div>
-          <div className="synth-control-group">
-            <label className="synth-label">Width</label>
-            <input
-              type="range"
-              className="synth-slider"
-              min={0}
-              max={100}
-              value={Math.round(synthSettings.unisonPan * 100)}
-              onChange={(e) => onSynthSettingsChange({ unisonPan: Number(e.target.value) / 100 })}
-              title={`Stereo width: ${Math.round(synthSettings.unisonPan * 100)}%`}
-              disabled={synthSettings.unisonVoices <= 1}
-            />
-          </div>
-
-          <div className="synth-control-divider" />
+          {instrument === 'synth' && (
+            <>
+              <div className="synth-control-divider" />
 
-          {/* LFO 1 & 2 controls */}
-          {([['lfo1', synthSettings.lfo1], ['lfo2', synthSettings.lfo2]] as [keyof Pick<SynthSettings, 'lfo1' | 'lfo2'>, LfoSettings][]).map(([key, lfo]) => (
-            <div key={key} className="synth-lfo-group">
-              <div className="synth-control-group">
-                <label className="synth-label">
-                  <input
-                    type="checkbox"
-                    checked={lfo.enabled}
-                    onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, enabled: e.target.checked } })}
-                  />
-                  {` ${key === 'lfo1' ? 'LFO 1' : 'LFO 2'}`}
-                </label>
-                <div className="synth-osc-buttons">
-                  {LFO_WAVEFORMS.map((w) => (
-                    <button
-                      key={w}
-                      className={`synth-osc-btn${lfo.waveform === w ? ' active' : ''}${!lfo.enabled ? ' disabled' : ''}`}
-                      onClick={() => lfo.enabled && onSynthSettingsChange({ [key]: { ...lfo, waveform: w } })}
-                      title={LFO_WAVEFORM_LABELS[w]}
-                      disabled={!lfo.enabled}
-                    >
-                      {LFO_WAVEFORM_LABELS[w]}
-                    </button>
-                  ))}
-                </div>
-              </div>
+              {/* Unison controls */}
               <div className="synth-control-group">
-                <label className="synth-label">Target</label>
-                <div className="synth-osc-buttons">
-                  {LFO_TARGETS.map((t) => (
-                    <button
-                      key={t}
-                      className={`synth-osc-btn${lfo.target === t ? ' active' : ''}${!lfo.enabled ? ' disabled' : ''}`}
-                      onClick={() => lfo.enabled && onSynthSettingsChange({ [key]: { ...lfo, target: t } })}
-                      title={LFO_TARGET_LABELS[t]}
-                      disabled={!lfo.enabled}
-                    >
-                      {LFO_TARGET_LABELS[t]}
-                    </button>
-                  ))}
-                </div>
+                <label className="synth-label">Uni V</label>
+                <input
+                  type="range"
+                  className="synth-slider"
+                  min={1}
+                  max={8}
+                  step={1}
+                  data-midi-learn="synth:unisonVoices"
+                  value={synthSettings.unisonVoices}
+                  onChange={(e) => onSynthSettingsChange({ unisonVoices: Number(e.target.value) })}
+                  title={`Unison: ${synthSettings.unisonVoices} voice${synthSettings.unisonVoices > 1 ? 's' : ''}`}
+                />
               </div>
               <div className="synth-control-group">
-                <label className="synth-label">Rate</label>
+                <label className="synth-label">Spread</label>
                 <input
                   type="range"
                   className="synth-slider"
-                  min={5}
-                  max={2000}
-                  value={Math.round(lfo.rate * 100)}
-                  onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, rate: Number(e.target.value) / 100 } })}
-                  title={`Rate: ${lfo.rate.toFixed(2)} Hz`}
-                  disabled={!lfo.enabled}
+                  min={0}
+                  max={100}
+                  data-midi-learn="synth:unisonSpread"
+                  value={synthSettings.unisonSpread}
+                  onChange={(e) => onSynthSettingsChange({ unisonSpread: Number(e.target.value) })}
+                  title={`Spread: ${synthSettings.unisonSpread} cents`}
+                  disabled={synthSettings.unisonVoices <= 1}
                 />
               </div>
               <div className="synth-control-group">
-                <label className="synth-label">Depth</label>
+                <label className="synth-label">Width</label>
                 <input
                   type="range"
                   className="synth-slider"
                   min={0}
                   max={100}
-                  value={Math.round(lfo.depth * 100)}
-                  onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, depth: Number(e.target.value) / 100 } })}
-                  title={`Depth: ${Math.round(lfo.depth * 100)}%`}
-                  disabled={!lfo.enabled}
+                  data-midi-learn="synth:unisonPan"
+                  value={Math.round(synthSettings.unisonPan * 100)}
+                  onChange={(e) => onSynthSettingsChange({ unisonPan: Number(e.target.value) / 100 })}
+                  title={`Stereo width: ${Math.round(synthSettings.unisonPan * 100)}%`}
+                  disabled={synthSettings.unisonVoices <= 1}
+                />
+              </div>
+
+              <div className="synth-control-divider" />
+
+              {/* LFO 1 & 2 controls */}
+              {([['lfo1', synthSettings.lfo1], ['lfo2', synthSettings.lfo2]] as [keyof Pick<SynthSettings, 'lfo1' | 'lfo2'>, LfoSettings][]).map(([key, lfo]) => {
+                // A disabled LFO still runs for the modulation matrix routes from it
+                const running = lfo.enabled || synthSettings.modMatrix.some((r) => r.source === key);
+                return (
+                  <div key={key} className="synth-lfo-group">
+                    <div className="synth-control-group">
+                      <label className="synth-label">
+                        <input
+                          type="checkbox"
+                          checked={lfo.enabled}
+                          onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, enabled: e.target.checked } })}
+                        />
+                        {` ${key === 'lfo1' ? 'LFO 1' : 'LFO 2'}`}
+                      </label>
+                      <div className="synth-osc-buttons">
+                        {LFO_WAVEFORMS.map((w) => (
+                          <button
+                            key={w}
+                            className={`synth-osc-btn${lfo.waveform === w ? ' active' : ''}${!running ? ' disabled' : ''}`}
+                            onClick={() => running && onSynthSettingsChange({ [key]: { ...lfo, waveform: w } })}
+                            title={LFO_WAVEFORM_LABELS[w]}
+                            disabled={!running}
+                          >
+                            {LFO_WAVEFORM_LABELS[w]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="synth-control-group">
+                      <label className="synth-label">Target</label>
+                      <div className="synth-osc-buttons">
+                        {LFO_TARGETS.map((t) => (
+                          <button
+                            key={t}
+                            className={`synth-osc-btn${lfo.target === t ? ' active' : ''}${!lfo.enabled ? ' disabled' : ''}`}
+                            onClick={() => lfo.enabled && onSynthSettingsChange({ [key]: { ...lfo, target: t } })}
+                            title={LFO_TARGET_LABELS[t]}
+                            disabled={!lfo.enabled}
+                          >
+                            {LFO_TARGET_LABELS[t]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="synth-control-group">
+                      <label className="synth-label">Rate</label>
+                      <button
+                        className={`synth-osc-btn${lfo.sync ? ' active' : ''}`}
+                        onClick={() => onSynthSettingsChange({ [key]: { ...lfo, sync: !lfo.sync } })}
+                        title="Sync the rate to the tempo"
+                        disabled={!running}
+                      >
+                        Sync
+                      </button>
+                      {lfo.sync ? (
+                        <select
+                          className="snap-select"
+                          value={lfo.division}
+                          onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, division: e.target.value as LfoDivision } })}
+                          title="Length of one LFO cycle"
+                          disabled={!running}
+                        >
+                          {LFO_DIVISIONS.map((d) => (
+                            <option key={d} value={d}>{d}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="range"
+                          className="synth-slider"
+                          min={5}
+                          max={2000}
+                          data-midi-learn={`synth:${key}.rate`}
+                          value={Math.round(lfo.rate * 100)}
+                          onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, rate: Number(e.target.value) / 100 } })}
+                          title={`Rate: ${lfo.rate.toFixed(2)} Hz`}
+                          disabled={!running}
+                        />
+                      )}
+                    </div>
+                    <div className="synth-control-group">
+                      <label className="synth-label">Retrig</label>
+                      <div className="synth-osc-buttons">
+                        {LFO_RETRIGGERS.map((r) => (
+                          <button
+                            key={r.value}
+                            className={`synth-osc-btn${lfo.retrigger === r.value ? ' active' : ''}`}
+                            onClick={() => onSynthSettingsChange({ [key]: { ...lfo, retrigger: r.value } })}
+                            title={r.title}
+                            disabled={!running}
+                          >
+                            {r.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="synth-control-group">
+                      <label className="synth-label">Phase</label>
+                      <input
+                        type="range"
+                        className="synth-slider"
+                        min={0}
+                        max={359}
+                        data-midi-learn={`synth:${key}.phase`}
+                        value={Math.round(lfo.phase * 360)}
+                        onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, phase: Number(e.target.value) / 360 } })}
+                        title={`Phase: ${Math.round(lfo.phase * 360)}°`}
+                        disabled={!running}
+                      />
+                    </div>
+                    <div className="synth-control-group">
+                      <label className="synth-label">Depth</label>
+                      <input
+                        type="range"
+                        className="synth-slider"
+                        min={0}
+                        max={100}
+                        data-midi-learn={`synth:${key}.depth`}
+                        value={Math.round(lfo.depth * 100)}
+                        onChange={(e) => onSynthSettingsChange({ [key]: { ...lfo, depth: Number(e.target.value) / 100 } })}
+                        title={`Depth: ${Math.round(lfo.depth * 100)}%`}
+                        disabled={!lfo.enabled}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+
+              <div className="synth-control-divider" />
+
+              <ModMatrixControls
+                synthSettings={synthSettings}
+                onSynthSettingsChange={onSynthSettingsChange}
+                onAddRoute={onAddModRoute}
+                onUpdateRoute={onUpdateModRoute}
+                onRemoveRoute={onRemoveModRoute}
+              />
+            </>
+          )}
+
+          <div className="synth-control-divider" />
+
+          {/* Arpeggiator controls */}
+          <div className="synth-lfo-group">
+            <div className="synth-control-group">
+              <label className="synth-label">
+                <input
+                  type="checkbox"
+                  checked={arpeggiator.enabled}
+                  onChange={(e) => onArpeggiatorChange({ enabled: e.target.checked })}
                 />
+                {' Arp'}
+              </label>
+              <div className="synth-osc-buttons">
+                {ARP_MODES.map((m) => (
+                  <button
+                    key={m}
+                    className={`synth-osc-btn${arpeggiator.mode === m ? ' active' : ''}`}
+                    onClick={() => onArpeggiatorChange({ mode: m })}
+                    disabled={!arpeggiator.enabled}
+                  >
+                    {ARP_MODE_LABELS[m]}
+                  </button>
+                ))}
               </div>
             </div>
-          ))}
+            <div className="synth-control-group">
+              <label className="synth-label">Rate</label>
+              <select
+                className="snap-select"
+                value={arpeggiator.rate}
+                onChange={(e) => onArpeggiatorChange({ rate: e.target.value as ArpRate })}
+                disabled={!arpeggiator.enabled}
+              >
+                {ARP_RATES.map((r) => (
+                  <option key={r} value={r}>{r}</option>
+                ))}
+              </select>
+            </div>
+            <div className="synth-control-group">
+              <label className="synth-label">Oct</label>
+              <input
+                type="range"
+                className="synth-slider"
+                min={1}
+                max={MAX_ARP_OCTAVES}
+                step={1}
+                value={arpeggiator.octaves}
+                onChange={(e) => onArpeggiatorChange({ octaves: Number(e.target.value) })}
+                title={`Range: ${arpeggiator.octaves} octave${arpeggiator.octaves > 1 ? 's' : ''}`}
+                disabled={!arpeggiator.enabled}
+              />
+            </div>
+            <div className="synth-control-group">
+              <label className="synth-label">Gate</label>
+              <input
+                type="range"
+                className="synth-slider"
+                min={5}
+                max={100}
+                value={Math.round(arpeggiator.gate * 100)}
+                onChange={(e) => onArpeggiatorChange({ gate: Number(e.target.value) / 100 })}
+                title={`Gate: ${Math.round(arpeggiator.gate * 100)}%`}
+                disabled={!arpeggiator.enabled}
+              />
+            </div>
+            <button
+              className={`synth-osc-btn${arpeggiator.latch ? ' active' : ''}`}
+              onClick={() => onArpeggiatorChange({ latch: !arpeggiator.latch })}
+              title="Latch: keep playing the last chord after its notes end"
+              disabled={!arpeggiator.enabled}
+            >
+              Latch
+            </button>
+          </div>
         </div>
 
         {selectedNoteIds.size > 0 && (
@@ -1582,6 +3071,155 @@ function PianoRoll({
             {selectedNoteIds.size} selected
           </div>
         )}
+        {selectedNoteIds.size > 0 && (
+          <button
+            className={`pr-tool-btn${allSelectedSlide ? ' active' : ''}`}
+            onClick={() => onSetNotesSlide(selectedNoteIds, !allSelectedSlide)}
+            title="Slide: glide into the selected notes from the previous note without retriggering"
+          >
+            Slide
+          </button>
+        )}
+      </div>
+
+      <div className="pr-note-ops">
+        <div className="pr-note-ops-group">
+          <select
+            className="snap-select"
+            value={quantizeResolution}
+            onChange={(e) => setQuantizeResolution(e.target.value as SnapResolution)}
+            title="Quantize grid"
+          >
+            {SNAP_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="range"
+            className="synth-slider"
+            min={0}
+            max={100}
+            value={Math.round(quantizeStrength * 100)}
+            onChange={(e) => setQuantizeStrength(Number(e.target.value) / 100)}
+            title={`Quantize strength: ${Math.round(quantizeStrength * 100)}%`}
+          />
+          <button
+            className={`snap-toggle${quantizeEnds ? ' active' : ''}`}
+            onClick={() => setQuantizeEnds((v) => !v)}
+            title="Also quantize note ends"
+          >
+            Ends
+          </button>
+          <button
+            className="snap-toggle"
+            onClick={() => applyTransform({ type: 'quantize', resolution: quantizeResolution, strength: quantizeStrength, ends: quantizeEnds })}
+            disabled={!hasSelection}
+            title="Quantize the selected notes to the grid"
+          >
+            Quantize
+          </button>
+        </div>
+        <div className="pr-note-ops-group">
+          <label className="synth-label">Time</label>
+          <input
+            type="range"
+            className="synth-slider"
+            min={0}
+            max={TICKS_PER_STEP}
+            step={1}
+            value={humanizeTiming}
+            onChange={(e) => setHumanizeTiming(Number(e.target.value))}
+            title={`Timing range: ±${humanizeTiming} tick${humanizeTiming === 1 ? '' : 's'}`}
+          />
+          <label className="synth-label">Vel</label>
+          <input
+            type="range"
+            className="synth-slider"
+            min={0}
+            max={50}
+            value={Math.round(humanizeVelocity * 100)}
+            onChange={(e) => setHumanizeVelocity(Number(e.target.value) / 100)}
+            title={`Velocity range: ±${Math.round(humanizeVelocity * 100)}%`}
+          />
+          <button
+            className="snap-toggle"
+            onClick={() => applyTransform({ type: 'humanize', timing: humanizeTiming, velocity: humanizeVelocity })}
+            disabled={!hasSelection}
+            title="Randomise timing and velocity of the selected notes"
+          >
+            Humanize
+          </button>
+        </div>
+        <div className="pr-note-ops-group">
+          <button
+            className="snap-toggle"
+            onClick={() => applyTransform({ type: 'legato' })}
+            disabled={!hasSelection}
+            title="Legato: extend each selected note to the start of the next"
+          >
+            Legato
+          </button>
+          <button
+            className="snap-toggle"
+            onClick={() => applyTransform({ type: 'reverse' })}
+            disabled={!hasSelection}
+            title="Reverse the selected notes in time"
+          >
+            Reverse
+          </button>
+        </div>
+        <div className="pr-note-ops-group">
+          <input
+            type="range"
+            className="synth-slider"
+            min={1}
+            max={TICKS_PER_STEP * 2}
+            step={1}
+            value={strumSpread}
+            onChange={(e) => setStrumSpread(Number(e.target.value))}
+            title={`Strum spread: ${strumSpread} tick${strumSpread === 1 ? '' : 's'} per note`}
+          />
+          <button
+            className="snap-toggle"
+            onClick={() => setStrumDirection((d) => (d === 'up' ? 'down' : 'up'))}
+            title="Strum direction (low-to-high or high-to-low)"
+          >
+            {strumDirection === 'up' ? 'Up' : 'Down'}
+          </button>
+          <button
+            className="snap-toggle"
+            onClick={() => applyTransform({ type: 'strum', spread: strumSpread, direction: strumDirection })}
+            disabled={!hasSelection}
+            title="Strum: stagger the notes of each selected chord"
+          >
+            Strum
+          </button>
+        </div>
+        <div className="pr-note-ops-group">
+          <select
+            className="snap-select"
+            value={invertAxis ?? ''}
+            onChange={(e) => setInvertAxis(e.target.value === '' ? null : Number(e.target.value))}
+            title="Invert axis"
+          >
+            <option value="">Centre</option>
+            {KEY_RANGE.map((midi) => (
+              <option key={midi} value={midi}>
+                {midiToLabel(midi)}
+              </option>
+            ))}
+          </select>
+          <button
+            className="snap-toggle"
+            onClick={() => applyTransform({ type: 'invert', axis: invertAxis })}
+            disabled={!hasSelection}
+            title="Invert: mirror the selected pitches around the axis"
+          >
+            Invert
+          </button>
+        </div>
       </div>
 
       <div
@@ -1606,20 +3244,31 @@ function PianoRoll({
         </div>
 
         <div className="piano-roll-scroll" ref={scrollRef}>
-          {KEY_RANGE.map((midi) => {
+          {visibleKeys.map((midi) => {
             const black = isBlackKey(midi);
             const label = midiToLabel(midi);
             const isC = midi % 12 === 0;
+            const scaleClass = !scaleActive
+              ? ''
+              : (midi - scale.root) % 12 === 0
+                ? ' in-scale scale-root'
+                : isInScale(midi, scale)
+                  ? ' in-scale'
+                  : ' out-of-scale';
 
             return (
               <div
                 key={midi}
-                className={`piano-roll-row${black ? ' black-key-row' : ' white-key-row'}${isC ? ' octave-boundary' : ''}`}
+                className={`piano-roll-row${black ? ' black-key-row' : ' white-key-row'}${isC ? ' octave-boundary' : ''}${scaleClass}`}
               >
                 {/* Piano key on the left */}
                 <button
                   className={`piano-key${black ? ' black' : ' white'}${isC ? ' c-note' : ''}`}
-                  onClick={() => handleKeyClick(midi)}
+                  onMouseDown={(e) => {
+                    if (e.button === 0) handleKeyDown(midi);
+                  }}
+                  onMouseUp={handleKeyUp}
+                  onMouseLeave={handleKeyUp}
                   title={label}
                 >
                   <span className="piano-key-label">{label}</span>
@@ -1634,8 +3283,9 @@ function PianoRoll({
                     const isCovered = !!coveredNote;
                     const isContinuation = isCovered && !isNoteStart;
                     const isCurrent = isPlaying && currentStep === step;
+                    const isGhost = !isCovered && ghostCells.has(`${midi}-${step}`);
                     const isDragPreview =
-                      drag && midi === dragPitch && step >= dragMin && step <= dragMax;
+                      drag && dragPitches.has(midi) && step >= dragMin && step <= dragMax;
                     const isDragStart = isDragPreview && step === dragMin;
 
                     // Resize preview: show the note at its new size
@@ -1653,11 +3303,13 @@ function PianoRoll({
                     const hideForMove = isMoving && isCovered && coveredNote && selectedNoteIds.has(coveredNote.id);
                     const movePreview = movePreviewCells.current.get(`${midi}-${step}`);
                     const isMovePreview = isMoving && !!movePreview;
-                    const isMovePreviewStart = isMovePreview && movePreview && step === movePreview.step;
+                    const isMovePreviewStart = isMovePreview && movePreview && step === getFirstCell(movePreview);
 
                     // Determine if this cell is a resize handle (left or right edge of a note)
                     const isLeftEdge = isNoteStart && isCovered;
-                    const isRightEdge = isCovered && coveredNote && step === coveredNote.step + coveredNote.duration - 1;
+                    const isRightEdge = isCovered && coveredNote && step === getLastCell(coveredNote);
+                    // Off-grid notes are drawn as bars only, so their exact position shows
+                    const isOffGrid = isCovered && coveredNote && !isOnGrid(coveredNote);
                     const isSelected = isCovered && coveredNote && (
                       selectedNoteIds.has(coveredNote.id) ||
                       (boxPreviewIds !== null && boxPreviewIds.has(coveredNote.id))
@@ -1674,11 +3326,13 @@ function PianoRoll({
                         className={
                           `piano-roll-cell` +
                           (isNoteStart && !hideForResize && !hideForMove ? ' active note-start' : '') +
+                          (isNoteStart && noteStart!.slide && !hideForResize && !hideForMove ? ' slide' : '') +
                           (isContinuation && !hideForResize && !hideForMove ? ' active note-continuation' : '') +
                           (isSelected && !hideForResize && !hideForMove ? ' selected' : '') +
                           (isMovePreview ? ' active move-preview selected' : '') +
                           (isMovePreviewStart ? ' note-start' : '') +
                           (isCurrent ? ' current' : '') +
+                          (isGhost ? ' ghost' : '') +
                           (step % 4 === 0 ? ' beat-start' : '') +
                           (isSnapLine(step) && step % 4 !== 0 ? ' snap-line' : '') +
                           (isDragPreview && !isCovered ? ' drag-preview' : '') +
@@ -1688,23 +3342,26 @@ function PianoRoll({
                           (isResizePreview && isResizing ? ' resize-preview' : '') +
                           (isLeftEdge && !resize && !hideForMove ? ' note-edge-left' : '') +
                           (isRightEdge && !resize && !hideForMove ? ' note-edge-right' : '') +
-                          (isBoxSelectArea && !isCovered ? ' box-select-area' : '')
+                          (isBoxSelectArea && !isCovered ? ' box-select-area' : '') +
+                          (isOffGrid && !hideForResize && !hideForMove ? ' off-grid' : '') +
+                          (isMovePreview && movePreview && !isOnGrid(movePreview) ? ' off-grid' : '')
                         }
                         onMouseDown={(e) => handleCellMouseDown(midi, step, e)}
                         onMouseEnter={() => handleCellMouseEnter(midi, step)}
+                        onMouseMove={(e) => handleCellMouseMove(midi, step, e)}
                         onMouseUp={handleMouseUp}
                         onContextMenu={(e) => handleCellContextMenu(midi, step, e)}
                       >
-                        {isNoteStart && noteStart!.duration > 1 && !hideForResize && !hideForMove && (
+                        {isNoteStart && (getNoteLength(noteStart!) > 1 || !isOnGrid(noteStart!)) && !hideForResize && !hideForMove && (
                           <div
                             className="piano-note-bar"
-                            style={{ width: `calc(${noteStart!.duration * 100}% + ${(noteStart!.duration - 1) * 2}px)` }}
+                            style={getNoteBarStyle(getNoteStart(noteStart!) - step, getNoteLength(noteStart!))}
                           />
                         )}
-                        {isMovePreviewStart && movePreview && movePreview.duration > 1 && (
+                        {isMovePreviewStart && movePreview && (getNoteLength(movePreview) > 1 || !isOnGrid(movePreview)) && (
                           <div
                             className="piano-note-bar"
-                            style={{ width: `calc(${movePreview.duration * 100}% + ${(movePreview.duration - 1) * 2}px)` }}
+                            style={getNoteBarStyle(getNoteStart(movePreview) - step, getNoteLength(movePreview))}
                           />
                         )}
                         {isResizeStart && resizePreviewEnd - resizePreviewStart >= 0 && (
@@ -1722,18 +3379,39 @@ function PianoRoll({
           })}
         </div>
 
-        {/* Velocity lane */}
+        {/* Note lane: velocity or a per-note expression value */}
         <div className="velocity-lane">
-          <div className="velocity-lane-label">VEL</div>
+          <div className="velocity-lane-label">
+            <select
+              className="velocity-lane-select"
+              value={lane.value}
+              onChange={(e) => setNoteLane(e.target.value as NoteLane)}
+              title="Note value shown in the lane"
+            >
+              {NOTE_LANES.map((l) => (
+                <option key={l.value} value={l.value}>{l.label}</option>
+              ))}
+            </select>
+          </div>
           <div className="velocity-lane-bars" ref={velocityLaneRef}>
             {Array.from({ length: stepCount }, (_, step) => {
               const notes = notesByStep.current.get(step);
               const hasNote = notes && notes.length > 0;
-              // Use the highest velocity among notes at this step
-              const velocity = hasNote
-                ? Math.max(...notes.map((n) => n.velocity))
-                : 0;
+              // Show the value furthest from neutral among notes at this step
+              // (the highest velocity)
+              const value = hasNote
+                ? notes
+                  .map((n) => (lane.value === 'velocity' ? n.velocity : n[lane.value] ?? lane.neutral))
+                  .reduce((a, b) => (Math.abs(b - lane.neutral) > Math.abs(a - lane.neutral) ? b : a))
+                : lane.neutral;
               const isCurrent = isPlaying && currentStep === step;
+              const range = lane.max - lane.min;
+              const barStyle: React.CSSProperties = lane.bipolar
+                ? {
+                    height: `${Math.round((Math.abs(value - lane.neutral) / range) * 100)}%`,
+                    bottom: value >= lane.neutral ? '50%' : `${Math.round(50 - (Math.abs(value - lane.neutral) / range) * 100)}%`,
+                  }
+                : { height: `${Math.round(((value - lane.min) / range) * 100)}%` };
 
               return (
                 <div
@@ -1741,7 +3419,8 @@ function PianoRoll({
                   className={
                     `velocity-lane-step` +
                     (step % 4 === 0 ? ' beat-start' : '') +
-                    (isCurrent ? ' current' : '')
+                    (isCurrent ? ' current' : '') +
+                    (lane.bipolar ? ' bipolar' : '')
                   }
                   onMouseDown={(e) => handleVelocityMouseDown(step, e)}
                   onMouseEnter={(e) => handleVelocityMouseEnter(step, e)}
@@ -1749,8 +3428,8 @@ function PianoRoll({
                   {hasNote && (
                     <div
                       className="velocity-bar"
-                      style={{ height: `${Math.round(velocity * 100)}%` }}
-                      title={`Velocity: ${Math.round(velocity * 100)}%`}
+                      style={barStyle}
+                      title={lane.format(value)}
                     />
                   )}
                 </div>
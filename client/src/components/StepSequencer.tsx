@@ -1,5 +1,6 @@
 import React, { useCallback, useMemo, useRef, useState } from 'react';
-import type { InstrumentName, Track, SampleTrack, SampleInstrument, SamplePlaybackMode } from '../types';
+import type { Track, SampleTrack, SampleInstrument, SamplePlaybackMode, DrumModel, DrumSynthParams, DrumSynthParam } from '../types';
+import { DEFAULT_DRUM_SYNTH_PARAMS, DRUM_MODEL_LABELS } from '../types';
 import { ACCEPTED_SAMPLE_MIME_TYPES } from '../audio/AudioEngine';
 
 /** Zoom presets: label and corresponding min-width for step cells (px) */
@@ -16,13 +17,28 @@ const DEFAULT_ZOOM_INDEX = 2; // 'M' — matches the existing min-width: 28px
 /** Steps at or below this velocity are rendered as ghost notes (visually dimmed) */
 const GHOST_NOTE_THRESHOLD = 0.5;
 
+/** Drum synth controls shown in a drum channel's edit panel */
+const DRUM_SYNTH_FIELDS: { param: DrumSynthParam; label: string; title: string }[] = [
+  { param: 'tone', label: 'Tone', title: 'Pitch of the tonal body (resonance on hats and claps)' },
+  { param: 'decay', label: 'Decay', title: 'Length of the hit' },
+  { param: 'pitchEnv', label: 'P.Env', title: 'Downward pitch sweep at the start of the hit' },
+  { param: 'noiseColor', label: 'Noise', title: 'Noise colour, dark to bright' },
+  { param: 'click', label: 'Click', title: 'Transient click level' },
+  { param: 'drive', label: 'Drive', title: 'Saturation amount' },
+];
+
+const DRUM_MODELS = Object.keys(DRUM_MODEL_LABELS) as DrumModel[];
+
 interface StepRowProps {
   track: Track;
   currentStep: number;
   isPlaying: boolean;
-  onToggleStep: (trackId: InstrumentName, stepIndex: number) => void;
-  onSetStepVelocity: (trackId: InstrumentName, stepIndex: number, velocity: number) => void;
-  onSetStepPitch: (trackId: InstrumentName, stepIndex: number, pitch: number) => void;
+  onToggleStep: (trackId: string, stepIndex: number) => void;
+  onSetStepVelocity: (trackId: string, stepIndex: number, velocity: number) => void;
+  onSetStepPitch: (trackId: string, stepIndex: number, pitch: number) => void;
+  onSetDrumSynth: (trackId: string, params: Partial<DrumSynthParams>) => void;
+  onSetModel: (trackId: string, model: DrumModel) => void;
+  onRemoveTrack: (trackId: string) => void;
 }
 
 const StepRow = React.memo<StepRowProps>(function StepRow({
@@ -32,9 +48,13 @@ const StepRow = React.memo<StepRowProps>(function StepRow({
   onToggleStep,
   onSetStepVelocity,
   onSetStepPitch,
+  onSetDrumSynth,
+  onSetModel,
+  onRemoveTrack,
 }) {
+  const [showEdit, setShowEdit] = useState(false);
   const dragRef = useRef<{
-    trackId: InstrumentName;
+    trackId: string;
     stepIndex: number;
     startY: number;
     startVelocity: number;
@@ -107,47 +127,104 @@ const StepRow = React.memo<StepRowProps>(function StepRow({
   );
 
   return (
-    <div className={`step-row${track.muted ? ' muted' : ''}`}>
-      <div className="track-label">{track.name}</div>
-      <div className="step-cells">
-        {track.steps.map((velocity, stepIndex) => {
-          const active = velocity > 0;
-          const pitch = track.pitches[stepIndex];
-          const classes = ['step-cell'];
-          if (active) classes.push('active');
-          if (active && velocity <= GHOST_NOTE_THRESHOLD) classes.push('ghost');
-          if (isPlaying && stepIndex === currentStep) classes.push('current');
-          if (stepIndex % 4 === 0) classes.push('beat-start');
-
-          return (
-            <button
-              key={stepIndex}
-              className={classes.join(' ')}
-              onPointerDown={(e) => handlePointerDown(e, stepIndex)}
-              onPointerMove={handlePointerMove}
-              onPointerUp={handlePointerUp}
-              style={
-                active
-                  ? { '--step-velocity': velocity } as React.CSSProperties
-                  : undefined
-              }
-            >
-              {active && (
-                <span
-                  className="step-velocity-bar"
-                  style={{ height: `${velocity * 100}%` }}
-                />
-              )}
-              {active && pitch !== 0 && (
-                <span className="step-pitch-label">
-                  {pitch > 0 ? `+${pitch}` : pitch}
-                </span>
-              )}
-            </button>
-          );
-        })}
+    <>
+      <div className={`step-row${track.muted ? ' muted' : ''}`}>
+        <div className="track-label drum-track-label">
+          <span className="drum-track-name" title={`${track.name} (${DRUM_MODEL_LABELS[track.model]})`}>
+            {track.name}
+          </span>
+          <button
+            className={`sample-edit-btn${showEdit ? ' active' : ''}`}
+            onClick={() => setShowEdit((v) => !v)}
+            title="Edit drum synth"
+          >
+            &#9998;
+          </button>
+          <button
+            className="sample-remove-btn"
+            onClick={() => onRemoveTrack(track.id)}
+            title="Remove channel"
+          >
+            ×
+          </button>
+        </div>
+        <div className="step-cells">
+          {track.steps.map((velocity, stepIndex) => {
+            const active = velocity > 0;
+            const pitch = track.pitches[stepIndex];
+            const classes = ['step-cell'];
+            if (active) classes.push('active');
+            if (active && velocity <= GHOST_NOTE_THRESHOLD) classes.push('ghost');
+            if (isPlaying && stepIndex === currentStep) classes.push('current');
+            if (stepIndex % 4 === 0) classes.push('beat-start');
+
+            return (
+              <button
+                key={stepIndex}
+                className={classes.join(' ')}
+                onPointerDown={(e) => handlePointerDown(e, stepIndex)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                style={
+                  active
+                    ? { '--step-velocity': velocity } as React.CSSProperties
+                    : undefined
+                }
+              >
+                {active && (
+                  <span
+                    className="step-velocity-bar"
+                    style={{ height: `${velocity * 100}%` }}
+                  />
+                )}
+                {active && pitch !== 0 && (
+                  <span className="step-pitch-label">
+                    {pitch > 0 ? `+${pitch}` : pitch}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
       </div>
-    </div>
+      {showEdit && (
+        <div className="sample-edit-panel drum-synth-panel">
+          <label className="sample-edit-field" title="Synth model of this channel">
+            <span className="sample-edit-label">Model</span>
+            <select
+              className="sample-select"
+              value={track.model}
+              onChange={(e) => onSetModel(track.id, e.target.value as DrumModel)}
+            >
+              {DRUM_MODELS.map((model) => (
+                <option key={model} value={model}>{DRUM_MODEL_LABELS[model]}</option>
+              ))}
+            </select>
+          </label>
+          {DRUM_SYNTH_FIELDS.map(({ param, label, title }) => (
+            <label key={param} className="sample-edit-field" title={title}>
+              <span className="sample-edit-label">{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={track.drumSynth[param]}
+                onChange={(e) => onSetDrumSynth(track.id, { [param]: Number(e.target.value) })}
+              />
+              <span className="sample-edit-value">{Math.round(track.drumSynth[param] * 100)}%</span>
+            </label>
+          ))}
+          <button
+            className="sample-edit-btn drum-synth-reset"
+            onClick={() => onSetDrumSynth(track.id, DEFAULT_DRUM_SYNTH_PARAMS[track.model])}
+            title="Reset to the stock sound"
+          >
+            &#8634;
+          </button>
+        </div>
+      )}
+    </>
   );
 });
 
@@ -484,9 +561,13 @@ interface StepSequencerProps {
   stepCount: number;
   currentStep: number;
   isPlaying: boolean;
-  onToggleStep: (trackId: InstrumentName, stepIndex: number) => void;
-  onSetStepVelocity: (trackId: InstrumentName, stepIndex: number, velocity: number) => void;
-  onSetStepPitch: (trackId: InstrumentName, stepIndex: number, pitch: number) => void;
+  onToggleStep: (trackId: string, stepIndex: number) => void;
+  onSetStepVelocity: (trackId: string, stepIndex: number, velocity: number) => void;
+  onSetStepPitch: (trackId: string, stepIndex: number, pitch: number) => void;
+  onSetDrumSynth: (trackId: string, params: Partial<DrumSynthParams>) => void;
+  onSetDrumModel: (trackId: string, model: DrumModel) => void;
+  onAddDrumTrack: (model: DrumModel) => void;
+  onRemoveDrumTrack: (trackId: string) => void;
   onStepCountChange: (stepCount: number) => void;
   onToggleSampleStep: (trackId: string, stepIndex: number) => void;
   onSetSampleStepVelocity: (trackId: string, stepIndex: number, velocity: number) => void;
@@ -514,6 +595,10 @@ const StepSequencer = React.memo<StepSequencerProps>(function StepSequencer({
   onToggleStep,
   onSetStepVelocity,
   onSetStepPitch,
+  onSetDrumSynth,
+  onSetDrumModel,
+  onAddDrumTrack,
+  onRemoveDrumTrack,
   onStepCountChange,
   onToggleSampleStep,
   onSetSampleStepVelocity,
@@ -531,6 +616,7 @@ const StepSequencer = React.memo<StepSequencerProps>(function StepSequencer({
   onSetSampleTrackBasePitch,
 }) {
   const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [newDrumModel, setNewDrumModel] = useState<DrumModel>('tom');
 
   const zoomStyle = useMemo(
     () =>
@@ -593,6 +679,9 @@ const StepSequencer = React.memo<StepSequencerProps>(function StepSequencer({
           onToggleStep={onToggleStep}
           onSetStepVelocity={onSetStepVelocity}
           onSetStepPitch={onSetStepPitch}
+          onSetDrumSynth={onSetDrumSynth}
+          onSetModel={onSetDrumModel}
+          onRemoveTrack={onRemoveDrumTrack}
         />
       ))}
       {sampleTracks.map((track) => (
@@ -617,9 +706,24 @@ const StepSequencer = React.memo<StepSequencerProps>(function StepSequencer({
           onSetBasePitch={onSetSampleTrackBasePitch}
         />
       ))}
-      <button className="add-sample-track-btn" onClick={onAddSampleTrack}>
-        + Sample Track
-      </button>
+      <div className="add-track-controls">
+        <select
+          className="sample-select"
+          value={newDrumModel}
+          onChange={(e) => setNewDrumModel(e.target.value as DrumModel)}
+          title="Synth model of the new drum channel"
+        >
+          {DRUM_MODELS.map((model) => (
+            <option key={model} value={model}>{DRUM_MODEL_LABELS[model]}</option>
+          ))}
+        </select>
+        <button className="add-sample-track-btn" onClick={() => onAddDrumTrack(newDrumModel)}>
+          + Drum Channel
+        </button>
+        <button className="add-sample-track-btn" onClick={onAddSampleTrack}>
+          + Sample Track
+        </button>
+      </div>
     </div>
   );
 });
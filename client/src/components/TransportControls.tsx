@@ -1,5 +1,6 @@
 import React, { useMemo } from "react";
-import type { PlaybackMode } from "../types";
+import type { PlaybackMode, MidiInputDevice } from "../types";
+import { TICKS_PER_STEP } from "../types";
 
 interface TransportControlsProps {
   isPlaying: boolean;
@@ -15,13 +16,20 @@ interface TransportControlsProps {
   onSwingChange: (swing: number) => void;
   onToggleMetronome: () => void;
   onClearAll: () => void;
+  /** Whether Web MIDI access has been granted */
+  midiEnabled: boolean;
+  midiInputs: MidiInputDevice[];
+  midiInputId: string | null;
+  recordArmed: boolean;
+  onEnableMidi: () => void;
+  onSelectMidiInput: (id: string | null) => void;
+  onToggleRecordArm: () => void;
+  /** Whether MIDI learn mode is on */
+  midiLearnActive: boolean;
+  onToggleMidiLearn: () => void;
+  onShowMidiMappings: () => void;
 }
 
-/** Ticks per quarter note (standard MIDI PPQ) */
-const PPQ = 96;
-/** Ticks per 16th note */
-const TICKS_PER_SIXTEENTH = PPQ / 4; // 24
-
 /**
  * Convert the current playback position to bars:beats:ticks format.
  * Bars and beats are 1-based (music convention).
@@ -47,7 +55,7 @@ function formatBarsBeatsTicks(
   const bar = Math.floor(totalSteps / 16) + 1;
   const beat = Math.floor((totalSteps % 16) / 4) + 1;
   const tickStep = totalSteps % 4;
-  const ticks = tickStep * TICKS_PER_SIXTEENTH;
+  const ticks = tickStep * TICKS_PER_STEP;
 
   return `${bar}:${beat}:${String(ticks).padStart(2, "0")}`;
 }
@@ -94,6 +102,16 @@ const TransportControls: React.FC<TransportControlsProps> = React.memo(
     onSwingChange,
     onToggleMetronome,
     onClearAll,
+    midiEnabled,
+    midiInputs,
+    midiInputId,
+    recordArmed,
+    onEnableMidi,
+    onSelectMidiInput,
+    onToggleRecordArm,
+    midiLearnActive,
+    onToggleMidiLearn,
+    onShowMidiMappings,
   }) => {
     const handleBpmChange = (
       e: React.ChangeEvent<HTMLInputElement>
@@ -175,6 +193,48 @@ const TransportControls: React.FC<TransportControlsProps> = React.memo(
           Metro
         </button>
 
+        <button
+          className={`transport-btn record-btn${recordArmed ? " active" : ""}`}
+          onClick={onToggleRecordArm}
+          title="Record MIDI input into the piano roll while playing"
+        >
+          {"\u25CF Rec"}
+        </button>
+
+        <div className="midi-input-control">
+          {midiEnabled ? (
+            <select
+              value={midiInputId ?? ""}
+              onChange={(e) => onSelectMidiInput(e.target.value || null)}
+              title="MIDI input"
+            >
+              <option value="">No MIDI input</option>
+              {midiInputs.map((input) => (
+                <option key={input.id} value={input.id}>{input.name}</option>
+              ))}
+            </select>
+          ) : (
+            <button className="transport-btn metronome-btn" onClick={onEnableMidi} title="Play the synth from a MIDI keyboard">
+              MIDI
+            </button>
+          )}
+        </div>
+
+        {midiEnabled && (
+          <>
+            <button
+              className={`transport-btn metronome-btn${midiLearnActive ? " active" : ""}`}
+              onClick={onToggleMidiLearn}
+              title="MIDI learn: click a control, then move a knob or fader on your controller"
+            >
+              Learn
+            </button>
+            <button className="transport-btn metronome-btn" onClick={onShowMidiMappings} title="Edit MIDI mappings">
+              Mappings
+            </button>
+          </>
+        )}
+
         <button className="transport-btn clear-btn" onClick={onClearAll}>
           Clear All
         </button>
@@ -1,22 +1,31 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import type {
-  InstrumentName,
   Track,
+  DrumModel,
+  DrumSynthParams,
   SampleTrack,
   SampleInstrument,
+  ProjectSample,
   SamplePlaybackMode,
   Pattern,
+  InstrumentChannel,
   ArrangementTrack,
   ArrangementBlock,
   AudioClip,
   PlaybackMode,
   SequencerState,
   PianoNote,
+  PianoNoteExpression,
   ReverbSettings,
   DelaySettings,
   FilterSettings,
   SynthSettings,
+  OscillatorModeSettings,
+  ModRoute,
   SynthPreset,
+  PianoInstrument,
+  SamplerSettings,
+  SamplerZone,
   AutomationLane,
   AutomationPoint,
   AutomationTarget,
@@ -29,9 +38,36 @@ import type {
   MixerTrack,
   EQBand,
   MasterLimiterSettings,
+  RenderOptions,
+  StemInfo,
+  StemManifest,
+  MidiExportScope,
+  MidiImportOptions,
+  SnapResolution,
+  MidiLearnTarget,
+  MidiMapping,
+  ArpeggiatorSettings,
+  ScaleSettings,
+  PianoNoteTransform,
 } from '../types';
-import { MAX_INSERT_EFFECTS, MAX_SEND_CHANNELS, MAX_MIXER_TRACKS, DEFAULT_EFFECT_PARAMS, DEFAULT_EQ_BANDS, DEFAULT_MASTER_LIMITER } from '../types';
+import { MAX_INSERT_EFFECTS, MAX_SEND_CHANNELS, MAX_MIXER_TRACKS, DEFAULT_EFFECT_PARAMS, DEFAULT_EQ_BANDS, DEFAULT_MASTER_LIMITER, DEFAULT_DRUM_SYNTH_PARAMS, DRUM_MODEL_LABELS, MOD_SOURCE_LABELS, MOD_DESTINATION_LABELS, TICKS_PER_STEP } from '../types';
 import AudioEngine from '../audio/AudioEngine';
+import { getStepDuration, getMeasureSteps, getNextPosition, scheduleStep, applyAutomationAt, getActiveInstrumentChannel, getChannelSampler } from '../audio/sequencePlayback';
+import type { TransportPosition } from '../audio/sequencePlayback';
+import { renderSong, listStemSources, getRenderRange, getMeasureStartTime, syncInstrumentChannel } from '../audio/offlineRender';
+import { encodeWav, readWavInfo } from '../audio/wav';
+import { analyzeWavetable } from '../audio/wavetables';
+import { createZip } from '../utils/zip';
+import type { ZipEntry } from '../utils/zip';
+import { exportPatternMidi, exportSongMidi } from '../midi/midiExport';
+import { buildMidiImport } from '../midi/midiImport';
+import type { MidiImportSource } from '../midi/midiImport';
+import type { ImportedInstrument } from '../sampler/instrument';
+import { parseMidiMessage, listMidiInputs, isMidiSupported, SUSTAIN_PEDAL_CONTROLLER, MOD_WHEEL_CONTROLLER } from '../midi/midiInput';
+import { snapStepSize } from '../utils/snap';
+import { applyPianoNoteTransform, clampToPattern } from '../utils/noteTransforms';
+import { getMidiLearnRange, getMidiMappingValue } from '../midi/midiLearn';
+import { LiveArpeggiator } from '../audio/arpeggiator';
 
 const DEFAULT_STEP_COUNT = 16;
 
@@ -48,6 +84,18 @@ const PATTERN_COLORS = [
 
 const DEFAULT_VELOCITY = 0.8;
 
+/** A plain waveform oscillator, with the wavetable and FM settings it starts from when switched */
+const DEFAULT_OSCILLATOR_MODE: OscillatorModeSettings = {
+  mode: 'basic',
+  wavetable: 'analog',
+  customFrames: [],
+  customName: '',
+  wtPosition: 0,
+  fmOperators: 2,
+  fmRatios: [1, 2, 3],
+  fmIndexes: [2, 1, 0.5],
+};
+
 const DEFAULT_SYNTH_SETTINGS: SynthSettings = {
   oscType: 'sawtooth',
   oscOctave: 0,
@@ -60,8 +108,23 @@ const DEFAULT_SYNTH_SETTINGS: SynthSettings = {
   osc3Octave: -1,
   osc3Enabled: false,
   osc3Mix: 0.3,
+  osc1Mode: { ...DEFAULT_OSCILLATOR_MODE },
+  osc2Mode: { ...DEFAULT_OSCILLATOR_MODE },
+  osc3Mode: { ...DEFAULT_OSCILLATOR_MODE },
+  wtEnvAmount: 0,
   filterCutoff: 8000,
   filterResonance: 1,
+  filterType: 'lowpass',
+  filterSlope: 12,
+  filterMode: 'clean',
+  filterDrive: 0.3,
+  filterKeyTrack: 0,
+  filter2Enabled: false,
+  filter2Type: 'highpass',
+  filter2Slope: 12,
+  filter2Cutoff: 200,
+  filter2Resonance: 1,
+  filterRouting: 'serial',
   ampAttack: 0.005,
   ampDecay: 0.05,
   ampSustain: 0.7,
@@ -71,25 +134,242 @@ const DEFAULT_SYNTH_SETTINGS: SynthSettings = {
   filterEnvSustain: 0,
   filterEnvRelease: 0.15,
   filterEnvAmount: 0,
-  lfo1: { enabled: false, waveform: 'sine', rate: 2, depth: 0.5, target: 'filter' },
-  lfo2: { enabled: false, waveform: 'sine', rate: 4, depth: 0.5, target: 'volume' },
+  modEnvAttack: 0.005,
+  modEnvDecay: 0.3,
+  modEnvSustain: 0,
+  modEnvRelease: 0.15,
+  modMatrix: [],
+  lfo1: {
+    enabled: false, waveform: 'sine', rate: 2, sync: false, division: '1/4', retrigger: 'note', phase: 0, depth: 0.5, target: 'filter',
+  },
+  lfo2: {
+    enabled: false, waveform: 'sine', rate: 4, sync: false, division: '1/8', retrigger: 'note', phase: 0, depth: 0.5, target: 'volume',
+  },
   unisonVoices: 1,
   unisonSpread: 20,
   unisonPan: 0.5,
+  voiceMode: 'poly',
+  polyphony: 8,
+  voiceStealing: 'oldest',
+  glideTime: 0,
+  glideMode: 'legato',
+};
+
+/**
+ * Synth settings of a saved project or preset, with the settings it
+ * predates (LFO fields included) at their defaults, so it sounds as it did.
+ */
+function withSynthDefaults(settings: SynthSettings): SynthSettings {
+  return {
+    ...DEFAULT_SYNTH_SETTINGS,
+    ...settings,
+    lfo1: { ...DEFAULT_SYNTH_SETTINGS.lfo1, ...settings.lfo1 },
+    lfo2: { ...DEFAULT_SYNTH_SETTINGS.lfo2, ...settings.lfo2 },
+  };
+}
+
+const DEFAULT_SAMPLER_SETTINGS: SamplerSettings = {
+  zones: [],
+  ampAttack: 0.002,
+  ampDecay: 0.1,
+  ampSustain: 1,
+  ampRelease: 0.2,
+  filterType: 'lowpass',
+  filterCutoff: 20000,
+  filterResonance: 1,
 };
 
+/** A zone spanning every key and velocity, with its sample at pitch on C4 */
+function createSamplerZone(sampleId: string | null): SamplerZone {
+  return {
+    id: `zone-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    sampleId,
+    keyLow: 0,
+    keyHigh: 127,
+    rootNote: 60,
+    tune: 0,
+    velLow: 1,
+    velHigh: 127,
+    roundRobinGroup: 0,
+    gain: 0,
+    loop: false,
+    loopStart: 0,
+    loopEnd: 1,
+  };
+}
+
+const DEFAULT_ARPEGGIATOR: ArpeggiatorSettings = {
+  enabled: false,
+  mode: 'up',
+  rate: '1/16',
+  octaves: 1,
+  gate: 0.8,
+  latch: false,
+};
+
+const DEFAULT_SCALE: ScaleSettings = { root: 0, type: 'chromatic' };
+
+/** Piano note as saved before tick timing (positions in whole steps) */
+type LegacyPianoNote = PianoNote & { step?: number; duration?: number };
+
+/** Automation point as saved before tick timing */
+type LegacyAutomationPoint = AutomationPoint & { step?: number };
+
+/** Convert step-based piano notes from older projects to ticks. */
+function migratePianoNotes(notes: LegacyPianoNote[]): PianoNote[] {
+  return notes.map(({ step, duration, ...n }) => ({
+    ...n,
+    startTick: n.startTick ?? (step ?? 0) * TICKS_PER_STEP,
+    durationTicks: n.durationTicks ?? (duration ?? 1) * TICKS_PER_STEP,
+  }));
+}
+
+/** Convert step-based automation points from older projects to ticks. */
+function migrateAutomationPoints(points: LegacyAutomationPoint[]): AutomationPoint[] {
+  return points.map(({ step, ...pt }) => ({
+    ...pt,
+    tick: pt.tick ?? (step ?? 0) * TICKS_PER_STEP,
+  }));
+}
+
+/**
+ * Drum channels of a new pattern. Their IDs predate drum models and stay
+ * fixed so channel settings and automation of older projects still match.
+ */
+const STOCK_DRUM_CHANNELS: { id: string; name: string; model: DrumModel; drumSynth?: Partial<DrumSynthParams> }[] = [
+  { id: 'kick', name: 'Kick', model: 'kick' },
+  { id: 'snare', name: 'Snare', model: 'snare' },
+  { id: 'hihat', name: 'Hi-Hat', model: 'hat' },
+  { id: 'clap', name: 'Clap', model: 'clap' },
+  { id: 'openhat', name: 'Open Hat', model: 'openHat' },
+  // The original percussion voice is an FM perc without modulation
+  { id: 'percussion', name: 'Percussion', model: 'fmPerc', drumSynth: { noiseColor: 0 } },
+];
+
+function createDrumTrack(
+  id: string,
+  name: string,
+  model: DrumModel,
+  stepCount: number,
+  drumSynth?: Partial<DrumSynthParams>,
+): Track {
+  return {
+    id,
+    name,
+    model,
+    steps: Array(stepCount).fill(0),
+    pitches: Array(stepCount).fill(0),
+    volume: 0.8,
+    pan: 0,
+    muted: false,
+    solo: false,
+    reverbSend: 0,
+    delaySend: 0,
+    filterSend: 0,
+    insertEffects: [],
+    sends: {},
+    mixerTrackId: null,
+    drumSynth: { ...DEFAULT_DRUM_SYNTH_PARAMS[model], ...drumSynth },
+  };
+}
+
 function createDefaultTracks(stepCount: number = DEFAULT_STEP_COUNT): Track[] {
-  return [
-    { id: 'kick', name: 'Kick', steps: Array(stepCount).fill(0), pitches: Array(stepCount).fill(0), volume: 0.8, pan: 0, muted: false, solo: false, reverbSend: 0, delaySend: 0, filterSend: 0, insertEffects: [], sends: {}, mixerTrackId: null },
-    { id: 'snare', name: 'Snare', steps: Array(stepCount).fill(0), pitches: Array(stepCount).fill(0), volume: 0.8, pan: 0, muted: false, solo: false, reverbSend: 0, delaySend: 0, filterSend: 0, insertEffects: [], sends: {}, mixerTrackId: null },
-    { id: 'hihat', name: 'Hi-Hat', steps: Array(stepCount).fill(0), pitches: Array(stepCount).fill(0), volume: 0.8, pan: 0, muted: false, solo: false, reverbSend: 0, delaySend: 0, filterSend: 0, insertEffects: [], sends: {}, mixerTrackId: null },
-    { id: 'clap', name: 'Clap', steps: Array(stepCount).fill(0), pitches: Array(stepCount).fill(0), volume: 0.8, pan: 0, muted: false, solo: false, reverbSend: 0, delaySend: 0, filterSend: 0, insertEffects: [], sends: {}, mixerTrackId: null },
-    { id: 'openhat', name: 'Open Hat', steps: Array(stepCount).fill(0), pitches: Array(stepCount).fill(0), volume: 0.8, pan: 0, muted: false, solo: false, reverbSend: 0, delaySend: 0, filterSend: 0, insertEffects: [], sends: {}, mixerTrackId: null },
-    { id: 'percussion', name: 'Percussion', steps: Array(stepCount).fill(0), pitches: Array(stepCount).fill(0), volume: 0.8, pan: 0, muted: false, solo: false, reverbSend: 0, delaySend: 0, filterSend: 0, insertEffects: [], sends: {}, mixerTrackId: null },
-  ];
+  return STOCK_DRUM_CHANNELS.map((c) => createDrumTrack(c.id, c.name, c.model, stepCount, c.drumSynth));
+}
+
+/** Drum channel as saved before drum models (always one of the stock channels) */
+type LegacyTrack = Omit<Track, 'model' | 'drumSynth'> & { model?: DrumModel; drumSynth?: DrumSynthParams };
+
+/** Give drum channels of older projects the model matching their stock voice. */
+function migrateDrumTrack(track: LegacyTrack): Track {
+  if (track.model) {
+    return { ...track, model: track.model, drumSynth: { ...DEFAULT_DRUM_SYNTH_PARAMS[track.model], ...track.drumSynth } };
+  }
+  const stock = STOCK_DRUM_CHANNELS.find((c) => c.id === track.id) ?? STOCK_DRUM_CHANNELS[0];
+  return {
+    ...track,
+    model: stock.model,
+    drumSynth: { ...DEFAULT_DRUM_SYNTH_PARAMS[stock.model], ...track.drumSynth, ...stock.drumSynth },
+  };
+}
+
+function createInstrumentChannelId(): string {
+  return `instrument-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/** An empty piano roll channel playing the default synth */
+function createInstrumentChannel(name: string, id: string = createInstrumentChannelId()): InstrumentChannel {
+  return {
+    id,
+    name,
+    pianoRoll: { notes: [] },
+    synthSettings: { ...DEFAULT_SYNTH_SETTINGS },
+    instrument: 'synth',
+    sampler: { ...DEFAULT_SAMPLER_SETTINGS },
+    arpeggiator: { ...DEFAULT_ARPEGGIATOR },
+    volume: 0.8,
+    pan: 0,
+    muted: false,
+    solo: false,
+    reverbSend: 0,
+    delaySend: 0,
+    filterSend: 0,
+    insertEffects: [],
+    sends: {},
+    mixerTrackId: null,
+  };
+}
+
+/** Pattern as saved before instrument channels, with a single piano roll */
+type LegacyPattern = Omit<Pattern, 'instrumentChannels' | 'activeInstrumentChannelId'> & {
+  instrumentChannels?: InstrumentChannel[];
+  activeInstrumentChannelId?: string;
+  pianoRoll?: InstrumentChannel['pianoRoll'];
+  synthSettings?: SynthSettings;
+  synthPresetId?: string | null;
+  instrument?: PianoInstrument;
+  sampler?: SamplerSettings;
+  arpeggiator?: ArpeggiatorSettings;
+};
+
+/**
+ * Give a saved pattern its instrument channels. An older pattern's piano
+ * roll becomes one channel whose ID is the pattern ID, the voice pool it
+ * used to play on, so its mod route automation still matches. That channel
+ * plays at full volume, as the piano roll did before it had a mixer strip.
+ */
+function migrateInstrumentChannels(pattern: LegacyPattern): Pattern {
+  const { pianoRoll, synthSettings, synthPresetId, instrument, sampler, arpeggiator, ...rest } = pattern;
+  const channels: InstrumentChannel[] = rest.instrumentChannels ?? [{
+    ...createInstrumentChannel('Synth 1', pattern.id),
+    pianoRoll: pianoRoll ?? { notes: [] },
+    synthSettings: synthSettings ?? DEFAULT_SYNTH_SETTINGS,
+    synthPresetId,
+    instrument: instrument ?? 'synth',
+    sampler: sampler ?? DEFAULT_SAMPLER_SETTINGS,
+    arpeggiator: arpeggiator ?? DEFAULT_ARPEGGIATOR,
+    volume: 1,
+  }];
+  const instrumentChannels = channels.map((c) => ({
+    ...c,
+    synthSettings: withSynthDefaults(c.synthSettings),
+    sampler: {
+      ...DEFAULT_SAMPLER_SETTINGS,
+      ...c.sampler,
+      zones: c.sampler.zones.map((z) => ({ ...z, tune: z.tune ?? 0 })),
+    },
+    arpeggiator: { ...c.arpeggiator },
+    pianoRoll: { ...c.pianoRoll, notes: migratePianoNotes(c.pianoRoll.notes) },
+  }));
+  return {
+    ...rest,
+    instrumentChannels,
+    activeInstrumentChannelId: rest.activeInstrumentChannelId ?? instrumentChannels[0].id,
+  };
 }
 
 function createPattern(index: number): Pattern {
+  const channel = createInstrumentChannel('Synth 1');
   return {
     id: `pattern-${Date.now()}-${index}`,
     name: `Pattern ${index + 1}`,
@@ -97,8 +377,49 @@ function createPattern(index: number): Pattern {
     stepCount: DEFAULT_STEP_COUNT,
     tracks: createDefaultTracks(),
     sampleTracks: [],
-    pianoRoll: { notes: [] },
-    synthSettings: { ...DEFAULT_SYNTH_SETTINGS },
+    instrumentChannels: [channel],
+    activeInstrumentChannelId: channel.id,
+    scale: { ...DEFAULT_SCALE },
+  };
+}
+
+/**
+ * Apply an update to the active instrument channel of the active pattern.
+ * The update also gets the pattern, for its step count.
+ */
+function updateActiveInstrumentChannel(
+  prev: SequencerState,
+  update: (channel: InstrumentChannel, pattern: Pattern) => InstrumentChannel,
+): SequencerState {
+  return {
+    ...prev,
+    patterns: prev.patterns.map((pattern) => {
+      if (pattern.id !== prev.activePatternId) return pattern;
+      const activeId = getActiveInstrumentChannel(pattern).id;
+      return {
+        ...pattern,
+        instrumentChannels: pattern.instrumentChannels.map((c) => (c.id === activeId ? update(c, pattern) : c)),
+      };
+    }),
+  };
+}
+
+/**
+ * Apply an update to an instrument channel. Channel IDs are unique across
+ * patterns, so this also reaches channels of inactive patterns (MIDI mappings).
+ */
+function updateInstrumentChannel(
+  prev: SequencerState,
+  channelId: string,
+  update: (channel: InstrumentChannel) => InstrumentChannel,
+): SequencerState {
+  return {
+    ...prev,
+    patterns: prev.patterns.map((pattern) =>
+      pattern.instrumentChannels.some((c) => c.id === channelId)
+        ? { ...pattern, instrumentChannels: pattern.instrumentChannels.map((c) => (c.id === channelId ? update(c) : c)) }
+        : pattern,
+    ),
   };
 }
 
@@ -142,10 +463,40 @@ const INITIAL_STATE: SequencerState = {
   sendChannels: [],
   mixerTracks: [],
   masterLimiter: { ...DEFAULT_MASTER_LIMITER },
+  snapResolution: '1/16',
+  midiEnabled: false,
+  midiInputs: [],
+  midiInputId: null,
+  recordArmed: false,
+  midiMappings: [],
+  midiLearnActive: false,
+  midiLearnPending: null,
 };
 
+/** Editor and MIDI device settings that survive undo/redo and switching projects */
+function getSessionFields(s: SequencerState) {
+  return {
+    snapResolution: s.snapResolution,
+    midiEnabled: s.midiEnabled,
+    midiInputs: s.midiInputs,
+    midiInputId: s.midiInputId,
+    recordArmed: s.recordArmed,
+    midiLearnActive: s.midiLearnActive,
+    midiLearnPending: s.midiLearnPending,
+  };
+}
+
 const MAX_UNDO_HISTORY = 50;
 
+/** How far ahead of the audio clock (seconds) the scheduler queues events */
+const SCHEDULE_AHEAD_TIME = 0.1;
+
+/** How often (ms) the scheduler wakes up to queue more events */
+const SCHEDULER_INTERVAL_MS = 25;
+
+/** Small offset (seconds) before the first step so it is never scheduled late */
+const SCHEDULER_START_DELAY = 0.05;
+
 function useSequencer() {
   const [state, setState] = useState<SequencerState>(INITIAL_STATE);
 
@@ -154,6 +505,8 @@ function useSequencer() {
   const stateRef = useRef<SequencerState>(state);
   const undoStack = useRef<SequencerState[]>([]);
   const redoStack = useRef<SequencerState[]>([]);
+  /** Last step the audio clock has reached during playback, with its start time */
+  const playheadRef = useRef<(TransportPosition & { time: number }) | null>(null);
 
   useEffect(() => {
     stateRef.current = state;
@@ -173,6 +526,7 @@ function useSequencer() {
     // Restore state but keep playback-related fields from current state
     setState((cur) => ({
       ...prev,
+      ...getSessionFields(cur),
       isPlaying: cur.isPlaying,
       currentStep: cur.currentStep,
       currentMeasure: cur.currentMeasure,
@@ -186,132 +540,13 @@ function useSequencer() {
     undoStack.current = [...undoStack.current, stateRef.current];
     setState((cur) => ({
       ...next,
+      ...getSessionFields(cur),
       isPlaying: cur.isPlaying,
       currentStep: cur.currentStep,
       currentMeasure: cur.currentMeasure,
     }));
   }, []);
 
-  // Helper: interpolate automation value at a given position
-  const getAutomationValue = useCallback(
-    (points: AutomationPoint[], measure: number, step: number): number | null => {
-      if (points.length === 0) return null;
-      // Position as a single number for comparison
-      const pos = measure * 1000 + step;
-      // Find surrounding points
-      let before: AutomationPoint | null = null;
-      let after: AutomationPoint | null = null;
-      for (const p of points) {
-        const pPos = p.measure * 1000 + p.step;
-        if (pPos <= pos) before = p;
-        if (pPos >= pos && after === null) after = p;
-      }
-      if (before === null && after === null) return null;
-      if (before === null) return after!.value;
-      if (after === null) return before.value;
-      if (before === after) return before.value;
-      // Linear interpolation
-      const bPos = before.measure * 1000 + before.step;
-      const aPos = after.measure * 1000 + after.step;
-      const t = (pos - bPos) / (aPos - bPos);
-      return before.value + (after.value - before.value) * t;
-    },
-    [],
-  );
-
-  // Helper: apply automation value to the audio engine
-  const applyAutomation = useCallback(
-    (target: AutomationTarget, normalizedValue: number) => {
-      // Handle per-channel targets: "drum:kick:volume", "sample:trackId:pan", etc.
-      if (target.startsWith('drum:') || target.startsWith('sample:')) {
-        const parts = target.split(':');
-        const channelType = parts[0] as 'drum' | 'sample';
-        const channelId = parts[1];
-        const param = parts[2] as import('../types').ChannelAutomationParam;
-
-        if (channelType === 'drum') {
-          const instrument = channelId as InstrumentName;
-          switch (param) {
-            case 'volume':
-              audioEngine.current.setChannelVolume(instrument, normalizedValue);
-              break;
-            case 'pan':
-              // Map 0–1 to -1–+1
-              audioEngine.current.setChannelPan(instrument, normalizedValue * 2 - 1);
-              break;
-            case 'reverbSend':
-              audioEngine.current.setChannelReverbSend(instrument, normalizedValue);
-              break;
-            case 'delaySend':
-              audioEngine.current.setChannelDelaySend(instrument, normalizedValue);
-              break;
-            case 'filterSend':
-              audioEngine.current.setChannelFilterSend(instrument, normalizedValue);
-              break;
-          }
-        } else {
-          // sample channel
-          switch (param) {
-            case 'volume':
-              audioEngine.current.setSampleChannelVolume(channelId, normalizedValue);
-              break;
-            case 'pan':
-              audioEngine.current.setSampleChannelPan(channelId, normalizedValue * 2 - 1);
-              break;
-            case 'reverbSend':
-              audioEngine.current.setSampleChannelReverbSend(channelId, normalizedValue);
-              break;
-            case 'delaySend':
-              audioEngine.current.setSampleChannelDelaySend(channelId, normalizedValue);
-              break;
-            case 'filterSend':
-              audioEngine.current.setSampleChannelFilterSend(channelId, normalizedValue);
-              break;
-          }
-        }
-        return;
-      }
-
-      switch (target) {
-        case 'masterVolume':
-          audioEngine.current.setMasterVolume(normalizedValue);
-          break;
-        case 'masterFilterCutoff': {
-          // Map 0–1 to 20–20000 Hz (exponential)
-          const cutoff = 20 * Math.pow(1000, normalizedValue);
-          audioEngine.current.setFilterParams({ cutoff });
-          break;
-        }
-        case 'masterFilterResonance': {
-          // Map 0–1 to 0.1–25
-          const resonance = 0.1 + normalizedValue * 24.9;
-          audioEngine.current.setFilterParams({ resonance });
-          break;
-        }
-        case 'masterReverbDecay': {
-          // Map 0–1 to 0.1–10
-          const decay = 0.1 + normalizedValue * 9.9;
-          audioEngine.current.setReverbParams({ decay });
-          break;
-        }
-        case 'masterReverbDamping': {
-          audioEngine.current.setReverbParams({ damping: normalizedValue });
-          break;
-        }
-        case 'masterDelayFeedback': {
-          // Map 0–1 to 0–0.9
-          audioEngine.current.setDelayParams({ feedback: normalizedValue * 0.9 });
-          break;
-        }
-        case 'masterDelayMix': {
-          audioEngine.current.setDelayParams({ mix: normalizedValue });
-          break;
-        }
-      }
-    },
-    [],
-  );
-
   // Helper: get the currently active pattern from state
   const getActivePattern = useCallback(
     (s: SequencerState): Pattern | undefined =>
@@ -320,277 +555,81 @@ function useSequencer() {
   );
 
   // -----------------------------------------------------------------------
-  // Playback loop
+  // Playback scheduler
   // -----------------------------------------------------------------------
-  useEffect(() => {
-    if (state.isPlaying) {
-      const sixteenthMs = (60 / state.bpm / 4) * 1000;
-
-      /**
-       * Calculate the delay before the NEXT step fires, accounting for swing.
-       * Swing shifts odd-numbered 16th notes later within each 8th-note pair.
-       * At swing=0 both 16ths are equal (50/50 split of the 8th note).
-       * At swing=1 the split is 2:1 (triplet feel, 66.7/33.3).
-       */
-      const getStepDelay = (currentStep: number): number => {
-        const cur = stateRef.current;
-        const swing = cur.swing;
-        if (swing === 0) return sixteenthMs;
-        // Ratio shifts from 0.5 (even) toward 2/3 (triplet) based on swing
-        const ratio = 0.5 + swing * (1 / 6); // 0.5 → 0.667
-        const eighthMs = sixteenthMs * 2;
-        // currentStep is the step we just played; determine if NEXT step is odd or even
-        const isCurrentEven = currentStep % 2 === 0;
-        // After an even step, the next (odd) step comes after the long portion
-        // After an odd step, the next (even) step comes after the short portion
-        return isCurrentEven ? eighthMs * ratio : eighthMs * (1 - ratio);
-      };
-
-      const scheduleNext = (prevStep: number) => {
-        const delay = getStepDelay(prevStep);
-        timerRef.current = window.setTimeout(() => {
-          let playedStep = -1;
-          setState((prev) => {
-          const current = stateRef.current;
-
-          if (current.playbackMode === 'pattern') {
-            // --- Pattern mode: loop through current pattern ---
-            const pattern = current.patterns.find(
-              (p) => p.id === current.activePatternId,
-            );
-            if (!pattern) return prev;
-
-            const nextStep = (prev.currentStep + 1) % pattern.stepCount;
-            const anySoloed = pattern.tracks.some((t) => t.solo);
-
-            for (const track of pattern.tracks) {
-              const stepVelocity = track.steps[nextStep];
-              if (stepVelocity <= 0) continue;
-              const effectivelyMuted =
-                track.muted || (anySoloed && !track.solo);
-              if (!effectivelyMuted) {
-                const pitchOffset = track.pitches?.[nextStep] ?? 0;
-                audioEngine.current.playSound(track.id, track.volume * stepVelocity, pitchOffset);
-              }
-            }
-
-            // Play sample tracks at this step
-            const anySampleSoloed = pattern.sampleTracks.some((t) => t.solo);
-            for (const sTrack of pattern.sampleTracks) {
-              const stepVelocity = sTrack.steps[nextStep];
-              if (stepVelocity <= 0) continue;
-              const effectivelyMuted =
-                sTrack.muted || (anySampleSoloed && !sTrack.solo);
-              if (!effectivelyMuted && sTrack.sampleId) {
-                const sample = current.samples.find((s) => s.id === sTrack.sampleId);
-                if (sample) {
-                  const pitchOffset = (sTrack.basePitch ?? 0) + (sTrack.pitches?.[nextStep] ?? 0);
-                  audioEngine.current.playSample(sample.url, sTrack.id, sTrack.volume * stepVelocity, pitchOffset, sTrack.playbackMode === 'loop', sTrack.trimStart ?? 0, sTrack.trimEnd ?? 1, sTrack.gain ?? 0);
-                }
-              }
-            }
-
-            // Play piano roll notes at this step
-            for (const note of pattern.pianoRoll.notes) {
-              if (note.step === nextStep) {
-                const durationSec =
-                  (note.duration * (60 / current.bpm)) / 4;
-                audioEngine.current.playPianoNote(
-                  note.pitch,
-                  note.velocity,
-                  durationSec,
-                  pattern.synthSettings,
-                );
-              }
-            }
 
-            // Metronome click on each beat (every 4 steps)
-            if (current.metronomeEnabled && nextStep % 4 === 0) {
-              audioEngine.current.playMetronome(nextStep === 0);
-            }
-
-            playedStep = nextStep;
-            return { ...prev, currentStep: nextStep };
-          } else {
-            // --- Song mode: play through the arrangement ---
-            // Use the active pattern's step count for the measure loop
-            const activePattern = current.patterns.find(
-              (p) => p.id === current.activePatternId,
-            );
-            const measureSteps = activePattern?.stepCount ?? DEFAULT_STEP_COUNT;
-            const nextStep = (prev.currentStep + 1) % measureSteps;
-            let nextMeasure = prev.currentMeasure;
-
-            // Advance to next measure when we wrap around to step 0
-            if (nextStep === 0) {
-              nextMeasure = prev.currentMeasure + 1;
-
-              const hasLoop = prev.loopStart !== null && prev.loopEnd !== null;
-              const loopEnd = hasLoop ? prev.loopEnd! : prev.arrangementLength;
-
-              if (nextMeasure >= loopEnd) {
-                if (hasLoop) {
-                  // Loop back to loop start
-                  nextMeasure = prev.loopStart!;
-                } else {
-                  // Song finished - stop playback
-                  return {
-                    ...prev,
-                    isPlaying: false,
-                    currentStep: -1,
-                    currentMeasure: -1,
-                  };
-                }
-              }
-            }
-
-            // Find all patterns playing at this measure
-            for (const arrTrack of current.arrangement) {
-              if (arrTrack.muted) continue;
-
-              for (const block of arrTrack.blocks) {
-                const blockEnd = block.startMeasure + (block.duration ?? 1);
-                if (nextMeasure >= block.startMeasure && nextMeasure < blockEnd) {
-                  const pattern = current.patterns.find(
-                    (p) => p.id === block.patternId,
-                  );
-                  if (!pattern) continue;
-
-                  // Only play steps within this pattern's step count
-                  if (nextStep >= pattern.stepCount) continue;
-
-                  const anySoloed = pattern.tracks.some((t) => t.solo);
-
-                  for (const track of pattern.tracks) {
-                    const stepVelocity = track.steps[nextStep];
-                    if (stepVelocity <= 0) continue;
-                    const effectivelyMuted =
-                      track.muted || (anySoloed && !track.solo);
-                    if (!effectivelyMuted) {
-                      const pitchOffset = track.pitches?.[nextStep] ?? 0;
-                      audioEngine.current.playSound(track.id, track.volume * stepVelocity, pitchOffset);
-                    }
-                  }
-
-                  // Play sample tracks in song mode
-                  const anySampleSoloed2 = pattern.sampleTracks.some((t) => t.solo);
-                  for (const sTrack of pattern.sampleTracks) {
-                    const sVelocity = sTrack.steps[nextStep];
-                    if (sVelocity <= 0) continue;
-                    const sEffectivelyMuted =
-                      sTrack.muted || (anySampleSoloed2 && !sTrack.solo);
-                    if (!sEffectivelyMuted && sTrack.sampleId) {
-                      const sample = current.samples.find((s) => s.id === sTrack.sampleId);
-                      if (sample) {
-                        const sPitchOffset = (sTrack.basePitch ?? 0) + (sTrack.pitches?.[nextStep] ?? 0);
-                        audioEngine.current.playSample(sample.url, sTrack.id, sTrack.volume * sVelocity, sPitchOffset, sTrack.playbackMode === 'loop', sTrack.trimStart ?? 0, sTrack.trimEnd ?? 1, sTrack.gain ?? 0);
-                      }
-                    }
-                  }
-
-                  // Play piano roll notes in song mode
-                  for (const note of pattern.pianoRoll.notes) {
-                    if (note.step === nextStep) {
-                      const durationSec =
-                        (note.duration * (60 / current.bpm)) / 4;
-                      audioEngine.current.playPianoNote(
-                        note.pitch,
-                        note.velocity,
-                        durationSec,
-                        pattern.synthSettings,
-                      );
-                    }
-                  }
-                }
-              }
-            }
-
-            // Play audio clips on the arrangement timeline
-            if (nextStep === 0) {
-              for (const arrTrack of current.arrangement) {
-                if (arrTrack.muted) continue;
-                for (const clip of arrTrack.audioClips ?? []) {
-                  if (clip.startMeasure === nextMeasure) {
-                    const sample = current.samples.find((s) => s.id === clip.sampleId);
-                    if (sample) {
-                      audioEngine.current.playSample(
-                        sample.url,
-                        `audio-clip-${clip.id}`,
-                        clip.volume,
-                        clip.pitchOffset,
-                        false,
-                        0,
-                        1,
-                        clip.gain,
-                      );
-                    }
-                  }
-                }
-              }
-            }
+  // Lookahead scheduler: a coarse timer queues every step that falls inside
+  // the lookahead window at its exact AudioContext time, while a separate
+  // animation-frame loop moves the UI playhead once the audio clock reaches it.
+  useEffect(() => {
+    if (!state.isPlaying) return;
 
-            // Metronome click on each beat (every 4 steps)
-            if (current.metronomeEnabled && nextStep % 4 === 0) {
-              audioEngine.current.playMetronome(nextStep === 0);
-            }
+    const engine = audioEngine.current;
+    const initial = stateRef.current;
+    let nextPos = getNextPosition(initial, {
+      step: initial.currentStep,
+      measure: initial.currentMeasure,
+    });
+    let nextTime = engine.getCurrentTime() + SCHEDULER_START_DELAY;
+    let endTime: number | null = null;
+    const playheadQueue: Array<TransportPosition & { time: number }> = [];
 
-            // Apply automation lanes
-            for (const lane of current.automationLanes) {
-              if (!lane.enabled || lane.points.length === 0) continue;
-              const val = getAutomationValue(lane.points, nextMeasure, nextStep);
-              if (val !== null) {
-                applyAutomation(lane.target, val);
-              }
-            }
+    const schedule = () => {
+      while (nextPos && nextTime < engine.getCurrentTime() + SCHEDULE_AHEAD_TIME) {
+        const cur = stateRef.current;
+        scheduleStep(engine, cur, nextPos, nextTime);
+        playheadQueue.push({ ...nextPos, time: nextTime });
+        nextTime += getStepDuration(nextPos.step, cur.bpm, cur.swing);
+        nextPos = getNextPosition(cur, nextPos);
+        if (!nextPos) endTime = nextTime;
+      }
+    };
 
-            // Apply automation clips from arrangement tracks
-            for (const arrTrack of current.arrangement) {
-              if (arrTrack.muted) continue;
-              for (const clip of arrTrack.automationClips ?? []) {
-                if (!clip.enabled || clip.points.length === 0) continue;
-                // Check if the current position is within this clip's range
-                if (nextMeasure >= clip.startMeasure && nextMeasure < clip.startMeasure + clip.duration) {
-                  // Points are stored relative to the clip start
-                  const relMeasure = nextMeasure - clip.startMeasure;
-                  const val = getAutomationValue(clip.points, relMeasure, nextStep);
-                  if (val !== null) {
-                    applyAutomation(clip.target, val);
-                  }
-                }
-              }
-            }
+    let frameId = 0;
+    const draw = () => {
+      const now = engine.getCurrentTime();
+      let reached: (TransportPosition & { time: number }) | null = null;
+      while (playheadQueue.length > 0 && playheadQueue[0].time <= now) {
+        reached = playheadQueue.shift()!;
+        applyAutomationAt(engine, stateRef.current, reached);
+      }
+      if (reached) playheadRef.current = reached;
 
-            playedStep = nextStep;
-            return {
-              ...prev,
-              currentStep: nextStep,
-              currentMeasure: nextMeasure,
-            };
-          }
-        });
-          // Schedule the next tick (playedStep is captured by the setState callback above)
-          if (stateRef.current.isPlaying) {
-            scheduleNext(playedStep >= 0 ? playedStep : 0);
-          }
-        }, delay);
-      };
+      if (endTime !== null && now >= endTime) {
+        // Song finished - stop playback
+        setState((prev) => ({
+          ...prev,
+          isPlaying: false,
+          currentStep: -1,
+          currentMeasure: -1,
+        }));
+        return;
+      }
 
-      // Kick off the first step
-      scheduleNext(stateRef.current.currentStep >= 0 ? stateRef.current.currentStep : -1);
-    } else {
-      if (timerRef.current !== null) {
-        clearTimeout(timerRef.current);
-        timerRef.current = null;
+      if (reached) {
+        const { step, measure } = reached;
+        setState((prev) =>
+          prev.isPlaying
+            ? { ...prev, currentStep: step, currentMeasure: measure }
+            : prev,
+        );
       }
-    }
+      frameId = requestAnimationFrame(draw);
+    };
+
+    schedule();
+    timerRef.current = window.setInterval(schedule, SCHEDULER_INTERVAL_MS);
+    frameId = requestAnimationFrame(draw);
 
     return () => {
       if (timerRef.current !== null) {
-        clearTimeout(timerRef.current);
+        clearInterval(timerRef.current);
         timerRef.current = null;
       }
+      cancelAnimationFrame(frameId);
+      playheadRef.current = null;
     };
-  }, [state.isPlaying, state.bpm, state.swing]);
+  }, [state.isPlaying]);
 
   // -----------------------------------------------------------------------
   // Pattern actions
@@ -649,6 +688,7 @@ function useSequencer() {
     setState((prev) => {
       const source = prev.patterns.find((p) => p.id === patternId);
       if (!source) return prev;
+      const channelIds = new Map(source.instrumentChannels.map((c) => [c.id, createInstrumentChannelId()]));
       const newPattern: Pattern = {
         ...source,
         id: `pattern-${Date.now()}-dup`,
@@ -657,9 +697,23 @@ function useSequencer() {
         stepCount: source.stepCount,
         tracks: source.tracks.map((t) => ({ ...t, steps: [...t.steps], pitches: [...t.pitches], insertEffects: (t.insertEffects ?? []).map((fx) => ({ ...fx, id: `fx-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, params: { ...fx.params } })), sends: { ...(t.sends ?? {}) } })),
         sampleTracks: source.sampleTracks.map((t) => ({ ...t, steps: [...t.steps], pitches: [...t.pitches], insertEffects: (t.insertEffects ?? []).map((fx) => ({ ...fx, id: `fx-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, params: { ...fx.params } })), sends: { ...(t.sends ?? {}) } })),
-        pianoRoll: { notes: source.pianoRoll.notes.map((n) => ({ ...n })) },
-        synthSettings: { ...source.synthSettings },
+        // Instrument channels get new IDs, since each has its own mixer strip
+        instrumentChannels: source.instrumentChannels.map((c) => ({
+          ...c,
+          id: channelIds.get(c.id)!,
+          pianoRoll: { notes: c.pianoRoll.notes.map((n) => ({ ...n })) },
+          synthSettings: { ...c.synthSettings },
+          sampler: { ...c.sampler, zones: c.sampler.zones.map((z) => ({ ...z })) },
+          arpeggiator: { ...c.arpeggiator },
+          insertEffects: c.insertEffects.map((fx) => ({ ...fx, id: `fx-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, params: { ...fx.params } })),
+          sends: { ...c.sends },
+        })),
+        activeInstrumentChannelId: channelIds.get(source.activeInstrumentChannelId) ?? source.activeInstrumentChannelId,
+        scale: { ...source.scale },
       };
+      for (const channel of newPattern.instrumentChannels) {
+        syncInstrumentChannel(audioEngine.current, channel);
+      }
       return {
         ...prev,
         patterns: [...prev.patterns, newPattern],
@@ -673,7 +727,7 @@ function useSequencer() {
   // -----------------------------------------------------------------------
 
   const toggleStep = useCallback(
-    (trackId: InstrumentName, stepIndex: number) => {
+    (trackId: string, stepIndex: number) => {
       pushUndo();
       setState((prev) => ({
         ...prev,
@@ -700,7 +754,7 @@ function useSequencer() {
   );
 
   const setStepVelocity = useCallback(
-    (trackId: InstrumentName, stepIndex: number, velocity: number) => {
+    (trackId: string, stepIndex: number, velocity: number) => {
       pushUndo();
       const clamped = Math.max(0, Math.min(1, velocity));
       setState((prev) => ({
@@ -728,7 +782,7 @@ function useSequencer() {
   );
 
   const setStepPitch = useCallback(
-    (trackId: InstrumentName, stepIndex: number, pitch: number) => {
+    (trackId: string, stepIndex: number, pitch: number) => {
       pushUndo();
       const clamped = Math.round(Math.max(-12, Math.min(12, pitch)));
       setState((prev) => ({
@@ -792,12 +846,13 @@ function useSequencer() {
     const clamped = Math.max(40, Math.min(300, bpm));
     setState((prev) => {
       audioEngine.current.setDelayBpm(clamped, prev.masterDelay.sync);
+      audioEngine.current.setTempo(clamped);
       return { ...prev, bpm: clamped };
     });
   }, []);
 
   const setTrackVolume = useCallback(
-    (trackId: InstrumentName, volume: number) => {
+    (trackId: string, volume: number) => {
       setState((prev) => ({
         ...prev,
         patterns: prev.patterns.map((pattern) =>
@@ -818,7 +873,7 @@ function useSequencer() {
   );
 
   const setTrackPan = useCallback(
-    (trackId: InstrumentName, pan: number) => {
+    (trackId: string, pan: number) => {
       const clamped = Math.max(-1, Math.min(1, pan));
       audioEngine.current.setChannelPan(trackId, clamped);
       setState((prev) => ({
@@ -840,7 +895,86 @@ function useSequencer() {
     [],
   );
 
-  const toggleMute = useCallback((trackId: InstrumentName) => {
+  const setTrackDrumSynth = useCallback(
+    (trackId: string, params: Partial<DrumSynthParams>) => {
+      setState((prev) => ({
+        ...prev,
+        patterns: prev.patterns.map((pattern) =>
+          pattern.id === prev.activePatternId
+            ? {
+                ...pattern,
+                tracks: pattern.tracks.map((track) =>
+                  track.id === trackId
+                    ? { ...track, drumSynth: { ...track.drumSynth, ...params } }
+                    : track,
+                ),
+              }
+            : pattern,
+        ),
+      }));
+    },
+    [],
+  );
+
+  const addDrumTrack = useCallback((model: DrumModel) => {
+    setState((prev) => {
+      const pattern = prev.patterns.find((p) => p.id === prev.activePatternId);
+      if (!pattern) return prev;
+      const trackId = `dtrack-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+      audioEngine.current.ensureDrumChannel(trackId);
+      const sameModel = pattern.tracks.filter((t) => t.model === model).length;
+      const name = sameModel > 0 ? `${DRUM_MODEL_LABELS[model]} ${sameModel + 1}` : DRUM_MODEL_LABELS[model];
+      const newTrack = createDrumTrack(trackId, name, model, pattern.stepCount);
+      return {
+        ...prev,
+        patterns: prev.patterns.map((p) =>
+          p.id === prev.activePatternId
+            ? { ...p, tracks: [...p.tracks, newTrack] }
+            : p,
+        ),
+      };
+    });
+  }, []);
+
+  const removeDrumTrack = useCallback((trackId: string) => {
+    setState((prev) => {
+      // Channels are shared by every pattern holding a track with this ID
+      const inOtherPattern = prev.patterns.some(
+        (p) => p.id !== prev.activePatternId && p.tracks.some((t) => t.id === trackId),
+      );
+      if (!inOtherPattern) audioEngine.current.removeDrumChannel(trackId);
+      return {
+        ...prev,
+        patterns: prev.patterns.map((pattern) =>
+          pattern.id === prev.activePatternId
+            ? { ...pattern, tracks: pattern.tracks.filter((t) => t.id !== trackId) }
+            : pattern,
+        ),
+      };
+    });
+  }, []);
+
+  /** Switch a drum channel to another synth model, starting from that model's stock sound. */
+  const setDrumTrackModel = useCallback((trackId: string, model: DrumModel) => {
+    pushUndo();
+    setState((prev) => ({
+      ...prev,
+      patterns: prev.patterns.map((pattern) =>
+        pattern.id === prev.activePatternId
+          ? {
+              ...pattern,
+              tracks: pattern.tracks.map((track) =>
+                track.id === trackId
+                  ? { ...track, model, drumSynth: { ...DEFAULT_DRUM_SYNTH_PARAMS[model] } }
+                  : track,
+              ),
+            }
+          : pattern,
+      ),
+    }));
+  }, [pushUndo]);
+
+  const toggleMute = useCallback((trackId: string) => {
     setState((prev) => ({
       ...prev,
       patterns: prev.patterns.map((pattern) =>
@@ -858,7 +992,7 @@ function useSequencer() {
     }));
   }, []);
 
-  const toggleSolo = useCallback((trackId: InstrumentName) => {
+  const toggleSolo = useCallback((trackId: string) => {
     setState((prev) => ({
       ...prev,
       patterns: prev.patterns.map((pattern) =>
@@ -876,7 +1010,7 @@ function useSequencer() {
     }));
   }, []);
 
-  const clearTrack = useCallback((trackId: InstrumentName) => {
+  const clearTrack = useCallback((trackId: string) => {
     pushUndo();
     setState((prev) => ({
       ...prev,
@@ -957,10 +1091,11 @@ function useSequencer() {
               pitches: track.pitches.slice(0, clamped),
             };
           }),
-          pianoRoll: {
-            // Remove notes beyond the new step count
-            notes: pattern.pianoRoll.notes.filter((n) => n.step < clamped),
-          },
+          // Remove notes beyond the new step count
+          instrumentChannels: pattern.instrumentChannels.map((c) => ({
+            ...c,
+            pianoRoll: { notes: c.pianoRoll.notes.filter((n) => n.startTick < clamped * TICKS_PER_STEP) },
+          })),
         };
       }),
     }));
@@ -970,47 +1105,65 @@ function useSequencer() {
   // Piano roll actions
   // -----------------------------------------------------------------------
 
-  const addPianoNote = useCallback((pitch: number, step: number, duration: number = 1) => {
+  const addPianoNote = useCallback((pitch: number, startTick: number, durationTicks: number = TICKS_PER_STEP) => {
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        // Remove any existing notes that overlap with the new note's range
-        const newEnd = step + duration;
-        const filtered = pattern.pianoRoll.notes.filter(
-          (n) => n.pitch !== pitch || n.step + n.duration <= step || n.step >= newEnd,
-        );
-        const newNote: PianoNote = {
-          id: `note-${Date.now()}-${pitch}-${step}`,
-          pitch,
-          step,
-          duration,
-          velocity: 0.8,
-        };
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: [...filtered, newNote],
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      // Remove any existing notes that overlap with the new note's range
+      const newEnd = startTick + durationTicks;
+      const filtered = channel.pianoRoll.notes.filter(
+        (n) => n.pitch !== pitch || n.startTick + n.durationTicks <= startTick || n.startTick >= newEnd,
+      );
+      const newNote: PianoNote = {
+        id: `note-${Date.now()}-${pitch}-${startTick}`,
+        pitch,
+        startTick,
+        durationTicks,
+        velocity: 0.8,
+      };
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: [...filtered, newNote],
+        },
+      };
+    }));
+  }, [pushUndo]);
+
+  /** Place several notes at once (chord stamp), replacing overlapping notes on each pitch */
+  const addPianoChord = useCallback((pitches: number[], startTick: number, durationTicks: number = TICKS_PER_STEP) => {
+    const valid = pitches.filter((p) => p >= 36 && p <= 83);
+    if (valid.length === 0) return;
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      const newEnd = startTick + durationTicks;
+      const filtered = channel.pianoRoll.notes.filter(
+        (n) => !valid.includes(n.pitch) || n.startTick + n.durationTicks <= startTick || n.startTick >= newEnd,
+      );
+      const newNotes: PianoNote[] = valid.map((pitch) => ({
+        id: `note-${Date.now()}-${pitch}-${startTick}`,
+        pitch,
+        startTick,
+        durationTicks,
+        velocity: 0.8,
+      }));
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: [...filtered, ...newNotes],
+        },
+      };
     }));
   }, [pushUndo]);
 
   const deletePianoNote = useCallback((noteId: string) => {
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: pattern.pianoRoll.notes.filter((n) => n.id !== noteId),
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.filter((n) => n.id !== noteId),
+        },
+      };
     }));
   }, [pushUndo]);
 
@@ -1018,136 +1171,288 @@ function useSequencer() {
     const pattern = stateRef.current.patterns.find(
       (p) => p.id === stateRef.current.activePatternId,
     );
-    audioEngine.current.playPianoNote(pitch, 0.5, 0.3, pattern?.synthSettings);
+    if (!pattern) return;
+    const channel = getActiveInstrumentChannel(pattern);
+    const sampler = getChannelSampler(channel, stateRef.current.samples);
+    audioEngine.current.playPianoNote(channel.id, pitch, 0.5, 0.3, channel.synthSettings, undefined, false, sampler);
   }, []);
 
-  const updatePianoNote = useCallback((noteId: string, updates: { step?: number; duration?: number }) => {
+  /** Channels of the piano-roll keys held down, so a key is released on the channel it started */
+  const heldPreviewKeysRef = useRef(new Map<number, string>());
+
+  /** Start a piano-roll key's note; it sustains until previewNoteOff */
+  const previewNoteOn = useCallback((pitch: number) => {
+    const pattern = getActivePattern(stateRef.current);
+    if (!pattern) return;
+    const channel = getActiveInstrumentChannel(pattern);
+    const held = heldPreviewKeysRef.current.get(pitch);
+    if (held) audioEngine.current.noteOff(held, pitch);
+    heldPreviewKeysRef.current.set(pitch, channel.id);
+    const sampler = getChannelSampler(channel, stateRef.current.samples);
+    audioEngine.current.noteOn(channel.id, pitch, 0.5, channel.synthSettings, sampler);
+  }, [getActivePattern]);
+
+  const previewNoteOff = useCallback((pitch: number) => {
+    const channelId = heldPreviewKeysRef.current.get(pitch);
+    if (!channelId) return;
+    heldPreviewKeysRef.current.delete(pitch);
+    audioEngine.current.noteOff(channelId, pitch);
+  }, []);
+
+  const updatePianoNote = useCallback((noteId: string, updates: { startTick?: number; durationTicks?: number }) => {
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: pattern.pianoRoll.notes.map((n) =>
-              n.id === noteId ? { ...n, ...updates } : n,
-            ),
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.map((n) =>
+            n.id === noteId ? { ...n, ...updates } : n,
+          ),
+        },
+      };
     }));
   }, [pushUndo]);
 
-  const slicePianoNote = useCallback((noteId: string, sliceStep: number) => {
+  const slicePianoNote = useCallback((noteId: string, sliceTick: number) => {
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        const note = pattern.pianoRoll.notes.find((n) => n.id === noteId);
-        if (!note) return pattern;
-        // Only slice if the cut point is inside the note (not at start or end)
-        if (sliceStep <= note.step || sliceStep >= note.step + note.duration) return pattern;
-        const leftDuration = sliceStep - note.step;
-        const rightDuration = note.duration - leftDuration;
-        const leftNote: PianoNote = { ...note, duration: leftDuration };
-        const rightNote: PianoNote = {
-          id: `note-${Date.now()}-${note.pitch}-${sliceStep}`,
-          pitch: note.pitch,
-          step: sliceStep,
-          duration: rightDuration,
-          velocity: note.velocity,
-        };
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: pattern.pianoRoll.notes.map((n) => (n.id === noteId ? leftNote : n)).concat(rightNote),
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      const note = channel.pianoRoll.notes.find((n) => n.id === noteId);
+      if (!note) return channel;
+      // Only slice if the cut point is inside the note (not at start or end)
+      if (sliceTick <= note.startTick || sliceTick >= note.startTick + note.durationTicks) return channel;
+      const leftDuration = sliceTick - note.startTick;
+      const rightDuration = note.durationTicks - leftDuration;
+      const leftNote: PianoNote = { ...note, durationTicks: leftDuration };
+      const rightNote: PianoNote = {
+        id: `note-${Date.now()}-${note.pitch}-${sliceTick}`,
+        pitch: note.pitch,
+        startTick: sliceTick,
+        durationTicks: rightDuration,
+        velocity: note.velocity,
+        pan: note.pan,
+        fine: note.fine,
+        releaseVelocity: note.releaseVelocity,
+        mod: note.mod,
+      };
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.map((n) => (n.id === noteId ? leftNote : n)).concat(rightNote),
+        },
+      };
     }));
   }, [pushUndo]);
 
-  const movePianoNotes = useCallback((noteIds: Set<string>, stepDelta: number, pitchDelta: number) => {
+  const movePianoNotes = useCallback((noteIds: Set<string>, tickDelta: number, pitchDelta: number) => {
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: pattern.pianoRoll.notes.map((n) => {
-              if (!noteIds.has(n.id)) return n;
-              const newStep = n.step + stepDelta;
-              const newPitch = n.pitch + pitchDelta;
-              // Clamp: don't move out of bounds
-              if (newStep < 0 || newStep + n.duration > pattern.stepCount) return n;
-              if (newPitch < 36 || newPitch > 83) return n;
-              return { ...n, step: newStep, pitch: newPitch };
-            }),
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel, pattern) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.map((n) => {
+            if (!noteIds.has(n.id)) return n;
+            const newStart = n.startTick + tickDelta;
+            const newPitch = n.pitch + pitchDelta;
+            // Clamp: don't move out of bounds
+            if (newStart < 0 || newStart + n.durationTicks > pattern.stepCount * TICKS_PER_STEP) return n;
+            if (newPitch < 36 || newPitch > 83) return n;
+            return { ...n, startTick: newStart, pitch: newPitch };
+          }),
+        },
+      };
     }));
   }, [pushUndo]);
 
   const pastePianoNotes = useCallback((notes: Omit<PianoNote, 'id'>[]) => {
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        // Filter out notes that fall outside bounds
-        const valid = notes.filter(
-          (n) => n.step >= 0 && n.step + n.duration <= pattern.stepCount && n.pitch >= 36 && n.pitch <= 83,
-        );
-        if (valid.length === 0) return pattern;
-        const newNotes = valid.map((n, i) => ({
-          ...n,
-          id: `note-${Date.now()}-${i}-${n.pitch}-${n.step}`,
-        }));
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: [...pattern.pianoRoll.notes, ...newNotes],
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel, pattern) => {
+      // Filter out notes that fall outside bounds
+      const valid = notes.filter(
+        (n) => n.startTick >= 0 && n.startTick + n.durationTicks <= pattern.stepCount * TICKS_PER_STEP && n.pitch >= 36 && n.pitch <= 83,
+      );
+      if (valid.length === 0) return channel;
+      const newNotes = valid.map((n, i) => ({
+        ...n,
+        id: `note-${Date.now()}-${i}-${n.pitch}-${n.startTick}`,
+      }));
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: [...channel.pianoRoll.notes, ...newNotes],
+        },
+      };
     }));
   }, [pushUndo]);
 
   const updatePianoNoteVelocity = useCallback((noteId: string, velocity: number) => {
     pushUndo();
     const clamped = Math.max(0.05, Math.min(1, velocity));
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) => {
-        if (pattern.id !== prev.activePatternId) return pattern;
-        return {
-          ...pattern,
-          pianoRoll: {
-            notes: pattern.pianoRoll.notes.map((n) =>
-              n.id === noteId ? { ...n, velocity: clamped } : n,
-            ),
-          },
-        };
-      }),
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.map((n) =>
+            n.id === noteId ? { ...n, velocity: clamped } : n,
+          ),
+        },
+      };
+    }));
+  }, [pushUndo]);
+
+  /** Set expression values of a note, each clamped to its range */
+  const updatePianoNoteExpression = useCallback((noteId: string, expression: PianoNoteExpression) => {
+    pushUndo();
+    const clamped: PianoNoteExpression = {};
+    if (expression.pan !== undefined) clamped.pan = Math.max(-1, Math.min(1, expression.pan));
+    if (expression.fine !== undefined) clamped.fine = Math.round(Math.max(-100, Math.min(100, expression.fine)));
+    if (expression.releaseVelocity !== undefined) {
+      clamped.releaseVelocity = Math.max(0, Math.min(1, expression.releaseVelocity));
+    }
+    if (expression.mod !== undefined) clamped.mod = Math.max(-1, Math.min(1, expression.mod));
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.map((n) =>
+            n.id === noteId ? { ...n, ...clamped } : n,
+          ),
+        },
+      };
+    }));
+  }, [pushUndo]);
+
+  /** Turn the slide flag of the given notes on or off */
+  const setPianoNotesSlide = useCallback((noteIds: Set<string>, slide: boolean) => {
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: channel.pianoRoll.notes.map((n) =>
+            noteIds.has(n.id) ? { ...n, slide } : n,
+          ),
+        },
+      };
+    }));
+  }, [pushUndo]);
+
+  /** Quantize, humanize, legato, strum, reverse or invert the given notes */
+  const transformPianoNotes = useCallback((noteIds: Set<string>, transform: PianoNoteTransform) => {
+    if (noteIds.size === 0) return;
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel, pattern) => {
+      return {
+        ...channel,
+        pianoRoll: {
+          notes: applyPianoNoteTransform(channel.pianoRoll.notes, noteIds, transform, pattern.stepCount),
+        },
+      };
     }));
   }, [pushUndo]);
 
   const clearPianoRoll = useCallback(() => {
     pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({ ...channel, pianoRoll: { notes: [] } })));
+  }, [pushUndo]);
+
+  // -----------------------------------------------------------------------
+  // Instrument channel actions (operate on active pattern)
+  // -----------------------------------------------------------------------
+
+  /** Add an instrument channel playing the default synth and edit it in the piano roll */
+  const addInstrumentChannel = useCallback(() => {
+    pushUndo();
+    setState((prev) => {
+      const pattern = prev.patterns.find((p) => p.id === prev.activePatternId);
+      if (!pattern) return prev;
+      const channel = createInstrumentChannel(`Synth ${pattern.instrumentChannels.length + 1}`);
+      audioEngine.current.ensureInstrumentChannel(channel.id);
+      return {
+        ...prev,
+        patterns: prev.patterns.map((p) =>
+          p.id === prev.activePatternId
+            ? { ...p, instrumentChannels: [...p.instrumentChannels, channel], activeInstrumentChannelId: channel.id }
+            : p,
+        ),
+      };
+    });
+  }, [pushUndo]);
+
+  /** Remove an instrument channel; a pattern keeps at least one. */
+  const removeInstrumentChannel = useCallback((channelId: string) => {
+    const pattern = getActivePattern(stateRef.current);
+    if (!pattern || pattern.instrumentChannels.length <= 1) return;
+    // The channel's engine strip stays, so undoing the removal keeps its mixer settings
+    pushUndo();
+    setState((prev) => ({
+      ...prev,
+      patterns: prev.patterns.map((p) => {
+        if (p.id !== prev.activePatternId) return p;
+        const index = p.instrumentChannels.findIndex((c) => c.id === channelId);
+        const instrumentChannels = p.instrumentChannels.filter((c) => c.id !== channelId);
+        // Removing the edited channel moves the piano roll to its neighbour
+        const activeInstrumentChannelId = p.activeInstrumentChannelId === channelId
+          ? instrumentChannels[Math.min(index, instrumentChannels.length - 1)].id
+          : p.activeInstrumentChannelId;
+        return { ...p, instrumentChannels, activeInstrumentChannelId };
+      }),
+    }));
+  }, [getActivePattern, pushUndo]);
+
+  /** Switch the piano roll to another instrument channel of the active pattern */
+  const selectInstrumentChannel = useCallback((channelId: string) => {
     setState((prev) => ({
       ...prev,
       patterns: prev.patterns.map((pattern) =>
-        pattern.id === prev.activePatternId
-          ? { ...pattern, pianoRoll: { notes: [] } }
-          : pattern,
+        pattern.id === prev.activePatternId ? { ...pattern, activeInstrumentChannelId: channelId } : pattern,
       ),
     }));
-  }, [pushUndo]);
+  }, []);
+
+  const renameInstrumentChannel = useCallback((channelId: string, name: string) => {
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, name })));
+  }, []);
+
+  const setInstrumentChannelVolume = useCallback((channelId: string, volume: number) => {
+    const clamped = Math.max(0, Math.min(1, volume));
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, volume: clamped })));
+  }, []);
+
+  const setInstrumentChannelPan = useCallback((channelId: string, pan: number) => {
+    const clamped = Math.max(-1, Math.min(1, pan));
+    audioEngine.current.ensureInstrumentChannel(channelId);
+    audioEngine.current.setChannelPan(channelId, clamped);
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, pan: clamped })));
+  }, []);
+
+  const toggleInstrumentChannelMute = useCallback((channelId: string) => {
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, muted: !channel.muted })));
+  }, []);
+
+  const toggleInstrumentChannelSolo = useCallback((channelId: string) => {
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, solo: !channel.solo })));
+  }, []);
+
+  const setInstrumentChannelReverbSend = useCallback((channelId: string, send: number) => {
+    const clamped = Math.max(0, Math.min(1, send));
+    audioEngine.current.ensureInstrumentChannel(channelId);
+    audioEngine.current.setChannelReverbSend(channelId, clamped);
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, reverbSend: clamped })));
+  }, []);
+
+  const setInstrumentChannelDelaySend = useCallback((channelId: string, send: number) => {
+    const clamped = Math.max(0, Math.min(1, send));
+    audioEngine.current.ensureInstrumentChannel(channelId);
+    audioEngine.current.setChannelDelaySend(channelId, clamped);
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, delaySend: clamped })));
+  }, []);
+
+  const setInstrumentChannelFilterSend = useCallback((channelId: string, send: number) => {
+    const clamped = Math.max(0, Math.min(1, send));
+    audioEngine.current.ensureInstrumentChannel(channelId);
+    audioEngine.current.setChannelFilterSend(channelId, clamped);
+    setState((prev) => updateInstrumentChannel(prev, channelId, (channel) => ({ ...channel, filterSend: clamped })));
+  }, []);
 
   // -----------------------------------------------------------------------
   // Arrangement actions
@@ -1617,7 +1922,7 @@ function useSequencer() {
   );
 
   const setAutomationClipPoint = useCallback(
-    (arrTrackId: string, clipId: string, measure: number, step: number, value: number) => {
+    (arrTrackId: string, clipId: string, measure: number, tick: number, value: number) => {
       const clamped = Math.max(0, Math.min(1, value));
       setState((prev) => ({
         ...prev,
@@ -1628,11 +1933,11 @@ function useSequencer() {
             automationClips: (arrTrack.automationClips ?? []).map((clip) => {
               if (clip.id !== clipId) return clip;
               const filtered = clip.points.filter(
-                (p) => !(p.measure === measure && p.step === step),
+                (p) => !(p.measure === measure && p.tick === tick),
               );
-              const newPoint: AutomationPoint = { measure, step, value: clamped };
+              const newPoint: AutomationPoint = { measure, tick, value: clamped };
               const points = [...filtered, newPoint].sort(
-                (a, b) => a.measure - b.measure || a.step - b.step,
+                (a, b) => a.measure - b.measure || a.tick - b.tick,
               );
               return { ...clip, points };
             }),
@@ -1644,7 +1949,7 @@ function useSequencer() {
   );
 
   const removeAutomationClipPoint = useCallback(
-    (arrTrackId: string, clipId: string, measure: number, step: number) => {
+    (arrTrackId: string, clipId: string, measure: number, tick: number) => {
       setState((prev) => ({
         ...prev,
         arrangement: prev.arrangement.map((arrTrack) => {
@@ -1656,7 +1961,7 @@ function useSequencer() {
               return {
                 ...clip,
                 points: clip.points.filter(
-                  (p) => !(p.measure === measure && p.step === step),
+                  (p) => !(p.measure === measure && p.tick === tick),
                 ),
               };
             }),
@@ -1738,7 +2043,7 @@ function useSequencer() {
   }, []);
 
   const setTrackReverbSend = useCallback(
-    (trackId: InstrumentName, send: number) => {
+    (trackId: string, send: number) => {
       const clamped = Math.max(0, Math.min(1, send));
       audioEngine.current.setChannelReverbSend(trackId, clamped);
       setState((prev) => ({
@@ -1769,7 +2074,7 @@ function useSequencer() {
   }, []);
 
   const setTrackDelaySend = useCallback(
-    (trackId: InstrumentName, send: number) => {
+    (trackId: string, send: number) => {
       const clamped = Math.max(0, Math.min(1, send));
       audioEngine.current.setChannelDelaySend(trackId, clamped);
       setState((prev) => ({
@@ -1800,7 +2105,7 @@ function useSequencer() {
   }, []);
 
   const setTrackFilterSend = useCallback(
-    (trackId: InstrumentName, send: number) => {
+    (trackId: string, send: number) => {
       const clamped = Math.max(0, Math.min(1, send));
       audioEngine.current.setChannelFilterSend(trackId, clamped);
       setState((prev) => ({
@@ -1855,6 +2160,7 @@ function useSequencer() {
       name: file.name.replace(/\.[^.]+$/, ''),
       url,
       fileName: file.name,
+      storageId: null,
     };
     setState((prev) => ({
       ...prev,
@@ -1881,12 +2187,21 @@ function useSequencer() {
       return {
         ...prev,
         samples: prev.samples.filter((s) => s.id !== sampleId),
-        // Clear any sample track references to this sample
+        // Clear any sample track and sampler zone references to this sample
         patterns: prev.patterns.map((pattern) => ({
           ...pattern,
           sampleTracks: pattern.sampleTracks.map((t) =>
             t.sampleId === sampleId ? { ...t, sampleId: null } : t,
           ),
+          instrumentChannels: pattern.instrumentChannels.map((c) => ({
+            ...c,
+            sampler: {
+              ...c.sampler,
+              zones: c.sampler.zones.map((z) =>
+                z.sampleId === sampleId ? { ...z, sampleId: null } : z,
+              ),
+            },
+          })),
         })),
         // Remove any audio clips referencing this sample
         arrangement: prev.arrangement.map((arrTrack) => ({
@@ -2313,7 +2628,7 @@ function useSequencer() {
   // Insert effect chain actions
   // -----------------------------------------------------------------------
 
-  /** Helper to update tracks or sampleTracks in the active pattern */
+  /** Helper to update tracks, sampleTracks or instrumentChannels in the active pattern */
   const updateChannelInsertEffects = useCallback(
     (channelId: string, updater: (effects: InsertEffect[]) => InsertEffect[]) => {
       setState((prev) => ({
@@ -2345,6 +2660,19 @@ function useSequencer() {
             audioEngine.current.rebuildInsertEffects(channelId, updated.insertEffects);
             return { ...pattern, sampleTracks: updatedSampleTracks };
           }
+          // Try instrument channels
+          const instrumentChannel = pattern.instrumentChannels.find((c) => c.id === channelId);
+          if (instrumentChannel) {
+            const insertEffects = updater(instrumentChannel.insertEffects);
+            audioEngine.current.ensureInstrumentChannel(channelId);
+            audioEngine.current.rebuildInsertEffects(channelId, insertEffects);
+            return {
+              ...pattern,
+              instrumentChannels: pattern.instrumentChannels.map((c) =>
+                c.id === channelId ? { ...c, insertEffects } : c,
+              ),
+            };
+          }
           return pattern;
         }),
       }));
@@ -2457,6 +2785,11 @@ function useSequencer() {
           delete sends[sendChannelId];
           return { ...t, sends };
         }),
+        instrumentChannels: pattern.instrumentChannels.map((c) => {
+          const sends = { ...c.sends };
+          delete sends[sendChannelId];
+          return { ...c, sends };
+        }),
       }));
       return { ...prev, sendChannels, patterns };
     });
@@ -2485,6 +2818,8 @@ function useSequencer() {
   /** Set the send level from a source channel to a send channel */
   const setChannelSendLevel = useCallback((sourceChannelId: string, sendChannelId: string, level: number) => {
     const clamped = Math.max(0, Math.min(1, level));
+    const isInstrumentChannel = getActivePattern(stateRef.current)?.instrumentChannels.some((c) => c.id === sourceChannelId) ?? false;
+    if (isInstrumentChannel) audioEngine.current.ensureInstrumentChannel(sourceChannelId);
     audioEngine.current.setChannelSendLevel(sourceChannelId, sendChannelId, clamped);
     setState((prev) => ({
       ...prev,
@@ -2502,6 +2837,16 @@ function useSequencer() {
             ),
           };
         }
+        if (isInstrumentChannel) {
+          return {
+            ...pattern,
+            instrumentChannels: pattern.instrumentChannels.map((c) =>
+              c.id === sourceChannelId
+                ? { ...c, sends: { ...c.sends, [sendChannelId]: clamped } }
+                : c,
+            ),
+          };
+        }
         // Try sample tracks
         return {
           ...pattern,
@@ -2513,7 +2858,7 @@ function useSequencer() {
         };
       }),
     }));
-  }, []);
+  }, [getActivePattern]);
 
   /** Add insert effect to a send channel */
   const addSendChannelInsertEffect = useCallback(
@@ -2646,6 +2991,9 @@ function useSequencer() {
         sampleTracks: p.sampleTracks.map((t) =>
           t.mixerTrackId === mixerTrackId ? { ...t, mixerTrackId: null } : t,
         ),
+        instrumentChannels: p.instrumentChannels.map((c) =>
+          c.mixerTrackId === mixerTrackId ? { ...c, mixerTrackId: null } : c,
+        ),
       })),
     }));
   }, []);
@@ -2691,6 +3039,9 @@ function useSequencer() {
         sampleTracks: p.sampleTracks.map((t) =>
           t.id === channelId ? { ...t, mixerTrackId: mixerTrackId } : t,
         ),
+        instrumentChannels: p.instrumentChannels.map((c) =>
+          c.id === channelId ? { ...c, mixerTrackId: mixerTrackId } : c,
+        ),
       })),
     }));
   }, []);
@@ -2742,6 +3093,12 @@ function useSequencer() {
     reverbSend: 'Reverb Send',
     delaySend: 'Delay Send',
     filterSend: 'Filter Send',
+    tone: 'Tone',
+    decay: 'Decay',
+    pitchEnv: 'Pitch Env',
+    noiseColor: 'Noise Color',
+    click: 'Click',
+    drive: 'Drive',
   };
 
   const getAutomationTargetName = useCallback((target: AutomationTarget): string => {
@@ -2751,10 +3108,23 @@ function useSequencer() {
       const [type, id, param] = parts;
       const paramLabel = PARAM_LABELS[param] ?? param;
       if (type === 'drum') {
-        // Capitalize instrument name
-        const name = id.charAt(0).toUpperCase() + id.slice(1);
+        // Find drum channel name from state
+        const current = stateRef.current;
+        const activePattern = current.patterns.find((p) => p.id === current.activePatternId);
+        const track = activePattern?.tracks.find((t) => t.id === id);
+        const name = track?.name ?? id.charAt(0).toUpperCase() + id.slice(1);
         return `${name} ${paramLabel}`;
       }
+      if (type === 'synth') {
+        // Name a modulation route after its pattern, channel, source and destination
+        const pattern = stateRef.current.patterns.find((p) => p.instrumentChannels.some((c) => c.id === id));
+        const channel = pattern?.instrumentChannels.find((c) => c.id === id);
+        const route = channel?.synthSettings.modMatrix.find((r) => r.id === param);
+        if (pattern && channel && route) {
+          return `${pattern.name} ${channel.name} ${MOD_SOURCE_LABELS[route.source]} → ${MOD_DESTINATION_LABELS[route.destination]}`;
+        }
+        return `Synth Mod ${param}`;
+      }
       if (type === 'sample') {
         // Find sample track name from state
         const current = stateRef.current;
@@ -2802,7 +3172,7 @@ function useSequencer() {
   }, []);
 
   const setAutomationPoint = useCallback(
-    (laneId: string, measure: number, step: number, value: number) => {
+    (laneId: string, measure: number, tick: number, value: number) => {
       const clamped = Math.max(0, Math.min(1, value));
       setState((prev) => ({
         ...prev,
@@ -2810,11 +3180,11 @@ function useSequencer() {
           if (lane.id !== laneId) return lane;
           // Remove existing point at same position, add new one
           const filtered = lane.points.filter(
-            (p) => !(p.measure === measure && p.step === step),
+            (p) => !(p.measure === measure && p.tick === tick),
           );
-          const newPoint: AutomationPoint = { measure, step, value: clamped };
+          const newPoint: AutomationPoint = { measure, tick, value: clamped };
           const points = [...filtered, newPoint].sort(
-            (a, b) => a.measure - b.measure || a.step - b.step,
+            (a, b) => a.measure - b.measure || a.tick - b.tick,
           );
           return { ...lane, points };
         }),
@@ -2824,7 +3194,7 @@ function useSequencer() {
   );
 
   const removeAutomationPoint = useCallback(
-    (laneId: string, measure: number, step: number) => {
+    (laneId: string, measure: number, tick: number) => {
       setState((prev) => ({
         ...prev,
         automationLanes: prev.automationLanes.map((lane) => {
@@ -2832,7 +3202,7 @@ function useSequencer() {
           return {
             ...lane,
             points: lane.points.filter(
-              (p) => !(p.measure === measure && p.step === step),
+              (p) => !(p.measure === measure && p.tick === tick),
             ),
           };
         }),
@@ -2851,11 +3221,150 @@ function useSequencer() {
   }, []);
 
   const setSynthSettings = useCallback((params: Partial<SynthSettings>) => {
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      synthSettings: { ...channel.synthSettings, ...params },
+    })));
+  }, []);
+
+  const addModRoute = useCallback(() => {
+    pushUndo();
+    const route: ModRoute = {
+      id: `mod-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      source: 'lfo1',
+      destination: 'cutoff',
+      amount: 0.25,
+    };
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      synthSettings: { ...channel.synthSettings, modMatrix: [...channel.synthSettings.modMatrix, route] },
+    })));
+  }, [pushUndo]);
+
+  const updateModRoute = useCallback((routeId: string, params: Partial<Omit<ModRoute, 'id'>>) => {
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      synthSettings: {
+        ...channel.synthSettings,
+        modMatrix: channel.synthSettings.modMatrix.map((r) => (r.id === routeId ? { ...r, ...params } : r)),
+      },
+    })));
+  }, []);
+
+  const removeModRoute = useCallback((routeId: string) => {
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      synthSettings: {
+        ...channel.synthSettings,
+        modMatrix: channel.synthSettings.modMatrix.filter((r) => r.id !== routeId),
+      },
+    })));
+  }, [pushUndo]);
+
+  /**
+   * Load a wavetable file into an oscillator of the active instrument
+   * channel's synth and switch the oscillator to play it.
+   * @returns The number of frames loaded
+   * @throws Error if the file can't be decoded or is silent
+   */
+  const loadWavetable = useCallback(async (osc: 1 | 2 | 3, file: File): Promise<number> => {
+    const data = await file.arrayBuffer();
+    // Decoding detaches the data, so the original length is read first
+    const sourceLength = readWavInfo(data)?.frames;
+    const buffer = await audioEngine.current.decodeAudio(data);
+    const frames = analyzeWavetable(buffer.getChannelData(0), sourceLength ?? buffer.length);
+    const field = `osc${osc}Mode` as const;
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      synthSettings: {
+        ...channel.synthSettings,
+        [field]: {
+          ...channel.synthSettings[field],
+          mode: 'wavetable',
+          wavetable: 'custom',
+          customFrames: frames,
+          customName: file.name.replace(/\.[^.]+$/, ''),
+        },
+      },
+    })));
+    return frames.length;
+  }, [pushUndo]);
+
+  const setChannelInstrument = useCallback((instrument: PianoInstrument) => {
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({ ...channel, instrument })));
+  }, [pushUndo]);
+
+  const setSamplerSettings = useCallback((params: Partial<Omit<SamplerSettings, 'zones'>>) => {
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      sampler: { ...channel.sampler, ...params },
+    })));
+  }, []);
+
+  const addSamplerZone = useCallback((sampleId: string | null) => {
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      sampler: { ...channel.sampler, zones: [...channel.sampler.zones, createSamplerZone(sampleId)] },
+    })));
+  }, [pushUndo]);
+
+  const updateSamplerZone = useCallback((zoneId: string, params: Partial<Omit<SamplerZone, 'id'>>) => {
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      sampler: {
+        ...channel.sampler,
+        zones: channel.sampler.zones.map((z) => (z.id === zoneId ? { ...z, ...params } : z)),
+      },
+    })));
+  }, []);
+
+  const removeSamplerZone = useCallback((zoneId: string) => {
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      sampler: { ...channel.sampler, zones: channel.sampler.zones.filter((z) => z.id !== zoneId) },
+    })));
+  }, [pushUndo]);
+
+  /**
+   * Play an imported SFZ or SF2 instrument on the active instrument channel's
+   * sampler. Its audio files become project samples, so they are saved with
+   * the project.
+   * @returns Number of zones whose sample could be loaded
+   */
+  const importSamplerInstrument = useCallback(async (instrument: ImportedInstrument): Promise<number> => {
+    const samples = await Promise.all(instrument.files.map((file) => loadSample(file)));
+    const zones: SamplerZone[] = [];
+    for (const { fileIndex, ...params } of instrument.zones) {
+      const sample = samples[fileIndex];
+      if (sample) zones.push({ ...createSamplerZone(sample.id), ...params });
+    }
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      instrument: 'sampler',
+      sampler: { ...instrument.settings, zones },
+    })));
+    return zones.length;
+  }, [loadSample, pushUndo]);
+
+  const setArpeggiator = useCallback((params: Partial<ArpeggiatorSettings>) => {
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      arpeggiator: { ...channel.arpeggiator, ...params },
+    })));
+  }, []);
+
+  const setPatternScale = useCallback((params: Partial<ScaleSettings>) => {
     setState((prev) => ({
       ...prev,
       patterns: prev.patterns.map((pattern) =>
         pattern.id === prev.activePatternId
-          ? { ...pattern, synthSettings: { ...pattern.synthSettings, ...params } }
+          ? { ...pattern, scale: { ...pattern.scale, ...params } }
           : pattern,
       ),
     }));
@@ -2877,16 +3386,18 @@ function useSequencer() {
     }
     // Reset state to fresh initial state with a new pattern
     const freshPattern = createPattern(0);
-    setState({
+    setState((prev) => ({
       ...INITIAL_STATE,
+      ...getSessionFields(prev),
       patterns: [freshPattern],
       activePatternId: freshPattern.id,
-    });
+    }));
     // Reset audio engine to defaults
     audioEngine.current.setMasterVolume(INITIAL_STATE.masterVolume);
     audioEngine.current.setReverbParams(INITIAL_STATE.masterReverb);
     audioEngine.current.setDelayParams(INITIAL_STATE.masterDelay);
     audioEngine.current.setDelayBpm(INITIAL_STATE.bpm, INITIAL_STATE.masterDelay.sync);
+    audioEngine.current.setTempo(INITIAL_STATE.bpm);
     audioEngine.current.setFilterParams(INITIAL_STATE.masterFilter);
     audioEngine.current.setMasterLimiter(INITIAL_STATE.masterLimiter);
   }, []);
@@ -2895,9 +3406,61 @@ function useSequencer() {
     setState((prev) => ({ ...prev, projectName: name }));
   }, []);
 
-  const saveProject = useCallback(async (): Promise<void> => {
+  /** Upload a sample's audio to server storage and return its storage ID. */
+  const uploadSample = useCallback(async (sample: SampleInstrument): Promise<string> => {
+    const audio = await (await fetch(sample.url)).blob();
+    const res = await fetch(`${API_BASE}/api/samples`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: audio,
+    });
+    if (!res.ok) throw new Error(`Failed to upload sample ${sample.fileName}`);
+    const { id } = await res.json();
+    return id;
+  }, [API_BASE]);
+
+  /**
+   * Fetch and decode a project's samples from server storage.
+   * Samples whose audio is gone keep their entry (with an empty URL) so a
+   * re-save does not drop the reference; their file names are returned.
+   */
+  const fetchProjectSamples = useCallback(async (
+    projectSamples: ProjectSample[],
+  ): Promise<{ samples: SampleInstrument[]; missing: string[] }> => {
+    const missing: string[] = [];
+    const samples = await Promise.all(projectSamples.map(async (ps): Promise<SampleInstrument> => {
+      try {
+        const res = await fetch(`${API_BASE}/api/samples/${ps.storageId}`);
+        if (!res.ok) throw new Error('Sample not found');
+        const url = URL.createObjectURL(await res.blob());
+        try {
+          await audioEngine.current.loadSample(url);
+        } catch (err) {
+          URL.revokeObjectURL(url);
+          throw err;
+        }
+        return { ...ps, url };
+      } catch {
+        missing.push(ps.fileName);
+        return { ...ps, url: '' };
+      }
+    }));
+    return { samples, missing };
+  }, [API_BASE]);
+
+  /** Save the project to the server and return its ID. */
+  const saveProject = useCallback(async (): Promise<string> => {
     const s = stateRef.current;
     const id = s.projectId ?? `proj-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+    // Upload samples that are not in server storage yet
+    const projectSamples: ProjectSample[] = await Promise.all(
+      s.samples.map(async (sample) => ({
+        id: sample.id,
+        name: sample.name,
+        fileName: sample.fileName,
+        storageId: sample.storageId ?? await uploadSample(sample),
+      })),
+    );
     const project: ProjectData = {
       id,
       name: s.projectName,
@@ -2920,6 +3483,8 @@ function useSequencer() {
       sendChannels: s.sendChannels,
       mixerTracks: s.mixerTracks,
       masterLimiter: s.masterLimiter,
+      samples: projectSamples,
+      midiMappings: s.midiMappings,
     };
     const res = await fetch(`${API_BASE}/api/projects/${id}`, {
       method: 'PUT',
@@ -2927,13 +3492,42 @@ function useSequencer() {
       body: JSON.stringify(project),
     });
     if (!res.ok) throw new Error('Failed to save project');
-    setState((prev) => ({ ...prev, projectId: id }));
-  }, [API_BASE]);
-
-  const loadProject = useCallback(async (id: string): Promise<void> => {
+    const storageIds = new Map(projectSamples.map((ps) => [ps.id, ps.storageId]));
+    setState((prev) => ({
+      ...prev,
+      projectId: id,
+      samples: prev.samples.map((sample) => ({
+        ...sample,
+        storageId: sample.storageId ?? storageIds.get(sample.id) ?? null,
+      })),
+    }));
+    return id;
+  }, [API_BASE, uploadSample]);
+
+  /**
+   * Load a project from the server.
+   * @returns File names of samples whose audio could not be restored
+   */
+  const loadProject = useCallback(async (id: string): Promise<{ missingSamples: string[] }> => {
     const res = await fetch(`${API_BASE}/api/projects/${id}`);
     if (!res.ok) throw new Error('Failed to load project');
     const project: ProjectData = await res.json();
+    const { samples, missing } = await fetchProjectSamples(project.samples ?? []);
+    // Release the previous project's sample audio
+    for (const sample of stateRef.current.samples) {
+      audioEngine.current.removeSample(sample.url);
+      URL.revokeObjectURL(sample.url);
+    }
+    // Drop the previous project's drum and instrument channel strips; the
+    // loaded project's channels are created below
+    for (const p of stateRef.current.patterns) {
+      for (const t of p.tracks) audioEngine.current.removeDrumChannel(t.id);
+      for (const c of p.instrumentChannels) audioEngine.current.removeInstrumentChannel(c.id);
+    }
+    // Undo can't reach back into the previous project, whose strips are gone
+    undoStack.current = [];
+    redoStack.current = [];
+    const patterns = (project.patterns as LegacyPattern[]).map(migrateInstrumentChannels);
     setState((prev) => ({
       ...prev,
       projectId: project.id,
@@ -2943,8 +3537,10 @@ function useSequencer() {
       masterReverb: project.masterReverb,
       masterDelay: project.masterDelay,
       masterFilter: project.masterFilter,
-      patterns: project.patterns.map((p) => ({
+      patterns: patterns.map((p) => ({
         ...p,
+        scale: p.scale ?? { ...DEFAULT_SCALE },
+        tracks: p.tracks.map(migrateDrumTrack),
         sampleTracks: p.sampleTracks.map((t) => ({
           ...t,
           trimStart: t.trimStart ?? 0,
@@ -2957,10 +3553,16 @@ function useSequencer() {
       arrangement: project.arrangement.map((t) => ({
         ...t,
         audioClips: t.audioClips ?? [],
-        automationClips: t.automationClips ?? [],
+        automationClips: (t.automationClips ?? []).map((c) => ({
+          ...c,
+          points: migrateAutomationPoints(c.points),
+        })),
       })),
       arrangementLength: project.arrangementLength,
-      automationLanes: project.automationLanes,
+      automationLanes: project.automationLanes.map((l) => ({
+        ...l,
+        points: migrateAutomationPoints(l.points),
+      })),
       loopStart: project.loopStart,
       loopEnd: project.loopEnd,
       metronomeEnabled: project.metronomeEnabled,
@@ -2972,17 +3574,19 @@ function useSequencer() {
         eqEnabled: mt.eqEnabled ?? true,
       })),
       masterLimiter: project.masterLimiter ?? { ...DEFAULT_MASTER_LIMITER },
+      midiMappings: project.midiMappings ?? [],
       // Reset playback state
       isPlaying: false,
       currentStep: -1,
       currentMeasure: -1,
-      samples: [],
+      samples,
     }));
     // Apply loaded audio settings
     audioEngine.current.setMasterVolume(project.masterVolume);
     audioEngine.current.setReverbParams(project.masterReverb);
     audioEngine.current.setDelayParams(project.masterDelay);
     audioEngine.current.setDelayBpm(project.bpm, project.masterDelay.sync);
+    audioEngine.current.setTempo(project.bpm);
     audioEngine.current.setFilterParams(project.masterFilter);
     audioEngine.current.setMasterLimiter(project.masterLimiter ?? DEFAULT_MASTER_LIMITER);
     // Restore send channels
@@ -2996,19 +3600,34 @@ function useSequencer() {
     for (const mt of project.mixerTracks ?? []) {
       audioEngine.current.ensureMixerTrack(mt.id, mt.volume, mt.pan, mt.eqBands ?? DEFAULT_EQ_BANDS.map((b) => ({ ...b })), mt.eqEnabled ?? true);
     }
-    for (const p of project.patterns) {
+    for (const p of patterns) {
       for (const t of p.tracks) {
+        audioEngine.current.ensureDrumChannel(t.id);
+        audioEngine.current.setChannelPan(t.id, t.pan);
+        audioEngine.current.setChannelReverbSend(t.id, t.reverbSend);
+        audioEngine.current.setChannelDelaySend(t.id, t.delaySend);
+        audioEngine.current.setChannelFilterSend(t.id, t.filterSend);
         if (t.mixerTrackId) {
           audioEngine.current.setChannelMixerRouting(t.id, t.mixerTrackId);
         }
+        if (t.insertEffects?.length) {
+          audioEngine.current.rebuildInsertEffects(t.id, t.insertEffects);
+        }
+        for (const [sendId, level] of Object.entries(t.sends ?? {})) {
+          audioEngine.current.setChannelSendLevel(t.id, sendId, level);
+        }
       }
       for (const t of p.sampleTracks) {
         if (t.mixerTrackId) {
           audioEngine.current.setChannelMixerRouting(t.id, t.mixerTrackId);
         }
       }
+      for (const c of p.instrumentChannels) {
+        syncInstrumentChannel(audioEngine.current, c);
+      }
     }
-  }, [API_BASE]);
+    return { missingSamples: missing };
+  }, [API_BASE, fetchProjectSamples]);
 
   const listProjects = useCallback(async (): Promise<{ id: string; name: string; updatedAt: string }[]> => {
     const res = await fetch(`${API_BASE}/api/projects`);
@@ -3023,6 +3642,539 @@ function useSequencer() {
     setState((prev) => prev.projectId === id ? { ...prev, projectId: null } : prev);
   }, [API_BASE]);
 
+  /** Save the project and download it as a bundle with its samples and synth presets. */
+  const exportProjectBundle = useCallback(async (): Promise<Blob> => {
+    const id = await saveProject();
+    const res = await fetch(`${API_BASE}/api/projects/${id}/bundle`);
+    if (!res.ok) throw new Error('Failed to export project bundle');
+    return res.blob();
+  }, [API_BASE, saveProject]);
+
+  /**
+   * Import a project bundle as a new project and load it.
+   * @returns File names of samples whose audio could not be restored
+   */
+  const importProjectBundle = useCallback(async (file: File): Promise<{ missingSamples: string[] }> => {
+    const res = await fetch(`${API_BASE}/api/projects/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/zip' },
+      body: file,
+    });
+    if (!res.ok) throw new Error('Failed to import project bundle');
+    const { id } = await res.json();
+    return loadProject(id);
+  }, [API_BASE, loadProject]);
+
+  // -----------------------------------------------------------------------
+  // Export
+  // -----------------------------------------------------------------------
+
+  /** Render the arrangement offline and encode it as a WAV file. */
+  const exportSong = useCallback(async (options: RenderOptions): Promise<Blob> => {
+    const rendered = await renderSong(audioEngine.current, stateRef.current, options);
+    return encodeWav(rendered, options.bitDepth);
+  }, []);
+
+  /**
+   * Render one WAV per channel, synth, mixer track and send channel and pack
+   * them into a ZIP archive with a manifest.json.
+   * @param onProgress  Called before each stem with (index, total)
+   */
+  const exportStems = useCallback(async (
+    options: RenderOptions,
+    onProgress?: (index: number, total: number) => void,
+  ): Promise<Blob> => {
+    const current = stateRef.current;
+    const sources = listStemSources(current, options);
+    if (sources.length === 0) throw new Error('Nothing to export');
+    const { startMeasure, endMeasure } = getRenderRange(current, options.loopRangeOnly);
+    const startOffset = getMeasureStartTime(current, startMeasure);
+
+    const entries: ZipEntry[] = [];
+    const stems: StemInfo[] = [];
+    let sampleRate = 0;
+    let length = 0;
+    for (let i = 0; i < sources.length; i++) {
+      const source = sources[i];
+      onProgress?.(i, sources.length);
+      const rendered = await renderSong(audioEngine.current, current, options, source);
+      sampleRate = rendered.sampleRate;
+      length = rendered.length;
+      const safeName = source.name.replace(/[^a-zA-Z0-9 _-]/g, '').trim() || source.kind;
+      const file = `${String(i + 1).padStart(2, '0')} ${safeName}.wav`;
+      const wav = encodeWav(rendered, options.bitDepth);
+      entries.push({ name: file, data: new Uint8Array(await wav.arrayBuffer()) });
+      stems.push({ file, name: source.name, kind: source.kind, sourceId: source.sourceId, startOffset });
+    }
+
+    const manifest: StemManifest = {
+      project: current.projectName,
+      bpm: current.bpm,
+      sampleRate,
+      bitDepth: options.bitDepth,
+      length,
+      startMeasure,
+      endMeasure,
+      stems,
+    };
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    return createZip(entries);
+  }, []);
+
+  /** Export the active pattern or the whole arrangement as a Standard MIDI File. */
+  const exportMidi = useCallback((scope: MidiExportScope): Blob => {
+    const s = stateRef.current;
+    if (scope === 'song') return exportSongMidi(s);
+    const pattern = getActivePattern(s);
+    if (!pattern) throw new Error('No active pattern');
+    return exportPatternMidi(s, pattern);
+  }, [getActivePattern]);
+
+  // -----------------------------------------------------------------------
+  // MIDI input
+  // -----------------------------------------------------------------------
+
+  const midiAccessRef = useRef<MIDIAccess | null>(null);
+  /**
+   * Keys currently held with the voice pool playing them (or whether the
+   * arpeggiator took them), and the step they started at when recording
+   */
+  const liveNotesRef = useRef(new Map<number, { poolId: string; arpeggiated: boolean; velocity: number; recordStart: number | null }>());
+  /** Notes kept sounding by the sustain pedal after their key was released */
+  const sustainedNotesRef = useRef<{ poolId: string; pitch: number; arpeggiated: boolean }[]>([]);
+  const liveArpRef = useRef<LiveArpeggiator | null>(null);
+
+  /** The live arpeggiator, playing into the active instrument channel */
+  const getLiveArpeggiator = useCallback((): LiveArpeggiator => {
+    liveArpRef.current ??= new LiveArpeggiator(audioEngine.current, () => {
+      const s = stateRef.current;
+      const pattern = s.patterns.find((p) => p.id === s.activePatternId);
+      if (!pattern) return null;
+      const channel = getActiveInstrumentChannel(pattern);
+      return {
+        poolId: channel.id,
+        volume: channel.volume,
+        bpm: s.bpm,
+        arpeggiator: channel.arpeggiator,
+        synthSettings: channel.synthSettings,
+        sampler: getChannelSampler(channel, s.samples),
+      };
+    });
+    return liveArpRef.current;
+  }, []);
+
+  const releaseLiveNote = useCallback((note: { poolId: string; arpeggiated: boolean }, pitch: number) => {
+    if (note.arpeggiated) getLiveArpeggiator().noteOff(pitch);
+    else audioEngine.current.noteOff(note.poolId, pitch);
+  }, [getLiveArpeggiator]);
+  const sustainPedalRef = useRef(false);
+
+  const setSnapResolution = useCallback((snapResolution: SnapResolution) => {
+    setState((prev) => ({ ...prev, snapResolution }));
+  }, []);
+
+  /** Request Web MIDI access and keep the input list in sync with connected devices. */
+  const enableMidiInput = useCallback(async (): Promise<void> => {
+    if (!isMidiSupported()) throw new Error('Web MIDI is not supported in this browser');
+    const access = await navigator.requestMIDIAccess();
+    midiAccessRef.current = access;
+    const refreshInputs = () => {
+      const inputs = listMidiInputs(access);
+      setState((prev) => ({
+        ...prev,
+        midiEnabled: true,
+        midiInputs: inputs,
+        midiInputId: inputs.some((i) => i.id === prev.midiInputId) ? prev.midiInputId : inputs[0]?.id ?? null,
+      }));
+    };
+    access.onstatechange = refreshInputs;
+    refreshInputs();
+  }, []);
+
+  const selectMidiInput = useCallback((midiInputId: string | null) => {
+    setState((prev) => ({ ...prev, midiInputId }));
+  }, []);
+
+  const toggleRecordArm = useCallback(() => {
+    setState((prev) => ({ ...prev, recordArmed: !prev.recordArmed }));
+  }, []);
+
+  /** Transport position in (fractional) steps while recording, or null when not recording. */
+  const getRecordPosition = useCallback((): number | null => {
+    const s = stateRef.current;
+    const playhead = playheadRef.current;
+    if (!s.recordArmed || !s.isPlaying || !playhead) return null;
+    const elapsed = audioEngine.current.getCurrentTime() - playhead.time;
+    return playhead.step + elapsed / getStepDuration(playhead.step, s.bpm, s.swing);
+  }, []);
+
+  /** Write a played note into the active instrument channel, quantized to the snap grid. */
+  const recordNote = useCallback((pitch: number, velocity: number, start: number, end: number) => {
+    const s = stateRef.current;
+    const pattern = getActivePattern(s);
+    if (!pattern) return;
+    const grid = snapStepSize(s.snapResolution) * TICKS_PER_STEP;
+    // The transport may have wrapped around between key down and key up
+    let length = end - start;
+    if (length < 0) length += getMeasureSteps(s);
+    const startTick = Math.round(Math.round((start * TICKS_PER_STEP) / grid) * grid) % (pattern.stepCount * TICKS_PER_STEP);
+    const durationTicks = Math.max(grid, Math.round(Math.round((length * TICKS_PER_STEP) / grid) * grid));
+
+    pushUndo();
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => {
+      const newEnd = startTick + durationTicks;
+      const filtered = channel.pianoRoll.notes.filter(
+        (n) => n.pitch !== pitch || n.startTick + n.durationTicks <= startTick || n.startTick >= newEnd,
+      );
+      const newNote: PianoNote = {
+        id: `note-${Date.now()}-${pitch}-${startTick}`,
+        pitch,
+        startTick,
+        durationTicks,
+        velocity,
+      };
+      return { ...channel, pianoRoll: { ...channel.pianoRoll, notes: [...filtered, newNote] } };
+    }));
+  }, [getActivePattern, pushUndo]);
+
+  const midiNoteOn = useCallback((pitch: number, velocity: number) => {
+    const liveNotes = liveNotesRef.current;
+    const previous = liveNotes.get(pitch);
+    if (previous) releaseLiveNote(previous, pitch);
+    // A key struck again while the pedal holds it replaces the sustained note
+    for (const note of sustainedNotesRef.current) {
+      if (note.pitch === pitch) releaseLiveNote(note, pitch);
+    }
+    sustainedNotesRef.current = sustainedNotesRef.current.filter((n) => n.pitch !== pitch);
+    const pattern = getActivePattern(stateRef.current);
+    if (!pattern) return;
+    const channel = getActiveInstrumentChannel(pattern);
+    const arpeggiated = channel.arpeggiator.enabled;
+    if (arpeggiated) {
+      getLiveArpeggiator().noteOn(pitch, velocity);
+    } else {
+      audioEngine.current.noteOn(
+        channel.id,
+        pitch,
+        velocity * channel.volume,
+        channel.synthSettings,
+        getChannelSampler(channel, stateRef.current.samples),
+      );
+    }
+    liveNotes.set(pitch, {
+      poolId: channel.id,
+      arpeggiated,
+      velocity,
+      recordStart: getRecordPosition(),
+    });
+  }, [getActivePattern, getRecordPosition, getLiveArpeggiator, releaseLiveNote]);
+
+  const midiNoteOff = useCallback((pitch: number) => {
+    const liveNotes = liveNotesRef.current;
+    const note = liveNotes.get(pitch);
+    if (!note) return;
+    liveNotes.delete(pitch);
+    if (note.recordStart !== null) {
+      const end = getRecordPosition();
+      if (end !== null) recordNote(pitch, note.velocity, note.recordStart, end);
+    }
+    if (sustainPedalRef.current) {
+      sustainedNotesRef.current.push({ poolId: note.poolId, pitch, arpeggiated: note.arpeggiated });
+    } else {
+      releaseLiveNote(note, pitch);
+    }
+  }, [getRecordPosition, recordNote, releaseLiveNote]);
+
+  const setSustainPedal = useCallback((down: boolean) => {
+    sustainPedalRef.current = down;
+    if (down) return;
+    for (const note of sustainedNotesRef.current) releaseLiveNote(note, note.pitch);
+    sustainedNotesRef.current = [];
+  }, [releaseLiveNote]);
+
+  const toggleMidiLearn = useCallback(() => {
+    setState((prev) => ({ ...prev, midiLearnActive: !prev.midiLearnActive, midiLearnPending: null }));
+  }, []);
+
+  /**
+   * Select the control the next moved controller gets mapped to.
+   * @param controlRange The control's own min/max, used for parameters without a known range
+   */
+  const setMidiLearnTarget = useCallback((target: MidiLearnTarget, controlRange?: { min: number; max: number }) => {
+    setState((prev) => ({
+      ...prev,
+      midiLearnPending: { target, ...getMidiLearnRange(target, controlRange) },
+    }));
+  }, []);
+
+  const updateMidiMapping = useCallback(
+    (mappingId: string, params: Partial<Pick<MidiMapping, 'min' | 'max' | 'curve'>>) => {
+      setState((prev) => ({
+        ...prev,
+        midiMappings: prev.midiMappings.map((m) => (m.id === mappingId ? { ...m, ...params } : m)),
+      }));
+    },
+    [],
+  );
+
+  const removeMidiMapping = useCallback((mappingId: string) => {
+    setState((prev) => ({
+      ...prev,
+      midiMappings: prev.midiMappings.filter((m) => m.id !== mappingId),
+    }));
+  }, []);
+
+  /** Bind a controller to the pending learn target; a controller drives one target at a time. */
+  const learnMidiController = useCallback((channel: number, controller: number) => {
+    setState((prev) => {
+      if (!prev.midiLearnPending) return prev;
+      const mapping: MidiMapping = {
+        id: `midimap-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        channel,
+        controller,
+        ...prev.midiLearnPending,
+      };
+      return {
+        ...prev,
+        midiMappings: [
+          ...prev.midiMappings.filter((m) => m.channel !== channel || m.controller !== controller),
+          mapping,
+        ],
+        midiLearnPending: null,
+      };
+    });
+  }, []);
+
+  /** Set the parameter a mapping targets, through the same actions the UI controls use. */
+  const applyMidiMapping = useCallback((mapping: MidiMapping, ccValue: number) => {
+    const value = getMidiMappingValue(mapping, ccValue);
+    const [kind, ...rest] = mapping.target.split(':');
+    const s = stateRef.current;
+    const pattern = getActivePattern(s);
+    switch (kind) {
+      case 'masterVolume':
+        setMasterVolume(value);
+        break;
+      case 'masterFilter':
+        setMasterFilter(rest[0] === 'cutoff' ? { cutoff: value } : { resonance: value });
+        break;
+      case 'channel': {
+        const [channelId, param] = rest;
+        // The mapping may have been learned on a channel of another pattern
+        const isInstrumentChannel = s.patterns.some((p) => p.instrumentChannels.some((c) => c.id === channelId));
+        const isDrumTrack = !isInstrumentChannel && s.patterns.some((p) => p.tracks.some((t) => t.id === channelId));
+        switch (param) {
+          case 'volume':
+            if (isDrumTrack) setTrackVolume(channelId, value);
+            else if (isInstrumentChannel) setInstrumentChannelVolume(channelId, value);
+            else setSampleTrackVolume(channelId, value);
+            break;
+          case 'pan':
+            if (isDrumTrack) setTrackPan(channelId, value);
+            else if (isInstrumentChannel) setInstrumentChannelPan(channelId, value);
+            else setSampleTrackPan(channelId, value);
+            break;
+          case 'reverbSend':
+            if (isDrumTrack) setTrackReverbSend(channelId, value);
+            else if (isInstrumentChannel) setInstrumentChannelReverbSend(channelId, value);
+            else setSampleTrackReverbSend(channelId, value);
+            break;
+          case 'delaySend':
+            if (isDrumTrack) setTrackDelaySend(channelId, value);
+            else if (isInstrumentChannel) setInstrumentChannelDelaySend(channelId, value);
+            else setSampleTrackDelaySend(channelId, value);
+            break;
+          case 'filterSend':
+            if (isDrumTrack) setTrackFilterSend(channelId, value);
+            else if (isInstrumentChannel) setInstrumentChannelFilterSend(channelId, value);
+            else setSampleTrackFilterSend(channelId, value);
+            break;
+        }
+        break;
+      }
+      case 'send':
+        setChannelSendLevel(rest[0], rest[1], value);
+        break;
+      case 'fx': {
+        const [channelId, effectId, param] = rest;
+        const params = { [param]: value } as Partial<InsertEffectParams>;
+        if (s.sendChannels.some((sc) => sc.id === channelId)) {
+          updateSendChannelInsertEffectParams(channelId, effectId, params);
+        } else {
+          updateInsertEffectParams(channelId, effectId, params);
+        }
+        break;
+      }
+      case 'synth': {
+        if (!pattern) break;
+        const [field, subField] = rest[0].split('.');
+        if (subField && (field === 'lfo1' || field === 'lfo2' || field === 'osc1Mode' || field === 'osc2Mode' || field === 'osc3Mode')) {
+          setSynthSettings({ [field]: { ...getActiveInstrumentChannel(pattern).synthSettings[field], [subField]: value } });
+        } else {
+          setSynthSettings({ [field]: value } as Partial<SynthSettings>);
+        }
+        break;
+      }
+    }
+  }, [
+    getActivePattern, setMasterVolume, setMasterFilter, setTrackVolume, setTrackPan,
+    setTrackReverbSend, setTrackDelaySend, setTrackFilterSend, setSampleTrackVolume,
+    setSampleTrackPan, setSampleTrackReverbSend, setSampleTrackDelaySend, setSampleTrackFilterSend,
+    setInstrumentChannelVolume, setInstrumentChannelPan, setInstrumentChannelReverbSend,
+    setInstrumentChannelDelaySend, setInstrumentChannelFilterSend, setChannelSendLevel, updateInsertEffectParams, updateSendChannelInsertEffectParams, setSynthSettings,
+  ]);
+
+  const midiControlChange = useCallback((channel: number, controller: number, value: number) => {
+    const s = stateRef.current;
+    if (s.midiLearnActive && s.midiLearnPending) {
+      learnMidiController(channel, controller);
+      return;
+    }
+    const mapping = s.midiMappings.find((m) => m.channel === channel && m.controller === controller);
+    if (mapping) {
+      applyMidiMapping(mapping, value);
+    } else if (controller === SUSTAIN_PEDAL_CONTROLLER) {
+      // A mapping takes precedence over the sustain pedal and mod wheel
+      setSustainPedal(value >= 64);
+    } else if (controller === MOD_WHEEL_CONTROLLER) {
+      audioEngine.current.setModWheel(value / 127);
+    }
+  }, [learnMidiController, applyMidiMapping, setSustainPedal]);
+
+  // Listen to the selected MIDI input
+  useEffect(() => {
+    const input = state.midiInputId ? midiAccessRef.current?.inputs.get(state.midiInputId) : undefined;
+    if (!input) return;
+    const liveNotes = liveNotesRef.current;
+    const engine = audioEngine.current;
+    const liveArp = getLiveArpeggiator();
+
+    input.onmidimessage = (e) => {
+      if (!e.data) return;
+      const message = parseMidiMessage(e.data);
+      if (!message) return;
+      switch (message.type) {
+        case 'noteOn':
+          midiNoteOn(message.note, message.velocity / 127);
+          break;
+        case 'noteOff':
+          midiNoteOff(message.note);
+          break;
+        case 'controlChange':
+          midiControlChange(message.channel, message.controller, message.value);
+          break;
+      }
+    };
+
+    return () => {
+      input.onmidimessage = null;
+      // Don't leave notes hanging when the input goes away
+      for (const [pitch, note] of liveNotes) {
+        if (!note.arpeggiated) engine.noteOff(note.poolId, pitch);
+      }
+      liveArp.stop();
+      liveNotes.clear();
+      setSustainPedal(false);
+    };
+  }, [state.midiInputId, state.midiInputs, midiNoteOn, midiNoteOff, midiControlChange, setSustainPedal, getLiveArpeggiator]);
+
+  // -----------------------------------------------------------------------
+  // MIDI import
+  // -----------------------------------------------------------------------
+
+  /**
+   * Create patterns from the selected parts of a MIDI file: one per distinct
+   * bar, optionally laid out on a new arrangement track. The file's tempo
+   * replaces the project tempo.
+   * @returns Number of patterns created
+   */
+  const importMidi = useCallback(
+    (source: MidiImportSource, options: MidiImportOptions, name: string): number => {
+      const { stepsPerBar, bars, measures } = buildMidiImport(source, options);
+      if (bars.length === 0) throw new Error('No notes to import');
+      pushUndo();
+      const bpm = source.bpm !== null ? Math.max(40, Math.min(300, Math.round(source.bpm))) : null;
+      // Drums without a stock channel get one new channel shared by all imported patterns
+      const stockModels = new Set(createDefaultTracks().map((t) => t.model));
+      const extraDrums = [...new Set(bars.flatMap((bar) => Object.keys(bar.drums) as DrumModel[]))]
+        .filter((model) => !stockModels.has(model))
+        .map((model) => ({ id: `dtrack-${Date.now()}-${model}`, model }));
+      for (const { id } of extraDrums) audioEngine.current.ensureDrumChannel(id);
+
+      setState((prev) => {
+        const newPatterns = bars.map((bar, i): Pattern => {
+          const pattern = createPattern(prev.patterns.length + i);
+          return {
+            ...pattern,
+            name: bars.length > 1 ? `${name} ${i + 1}` : name,
+            stepCount: stepsPerBar,
+            tracks: [
+              ...createDefaultTracks(stepsPerBar).map((t) => ({
+                ...t,
+                steps: bar.drums[t.model] ?? t.steps,
+              })),
+              ...extraDrums.map(({ id, model }) => ({
+                ...createDrumTrack(id, DRUM_MODEL_LABELS[model], model, stepsPerBar),
+                steps: bar.drums[model] ?? Array(stepsPerBar).fill(0),
+              })),
+            ],
+            instrumentChannels: [{
+              ...pattern.instrumentChannels[0],
+              pianoRoll: {
+                notes: bar.notes.map((n, j) => clampToPattern({
+                  ...n,
+                  id: `note-${Date.now()}-${i}-${j}-${n.pitch}-${n.startTick}`,
+                }, stepsPerBar * TICKS_PER_STEP)),
+              },
+            }],
+          };
+        });
+
+        let arrangement = prev.arrangement;
+        let arrangementLength = prev.arrangementLength;
+        if (options.addToArrangement) {
+          // Merge runs of the same bar into one block; the arrangement holds 64 measures
+          const blocks: ArrangementBlock[] = [];
+          measures.slice(0, 64).forEach((barIndex, measure) => {
+            if (barIndex < 0) return;
+            const patternId = newPatterns[barIndex].id;
+            const last = blocks[blocks.length - 1];
+            if (last && last.patternId === patternId && last.startMeasure + last.duration === measure) {
+              last.duration++;
+            } else {
+              blocks.push({ patternId, startMeasure: measure, duration: 1 });
+            }
+          });
+          const newTrack: ArrangementTrack = {
+            id: `arr-track-${Date.now()}`,
+            name,
+            blocks,
+            audioClips: [],
+            automationClips: [],
+            muted: false,
+          };
+          arrangement = [...prev.arrangement, newTrack];
+          arrangementLength = Math.max(arrangementLength, Math.min(64, measures.length));
+        }
+
+        if (bpm !== null) {
+          audioEngine.current.setDelayBpm(bpm, prev.masterDelay.sync);
+          audioEngine.current.setTempo(bpm);
+        }
+        return {
+          ...prev,
+          bpm: bpm ?? prev.bpm,
+          patterns: [...prev.patterns, ...newPatterns],
+          activePatternId: newPatterns[0].id,
+          arrangement,
+          arrangementLength,
+        };
+      });
+      return bars.length;
+    },
+    [pushUndo],
+  );
+
   // -----------------------------------------------------------------------
   // Synth presets
   // -----------------------------------------------------------------------
@@ -3036,13 +4188,14 @@ function useSequencer() {
   const savePreset = useCallback(async (name: string): Promise<SynthPreset> => {
     const activeP = getActivePattern(stateRef.current);
     if (!activeP) throw new Error('No active pattern');
+    const channel = getActiveInstrumentChannel(activeP);
     const id = `preset-${Date.now()}`;
     const preset: SynthPreset = {
       id,
       name,
       createdAt: '',
       updatedAt: '',
-      settings: { ...activeP.synthSettings },
+      settings: { ...channel.synthSettings },
     };
     const res = await fetch(`${API_BASE}/api/presets/${id}`, {
       method: 'PUT',
@@ -3050,6 +4203,19 @@ function useSequencer() {
       body: JSON.stringify(preset),
     });
     if (!res.ok) throw new Error('Failed to save preset');
+    setState((prev) => ({
+      ...prev,
+      patterns: prev.patterns.map((pattern) =>
+        pattern.id === activeP.id
+          ? {
+              ...pattern,
+              instrumentChannels: pattern.instrumentChannels.map((c) =>
+                c.id === channel.id ? { ...c, synthPresetId: id } : c,
+              ),
+            }
+          : pattern,
+      ),
+    }));
     return { ...preset, ...(await res.json()) };
   }, [API_BASE]);
 
@@ -3058,14 +4224,11 @@ function useSequencer() {
     if (!res.ok) throw new Error('Failed to load preset');
     const preset: SynthPreset = await res.json();
     pushUndo();
-    setState((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((pattern) =>
-        pattern.id === prev.activePatternId
-          ? { ...pattern, synthSettings: { ...pattern.synthSettings, ...preset.settings } }
-          : pattern,
-      ),
-    }));
+    setState((prev) => updateActiveInstrumentChannel(prev, (channel) => ({
+      ...channel,
+      synthSettings: withSynthDefaults(preset.settings),
+      synthPresetId: preset.id,
+    })));
   }, [API_BASE, pushUndo]);
 
   const deletePreset = useCallback(async (id: string): Promise<void> => {
@@ -3077,12 +4240,14 @@ function useSequencer() {
   const activePattern = getActivePattern(state);
   const tracks = activePattern?.tracks ?? [];
   const sampleTracks = activePattern?.sampleTracks ?? [];
+  const activeInstrumentChannel = activePattern ? getActiveInstrumentChannel(activePattern) : undefined;
 
   return {
     state,
     tracks,
     sampleTracks,
     activePattern,
+    activeInstrumentChannel,
     audioEngine: audioEngine.current,
     undo,
     redo,
@@ -3095,6 +4260,10 @@ function useSequencer() {
     setBpm,
     setTrackVolume,
     setTrackPan,
+    setTrackDrumSynth,
+    addDrumTrack,
+    removeDrumTrack,
+    setDrumTrackModel,
     toggleMute,
     toggleSolo,
     clearTrack,
@@ -3105,14 +4274,31 @@ function useSequencer() {
     renamePattern,
     duplicatePattern,
     addPianoNote,
+    addPianoChord,
     deletePianoNote,
     updatePianoNote,
     slicePianoNote,
     previewPianoNote,
+    previewNoteOn,
+    previewNoteOff,
     movePianoNotes,
     pastePianoNotes,
     updatePianoNoteVelocity,
+    updatePianoNoteExpression,
+    setPianoNotesSlide,
+    transformPianoNotes,
     clearPianoRoll,
+    addInstrumentChannel,
+    removeInstrumentChannel,
+    selectInstrumentChannel,
+    renameInstrumentChannel,
+    setInstrumentChannelVolume,
+    setInstrumentChannelPan,
+    toggleInstrumentChannelMute,
+    toggleInstrumentChannelSolo,
+    setInstrumentChannelReverbSend,
+    setInstrumentChannelDelaySend,
+    setInstrumentChannelFilterSend,
     toggleArrangementBlock,
     placeArrangementBlock,
     resizeArrangementBlock,
@@ -3141,6 +4327,18 @@ function useSequencer() {
     setMasterFilter,
     setMasterLimiter,
     setSynthSettings,
+    addModRoute,
+    updateModRoute,
+    removeModRoute,
+    loadWavetable,
+    setChannelInstrument,
+    setSamplerSettings,
+    addSamplerZone,
+    updateSamplerZone,
+    removeSamplerZone,
+    importSamplerInstrument,
+    setArpeggiator,
+    setPatternScale,
     // Sample management
     loadSample,
     previewSample,
@@ -3213,7 +4411,24 @@ function useSequencer() {
     loadProject,
     listProjects,
     deleteProject: deleteProject,
+    exportProjectBundle,
+    importProjectBundle,
     setProjectName,
+    // Export
+    exportSong,
+    exportStems,
+    exportMidi,
+    // MIDI import
+    importMidi,
+    // MIDI input
+    setSnapResolution,
+    enableMidiInput,
+    selectMidiInput,
+    toggleRecordArm,
+    toggleMidiLearn,
+    setMidiLearnTarget,
+    updateMidiMapping,
+    removeMidiMapping,
     // Synth presets
     listPresets,
     savePreset,
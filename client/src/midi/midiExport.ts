@@ -0,0 +1,224 @@
+import type { DrumModel, InstrumentChannel, Pattern, SequencerState } from '../types';
+import { PPQ } from '../types';
+import { getMeasureSteps } from '../audio/sequencePlayback';
+import { MIDI_PPQ, encodeMidiFile } from './smf';
+import type { MidiEvent, MidiTrack } from './smf';
+
+/** General MIDI percussion key for each drum model */
+export const GM_DRUM_NOTES: Record<DrumModel, number> = {
+  kick: 36, // Bass Drum 1
+  snare: 38, // Acoustic Snare
+  hat: 42, // Closed Hi-Hat
+  openHat: 46, // Open Hi-Hat
+  clap: 39, // Hand Clap
+  tom: 45, // Low Tom
+  rim: 37, // Side Stick
+  cowbell: 56, // Cowbell
+  noise: 54, // Tambourine
+  fmPerc: 76, // Hi Wood Block
+};
+
+/** MIDI channel reserved for percussion (channel 10) */
+export const GM_DRUM_CHANNEL = 9;
+
+const TICKS_PER_STEP = MIDI_PPQ / 4;
+
+/** Drum hits have no length of their own; they are written as one step long */
+const DRUM_NOTE_TICKS = TICKS_PER_STEP;
+
+/**
+ * Tick offset of a step from the start of its measure, shifted by swing the
+ * same way as getStepDuration: odd 16ths start later within each 8th pair.
+ */
+function getStepTick(step: number, swing: number): number {
+  const eighthTicks = TICKS_PER_STEP * 2;
+  const pairStart = Math.floor(step / 2) * eighthTicks;
+  if (step % 2 === 0) return pairStart;
+  return pairStart + Math.round(eighthTicks * (0.5 + swing * (1 / 6)));
+}
+
+/** Convert project ticks (PPQ) to file ticks (MIDI_PPQ) */
+function toFileTicks(ticks: number): number {
+  return Math.round((ticks * MIDI_PPQ) / PPQ);
+}
+
+function toMidiVelocity(velocity: number): number {
+  return Math.min(127, Math.max(1, Math.round(velocity * 127)));
+}
+
+function getTrackName(text: string): MidiEvent {
+  return { tick: 0, type: 'trackName', text };
+}
+
+/** Melodic channel for the nth synth part, skipping the drum channel */
+function getSynthChannel(index: number): number {
+  const channel = index % 15;
+  return channel >= GM_DRUM_CHANNEL ? channel + 1 : channel;
+}
+
+/** Note events of an instrument channel, written to a track of their own */
+interface InstrumentPart {
+  name: string;
+  midiChannel: number;
+  events: MidiEvent[];
+}
+
+/** The part of an instrument channel, given the next melodic MIDI channel on first use */
+function getInstrumentPart(parts: Map<string, InstrumentPart>, pattern: Pattern, channel: InstrumentChannel): InstrumentPart {
+  let part = parts.get(channel.id);
+  if (!part) {
+    part = { name: `${pattern.name} ${channel.name}`, midiChannel: getSynthChannel(parts.size), events: [] };
+    parts.set(channel.id, part);
+  }
+  return part;
+}
+
+/**
+ * Append one pass of a pattern to the instrument parts and drum event list.
+ * @param startTick  Tick of the measure the pattern starts on
+ * @param steps      Steps of the pattern that are played
+ * @param parts      Parts by instrument channel ID
+ */
+function addPatternEvents(
+  pattern: Pattern,
+  startTick: number,
+  steps: number,
+  swing: number,
+  parts: Map<string, InstrumentPart>,
+  drumEvents: MidiEvent[],
+): void {
+  const anySoloed = pattern.tracks.some((t) => t.solo);
+  for (const track of pattern.tracks) {
+    if (track.muted || (anySoloed && !track.solo)) continue;
+    const note = GM_DRUM_NOTES[track.model];
+    for (let step = 0; step < steps; step++) {
+      const velocity = track.steps[step];
+      if (!(velocity > 0)) continue;
+      const tick = startTick + getStepTick(step, swing);
+      drumEvents.push(
+        { tick, type: 'noteOn', channel: GM_DRUM_CHANNEL, note, velocity: toMidiVelocity(velocity) },
+        { tick: tick + DRUM_NOTE_TICKS, type: 'noteOff', channel: GM_DRUM_CHANNEL, note, velocity: 0 },
+      );
+    }
+  }
+
+  const anyChannelSoloed = pattern.instrumentChannels.some((c) => c.solo);
+  for (const channel of pattern.instrumentChannels) {
+    if (channel.muted || (anyChannelSoloed && !channel.solo)) continue;
+    for (const note of channel.pianoRoll.notes) {
+      const noteStart = toFileTicks(note.startTick);
+      const step = Math.floor(noteStart / TICKS_PER_STEP);
+      if (step >= steps) continue;
+      const { midiChannel, events } = getInstrumentPart(parts, pattern, channel);
+      // Off-grid onsets keep their place within the (swung) step
+      const stepTick = getStepTick(step, swing);
+      const swungStep = getStepTick(step + 1, swing) - stepTick;
+      const tick = startTick + stepTick + Math.round(((noteStart - step * TICKS_PER_STEP) * swungStep) / TICKS_PER_STEP);
+      // Like playback, only the onset swings; the length stays straight
+      events.push(
+        { tick, type: 'noteOn', channel: midiChannel, note: note.pitch, velocity: toMidiVelocity(note.velocity) },
+        { tick: tick + toFileTicks(note.durationTicks), type: 'noteOff', channel: midiChannel, note: note.pitch, velocity: 0 },
+      );
+    }
+  }
+}
+
+/** Conductor track: song name, tempo and meter */
+function getConductorTrack(name: string, bpm: number, measureSteps: number): MidiTrack {
+  const timeSignature = measureSteps % 4 === 0
+    ? { numerator: measureSteps / 4, denominator: 4 }
+    : { numerator: measureSteps, denominator: 16 };
+  return {
+    events: [
+      getTrackName(name),
+      { tick: 0, type: 'tempo', bpm },
+      { tick: 0, type: 'timeSignature', ...timeSignature },
+    ],
+  };
+}
+
+/**
+ * End every note no later than the next note-on of the same channel and
+ * pitch (in any track), so swung onsets with straight lengths don't cut a
+ * following hit short. Each note-off must directly follow its note-on.
+ */
+function clampNoteOffs(tracks: MidiTrack[]): void {
+  const onsets = new Map<string, number[]>();
+  for (const { events } of tracks) {
+    for (const event of events) {
+      if (event.type !== 'noteOn') continue;
+      const key = `${event.channel}:${event.note}`;
+      const ticks = onsets.get(key);
+      if (ticks) ticks.push(event.tick);
+      else onsets.set(key, [event.tick]);
+    }
+  }
+  for (const ticks of onsets.values()) ticks.sort((a, b) => a - b);
+
+  for (const { events } of tracks) {
+    events.forEach((event, i) => {
+      const on = events[i - 1];
+      if (event.type !== 'noteOff' || on?.type !== 'noteOn') return;
+      const next = onsets.get(`${event.channel}:${event.note}`)!.find((tick) => tick > on.tick);
+      if (next !== undefined && next < event.tick) event.tick = next;
+    });
+  }
+}
+
+/**
+ * Export one pass of a pattern: a track per instrument channel and a drum
+ * track (channel 10).
+ */
+export function exportPatternMidi(state: SequencerState, pattern: Pattern): Blob {
+  const parts = new Map<string, InstrumentPart>();
+  const drumEvents: MidiEvent[] = [];
+  addPatternEvents(pattern, 0, pattern.stepCount, state.swing, parts, drumEvents);
+
+  const tracks: MidiTrack[] = [getConductorTrack(pattern.name, state.bpm, pattern.stepCount)];
+  for (const part of parts.values()) tracks.push({ events: [getTrackName(part.name), ...part.events] });
+  if (drumEvents.length > 0) tracks.push({ events: [getTrackName(`${pattern.name} Drums`), ...drumEvents] });
+  clampNoteOffs(tracks);
+  return encodeMidiFile({ format: 1, ppq: MIDI_PPQ, tracks });
+}
+
+/**
+ * Export the whole arrangement with every pattern placed at its block
+ * positions. Each instrument channel of an arranged pattern gets its own
+ * track, and each arranged pattern a drum track.
+ */
+export function exportSongMidi(state: SequencerState): Blob {
+  const measureSteps = getMeasureSteps(state);
+  const measureTicks = getStepTick(measureSteps, 0);
+  const instrumentParts = new Map<string, InstrumentPart>();
+  const drumParts = new Map<string, MidiEvent[]>();
+
+  for (let measure = 0; measure < state.arrangementLength; measure++) {
+    for (const arrTrack of state.arrangement) {
+      if (arrTrack.muted) continue;
+      for (const block of arrTrack.blocks) {
+        const blockEnd = block.startMeasure + (block.duration ?? 1);
+        if (measure < block.startMeasure || measure >= blockEnd) continue;
+        const pattern = state.patterns.find((p) => p.id === block.patternId);
+        if (!pattern) continue;
+
+        let drums = drumParts.get(pattern.id);
+        if (!drums) {
+          drums = [];
+          drumParts.set(pattern.id, drums);
+        }
+        // Every measure restarts the pattern, cut to the song's measure length
+        const steps = Math.min(pattern.stepCount, measureSteps);
+        addPatternEvents(pattern, measure * measureTicks, steps, state.swing, instrumentParts, drums);
+      }
+    }
+  }
+
+  const tracks: MidiTrack[] = [getConductorTrack(state.projectName, state.bpm, measureSteps)];
+  for (const part of instrumentParts.values()) tracks.push({ events: [getTrackName(part.name), ...part.events] });
+  for (const [patternId, drums] of drumParts) {
+    const pattern = state.patterns.find((p) => p.id === patternId)!;
+    if (drums.length > 0) tracks.push({ events: [getTrackName(`${pattern.name} Drums`), ...drums] });
+  }
+  clampNoteOffs(tracks);
+  return encodeMidiFile({ format: 1, ppq: MIDI_PPQ, tracks });
+}
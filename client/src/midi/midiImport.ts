@@ -0,0 +1,240 @@
+import type { DrumModel, MidiImportOptions } from '../types';
+import { TICKS_PER_STEP } from '../types';
+import { GM_DRUM_CHANNEL, GM_DRUM_NOTES } from './midiExport';
+import type { MidiFile } from './smf';
+
+/** Steps per bar when the file has no time signature (4/4 in 16ths) */
+const DEFAULT_STEPS_PER_BAR = 16;
+
+/** Longest pattern the step sequencer supports */
+const MAX_STEPS_PER_BAR = 64;
+
+/** Pitch range shown by the piano roll; imported notes are folded into it by octaves */
+const PIANO_ROLL_LOW = 36;
+const PIANO_ROLL_HIGH = 83;
+
+/** GM percussion keys without an exact drum model, mapped to the closest one */
+const GM_DRUM_FALLBACKS: Record<number, DrumModel> = {
+  35: 'kick', // Acoustic Bass Drum
+  40: 'snare', // Electric Snare
+  41: 'tom', // Low Floor Tom
+  43: 'tom', // High Floor Tom
+  44: 'hat', // Pedal Hi-Hat
+  47: 'tom', // Low-Mid Tom
+  48: 'tom', // Hi-Mid Tom
+  49: 'openHat', // Crash Cymbal 1
+  50: 'tom', // High Tom
+  51: 'openHat', // Ride Cymbal 1
+  52: 'openHat', // Chinese Cymbal
+  55: 'openHat', // Splash Cymbal
+  57: 'openHat', // Crash Cymbal 2
+  59: 'openHat', // Ride Cymbal 2
+  69: 'noise', // Cabasa
+  70: 'noise', // Maracas
+};
+
+const DRUMS_BY_NOTE = new Map<number, DrumModel>(
+  (Object.entries(GM_DRUM_NOTES) as [DrumModel, number][]).map(([model, note]) => [note, model]),
+);
+
+/** Drum model for a GM percussion key; anything unknown plays as FM perc. */
+function getDrumModel(note: number): DrumModel {
+  return DRUMS_BY_NOTE.get(note) ?? GM_DRUM_FALLBACKS[note] ?? 'fmPerc';
+}
+
+/** A note of a MIDI file in file ticks */
+interface MidiSourceNote {
+  tick: number;
+  durationTicks: number;
+  pitch: number;
+  /** Velocity 0–1 */
+  velocity: number;
+}
+
+/** Notes of one channel of one MIDI track, selectable for import */
+export interface MidiImportPart {
+  name: string;
+  channel: number;
+  /** Channel 10 parts are imported as drum steps */
+  isDrum: boolean;
+  notes: MidiSourceNote[];
+}
+
+/** A parsed MIDI file ready for track selection */
+export interface MidiImportSource {
+  ppq: number;
+  /** Tempo of the first tempo event, if any */
+  bpm: number | null;
+  /** Bar length from the first time signature */
+  stepsPerBar: number;
+  parts: MidiImportPart[];
+}
+
+/** Drum steps and piano roll notes of one imported bar */
+export interface ImportedBar {
+  drums: Partial<Record<DrumModel, number[]>>;
+  notes: { pitch: number; startTick: number; durationTicks: number; velocity: number }[];
+}
+
+export interface MidiImportResult {
+  stepsPerBar: number;
+  /** Distinct bars; each becomes a pattern */
+  bars: ImportedBar[];
+  /** Index into `bars` for every measure of the file, -1 for empty measures */
+  measures: number[];
+}
+
+/** Split a MIDI file into parts (one per track and channel) with paired note on/off events. */
+export function analyzeMidiFile(file: MidiFile): MidiImportSource {
+  let bpm: number | null = null;
+  let stepsPerBar = DEFAULT_STEPS_PER_BAR;
+  let hasTimeSignature = false;
+  const parts: MidiImportPart[] = [];
+
+  file.tracks.forEach((track, trackIndex) => {
+    let trackName = '';
+    const byChannel = new Map<number, MidiSourceNote[]>();
+    // Open notes per channel and key, ended first-in first-out
+    const open = new Map<string, { tick: number; velocity: number }[]>();
+    let lastTick = 0;
+
+    for (const event of track.events) {
+      lastTick = Math.max(lastTick, event.tick);
+      switch (event.type) {
+        case 'tempo':
+          bpm ??= event.bpm;
+          break;
+        case 'timeSignature':
+          if (!hasTimeSignature) {
+            hasTimeSignature = true;
+            const steps = Math.round((event.numerator * 16) / event.denominator);
+            stepsPerBar = Math.max(1, Math.min(MAX_STEPS_PER_BAR, steps));
+          }
+          break;
+        case 'trackName':
+          trackName ||= event.text.trim();
+          break;
+        case 'noteOn': {
+          const key = `${event.channel}:${event.note}`;
+          const stack = open.get(key) ?? [];
+          stack.push({ tick: event.tick, velocity: event.velocity / 127 });
+          open.set(key, stack);
+          break;
+        }
+        case 'noteOff': {
+          const start = open.get(`${event.channel}:${event.note}`)?.shift();
+          if (!start) break;
+          const notes = byChannel.get(event.channel) ?? [];
+          notes.push({ tick: start.tick, durationTicks: event.tick - start.tick, pitch: event.note, velocity: start.velocity });
+          byChannel.set(event.channel, notes);
+          break;
+        }
+      }
+    }
+
+    // Notes never released last until the end of the track
+    for (const [key, stack] of open) {
+      const [channel, pitch] = key.split(':').map(Number);
+      const notes = byChannel.get(channel) ?? [];
+      for (const start of stack) {
+        notes.push({ tick: start.tick, durationTicks: lastTick - start.tick, pitch, velocity: start.velocity });
+      }
+      byChannel.set(channel, notes);
+    }
+
+    const baseName = trackName || `Track ${trackIndex + 1}`;
+    for (const [channel, notes] of [...byChannel].sort((a, b) => a[0] - b[0])) {
+      notes.sort((a, b) => a.tick - b.tick || a.pitch - b.pitch);
+      parts.push({
+        name: byChannel.size > 1 ? `${baseName} (Ch ${channel + 1})` : baseName,
+        channel,
+        isDrum: channel === GM_DRUM_CHANNEL,
+        notes,
+      });
+    }
+  });
+
+  return { ppq: file.ppq, bpm, stepsPerBar, parts };
+}
+
+/** Transpose by octaves until the pitch is inside the piano roll range. */
+function foldPitch(pitch: number): number {
+  let folded = pitch;
+  while (folded < PIANO_ROLL_LOW) folded += 12;
+  while (folded > PIANO_ROLL_HIGH) folded -= 12;
+  return folded;
+}
+
+/**
+ * Quantize the selected parts to the step grid and cut them into bars.
+ * With quantize off, notes keep their timing at tick resolution; drum
+ * hits always land on a step. Identical bars are shared so a repeating
+ * loop becomes one pattern.
+ */
+export function buildMidiImport(source: MidiImportSource, options: MidiImportOptions): MidiImportResult {
+  const { stepsPerBar } = source;
+  const ticksPerStep = source.ppq / 4;
+  const barTicks = stepsPerBar * TICKS_PER_STEP;
+  const grid = options.quantize;
+  const drumGrid = Math.max(1, grid);
+  const barsByMeasure: ImportedBar[] = [];
+
+  const getBar = (measure: number): ImportedBar => {
+    barsByMeasure[measure] ??= { drums: {}, notes: [] };
+    return barsByMeasure[measure];
+  };
+
+  for (const index of options.partIndexes) {
+    const part = source.parts[index];
+    if (!part) continue;
+    for (const note of part.notes) {
+      const exactStep = note.tick / ticksPerStep;
+
+      if (part.isDrum) {
+        const absoluteStep = Math.round(exactStep / drumGrid) * drumGrid;
+        const step = absoluteStep % stepsPerBar;
+        const bar = getBar(Math.floor(absoluteStep / stepsPerBar));
+        const model = getDrumModel(note.pitch);
+        const steps = bar.drums[model] ?? Array(stepsPerBar).fill(0);
+        steps[step] = Math.max(steps[step], note.velocity);
+        bar.drums[model] = steps;
+        continue;
+      }
+
+      const absoluteTick = grid > 0
+        ? Math.round(exactStep / grid) * grid * TICKS_PER_STEP
+        : Math.round(exactStep * TICKS_PER_STEP);
+      const startTick = absoluteTick % barTicks;
+      const bar = getBar(Math.floor(absoluteTick / barTicks));
+      const pitch = foldPitch(note.pitch);
+      const exactLength = note.durationTicks / ticksPerStep;
+      const durationTicks = grid > 0
+        ? Math.max(1, Math.round(exactLength / grid)) * grid * TICKS_PER_STEP
+        : Math.max(1, Math.round(exactLength * TICKS_PER_STEP));
+      // Keep one note per pitch and start (the louder one)
+      const existing = bar.notes.find((n) => n.pitch === pitch && n.startTick === startTick);
+      if (existing) {
+        if (note.velocity > existing.velocity) Object.assign(existing, { durationTicks, velocity: note.velocity });
+      } else {
+        bar.notes.push({ pitch, startTick, durationTicks, velocity: note.velocity });
+      }
+    }
+  }
+
+  const bars: ImportedBar[] = [];
+  const barKeys = new Map<string, number>();
+  const measures = Array.from(barsByMeasure, (bar) => {
+    if (!bar) return -1;
+    bar.notes.sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch);
+    const key = JSON.stringify([Object.entries(bar.drums).sort(), bar.notes]);
+    let barIndex = barKeys.get(key);
+    if (barIndex === undefined) {
+      barIndex = bars.length;
+      bars.push(bar);
+      barKeys.set(key, barIndex);
+    }
+    return barIndex;
+  });
+
+  return { stepsPerBar, bars, measures };
+}
@@ -0,0 +1,52 @@
+import type { MidiInputDevice } from '../types';
+
+/**
+ * Web MIDI input helpers: port listing and decoding of the channel messages
+ * the sequencer reacts to.
+ */
+
+/** Controller number of the sustain (damper) pedal */
+export const SUSTAIN_PEDAL_CONTROLLER = 64;
+/** Controller number of the modulation wheel */
+export const MOD_WHEEL_CONTROLLER = 1;
+
+export type MidiInputMessage =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { type: 'noteOff'; channel: number; note: number }
+  | { type: 'controlChange'; channel: number; controller: number; value: number };
+
+/** Decode a raw MIDI message; returns null for messages the sequencer ignores. */
+export function parseMidiMessage(data: Uint8Array): MidiInputMessage | null {
+  if (data.length < 3) return null;
+  const kind = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  switch (kind) {
+    case 0x90:
+      // Note-on with velocity 0 is a note-off
+      return data[2] > 0
+        ? { type: 'noteOn', channel, note: data[1], velocity: data[2] }
+        : { type: 'noteOff', channel, note: data[1] };
+    case 0x80:
+      return { type: 'noteOff', channel, note: data[1] };
+    case 0xb0:
+      return { type: 'controlChange', channel, controller: data[1], value: data[2] };
+    default:
+      return null;
+  }
+}
+
+/** Input ports currently connected to the browser. */
+export function listMidiInputs(access: MIDIAccess): MidiInputDevice[] {
+  const inputs: MidiInputDevice[] = [];
+  access.inputs.forEach((input) => {
+    if (input.state === 'connected') {
+      inputs.push({ id: input.id, name: input.name || input.manufacturer || 'MIDI Input' });
+    }
+  });
+  return inputs;
+}
+
+/** Whether the browser supports Web MIDI. */
+export function isMidiSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+}
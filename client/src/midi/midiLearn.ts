@@ -0,0 +1,136 @@
+import type { MidiLearnTarget, MidiMapping, MidiMappingCurve, SequencerState } from '../types';
+
+/**
+ * MIDI learn: default ranges and labels of mappable controls, and the
+ * conversion of controller values into parameter values.
+ *
+ * Controls opt in with a `data-midi-learn` attribute holding their
+ * MidiLearnTarget; App turns clicks on them into learn targets while learn mode is on.
+ */
+
+interface ParamRange {
+  min: number;
+  max: number;
+  curve?: MidiMappingCurve;
+  step?: number;
+}
+
+/** Ranges of the synth panel controls, in SynthSettings units */
+const SYNTH_RANGES: Record<string, ParamRange> = {
+  oscOctave: { min: -2, max: 2, step: 1 },
+  osc2Octave: { min: -2, max: 2, step: 1 },
+  osc2Detune: { min: 0, max: 100, step: 1 },
+  osc2Mix: { min: 0, max: 1 },
+  osc3Octave: { min: -2, max: 2, step: 1 },
+  osc3Detune: { min: 0, max: 100, step: 1 },
+  osc3Mix: { min: 0, max: 1 },
+  'osc1Mode.wtPosition': { min: 0, max: 1 },
+  'osc2Mode.wtPosition': { min: 0, max: 1 },
+  'osc3Mode.wtPosition': { min: 0, max: 1 },
+  wtEnvAmount: { min: -1, max: 1 },
+  filterCutoff: { min: 20, max: 20000, curve: 'exponential', step: 1 },
+  filterResonance: { min: 0.1, max: 25 },
+  filterDrive: { min: 0, max: 1 },
+  filterKeyTrack: { min: 0, max: 1 },
+  filter2Cutoff: { min: 20, max: 20000, curve: 'exponential', step: 1 },
+  filter2Resonance: { min: 0.1, max: 25 },
+  filterEnvAttack: { min: 0.001, max: 2 },
+  filterEnvDecay: { min: 0.001, max: 2 },
+  filterEnvSustain: { min: 0, max: 1 },
+  filterEnvRelease: { min: 0.001, max: 2 },
+  filterEnvAmount: { min: 0, max: 100, step: 1 },
+  modEnvAttack: { min: 0.001, max: 2 },
+  modEnvDecay: { min: 0.001, max: 2 },
+  modEnvSustain: { min: 0, max: 1 },
+  modEnvRelease: { min: 0.001, max: 2 },
+  ampAttack: { min: 0.001, max: 2 },
+  ampDecay: { min: 0.001, max: 2 },
+  ampSustain: { min: 0, max: 1 },
+  ampRelease: { min: 0.001, max: 2 },
+  unisonVoices: { min: 1, max: 8, step: 1 },
+  unisonSpread: { min: 0, max: 100, step: 1 },
+  unisonPan: { min: 0, max: 1 },
+  polyphony: { min: 1, max: 16, step: 1 },
+  glideTime: { min: 0, max: 1 },
+  'lfo1.rate': { min: 0.05, max: 20, curve: 'exponential' },
+  'lfo1.depth': { min: 0, max: 1 },
+  'lfo1.phase': { min: 0, max: 1 },
+  'lfo2.rate': { min: 0.05, max: 20, curve: 'exponential' },
+  'lfo2.depth': { min: 0, max: 1 },
+  'lfo2.phase': { min: 0, max: 1 },
+};
+
+const CHANNEL_PARAM_LABELS: Record<string, string> = {
+  volume: 'Volume',
+  pan: 'Pan',
+  reverbSend: 'Reverb Send',
+  delaySend: 'Delay Send',
+  filterSend: 'Filter Send',
+};
+
+/**
+ * Default range of a control. Mixer sliders work in parameter units, so
+ * their own min/max are used unless the target is known to need another range.
+ */
+export function getMidiLearnRange(
+  target: MidiLearnTarget,
+  control?: { min: number; max: number },
+): Required<ParamRange> {
+  const [kind, ...rest] = target.split(':');
+  let range: ParamRange | undefined;
+  if (kind === 'synth') range = SYNTH_RANGES[rest[0]];
+  else if (kind === 'masterFilter' && rest[0] === 'cutoff') range = { min: 20, max: 20000, curve: 'exponential', step: 1 };
+  else if (kind === 'channel' && rest[1] === 'pan') range = { min: -1, max: 1 };
+  else if (kind === 'channel' || kind === 'send' || kind === 'masterVolume') range = { min: 0, max: 1 };
+  else if (kind === 'fx' && control && (rest[2] === 'cutoff' || rest[2] === 'tone')) range = { ...control, curve: 'exponential' };
+  range ??= control ?? { min: 0, max: 1 };
+  return { min: range.min, max: range.max, curve: range.curve ?? 'linear', step: range.step ?? 0 };
+}
+
+/** Parameter value for a controller value (0–127). */
+export function getMidiMappingValue(mapping: MidiMapping, ccValue: number): number {
+  const t = Math.max(0, Math.min(127, ccValue)) / 127;
+  let value = mapping.curve === 'exponential' && mapping.min > 0 && mapping.max > 0
+    ? mapping.min * Math.pow(mapping.max / mapping.min, t)
+    : mapping.min + t * (mapping.max - mapping.min);
+  if (mapping.step > 0) value = Math.round(value / mapping.step) * mapping.step;
+  return value;
+}
+
+/** Human-readable name of a mapping target, e.g. "Kick Volume". */
+export function getMidiLearnLabel(target: MidiLearnTarget, state: SequencerState): string {
+  const pattern = state.patterns.find((p) => p.id === state.activePatternId);
+  const channelName = (id: string) =>
+    pattern?.tracks.find((t) => t.id === id)?.name
+    ?? pattern?.sampleTracks.find((t) => t.id === id)?.name
+    ?? pattern?.instrumentChannels.find((c) => c.id === id)?.name
+    ?? state.sendChannels.find((sc) => sc.id === id)?.name
+    ?? id;
+
+  const [kind, ...rest] = target.split(':');
+  switch (kind) {
+    case 'masterVolume':
+      return 'Master Volume';
+    case 'masterFilter':
+      return rest[0] === 'cutoff' ? 'Master Filter Cutoff' : 'Master Filter Resonance';
+    case 'channel':
+      return `${channelName(rest[0])} ${CHANNEL_PARAM_LABELS[rest[1]] ?? rest[1]}`;
+    case 'send':
+      return `${channelName(rest[0])} → ${channelName(rest[1])}`;
+    case 'fx': {
+      const [channelId, effectId, param] = rest;
+      const effects = [
+        ...(pattern?.tracks ?? []),
+        ...(pattern?.sampleTracks ?? []),
+        ...(pattern?.instrumentChannels ?? []),
+        ...state.sendChannels,
+      ].find((c) => c.id === channelId)?.insertEffects ?? [];
+      const effect = effects.find((fx) => fx.id === effectId);
+      return `${channelName(channelId)} ${effect?.effectType ?? 'FX'} ${param}`;
+    }
+    case 'synth':
+      return `Synth ${rest[0]}`;
+    default:
+      return target;
+  }
+}
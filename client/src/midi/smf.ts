@@ -0,0 +1,239 @@
+/**
+ * Standard MIDI File (SMF) encoding. Events are given with absolute tick
+ * positions; delta times, ordering and end-of-track markers are handled here.
+ */
+
+/** Ticks per quarter note used for exported files */
+export const MIDI_PPQ = 96;
+
+export type MidiEvent =
+  | { tick: number; type: 'noteOn' | 'noteOff'; channel: number; note: number; velocity: number }
+  | { tick: number; type: 'tempo'; bpm: number }
+  | { tick: number; type: 'timeSignature'; numerator: number; denominator: number }
+  | { tick: number; type: 'trackName'; text: string };
+
+export interface MidiTrack {
+  events: MidiEvent[];
+}
+
+export interface MidiFile {
+  /** 0 = single track, 1 = simultaneous tracks */
+  format: 0 | 1;
+  /** Ticks per quarter note */
+  ppq: number;
+  tracks: MidiTrack[];
+}
+
+/** Order of events sharing a tick: meta first, then note-offs before note-ons so repeated notes retrigger */
+const EVENT_ORDER: Record<MidiEvent['type'], number> = {
+  trackName: 0,
+  tempo: 1,
+  timeSignature: 2,
+  noteOff: 3,
+  noteOn: 4,
+};
+
+function writeVarLen(out: number[], value: number): void {
+  let buffer = value & 0x7f;
+  while ((value >>= 7) > 0) {
+    buffer <<= 8;
+    buffer |= (value & 0x7f) | 0x80;
+  }
+  for (;;) {
+    out.push(buffer & 0xff);
+    if (buffer & 0x80) buffer >>= 8;
+    else break;
+  }
+}
+
+function writeMeta(out: number[], type: number, data: number[]): void {
+  out.push(0xff, type);
+  writeVarLen(out, data.length);
+  out.push(...data);
+}
+
+function encodeTrack(track: MidiTrack): number[] {
+  const events = [...track.events].sort(
+    (a, b) => a.tick - b.tick || EVENT_ORDER[a.type] - EVENT_ORDER[b.type],
+  );
+  const out: number[] = [];
+  let lastTick = 0;
+
+  for (const event of events) {
+    const tick = Math.max(0, Math.round(event.tick));
+    writeVarLen(out, tick - lastTick);
+    lastTick = tick;
+
+    switch (event.type) {
+      case 'noteOn':
+      case 'noteOff':
+        out.push(
+          (event.type === 'noteOn' ? 0x90 : 0x80) | (event.channel & 0x0f),
+          event.note & 0x7f,
+          event.velocity & 0x7f,
+        );
+        break;
+      case 'tempo': {
+        const microsPerQuarter = Math.round(60_000_000 / event.bpm);
+        writeMeta(out, 0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]);
+        break;
+      }
+      case 'timeSignature':
+        // Denominator is stored as a power of two; 24 clocks per click, 8 32nds per quarter
+        writeMeta(out, 0x58, [event.numerator, Math.round(Math.log2(event.denominator)), 24, 8]);
+        break;
+      case 'trackName':
+        writeMeta(out, 0x03, Array.from(new TextEncoder().encode(event.text)));
+        break;
+    }
+  }
+
+  out.push(0x00);
+  writeMeta(out, 0x2f, []);
+  return out;
+}
+
+function writeChunk(out: number[], id: string, data: number[]): void {
+  for (let i = 0; i < 4; i++) out.push(id.charCodeAt(i));
+  const length = data.length;
+  out.push((length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+  for (const byte of data) out.push(byte);
+}
+
+/** Encode a MIDI file as a .mid Blob. */
+export function encodeMidiFile(file: MidiFile): Blob {
+  const out: number[] = [];
+  writeChunk(out, 'MThd', [
+    0, file.format,
+    (file.tracks.length >> 8) & 0xff, file.tracks.length & 0xff,
+    (file.ppq >> 8) & 0x7f, file.ppq & 0xff,
+  ]);
+  for (const track of file.tracks) {
+    writeChunk(out, 'MTrk', encodeTrack(track));
+  }
+  return new Blob([new Uint8Array(out)], { type: 'audio/midi' });
+}
+
+/** Byte reader over a MIDI file that throws on truncated data */
+class MidiReader {
+  pos = 0;
+  private readonly data: Uint8Array;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  get remaining(): number {
+    return this.data.length - this.pos;
+  }
+
+  byte(): number {
+    if (this.pos >= this.data.length) throw new Error('Unexpected end of MIDI data');
+    return this.data[this.pos++];
+  }
+
+  bytes(count: number): Uint8Array {
+    if (this.pos + count > this.data.length) throw new Error('Unexpected end of MIDI data');
+    const out = this.data.subarray(this.pos, this.pos + count);
+    this.pos += count;
+    return out;
+  }
+
+  uint16(): number {
+    return (this.byte() << 8) | this.byte();
+  }
+
+  uint32(): number {
+    return ((this.byte() << 24) | (this.byte() << 16) | (this.byte() << 8) | this.byte()) >>> 0;
+  }
+
+  varLen(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.byte();
+      value = (value << 7) | (b & 0x7f);
+      if (!(b & 0x80)) return value;
+    }
+    throw new Error('Invalid variable-length quantity');
+  }
+
+  chunkId(): string {
+    return String.fromCharCode(...this.bytes(4));
+  }
+}
+
+function decodeTrack(reader: MidiReader): MidiTrack {
+  const events: MidiEvent[] = [];
+  let tick = 0;
+  let runningStatus = 0;
+
+  while (reader.remaining > 0) {
+    tick += reader.varLen();
+    let status = reader.byte();
+    if (status < 0x80) {
+      // Running status: the byte just read is the first data byte
+      if (!runningStatus) throw new Error('Invalid MIDI running status');
+      status = runningStatus;
+      reader.pos--;
+    }
+
+    if (status === 0xff) {
+      const type = reader.byte();
+      const data = reader.bytes(reader.varLen());
+      if (type === 0x2f) break; // end of track
+      if (type === 0x51 && data.length === 3) {
+        const microsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2];
+        if (microsPerQuarter > 0) events.push({ tick, type: 'tempo', bpm: 60_000_000 / microsPerQuarter });
+      } else if (type === 0x58 && data.length >= 2) {
+        events.push({ tick, type: 'timeSignature', numerator: data[0], denominator: 2 ** data[1] });
+      } else if (type === 0x03) {
+        events.push({ tick, type: 'trackName', text: new TextDecoder().decode(data) });
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.bytes(reader.varLen()); // SysEx
+      continue;
+    }
+
+    runningStatus = status;
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+    // Program change and channel pressure carry one data byte, the rest two
+    const data1 = reader.byte();
+    const data2 = kind === 0xc0 || kind === 0xd0 ? 0 : reader.byte();
+    if (kind === 0x90 && data2 > 0) {
+      events.push({ tick, type: 'noteOn', channel, note: data1, velocity: data2 });
+    } else if (kind === 0x80 || kind === 0x90) {
+      events.push({ tick, type: 'noteOff', channel, note: data1, velocity: data2 });
+    }
+  }
+
+  return { events };
+}
+
+/**
+ * Decode a Type 0 or Type 1 Standard MIDI File. Only notes, tempo, time
+ * signature and track names are kept. Throws on malformed or SMPTE-timed files.
+ */
+export function decodeMidiFile(buffer: ArrayBuffer): MidiFile {
+  const reader = new MidiReader(new Uint8Array(buffer));
+  if (reader.chunkId() !== 'MThd') throw new Error('Not a MIDI file');
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.bytes(headerLength - 6);
+  if (format !== 0 && format !== 1) throw new Error(`Unsupported MIDI file format ${format}`);
+  if (division & 0x8000) throw new Error('SMPTE-timed MIDI files are not supported');
+
+  const tracks: MidiTrack[] = [];
+  while (tracks.length < trackCount && reader.remaining >= 8) {
+    const id = reader.chunkId();
+    const chunk = reader.bytes(reader.uint32());
+    // Skip unknown chunk types, as the spec requires
+    if (id === 'MTrk') tracks.push(decodeTrack(new MidiReader(chunk)));
+  }
+
+  return { format, ppq: division, tracks };
+}
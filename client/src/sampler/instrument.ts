@@ -0,0 +1,50 @@
+import type { SamplerSettings, SamplerZone, FilterType } from '../types';
+
+/**
+ * Import of sampler instruments from SFZ files (with their sample files)
+ * and SoundFont 2 banks. Instruments are read into zones referring to audio
+ * files; the sequencer loads those files as samples of the project.
+ */
+
+/** A zone of an imported instrument; `fileIndex` points into the instrument's files */
+export type ImportedZone = Omit<SamplerZone, 'id' | 'sampleId'> & { fileIndex: number };
+
+/** An instrument read from an SFZ file or an SF2 preset */
+export interface ImportedInstrument {
+  name: string;
+  /** Audio files of the instrument's samples */
+  files: File[];
+  zones: ImportedZone[];
+  /** Amp envelope and filter shared by every zone */
+  settings: Omit<SamplerSettings, 'zones'>;
+  /** Sample paths the instrument refers to that were not among the chosen files */
+  missingFiles: string[];
+}
+
+/** Shortest and longest envelope times the sampler controls offer (seconds) */
+const MIN_ENV_TIME = 0.001;
+const MAX_ENV_TIME = 2;
+
+/** Clamp an imported envelope time to the sampler's range. */
+export function clampEnvTime(seconds: number): number {
+  return Math.min(MAX_ENV_TIME, Math.max(MIN_ENV_TIME, seconds));
+}
+
+/** Filter Q for a resonance peak in dB (0 dB = Butterworth). */
+export function resonanceDbToQ(db: number): number {
+  return Math.min(25, Math.max(0.1, Math.SQRT1_2 * Math.pow(10, db / 20)));
+}
+
+/** Sampler filter settings for an imported cutoff; no cutoff leaves the filter open. */
+export function getImportedFilter(
+  type: FilterType,
+  cutoff: number | null,
+  resonanceDb: number,
+): Pick<SamplerSettings, 'filterType' | 'filterCutoff' | 'filterResonance'> {
+  if (cutoff === null) return { filterType: 'lowpass', filterCutoff: 20000, filterResonance: 1 };
+  return {
+    filterType: type,
+    filterCutoff: Math.round(Math.min(20000, Math.max(20, cutoff))),
+    filterResonance: resonanceDbToQ(resonanceDb),
+  };
+}
@@ -0,0 +1,66 @@
+import { parseSfz, buildSfzInstrument } from './sfz';
+import { decodeSf2, buildSf2Instrument } from './sf2';
+import type { Sf2Bank } from './sf2';
+import type { ImportedInstrument } from './instrument';
+
+/** An instrument that can be picked for import */
+export interface InstrumentChoice {
+  name: string;
+  /** Short description, e.g. the zone count or SF2 bank and program */
+  detail: string;
+}
+
+/** Instruments found in the chosen files, ready for selection */
+export type InstrumentImportSource =
+  | { kind: 'sfz'; fileName: string; choices: InstrumentChoice[]; sfzFiles: File[]; audioFiles: File[] }
+  | { kind: 'sf2'; fileName: string; choices: InstrumentChoice[]; bank: Sf2Bank };
+
+function getExtension(file: File): string {
+  return file.name.slice(file.name.lastIndexOf('.') + 1).toLowerCase();
+}
+
+/**
+ * Read the chosen files: an SF2 bank, or SFZ files together with the audio
+ * files their regions refer to.
+ * @throws Error if there is no SFZ or SF2 file among them, or it can't be read
+ */
+export async function analyzeInstrumentFiles(files: File[]): Promise<InstrumentImportSource> {
+  const sf2 = files.find((f) => getExtension(f) === 'sf2');
+  if (sf2) {
+    const bank = decodeSf2(await sf2.arrayBuffer());
+    if (bank.presets.length === 0) throw new Error('No presets in this SoundFont');
+    return {
+      kind: 'sf2',
+      fileName: sf2.name,
+      choices: bank.presets.map((p) => ({
+        name: p.name,
+        detail: `Bank ${p.bank} · Program ${p.program + 1}`,
+      })),
+      bank,
+    };
+  }
+
+  const sfzFiles = files.filter((f) => getExtension(f) === 'sfz');
+  if (sfzFiles.length === 0) throw new Error('Choose an .sfz or .sf2 file');
+  const choices = await Promise.all(sfzFiles.map(async (f) => {
+    const regions = parseSfz(await f.text());
+    return { name: f.name.replace(/\.sfz$/i, ''), detail: `${regions.length} region${regions.length === 1 ? '' : 's'}` };
+  }));
+  return {
+    kind: 'sfz',
+    fileName: sfzFiles[0].name,
+    choices,
+    sfzFiles,
+    audioFiles: files.filter((f) => getExtension(f) !== 'sfz'),
+  };
+}
+
+/** Build the chosen instrument of an import source, extracting its samples. */
+export async function buildImportedInstrument(
+  source: InstrumentImportSource,
+  index: number,
+): Promise<ImportedInstrument> {
+  if (source.kind === 'sf2') return buildSf2Instrument(source.bank, index);
+  const file = source.sfzFiles[index];
+  return buildSfzInstrument(file.name.replace(/\.sfz$/i, ''), await file.text(), source.audioFiles);
+}
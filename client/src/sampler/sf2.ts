@@ -0,0 +1,366 @@
+import { encodePcm16Wav } from '../audio/wav';
+import { clampEnvTime, getImportedFilter } from './instrument';
+import type { ImportedInstrument, ImportedZone } from './instrument';
+
+/**
+ * SoundFont 2 bank decoding. Presets are made of zones pointing at
+ * instruments, which are made of zones pointing at samples; each zone's
+ * generators set its key and velocity range, tuning, loop and envelope.
+ */
+
+/** Generator operators read by the importer (SoundFont 2.04, section 8.1.2) */
+const GEN = {
+  startAddrsOffset: 0,
+  endAddrsOffset: 1,
+  startloopAddrsOffset: 2,
+  endloopAddrsOffset: 3,
+  startAddrsCoarseOffset: 4,
+  initialFilterFc: 8,
+  initialFilterQ: 9,
+  endAddrsCoarseOffset: 12,
+  attackVolEnv: 34,
+  decayVolEnv: 36,
+  sustainVolEnv: 37,
+  releaseVolEnv: 38,
+  instrument: 41,
+  keyRange: 43,
+  velRange: 44,
+  startloopAddrsCoarseOffset: 45,
+  initialAttenuation: 48,
+  endloopAddrsCoarseOffset: 50,
+  coarseTune: 51,
+  fineTune: 52,
+  sampleID: 53,
+  sampleModes: 54,
+  overridingRootKey: 58,
+} as const;
+
+/** Generators whose preset-level value is added to the instrument-level one */
+const ADDITIVE_PRESET_GENS: number[] = [
+  GEN.initialFilterFc,
+  GEN.initialFilterQ,
+  GEN.attackVolEnv,
+  GEN.decayVolEnv,
+  GEN.sustainVolEnv,
+  GEN.releaseVolEnv,
+  GEN.initialAttenuation,
+  GEN.coarseTune,
+  GEN.fineTune,
+];
+
+/** Generator defaults that differ from 0 */
+const GEN_DEFAULTS: Record<number, number> = {
+  [GEN.initialFilterFc]: 13500,
+  [GEN.attackVolEnv]: -12000,
+  [GEN.decayVolEnv]: -12000,
+  [GEN.releaseVolEnv]: -12000,
+  [GEN.overridingRootKey]: -1,
+};
+
+/** Sample type flag of the right channel of a stereo pair */
+const SAMPLE_TYPE_RIGHT = 2;
+/** Sample type flag of samples stored in ROM rather than in the bank */
+const SAMPLE_TYPE_ROM = 0x8000;
+
+/** A zone's generators, keyed by operator; ranges are stored as [low, high] */
+interface Sf2Zone {
+  gens: Map<number, number>;
+  keyRange: [number, number];
+  velRange: [number, number];
+}
+
+export interface Sf2Sample {
+  name: string;
+  /** Frame offsets into the bank's sample data */
+  start: number;
+  end: number;
+  startLoop: number;
+  endLoop: number;
+  sampleRate: number;
+  originalPitch: number;
+  /** Pitch correction in cents */
+  pitchCorrection: number;
+  sampleType: number;
+}
+
+export interface Sf2Instrument {
+  name: string;
+  /** Zones playing a sample, with the instrument's global zone merged in */
+  zones: Sf2Zone[];
+}
+
+export interface Sf2Preset {
+  name: string;
+  bank: number;
+  program: number;
+  /** Zones referring to an instrument, with the preset's global zone merged in */
+  zones: Sf2Zone[];
+}
+
+/** A decoded SoundFont bank */
+export interface Sf2Bank {
+  name: string;
+  presets: Sf2Preset[];
+  instruments: Sf2Instrument[];
+  samples: Sf2Sample[];
+  /** 16-bit sample data shared by all samples */
+  sampleData: Int16Array;
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+}
+
+/** The sub-chunks of a RIFF LIST body, by id */
+function readChunks(view: DataView, start: number, end: number): Map<string, { offset: number; size: number }> {
+  const chunks = new Map<string, { offset: number; size: number }>();
+  let offset = start;
+  while (offset + 8 <= end) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'LIST') {
+      chunks.set(readString(view, offset + 8, 4), { offset: offset + 12, size: size - 4 });
+    } else {
+      chunks.set(id, { offset: offset + 8, size });
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+/**
+ * Read the zones of presets or instruments from their bag and generator
+ * records. A first zone without the terminal generator (`instrument` or
+ * `sampleID`) is a global zone whose generators the other zones default to.
+ */
+function readZones(
+  view: DataView,
+  bags: { offset: number; size: number },
+  gens: { offset: number; size: number },
+  firstBag: number,
+  endBag: number,
+  terminal: number,
+): Sf2Zone[] {
+  const zones: Sf2Zone[] = [];
+  let global: Sf2Zone | null = null;
+  const genCount = gens.size / 4;
+  for (let bag = firstBag; bag < endBag; bag++) {
+    const genStart = view.getUint16(bags.offset + bag * 4, true);
+    const genEnd = Math.min(view.getUint16(bags.offset + (bag + 1) * 4, true), genCount);
+    const zone: Sf2Zone = {
+      gens: new Map(global?.gens),
+      keyRange: global?.keyRange ?? [0, 127],
+      velRange: global?.velRange ?? [0, 127],
+    };
+    for (let g = genStart; g < genEnd; g++) {
+      const record = gens.offset + g * 4;
+      const oper = view.getUint16(record, true);
+      if (oper === GEN.keyRange) {
+        zone.keyRange = [view.getUint8(record + 2), view.getUint8(record + 3)];
+      } else if (oper === GEN.velRange) {
+        zone.velRange = [view.getUint8(record + 2), view.getUint8(record + 3)];
+      } else if (oper === GEN.instrument || oper === GEN.sampleID) {
+        zone.gens.set(oper, view.getUint16(record + 2, true));
+      } else {
+        zone.gens.set(oper, view.getInt16(record + 2, true));
+      }
+    }
+    if (zone.gens.has(terminal)) {
+      zones.push(zone);
+    } else if (bag === firstBag) {
+      global = zone;
+    }
+  }
+  return zones;
+}
+
+/**
+ * Decode a SoundFont 2 file.
+ * @throws Error if the data isn't a SoundFont bank
+ */
+export function decodeSf2(data: ArrayBuffer): Sf2Bank {
+  const view = new DataView(data);
+  if (data.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'sfbk') {
+    throw new Error('Not a SoundFont 2 file');
+  }
+  const top = readChunks(view, 12, data.byteLength);
+  const info = top.get('INFO');
+  const sdta = top.get('sdta');
+  const pdta = top.get('pdta');
+  if (!sdta || !pdta) throw new Error('Incomplete SoundFont file');
+
+  const inam = info && readChunks(view, info.offset, info.offset + info.size).get('INAM');
+  const name = inam ? readString(view, inam.offset, inam.size) : '';
+  const smpl = readChunks(view, sdta.offset, sdta.offset + sdta.size).get('smpl');
+  const smplBytes = smpl ? Math.min(smpl.size, data.byteLength - smpl.offset) : 0;
+  const sampleData = smpl
+    ? new Int16Array(data.slice(smpl.offset, smpl.offset + smplBytes - (smplBytes % 2)))
+    : new Int16Array(0);
+
+  const chunks = readChunks(view, pdta.offset, pdta.offset + pdta.size);
+  const get = (id: string) => {
+    const chunk = chunks.get(id);
+    if (!chunk) throw new Error(`Missing ${id} chunk`);
+    return chunk;
+  };
+  const phdr = get('phdr');
+  const pbag = get('pbag');
+  const pgen = get('pgen');
+  const inst = get('inst');
+  const ibag = get('ibag');
+  const igen = get('igen');
+  const shdr = get('shdr');
+
+  // Each record list ends with a terminal record, which only marks where the last bag ends
+  const samples: Sf2Sample[] = [];
+  for (let i = 0; i < shdr.size / 46 - 1; i++) {
+    const record = shdr.offset + i * 46;
+    samples.push({
+      name: readString(view, record, 20),
+      start: view.getUint32(record + 20, true),
+      end: view.getUint32(record + 24, true),
+      startLoop: view.getUint32(record + 28, true),
+      endLoop: view.getUint32(record + 32, true),
+      sampleRate: view.getUint32(record + 36, true),
+      originalPitch: view.getUint8(record + 40),
+      pitchCorrection: view.getInt8(record + 41),
+      sampleType: view.getUint16(record + 44, true),
+    });
+  }
+
+  const instruments: Sf2Instrument[] = [];
+  for (let i = 0; i < inst.size / 22 - 1; i++) {
+    const record = inst.offset + i * 22;
+    instruments.push({
+      name: readString(view, record, 20),
+      zones: readZones(view, ibag, igen, view.getUint16(record + 20, true), view.getUint16(record + 22 + 20, true), GEN.sampleID),
+    });
+  }
+
+  const presets: Sf2Preset[] = [];
+  for (let i = 0; i < phdr.size / 38 - 1; i++) {
+    const record = phdr.offset + i * 38;
+    presets.push({
+      name: readString(view, record, 20),
+      program: view.getUint16(record + 20, true),
+      bank: view.getUint16(record + 22, true),
+      zones: readZones(view, pbag, pgen, view.getUint16(record + 24, true), view.getUint16(record + 38 + 24, true), GEN.instrument),
+    });
+  }
+  presets.sort((a, b) => a.bank - b.bank || a.program - b.program);
+
+  return { name, presets, instruments, samples, sampleData };
+}
+
+/** Seconds of an SF2 envelope time given in timecents */
+function timecentsToSeconds(timecents: number): number {
+  return Math.pow(2, timecents / 1200);
+}
+
+/** Intersection of two ranges, or null if they don't overlap */
+function intersect(a: [number, number], b: [number, number]): [number, number] | null {
+  const low = Math.max(a[0], b[0]);
+  const high = Math.min(a[1], b[1]);
+  return low <= high ? [low, high] : null;
+}
+
+/**
+ * Build a sampler instrument from a preset of a bank. Every sample the
+ * preset plays is extracted as a WAV file. Right channels of stereo pairs
+ * are skipped (the sampler plays zones in mono), and the envelope and filter
+ * come from the first zone, since the sampler shares them across zones.
+ */
+export function buildSf2Instrument(bank: Sf2Bank, presetIndex: number): ImportedInstrument {
+  const preset = bank.presets[presetIndex];
+  const files: File[] = [];
+  const fileIndexes = new Map<number, number>();
+  const zones: ImportedZone[] = [];
+  let firstGens: Map<number, number> | null = null;
+
+  for (const presetZone of preset.zones) {
+    const instrument = bank.instruments[presetZone.gens.get(GEN.instrument)!];
+    if (!instrument) continue;
+    for (const instZone of instrument.zones) {
+      const sampleIndex = instZone.gens.get(GEN.sampleID)!;
+      const sample = bank.samples[sampleIndex];
+      if (!sample || sample.sampleType & SAMPLE_TYPE_ROM || sample.sampleType === SAMPLE_TYPE_RIGHT) continue;
+      const keyRange = intersect(presetZone.keyRange, instZone.keyRange);
+      const velRange = intersect(presetZone.velRange, instZone.velRange);
+      if (!keyRange || !velRange) continue;
+
+      const gen = (oper: number) => {
+        const value = instZone.gens.get(oper) ?? GEN_DEFAULTS[oper] ?? 0;
+        return ADDITIVE_PRESET_GENS.includes(oper) ? value + (presetZone.gens.get(oper) ?? 0) : value;
+      };
+      firstGens ??= new Map<number, number>(Object.values(GEN).map((oper) => [oper, gen(oper)]));
+
+      // Address offsets move the sample's start, end and loop points
+      const start = sample.start + gen(GEN.startAddrsOffset) + gen(GEN.startAddrsCoarseOffset) * 32768;
+      const end = sample.end + gen(GEN.endAddrsOffset) + gen(GEN.endAddrsCoarseOffset) * 32768;
+      const startLoop = sample.startLoop + gen(GEN.startloopAddrsOffset) + gen(GEN.startloopAddrsCoarseOffset) * 32768;
+      const endLoop = sample.endLoop + gen(GEN.endloopAddrsOffset) + gen(GEN.endloopAddrsCoarseOffset) * 32768;
+      const length = end - start;
+      if (length <= 0 || end > bank.sampleData.length) continue;
+
+      const fileKey = start * 4294967296 + end;
+      let fileIndex = fileIndexes.get(fileKey);
+      if (fileIndex === undefined) {
+        const wav = encodePcm16Wav(bank.sampleData.subarray(start, end), sample.sampleRate);
+        fileIndex = files.push(new File([wav], `${sample.name || `Sample ${sampleIndex + 1}`}.wav`, { type: 'audio/wav' })) - 1;
+        fileIndexes.set(fileKey, fileIndex);
+      }
+
+      const rootKey = gen(GEN.overridingRootKey);
+      const rootNote = rootKey >= 0 ? rootKey : sample.originalPitch <= 127 ? sample.originalPitch : 60;
+      const tune = gen(GEN.fineTune) + sample.pitchCorrection;
+      // Sample modes 1 and 3 loop (3 continues into the release, which the sampler always does)
+      const mode = gen(GEN.sampleModes) & 3;
+      const loop = (mode === 1 || mode === 3) && endLoop > startLoop;
+
+      zones.push({
+        fileIndex,
+        keyLow: keyRange[0],
+        keyHigh: keyRange[1],
+        // Coarse tuning moves the root the other way; whole semitones of fine tuning, too
+        rootNote: rootNote - gen(GEN.coarseTune) - Math.trunc(tune / 100),
+        tune: tune % 100,
+        velLow: Math.max(1, velRange[0]),
+        velHigh: Math.max(1, velRange[1]),
+        roundRobinGroup: 0,
+        // Attenuation is in centibels
+        gain: Math.max(-24, -gen(GEN.initialAttenuation) / 10),
+        loop,
+        loopStart: loop ? Math.min(1, Math.max(0, (startLoop - start) / length)) : 0,
+        loopEnd: loop ? Math.min(1, Math.max(0, (endLoop - start) / length)) : 1,
+      });
+    }
+  }
+
+  const first = (oper: number) => firstGens?.get(oper) ?? GEN_DEFAULTS[oper] ?? 0;
+  const filterFc = first(GEN.initialFilterFc);
+  return {
+    name: preset.name,
+    files,
+    zones,
+    settings: {
+      ampAttack: clampEnvTime(timecentsToSeconds(first(GEN.attackVolEnv))),
+      ampDecay: clampEnvTime(timecentsToSeconds(first(GEN.decayVolEnv))),
+      // Sustain is an attenuation in centibels
+      ampSustain: Math.min(1, Math.max(0, Math.pow(10, -first(GEN.sustainVolEnv) / 200))),
+      ampRelease: clampEnvTime(timecentsToSeconds(first(GEN.releaseVolEnv))),
+      // Cutoff is in absolute cents (8.176 Hz = 0); at 13500 and above the filter is open
+      ...getImportedFilter(
+        'lowpass',
+        filterFc < 13500 ? 8.176 * Math.pow(2, filterFc / 1200) : null,
+        first(GEN.initialFilterQ) / 10,
+      ),
+    },
+    missingFiles: [],
+  };
+}
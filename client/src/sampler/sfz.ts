@@ -0,0 +1,205 @@
+import { readWavInfo } from '../audio/wav';
+import type { WavInfo } from '../audio/wav';
+import type { FilterType } from '../types';
+import { clampEnvTime, getImportedFilter } from './instrument';
+import type { ImportedInstrument, ImportedZone } from './instrument';
+
+/**
+ * SFZ instrument parsing. Opcodes of the <control>, <global>, <master> and
+ * <group> headers are inherited by the regions that follow them.
+ */
+
+/** Opcodes of one region, including the ones it inherits */
+export type SfzRegion = Record<string, string>;
+
+/** Headers whose opcodes apply to the regions after them, outermost first */
+const SFZ_SCOPES = ['control', 'global', 'master', 'group'] as const;
+
+/** Opcodes whose value runs to the next opcode, so it may contain spaces */
+const PATH_OPCODES = new Set(['sample', 'default_path']);
+
+const NOTE_OFFSETS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+/** Parse an SFZ text into its regions. `#define` variables are expanded; `#include` is not supported. */
+export function parseSfz(text: string): SfzRegion[] {
+  const defines = new Map<string, string>();
+  const lines: string[] = [];
+  for (const line of text.replace(/\/\*[\s\S]*?\*\//g, '').split(/\r?\n/)) {
+    const code = line.replace(/\/\/.*$/, '');
+    const define = code.match(/^\s*#define\s+(\$\w+)\s+(.*?)\s*$/);
+    if (define) defines.set(define[1], define[2]);
+    else if (!/^\s*#/.test(code)) lines.push(code);
+  }
+  let body = lines.join('\n');
+  // Longest names first so $VAR doesn't clobber $VAR2
+  for (const name of [...defines.keys()].sort((a, b) => b.length - a.length)) {
+    body = body.split(name).join(defines.get(name));
+  }
+
+  const scopes: Record<string, SfzRegion> = {};
+  const regions: SfzRegion[] = [];
+  let current: SfzRegion | null = null;
+  const tokens = [...body.matchAll(/<(\w+)>|([A-Za-z0-9_]+)=/g)];
+  tokens.forEach((token, i) => {
+    if (token[1] !== undefined) {
+      const header = token[1].toLowerCase();
+      const depth = SFZ_SCOPES.indexOf(header as typeof SFZ_SCOPES[number]);
+      if (header === 'region') {
+        // A region starts out with the opcodes of every enclosing scope
+        const region: SfzRegion = Object.assign({}, ...SFZ_SCOPES.map((scope) => scopes[scope]));
+        regions.push(region);
+        current = region;
+      } else if (depth >= 0) {
+        // A new scope replaces itself and every scope nested inside it
+        for (const inner of SFZ_SCOPES.slice(depth)) delete scopes[inner];
+        current = {};
+        scopes[header] = current;
+      } else {
+        current = null;
+      }
+      return;
+    }
+    if (!current) return;
+    const opcode = token[2].toLowerCase();
+    const end = tokens[i + 1]?.index ?? body.length;
+    const raw = body.slice(token.index! + token[0].length, end).trim();
+    current[opcode] = PATH_OPCODES.has(opcode) ? raw : raw.split(/\s+/)[0];
+  });
+  return regions;
+}
+
+/** MIDI note of an SFZ key value: a number or a note name such as c#4 (c4 = 60). */
+export function parseSfzKey(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const number = Number(value);
+  if (Number.isFinite(number)) return Math.round(number);
+  const match = value.toLowerCase().match(/^([a-g])(#|b)?(-?\d+)$/);
+  if (!match) return null;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return (Number(match[3]) + 1) * 12 + NOTE_OFFSETS[match[1]] + accidental;
+}
+
+function getNumber(region: SfzRegion, opcode: string, fallback: number): number {
+  const value = Number(region[opcode]);
+  return region[opcode] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+function clampMidi(value: number, min: number): number {
+  return Math.min(127, Math.max(min, value));
+}
+
+function getFilterType(filType: string | undefined): FilterType {
+  if (filType?.startsWith('hpf')) return 'highpass';
+  if (filType?.startsWith('bpf')) return 'bandpass';
+  return 'lowpass';
+}
+
+/** Normalize a sample path for matching: forward slashes, no leading ./, lowercase */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').toLowerCase();
+}
+
+/**
+ * Find the chosen file a region's sample path refers to: by its path
+ * relative to the chosen folder, otherwise by file name alone.
+ */
+function findSampleFile(path: string, files: File[]): File | undefined {
+  const normalized = normalizePath(path);
+  const fileName = normalized.slice(normalized.lastIndexOf('/') + 1);
+  return files.find((f) => normalizePath(f.webkitRelativePath || f.name).endsWith(normalized))
+    ?? files.find((f) => f.name.toLowerCase() === fileName);
+}
+
+/**
+ * Build a sampler instrument from an SFZ text. The amp envelope and filter
+ * are taken from the first region, since the sampler shares them across zones.
+ * @param files  Audio files chosen along with the SFZ file
+ */
+export async function buildSfzInstrument(name: string, text: string, files: File[]): Promise<ImportedInstrument> {
+  const regions = parseSfz(text).filter((r) => r.sample);
+  const instrumentFiles: File[] = [];
+  const missingFiles: string[] = [];
+  const zones: Array<{ zone: ImportedZone; seqPosition: number }> = [];
+  /** Round-robin groups by the key and velocity range their regions share */
+  const roundRobinGroups = new Map<string, number>();
+  const wavInfos = new Map<File, WavInfo | null>();
+
+  for (const region of regions) {
+    const path = (region.default_path ?? '') + region.sample;
+    const file = findSampleFile(path, files);
+    if (!file) {
+      if (!missingFiles.includes(path)) missingFiles.push(path);
+      continue;
+    }
+    let fileIndex = instrumentFiles.indexOf(file);
+    if (fileIndex < 0) fileIndex = instrumentFiles.push(file) - 1;
+
+    const key = parseSfzKey(region.key);
+    const keyLow = clampMidi(parseSfzKey(region.lokey) ?? key ?? 0, 0);
+    const keyHigh = clampMidi(parseSfzKey(region.hikey) ?? key ?? 127, 0);
+    const rootNote = parseSfzKey(region.pitch_keycenter) ?? key ?? 60;
+    const velLow = clampMidi(getNumber(region, 'lovel', 1), 1);
+    const velHigh = clampMidi(getNumber(region, 'hivel', 127), 1);
+
+    let roundRobinGroup = 0;
+    if (getNumber(region, 'seq_length', 1) > 1) {
+      const rangeKey = `${keyLow}:${keyHigh}:${velLow}:${velHigh}`;
+      if (!roundRobinGroups.has(rangeKey)) roundRobinGroups.set(rangeKey, roundRobinGroups.size + 1);
+      roundRobinGroup = roundRobinGroups.get(rangeKey)!;
+    }
+
+    // Loop points are in frames; the sampler keeps them as fractions of the sample
+    if (!wavInfos.has(file)) wavInfos.set(file, readWavInfo(await file.arrayBuffer()));
+    const info = wavInfos.get(file);
+    const loopMode = region.loop_mode ?? region.loopmode;
+    const loop = loopMode
+      ? loopMode === 'loop_continuous' || loopMode === 'loop_sustain'
+      : Boolean(info?.loop);
+    let loopStart = 0;
+    let loopEnd = 1;
+    if (loop && info && info.frames > 0) {
+      const start = getNumber(region, 'loop_start', getNumber(region, 'loopstart', info.loop?.start ?? 0));
+      const end = getNumber(region, 'loop_end', getNumber(region, 'loopend', info.loop?.end ?? info.frames - 1));
+      loopStart = Math.min(1, Math.max(0, start / info.frames));
+      loopEnd = Math.min(1, Math.max(loopStart, (end + 1) / info.frames));
+    }
+
+    zones.push({
+      zone: {
+        fileIndex,
+        keyLow,
+        keyHigh,
+        // Transposing the region moves its root the other way
+        rootNote: rootNote - getNumber(region, 'transpose', 0),
+        tune: Math.min(100, Math.max(-100, getNumber(region, 'tune', 0))),
+        velLow,
+        velHigh,
+        roundRobinGroup,
+        gain: Math.min(24, Math.max(-24, getNumber(region, 'volume', 0))),
+        loop,
+        loopStart,
+        loopEnd,
+      },
+      seqPosition: getNumber(region, 'seq_position', 1),
+    });
+  }
+
+  // Round-robin members take turns in sequence order
+  zones.sort((a, b) => a.zone.roundRobinGroup - b.zone.roundRobinGroup || a.seqPosition - b.seqPosition);
+
+  const first = regions[0] ?? {};
+  const cutoff = first.cutoff !== undefined ? getNumber(first, 'cutoff', 20000) : null;
+  return {
+    name,
+    files: instrumentFiles,
+    zones: zones.map((z) => z.zone),
+    settings: {
+      ampAttack: clampEnvTime(getNumber(first, 'ampeg_attack', 0)),
+      ampDecay: clampEnvTime(getNumber(first, 'ampeg_decay', 0)),
+      ampSustain: Math.min(1, Math.max(0, getNumber(first, 'ampeg_sustain', 100) / 100)),
+      ampRelease: clampEnvTime(getNumber(first, 'ampeg_release', 0.001)),
+      ...getImportedFilter(getFilterType(first.fil_type), cutoff, getNumber(first, 'resonance', 0)),
+    },
+    missingFiles,
+  };
+}
@@ -1,14 +1,76 @@
-export type InstrumentName =
+/** Synthesis model of a drum channel's voice */
+export type DrumModel =
   | 'kick'
   | 'snare'
-  | 'hihat'
+  | 'hat'
+  | 'openHat'
   | 'clap'
-  | 'openhat'
-  | 'percussion';
+  | 'tom'
+  | 'rim'
+  | 'cowbell'
+  | 'noise'
+  | 'fmPerc';
 
+/**
+ * Synthesis parameters for a drum channel's voice. All values are 0–1 so
+ * they can be automated directly; 0.5 keeps the voice's stock sound for
+ * tone, decay and noise colour.
+ */
+export interface DrumSynthParams {
+  /** Pitch of the tonal body (±1 octave); on noise-only voices, filter resonance */
+  tone: number;
+  /** Decay length (¼× to 4× the stock envelope) */
+  decay: number;
+  /** Downward pitch sweep at the start of the hit (0–4 octaves) */
+  pitchEnv: number;
+  /** Brightness of the noise or metallic layer (¼× to 4× the stock filter frequency); FM depth on FM perc */
+  noiseColor: number;
+  /** Level of a short transient click at the start of the hit */
+  click: number;
+  /** Saturation amount (0 = clean) */
+  drive: number;
+}
+
+export type DrumSynthParam = keyof DrumSynthParams;
+
+/** Drum synth parameters reproducing each model's stock sound */
+export const DEFAULT_DRUM_SYNTH_PARAMS: Record<DrumModel, DrumSynthParams> = {
+  kick: { tone: 0.5, decay: 0.5, pitchEnv: 0.48, noiseColor: 0.5, click: 0, drive: 0 },
+  snare: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  hat: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  openHat: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  clap: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  tom: { tone: 0.5, decay: 0.5, pitchEnv: 0.2, noiseColor: 0.5, click: 0, drive: 0 },
+  rim: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  cowbell: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  noise: { tone: 0.5, decay: 0.5, pitchEnv: 0, noiseColor: 0.5, click: 0, drive: 0 },
+  fmPerc: { tone: 0.5, decay: 0.5, pitchEnv: 0.25, noiseColor: 0.5, click: 0, drive: 0 },
+};
+
+/** Display names of the drum models */
+export const DRUM_MODEL_LABELS: Record<DrumModel, string> = {
+  kick: 'Kick',
+  snare: 'Snare',
+  hat: 'Hat',
+  openHat: 'Open Hat',
+  clap: 'Clap',
+  tom: 'Tom',
+  rim: 'Rim',
+  cowbell: 'Cowbell',
+  noise: 'Noise',
+  fmPerc: 'FM Perc',
+};
+
+/** A drum channel of a pattern */
 export interface Track {
-  id: InstrumentName;
+  /**
+   * Channel ID, shared by the matching channel of every pattern. The stock
+   * channels use 'kick', 'snare', 'hihat', 'clap', 'openhat' and 'percussion'.
+   */
+  id: string;
   name: string;
+  /** Synthesis model of the channel's voice */
+  model: DrumModel;
   /** Per-step velocity: 0 = off, 0.01–1.0 = on with that velocity */
   steps: number[];
   /** Per-step pitch offset in semitones (−12 to +12, default 0) */
@@ -30,6 +92,46 @@ export interface Track {
   sends: Record<string, number>;
   /** ID of the mixer track this channel routes to (null = direct to master) */
   mixerTrackId: string | null;
+  /** Synthesis parameters of this channel's drum voice */
+  drumSynth: DrumSynthParams;
+}
+
+/**
+ * A melodic channel of a pattern's piano roll, with its own notes,
+ * instrument and mixer strip. Its ID is also the engine channel and voice
+ * pool ID, so it is unique across patterns.
+ */
+export interface InstrumentChannel {
+  id: string;
+  name: string;
+  pianoRoll: PianoRollData;
+  /** Synth voice settings of this channel */
+  synthSettings: SynthSettings;
+  /** Synth preset last loaded into or saved from this channel (bundled with the project) */
+  synthPresetId?: string | null;
+  /** Which instrument the channel plays */
+  instrument: PianoInstrument;
+  /** Sampler settings, used when `instrument` is 'sampler' */
+  sampler: SamplerSettings;
+  /** Arpeggiator applied to the channel's notes and to live MIDI input */
+  arpeggiator: ArpeggiatorSettings;
+  volume: number;
+  /** Stereo pan position: −1 (full left) to +1 (full right), 0 = center */
+  pan: number;
+  muted: boolean;
+  solo: boolean;
+  /** Reverb send level: 0 (dry) to 1 (full send) */
+  reverbSend: number;
+  /** Delay send level: 0 (dry) to 1 (full send) */
+  delaySend: number;
+  /** Filter send level: 0 (dry) to 1 (full send) */
+  filterSend: number;
+  /** Insert effect chain (up to 8 effects) */
+  insertEffects: InsertEffect[];
+  /** Per-send-channel send levels: { sendChannelId: 0–1 } */
+  sends: Record<string, number>;
+  /** ID of the mixer track this channel routes to (null = direct to master) */
+  mixerTrackId: string | null;
 }
 
 export interface Pattern {
@@ -41,9 +143,12 @@ export interface Pattern {
   tracks: Track[];
   /** Sample-based tracks in this pattern */
   sampleTracks: SampleTrack[];
-  pianoRoll: PianoRollData;
-  /** Synth voice settings for this pattern's piano roll */
-  synthSettings: SynthSettings;
+  /** Melodic channels of the piano roll (at least one) */
+  instrumentChannels: InstrumentChannel[];
+  /** Instrument channel the piano roll edits */
+  activeInstrumentChannelId: string;
+  /** Key and scale used for piano-roll highlighting, snapping and folding */
+  scale: ScaleSettings;
 }
 
 export interface ArrangementBlock {
@@ -86,7 +191,7 @@ export interface AutomationClip {
   startMeasure: number;
   /** Duration in measures */
   duration: number;
-  /** Breakpoints relative to the clip start, sorted by (measure, step) */
+  /** Breakpoints relative to the clip start, sorted by (measure, tick) */
   points: AutomationPoint[];
   /** Whether this clip is actively applied during playback */
   enabled: boolean;
@@ -106,7 +211,62 @@ export interface ArrangementTrack {
 }
 
 /** Piano roll editing tool */
-export type PianoRollTool = 'draw' | 'select' | 'slice' | 'paint' | 'erase';
+export type PianoRollTool = 'draw' | 'select' | 'slice' | 'paint' | 'erase' | 'chord';
+
+/** Bulk edit applied to the selected piano-roll notes as one undoable action */
+export type PianoNoteTransform =
+  /** Pull starts (and optionally ends) toward the grid; strength 0–1 */
+  | { type: 'quantize'; resolution: SnapResolution; strength: number; ends: boolean }
+  /** Randomise start (± ticks) and velocity (± 0–1) */
+  | { type: 'humanize'; timing: number; velocity: number }
+  /** Extend each note up to the next selected note start */
+  | { type: 'legato' }
+  /** Offset stacked notes by `spread` ticks each, low-to-high (up) or high-to-low (down) */
+  | { type: 'strum'; spread: number; direction: 'up' | 'down' }
+  /** Mirror the selection in time */
+  | { type: 'reverse' }
+  /** Mirror pitches around `axis` (MIDI note; null = centre of the selection) */
+  | { type: 'invert'; axis: number | null };
+
+/** Musical scale used by the piano roll (chromatic = no scale) */
+export type ScaleType =
+  | 'chromatic'
+  | 'major'
+  | 'minor'
+  | 'harmonicMinor'
+  | 'melodicMinor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian'
+  | 'majorPentatonic'
+  | 'minorPentatonic'
+  | 'blues';
+
+/** Key and scale stored per pattern */
+export interface ScaleSettings {
+  /** Root pitch class (0 = C … 11 = B) */
+  root: number;
+  type: ScaleType;
+}
+
+/** Chord shape placed by the piano-roll chord tool */
+export type ChordType =
+  | 'major'
+  | 'minor'
+  | 'dim'
+  | 'aug'
+  | 'sus2'
+  | 'sus4'
+  | 'maj7'
+  | 'min7'
+  | 'dom7'
+  | 'dim7'
+  | 'min7b5'
+  | 'diatonicTriad'
+  | 'diatonic7th'
+  | 'custom';
 
 /** Snap-to-grid resolution for the piano roll */
 export type SnapResolution = '1/4' | '1/8' | '1/16' | '1/32' | '1/4T' | '1/8T' | '1/16T';
@@ -126,19 +286,38 @@ export type NoteName =
   | 'A#'
   | 'B';
 
+/** Timing resolution of notes and automation: ticks per quarter note */
+export const PPQ = 96;
+
+/** Ticks per 16th step (one drum sequencer step) */
+export const TICKS_PER_STEP = PPQ / 4;
+
 /** A single note placed on the piano roll grid */
 export interface PianoNote {
   id: string;
   /** MIDI note number (e.g. 60 = C4) */
   pitch: number;
-  /** Step position (0-based, same resolution as drum sequencer) */
-  step: number;
-  /** Duration in steps (default 1) */
-  duration: number;
+  /** Start position in ticks from the pattern start (TICKS_PER_STEP per step) */
+  startTick: number;
+  /** Length in ticks (default one step) */
+  durationTicks: number;
   /** Velocity 0–1 */
   velocity: number;
+  /** Glide into this note from the previous one without retriggering (303-style slide) */
+  slide?: boolean;
+  /** Pan −1 (left) to 1 (right), added to the synth's unison panning (default 0) */
+  pan?: number;
+  /** Fine pitch in cents, −100 to 100 (default 0) */
+  fine?: number;
+  /** Release velocity 0–1 (default 0.5): higher shortens the synth's amp release, lower lengthens it, up to 2× */
+  releaseVelocity?: number;
+  /** Mod value −1 to 1 (default 0): moves the synth's filter cutoff by up to ±4 octaves and drives the Note Mod source */
+  mod?: number;
 }
 
+/** Per-note expression values a synth voice honours */
+export type PianoNoteExpression = Pick<PianoNote, 'pan' | 'fine' | 'releaseVelocity' | 'mod'>;
+
 /** Piano roll data stored per pattern */
 export interface PianoRollData {
   notes: PianoNote[];
@@ -386,11 +565,60 @@ export interface FilterSettings {
 /** Oscillator waveform type for the synth engine */
 export type OscillatorType = 'sine' | 'sawtooth' | 'square' | 'triangle';
 
+/**
+ * How a synth oscillator makes its sound:
+ * - `basic` the oscillator's waveform
+ * - `wavetable` a crossfade between the frames of a wavetable, at its position
+ * - `fm` the oscillator's waveform as an FM carrier, modulated by sine operators
+ */
+export type OscillatorMode = 'basic' | 'wavetable' | 'fm';
+
+/** Built-in wavetables; `custom` plays the frames loaded from a WAV file */
+export type WavetableName = 'analog' | 'pwm' | 'harmonics' | 'formant' | 'custom';
+
+/** One single-cycle frame of a wavetable, as PeriodicWave Fourier coefficients (index 0 = DC) */
+export interface WavetableFrame {
+  real: number[];
+  imag: number[];
+}
+
+/** Wavetable and FM settings of one synth oscillator */
+export interface OscillatorModeSettings {
+  mode: OscillatorMode;
+  /** Wavetable played in wavetable mode */
+  wavetable: WavetableName;
+  /** Frames loaded from a WAV file, played by the `custom` wavetable */
+  customFrames: WavetableFrame[];
+  /** File name of the loaded wavetable */
+  customName: string;
+  /** Position across the wavetable's frames (0–1) */
+  wtPosition: number;
+  /** FM operator count: 2 = one modulator, 4 = three modulators in series */
+  fmOperators: 2 | 4;
+  /** Frequency ratio of each modulator to the one it modulates (0.25–16), nearest the carrier first */
+  fmRatios: number[];
+  /** Modulation index of each modulator (0–10), nearest the carrier first */
+  fmIndexes: number[];
+}
+
 /** LFO waveform shape */
 export type LfoWaveform = 'sine' | 'sawtooth' | 'square' | 'triangle';
 
 /** LFO modulation routing target */
-export type LfoTarget = 'pitch' | 'filter' | 'volume' | 'pan';
+export type LfoTarget = 'pitch' | 'filter' | 'volume' | 'pan' | 'wtPosition';
+
+/** Note division of one tempo-synced LFO cycle (D = dotted, T = triplet) */
+export type LfoDivision =
+  | '4/1' | '2/1' | '1/1' | '1/2' | '1/4D' | '1/4' | '1/4T'
+  | '1/8D' | '1/8' | '1/8T' | '1/16' | '1/16T' | '1/32';
+
+/**
+ * Where an LFO's cycle starts:
+ * - `note` each note starts its own LFO at the phase offset
+ * - `free` the LFO runs continuously, so notes join it mid-cycle
+ * - `bar` the cycle restarts at the start of each bar
+ */
+export type LfoRetrigger = 'note' | 'free' | 'bar';
 
 /** LFO settings for the synth engine */
 export interface LfoSettings {
@@ -398,14 +626,118 @@ export interface LfoSettings {
   enabled: boolean;
   /** LFO waveform shape */
   waveform: LfoWaveform;
-  /** LFO rate in Hz (0.05–20) */
+  /** LFO rate in Hz (0.05–20), used when not synced */
   rate: number;
+  /** Sync the rate to the project tempo */
+  sync: boolean;
+  /** Cycle length when synced */
+  division: LfoDivision;
+  retrigger: LfoRetrigger;
+  /** Phase offset of the cycle start (0–1 of a cycle) */
+  phase: number;
   /** Modulation depth (0–1) */
   depth: number;
   /** Modulation target */
   target: LfoTarget;
 }
 
+/** Response of a synth filter stage */
+export type SynthFilterType = FilterType | 'notch';
+
+/** Slope of a synth filter stage in dB per octave */
+export type SynthFilterSlope = 12 | 24;
+
+/**
+ * Circuit of the synth's first filter:
+ * - `clean` biquads at the chosen slope
+ * - `ladder` a 24 dB stage with tanh saturation before each pole, set by the drive
+ */
+export type SynthFilterMode = 'clean' | 'ladder';
+
+/** How the second synth filter joins the first: after it, or alongside it */
+export type SynthFilterRouting = 'serial' | 'parallel';
+
+/**
+ * Modulation source of the synth's modulation matrix:
+ * - `lfo1`/`lfo2` the LFOs' waveforms at their rates (−1 to 1)
+ * - `filterEnv`/`modEnv` the filter and mod envelopes (0 to 1)
+ * - `velocity` the note velocity (0 to 1)
+ * - `keyTrack` the note's distance from C4, 1 per four octaves
+ * - `modWheel` the MIDI modulation wheel (0 to 1)
+ * - `noteMod` the note's mod value (−1 to 1)
+ */
+export type ModSource = 'lfo1' | 'lfo2' | 'filterEnv' | 'modEnv' | 'velocity' | 'keyTrack' | 'modWheel' | 'noteMod';
+
+/**
+ * Destination of a modulation route. At amount ±1 a source of 1 moves it by:
+ * osc pitches ±1 octave, osc levels ±1, detune (osc 2 and 3) ±100 cents,
+ * cutoff ±4 octaves, resonance ±12, unison spread ±100 cents, pan ±1, amp ±1.
+ */
+export type ModDestination =
+  | 'osc1Pitch'
+  | 'osc2Pitch'
+  | 'osc3Pitch'
+  | 'osc1Level'
+  | 'osc2Level'
+  | 'osc3Level'
+  | 'detune'
+  | 'cutoff'
+  | 'resonance'
+  | 'unisonSpread'
+  | 'pan'
+  | 'amp';
+
+/** Display names of the modulation sources */
+export const MOD_SOURCE_LABELS: Record<ModSource, string> = {
+  lfo1: 'LFO 1',
+  lfo2: 'LFO 2',
+  filterEnv: 'Filter Env',
+  modEnv: 'Mod Env',
+  velocity: 'Velocity',
+  keyTrack: 'Key',
+  modWheel: 'Mod Wheel',
+  noteMod: 'Note Mod',
+};
+
+/** Display names of the modulation destinations */
+export const MOD_DESTINATION_LABELS: Record<ModDestination, string> = {
+  osc1Pitch: 'Osc 1 Pitch',
+  osc2Pitch: 'Osc 2 Pitch',
+  osc3Pitch: 'Osc 3 Pitch',
+  osc1Level: 'Osc 1 Level',
+  osc2Level: 'Osc 2 Level',
+  osc3Level: 'Osc 3 Level',
+  detune: 'Detune',
+  cutoff: 'Cutoff',
+  resonance: 'Resonance',
+  unisonSpread: 'Unison Spread',
+  pan: 'Pan',
+  amp: 'Amp',
+};
+
+/** A route of the modulation matrix */
+export interface ModRoute {
+  id: string;
+  source: ModSource;
+  destination: ModDestination;
+  /** Signed amount (−1 to 1) of the destination's modulation range */
+  amount: number;
+}
+
+/**
+ * How the synth allocates voices:
+ * - `poly` each note gets its own voice, up to the polyphony limit
+ * - `mono` one voice, retriggered by every note
+ * - `legato` one voice; overlapping notes change pitch without retriggering
+ */
+export type SynthVoiceMode = 'poly' | 'mono' | 'legato';
+
+/** When mono/legato voices glide: on every note, or only between overlapping notes */
+export type GlideMode = 'always' | 'legato';
+
+/** Which sounding note makes room when the polyphony limit is reached */
+export type VoiceStealing = 'oldest' | 'quietest';
+
 /** Synth settings stored per pattern (controls the piano roll synth voice) */
 export interface SynthSettings {
   /** Primary oscillator waveform */
@@ -430,10 +762,40 @@ export interface SynthSettings {
   osc3Enabled: boolean;
   /** Oscillator 3 mix level (0–1) */
   osc3Mix: number;
+  /** Oscillator 1 wavetable/FM mode */
+  osc1Mode: OscillatorModeSettings;
+  /** Oscillator 2 wavetable/FM mode */
+  osc2Mode: OscillatorModeSettings;
+  /** Oscillator 3 wavetable/FM mode */
+  osc3Mode: OscillatorModeSettings;
+  /** How far the filter envelope sweeps the wavetable positions (−1 to 1) */
+  wtEnvAmount: number;
   /** Filter cutoff frequency in Hz (20–20000) */
   filterCutoff: number;
   /** Filter resonance (Q factor): 0.1–25 */
   filterResonance: number;
+  /** Filter 1 response */
+  filterType: SynthFilterType;
+  /** Filter 1 slope (clean mode) */
+  filterSlope: SynthFilterSlope;
+  /** Filter 1 circuit */
+  filterMode: SynthFilterMode;
+  /** Saturation of the ladder filter (0–1) */
+  filterDrive: number;
+  /** Cutoff key tracking of both filters (0–1): at 1 the cutoffs follow the note, relative to C4 */
+  filterKeyTrack: number;
+  /** Second filter stage enabled */
+  filter2Enabled: boolean;
+  /** Filter 2 response */
+  filter2Type: SynthFilterType;
+  /** Filter 2 slope */
+  filter2Slope: SynthFilterSlope;
+  /** Filter 2 cutoff frequency in Hz (20–20000); the filter envelope and modulation only move filter 1 */
+  filter2Cutoff: number;
+  /** Filter 2 resonance (Q factor): 0.1–25 */
+  filter2Resonance: number;
+  /** How filter 2 joins filter 1 */
+  filterRouting: SynthFilterRouting;
   /** Amplitude envelope attack time in seconds (0.001–2) */
   ampAttack: number;
   /** Amplitude envelope decay time in seconds (0.001–2) */
@@ -452,6 +814,16 @@ export interface SynthSettings {
   filterEnvRelease: number;
   /** Filter envelope modulation amount in semitones of cutoff (0–100), controls how far above the base cutoff the envelope sweeps */
   filterEnvAmount: number;
+  /** Mod envelope attack time in seconds (0.001–2) */
+  modEnvAttack: number;
+  /** Mod envelope decay time in seconds (0.001–2) */
+  modEnvDecay: number;
+  /** Mod envelope sustain level (0–1) */
+  modEnvSustain: number;
+  /** Mod envelope release time in seconds (0.001–2) */
+  modEnvRelease: number;
+  /** Modulation matrix: sources routed to destinations with signed amounts */
+  modMatrix: ModRoute[];
   /** LFO 1 settings */
   lfo1: LfoSettings;
   /** LFO 2 settings (second independent LFO) */
@@ -462,6 +834,89 @@ export interface SynthSettings {
   unisonSpread: number;
   /** Stereo pan spread for unison voices (0 = mono, 1 = full width) */
   unisonPan: number;
+  /** Voice allocation mode */
+  voiceMode: SynthVoiceMode;
+  /** Maximum simultaneously sounding notes in poly mode (1–16) */
+  polyphony: number;
+  /** Voice stealing strategy beyond the polyphony limit */
+  voiceStealing: VoiceStealing;
+  /** Portamento time in seconds (0 = off, up to 1) for mono and legato modes */
+  glideTime: number;
+  /** Whether every note glides or only overlapping (legato) notes */
+  glideMode: GlideMode;
+}
+
+/** Instrument a pattern's piano roll plays: the oscillator synth or the multi-sample sampler */
+export type PianoInstrument = 'synth' | 'sampler';
+
+/** A sample of the sampler, mapped to a key range and velocity layer */
+export interface SamplerZone {
+  id: string;
+  /** Reference to a loaded sample instrument (null = silent zone) */
+  sampleId: string | null;
+  /** Lowest MIDI note the zone plays (0–127) */
+  keyLow: number;
+  /** Highest MIDI note the zone plays (0–127) */
+  keyHigh: number;
+  /** MIDI note at which the sample plays at its recorded pitch */
+  rootNote: number;
+  /** Fine tuning in cents (−100 to +100) */
+  tune: number;
+  /** Lowest velocity of the zone's layer (1–127) */
+  velLow: number;
+  /** Highest velocity of the zone's layer (1–127) */
+  velHigh: number;
+  /**
+   * Round-robin group: matching zones of the same group take turns, one per
+   * note. 0 = no group, the zone plays on every matching note.
+   */
+  roundRobinGroup: number;
+  /** Gain adjustment in dB (−24 to +24) */
+  gain: number;
+  /** Whether the loop region repeats while the note is held */
+  loop: boolean;
+  /** Loop start as a fraction of the sample duration (0–1) */
+  loopStart: number;
+  /** Loop end as a fraction of the sample duration (0–1) */
+  loopEnd: number;
+}
+
+/** Sampler settings stored per pattern (the piano roll's alternative to the synth) */
+export interface SamplerSettings {
+  zones: SamplerZone[];
+  /** Amplitude envelope attack time in seconds (0.001–2) */
+  ampAttack: number;
+  /** Amplitude envelope decay time in seconds (0.001–2) */
+  ampDecay: number;
+  /** Amplitude envelope sustain level (0–1) */
+  ampSustain: number;
+  /** Amplitude envelope release time in seconds (0.001–2) */
+  ampRelease: number;
+  filterType: FilterType;
+  /** Filter cutoff frequency in Hz (20–20000) */
+  filterCutoff: number;
+  /** Filter resonance (Q factor): 0.1–25 */
+  filterResonance: number;
+}
+
+/** Order the arpeggiator plays the held notes in */
+export type ArpMode = 'up' | 'down' | 'upDown' | 'random' | 'asPlayed';
+
+/** Arpeggiator step length (T = triplet) */
+export type ArpRate = '1/4' | '1/8' | '1/8T' | '1/16' | '1/16T' | '1/32';
+
+/** Arpeggiator settings stored per pattern */
+export interface ArpeggiatorSettings {
+  /** Whether notes go through the arpeggiator (false = bypassed) */
+  enabled: boolean;
+  mode: ArpMode;
+  rate: ArpRate;
+  /** Octave range the arpeggio climbs through (1–4) */
+  octaves: number;
+  /** Note length as a fraction of the arpeggiator step (0.05–1) */
+  gate: number;
+  /** Keep playing the last chord after its keys are released */
+  latch: boolean;
 }
 
 /** A saved synth preset (reusable patch) */
@@ -490,6 +945,17 @@ export interface SampleInstrument {
   url: string;
   /** Original filename */
   fileName: string;
+  /** Content hash of the audio in server sample storage (null until uploaded) */
+  storageId: string | null;
+}
+
+/** A sample referenced from a saved project; its audio lives in server sample storage */
+export interface ProjectSample {
+  id: string;
+  name: string;
+  fileName: string;
+  /** Content hash of the audio file in server sample storage */
+  storageId: string;
 }
 
 /** A sample-based track in the step sequencer */
@@ -534,7 +1000,10 @@ export interface SampleTrack {
 /** Per-channel automation target format: `${channelType}:${channelId}:${param}` */
 export type ChannelAutomationParam = 'volume' | 'pan' | 'reverbSend' | 'delaySend' | 'filterSend';
 
-/** Automatable parameter targets */
+/**
+ * Automatable parameter targets. `synth:${instrumentChannelId}:${routeId}` automates
+ * the amount of a modulation route (0–1 maps to −1–1).
+ */
 export type AutomationTarget =
   | 'masterVolume'
   | 'masterFilterCutoff'
@@ -543,15 +1012,16 @@ export type AutomationTarget =
   | 'masterReverbDamping'
   | 'masterDelayFeedback'
   | 'masterDelayMix'
-  | `drum:${InstrumentName}:${ChannelAutomationParam}`
-  | `sample:${string}:${ChannelAutomationParam}`;
+  | `drum:${string}:${ChannelAutomationParam | DrumSynthParam}`
+  | `sample:${string}:${ChannelAutomationParam}`
+  | `synth:${string}:${string}`;
 
 /** A single automation breakpoint */
 export interface AutomationPoint {
   /** Measure index (0-based) */
   measure: number;
-  /** Step within the measure (0-based, 0–15 for 16-step measures) */
-  step: number;
+  /** Position within the measure in ticks (TICKS_PER_STEP per step) */
+  tick: number;
   /** Normalized value 0–1 */
   value: number;
 }
@@ -563,7 +1033,7 @@ export interface AutomationLane {
   target: AutomationTarget;
   /** Display name */
   name: string;
-  /** Breakpoints sorted by (measure, step) */
+  /** Breakpoints sorted by (measure, tick) */
   points: AutomationPoint[];
   /** Whether this lane is actively applied during playback */
   enabled: boolean;
@@ -596,13 +1066,120 @@ export interface ProjectData {
   mixerTracks: MixerTrack[];
   /** Master bus limiter settings */
   masterLimiter: MasterLimiterSettings;
+  /** Samples used by sample tracks and audio clips */
+  samples: ProjectSample[];
+  /** MIDI controller (CC) mappings */
+  midiMappings: MidiMapping[];
 }
 
 export type PlaybackMode = 'pattern' | 'song';
 
+/** Sample format of exported WAV files (32 = IEEE float) */
+export type WavBitDepth = 16 | 24 | 32;
+
+/** Point of the audio graph routed to the output when rendering a stem */
+export type OutputTap =
+  | { kind: 'channel'; id: string }
+  | { kind: 'mixerTrack'; id: string }
+  | { kind: 'sendChannel'; id: string };
+
+/** Source a stem is rendered from */
+export type StemKind = 'drum' | 'sample' | 'instrument' | 'audioClip' | 'mixerTrack' | 'sendChannel';
+
+/** One entry of a stem export manifest */
+export interface StemInfo {
+  /** File name inside the archive */
+  file: string;
+  /** Display name of the source channel/bus */
+  name: string;
+  kind: StemKind;
+  /** ID of the source (drum channel, track, instrument channel, clip, mixer track or send channel) */
+  sourceId: string;
+  /** Offset of the stem's first sample from the start of the song, in seconds */
+  startOffset: number;
+}
+
+/** Manifest written alongside exported stems */
+export interface StemManifest {
+  project: string;
+  bpm: number;
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  /** Length of every stem in sample frames */
+  length: number;
+  /** First rendered measure (0-based, inclusive) */
+  startMeasure: number;
+  /** Last rendered measure (0-based, exclusive) */
+  endMeasure: number;
+  stems: StemInfo[];
+}
+
+/** What a MIDI export covers: the active pattern or the whole arrangement */
+export type MidiExportScope = 'pattern' | 'song';
+
+/** Options for importing a Standard MIDI File */
+export interface MidiImportOptions {
+  /** Indexes of the file's parts (one per track and channel) to import */
+  partIndexes: number[];
+  /** Quantize grid in steps (1 = 1/16, 2 = 1/8, 4 = 1/4; 0 = off, keep tick timing) */
+  quantize: number;
+  /** Also place the imported patterns on a new arrangement track */
+  addToArrangement: boolean;
+}
+
+/** Options for rendering the song offline */
+export interface RenderOptions {
+  /** Output sample format */
+  bitDepth: WavBitDepth;
+  /** Render only the loop range (if one is set) instead of the whole arrangement */
+  loopRangeOnly: boolean;
+}
+
 /** Tabs available in the main view switcher */
 export type ViewTab = 'channel-rack' | 'piano-roll' | 'mixer' | 'arrangement' | 'sample-browser';
 
+/** A MIDI input port offered by the browser */
+export interface MidiInputDevice {
+  id: string;
+  name: string;
+}
+
+/**
+ * A control a MIDI CC can be mapped to:
+ * - `channel:<channelId>:<param>` drum or sample channel of the active pattern
+ * - `send:<channelId>:<sendChannelId>` channel send level
+ * - `fx:<channelId>:<effectId>:<param>` insert effect parameter (channel or send channel)
+ * - `synth:<param>` active pattern's synth setting (`lfo1.rate` for LFO fields)
+ */
+export type MidiLearnTarget =
+  | 'masterVolume'
+  | 'masterFilter:cutoff'
+  | 'masterFilter:resonance'
+  | `channel:${string}:${ChannelAutomationParam}`
+  | `send:${string}:${string}`
+  | `fx:${string}:${string}:${string}`
+  | `synth:${string}`;
+
+/** How a CC value (0–127) sweeps a parameter's range */
+export type MidiMappingCurve = 'linear' | 'exponential';
+
+/** A MIDI controller bound to a parameter */
+export interface MidiMapping {
+  id: string;
+  /** MIDI channel (0–15) */
+  channel: number;
+  /** Controller number (0–127) */
+  controller: number;
+  target: MidiLearnTarget;
+  /** Parameter value at CC 0 */
+  min: number;
+  /** Parameter value at CC 127 */
+  max: number;
+  curve: MidiMappingCurve;
+  /** Round values to this increment (0 = continuous) */
+  step: number;
+}
+
 export interface SequencerState {
   /** Current project ID (null if unsaved) */
   projectId: string | null;
@@ -645,4 +1222,20 @@ export interface SequencerState {
   mixerTracks: MixerTrack[];
   /** Master bus limiter settings */
   masterLimiter: MasterLimiterSettings;
+  /** Grid that piano roll editing and MIDI recording snap to */
+  snapResolution: SnapResolution;
+  /** Whether Web MIDI access has been granted */
+  midiEnabled: boolean;
+  /** Connected MIDI input ports */
+  midiInputs: MidiInputDevice[];
+  /** MIDI input port notes are received from (null = none) */
+  midiInputId: string | null;
+  /** Record incoming MIDI notes into the active pattern's piano roll while playing */
+  recordArmed: boolean;
+  /** MIDI controller mappings of the project */
+  midiMappings: MidiMapping[];
+  /** MIDI learn mode: clicking a control and moving a controller maps them */
+  midiLearnActive: boolean;
+  /** Control clicked in learn mode, waiting for a controller to move */
+  midiLearnPending: Omit<MidiMapping, 'id' | 'channel' | 'controller'> | null;
 }
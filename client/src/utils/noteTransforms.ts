@@ -0,0 +1,109 @@
+import type { PianoNote, PianoNoteTransform } from '../types';
+import { TICKS_PER_STEP } from '../types';
+import { snapStepSize } from './snap';
+
+/** Piano roll pitch range (C2–B5) */
+const PITCH_MIN = 36;
+const PITCH_MAX = 83;
+
+/** Keep a note inside the pattern, shortening it if needed */
+export function clampToPattern(note: PianoNote, patternTicks: number): PianoNote {
+  const startTick = Math.max(0, Math.min(patternTicks - 1, note.startTick));
+  const durationTicks = Math.max(1, Math.min(patternTicks - startTick, note.durationTicks));
+  return { ...note, startTick, durationTicks };
+}
+
+/** Move a pitch by octaves until it lies inside the piano roll range */
+function foldPitch(pitch: number): number {
+  let p = pitch;
+  while (p < PITCH_MIN) p += 12;
+  while (p > PITCH_MAX) p -= 12;
+  return p;
+}
+
+function randomOffset(range: number): number {
+  return (Math.random() * 2 - 1) * range;
+}
+
+/**
+ * Apply a bulk edit to the notes in `noteIds`. Other notes are returned
+ * untouched; results are clamped to the pattern length and pitch range.
+ */
+export function applyPianoNoteTransform(
+  notes: PianoNote[],
+  noteIds: Set<string>,
+  transform: PianoNoteTransform,
+  stepCount: number,
+): PianoNote[] {
+  const selected = notes.filter((n) => noteIds.has(n.id));
+  if (selected.length === 0) return notes;
+  const patternTicks = stepCount * TICKS_PER_STEP;
+
+  let edit: (note: PianoNote) => PianoNote;
+
+  switch (transform.type) {
+    case 'quantize': {
+      const size = snapStepSize(transform.resolution) * TICKS_PER_STEP;
+      const strength = Math.max(0, Math.min(1, transform.strength));
+      const pull = (tick: number) => Math.round(tick + (Math.round(tick / size) * size - tick) * strength);
+      edit = (n) => {
+        const startTick = pull(n.startTick);
+        const end = transform.ends
+          ? pull(n.startTick + n.durationTicks)
+          : startTick + n.durationTicks;
+        return { ...n, startTick, durationTicks: Math.max(1, end - startTick) };
+      };
+      break;
+    }
+    case 'humanize':
+      edit = (n) => ({
+        ...n,
+        startTick: n.startTick + Math.round(randomOffset(transform.timing)),
+        velocity: Math.max(0.05, Math.min(1, n.velocity + randomOffset(transform.velocity))),
+      });
+      break;
+    case 'legato': {
+      const starts = [...new Set(selected.map((n) => n.startTick))].sort((a, b) => a - b);
+      edit = (n) => {
+        const next = starts.find((s) => s > n.startTick);
+        return next === undefined ? n : { ...n, durationTicks: next - n.startTick };
+      };
+      break;
+    }
+    case 'strum': {
+      // Rank each note within the chord that starts on the same tick
+      const rank = new Map<string, number>();
+      const byStart = new Map<number, PianoNote[]>();
+      for (const n of selected) {
+        const list = byStart.get(n.startTick) ?? [];
+        list.push(n);
+        byStart.set(n.startTick, list);
+      }
+      for (const chord of byStart.values()) {
+        chord.sort((a, b) => (transform.direction === 'up' ? a.pitch - b.pitch : b.pitch - a.pitch));
+        chord.forEach((n, i) => rank.set(n.id, i));
+      }
+      edit = (n) => {
+        const offset = Math.round((rank.get(n.id) ?? 0) * transform.spread);
+        // Keep the chord's end aligned while the starts fan out
+        return { ...n, startTick: n.startTick + offset, durationTicks: Math.max(1, n.durationTicks - offset) };
+      };
+      break;
+    }
+    case 'reverse': {
+      const first = Math.min(...selected.map((n) => n.startTick));
+      const last = Math.max(...selected.map((n) => n.startTick + n.durationTicks));
+      edit = (n) => ({ ...n, startTick: first + last - (n.startTick + n.durationTicks) });
+      break;
+    }
+    case 'invert': {
+      const axis = transform.axis ?? (
+        Math.min(...selected.map((n) => n.pitch)) + Math.max(...selected.map((n) => n.pitch))
+      ) / 2;
+      edit = (n) => ({ ...n, pitch: foldPitch(Math.round(axis * 2 - n.pitch)) });
+      break;
+    }
+  }
+
+  return notes.map((n) => (noteIds.has(n.id) ? clampToPattern(edit(n), patternTicks) : n));
+}
@@ -0,0 +1,146 @@
+import type { ScaleSettings, ScaleType, ChordType } from '../types';
+
+/** Semitone offsets from the root for each scale */
+export const SCALE_INTERVALS: Record<ScaleType, number[]> = {
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  harmonicMinor: [0, 2, 3, 5, 7, 8, 11],
+  melodicMinor: [0, 2, 3, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  majorPentatonic: [0, 2, 4, 7, 9],
+  minorPentatonic: [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10],
+};
+
+/** Display labels for scales, in menu order */
+export const SCALE_LABELS: Record<ScaleType, string> = {
+  chromatic: 'Chromatic',
+  major: 'Major',
+  minor: 'Minor',
+  harmonicMinor: 'Harmonic Minor',
+  melodicMinor: 'Melodic Minor',
+  dorian: 'Dorian',
+  phrygian: 'Phrygian',
+  lydian: 'Lydian',
+  mixolydian: 'Mixolydian',
+  locrian: 'Locrian',
+  majorPentatonic: 'Major Pent.',
+  minorPentatonic: 'Minor Pent.',
+  blues: 'Blues',
+};
+
+/** Fixed chord shapes as semitone offsets from the chord root */
+const CHORD_INTERVALS: Record<Exclude<ChordType, 'diatonicTriad' | 'diatonic7th' | 'custom'>, number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  dim: [0, 3, 6],
+  aug: [0, 4, 8],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  maj7: [0, 4, 7, 11],
+  min7: [0, 3, 7, 10],
+  dom7: [0, 4, 7, 10],
+  dim7: [0, 3, 6, 9],
+  min7b5: [0, 3, 6, 10],
+};
+
+/** Display labels for chord types, in menu order */
+export const CHORD_LABELS: Record<ChordType, string> = {
+  major: 'Major',
+  minor: 'Minor',
+  dim: 'Dim',
+  aug: 'Aug',
+  sus2: 'Sus2',
+  sus4: 'Sus4',
+  maj7: 'Maj7',
+  min7: 'Min7',
+  dom7: '7',
+  dim7: 'Dim7',
+  min7b5: 'm7♭5',
+  diatonicTriad: 'Scale Triad',
+  diatonic7th: 'Scale 7th',
+  custom: 'Custom',
+};
+
+/** Whether a MIDI pitch belongs to the scale */
+export function isInScale(pitch: number, scale: ScaleSettings): boolean {
+  const pc = (((pitch - scale.root) % 12) + 12) % 12;
+  return SCALE_INTERVALS[scale.type].includes(pc);
+}
+
+/** Move a pitch to the nearest in-scale pitch (ties resolve downwards) */
+export function snapToScale(pitch: number, scale: ScaleSettings): number {
+  for (let offset = 0; offset < 12; offset++) {
+    if (isInScale(pitch - offset, scale)) return pitch - offset;
+    if (isInScale(pitch + offset, scale)) return pitch + offset;
+  }
+  return pitch;
+}
+
+/**
+ * Parse a custom voicing such as "0 4 7 11" or "0,3,7,14" into semitone
+ * offsets. Invalid entries are dropped; offsets are clamped to two octaves.
+ */
+export function parseChordIntervals(text: string): number[] {
+  const values = text
+    .split(/[\s,]+/)
+    .filter((t) => t !== '')
+    .map((t) => Number(t))
+    .filter((n) => Number.isInteger(n) && n >= 0 && n <= 24);
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Stack every other scale degree on top of the root, e.g. 1-3-5 for a
+ * triad. The root is snapped into the scale first.
+ */
+function getDiatonicPitches(root: number, scale: ScaleSettings, size: number): number[] {
+  const intervals = SCALE_INTERVALS[scale.type];
+  const base = snapToScale(root, scale);
+  const pc = (((base - scale.root) % 12) + 12) % 12;
+  const degree = intervals.indexOf(pc);
+  const pitches: number[] = [];
+  for (let i = 0; i < size; i++) {
+    const idx = degree + i * 2;
+    const octave = Math.floor(idx / intervals.length);
+    const interval = intervals[idx % intervals.length];
+    pitches.push(base - pc + octave * 12 + interval);
+  }
+  return pitches;
+}
+
+/**
+ * Get the MIDI pitches of a chord built on `root`. Each inversion moves
+ * the lowest note up an octave. Returns an ascending list.
+ */
+export function getChordPitches(
+  root: number,
+  chord: ChordType,
+  inversion: number,
+  scale: ScaleSettings,
+  customIntervals: number[],
+): number[] {
+  let pitches: number[];
+  if (chord === 'diatonicTriad') {
+    pitches = getDiatonicPitches(root, scale, 3);
+  } else if (chord === 'diatonic7th') {
+    pitches = getDiatonicPitches(root, scale, 4);
+  } else if (chord === 'custom') {
+    pitches = (customIntervals.length > 0 ? customIntervals : [0]).map((i) => root + i);
+  } else {
+    pitches = CHORD_INTERVALS[chord].map((i) => root + i);
+  }
+
+  const turns = inversion % pitches.length;
+  for (let i = 0; i < turns; i++) {
+    const lowest = pitches.shift()!;
+    pitches.push(lowest + 12);
+    pitches.sort((a, b) => a - b);
+  }
+  return pitches;
+}
@@ -0,0 +1,17 @@
+import type { SnapResolution } from '../types';
+
+/**
+ * Get the snap grid size in steps for a given resolution.
+ * Steps are 1/16th notes (16 steps = 1 bar of 4/4).
+ */
+export function snapStepSize(resolution: SnapResolution): number {
+  switch (resolution) {
+    case '1/4':  return 4;
+    case '1/8':  return 2;
+    case '1/16': return 1;
+    case '1/32': return 0.5;
+    case '1/4T': return 4 / 3;   // triplet quarter = 2.667 steps
+    case '1/8T': return 2 / 3;   // triplet eighth = 1.333 steps
+    case '1/16T': return 1 / 3;  // triplet sixteenth = 0.333 steps
+  }
+}
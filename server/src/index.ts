@@ -2,6 +2,9 @@ import express from 'express';
 import cors from 'cors';
 import path from 'node:path';
 import fs from 'node:fs';
+import { createHash } from 'node:crypto';
+import { createZip, readZip } from './zip.js';
+import type { ZipEntry } from './zip.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -15,6 +18,16 @@ app.use(express.json({ limit: '10mb' }));
 
 const DATA_DIR = path.join(import.meta.dirname, '../../data/projects');
 const PRESETS_DIR = path.join(import.meta.dirname, '../../data/presets');
+const SAMPLES_DIR = path.join(import.meta.dirname, '../../data/samples');
+
+/** Largest sample upload accepted */
+const MAX_SAMPLE_SIZE = '100mb';
+
+/** Largest project bundle import accepted */
+const MAX_BUNDLE_SIZE = '500mb';
+
+/** Most bytes the files of an imported project bundle may unpack to */
+const MAX_BUNDLE_CONTENT_SIZE = 1024 * 1024 * 1024;
 
 function ensureDataDir(): void {
   fs.mkdirSync(DATA_DIR, { recursive: true });
@@ -24,6 +37,10 @@ function ensurePresetsDir(): void {
   fs.mkdirSync(PRESETS_DIR, { recursive: true });
 }
 
+function ensureSamplesDir(): void {
+  fs.mkdirSync(SAMPLES_DIR, { recursive: true });
+}
+
 function getProjectPath(id: string): string {
   // Sanitize id to prevent path traversal
   const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '');
@@ -35,6 +52,38 @@ function getPresetPath(id: string): string {
   return path.join(PRESETS_DIR, `${safeId}.json`);
 }
 
+/** Sample files are stored under the SHA-256 of their content. Returns null for malformed ids. */
+function getSamplePath(id: string): string | null {
+  if (!/^[a-f0-9]{64}$/.test(id)) return null;
+  return path.join(SAMPLES_DIR, id);
+}
+
+/** Store audio in sample storage and return its content hash id. */
+function storeSample(data: Buffer): string {
+  ensureSamplesDir();
+  const id = createHash('sha256').update(data).digest('hex');
+  const filePath = getSamplePath(id)!;
+  if (!fs.existsSync(filePath)) {
+    fs.writeFileSync(filePath, data);
+  }
+  return id;
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/** Synth preset and sampler references of a saved piano roll instrument */
+interface SavedInstrument {
+  synthPresetId?: string | null;
+  sampler?: { zones?: { sampleId: string | null }[] };
+}
+
+/** Instrument channels of a saved pattern; older patterns hold their single instrument themselves. */
+function getPatternInstruments(pattern: SavedInstrument & { instrumentChannels?: SavedInstrument[] }): SavedInstrument[] {
+  return pattern.instrumentChannels ?? [pattern];
+}
+
 // -----------------------------------------------------------------------
 // API routes
 // -----------------------------------------------------------------------
@@ -151,6 +200,169 @@ app.delete('/api/presets/:id', (req, res) => {
   res.json({ ok: true });
 });
 
+// -----------------------------------------------------------------------
+// Sample storage (content-addressed audio files)
+// -----------------------------------------------------------------------
+
+// Upload a sample; identical audio is stored once and yields the same id
+app.post('/api/samples', express.raw({ type: () => true, limit: MAX_SAMPLE_SIZE }), (req, res) => {
+  const data = req.body;
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    res.status(400).json({ error: 'Invalid sample data' });
+    return;
+  }
+  const id = storeSample(data);
+  res.json({ id, size: data.length });
+});
+
+// Download a sample's audio data
+app.get('/api/samples/:id', (req, res) => {
+  const filePath = getSamplePath(req.params.id);
+  if (!filePath || !fs.existsSync(filePath)) {
+    res.status(404).json({ error: 'Sample not found' });
+    return;
+  }
+  res.type('application/octet-stream');
+  res.sendFile(filePath);
+});
+
+// -----------------------------------------------------------------------
+// Project bundles (.zip with project JSON, sample audio and synth presets)
+//
+//   project.json          ProjectData
+//   samples/<storageId>   audio of every sample the project references
+//   presets/<id>.json     synth presets loaded into the project's patterns
+// -----------------------------------------------------------------------
+
+// Package a saved project with its samples and presets
+app.get('/api/projects/:id/bundle', (req, res) => {
+  const filePath = getProjectPath(req.params.id);
+  if (!fs.existsSync(filePath)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const project = JSON.parse(raw);
+  const entries: ZipEntry[] = [{ name: 'project.json', data: Buffer.from(raw, 'utf-8') }];
+
+  const storageIds = new Set<string>(
+    (project.samples ?? []).map((s: { storageId: string }) => s.storageId),
+  );
+  for (const storageId of storageIds) {
+    const samplePath = getSamplePath(storageId);
+    // Missing audio is left out; loading the project reports it as missing
+    if (!samplePath || !fs.existsSync(samplePath)) continue;
+    entries.push({ name: `samples/${storageId}`, data: fs.readFileSync(samplePath) });
+  }
+
+  const presetIds = new Set<string>();
+  for (const pattern of project.patterns ?? []) {
+    for (const instrument of getPatternInstruments(pattern)) {
+      if (instrument.synthPresetId) presetIds.add(instrument.synthPresetId);
+    }
+  }
+  for (const presetId of presetIds) {
+    const presetPath = getPresetPath(presetId);
+    if (!fs.existsSync(presetPath)) continue;
+    entries.push({ name: `presets/${path.basename(presetPath)}`, data: fs.readFileSync(presetPath) });
+  }
+
+  const safeName = String(project.name ?? 'project').replace(/[^a-zA-Z0-9 _-]/g, '').trim() || 'project';
+  res.type('application/zip');
+  res.attachment(`${safeName}.zip`);
+  res.send(createZip(entries));
+});
+
+// Import a project bundle as a new project; samples and presets get fresh ids
+app.post('/api/projects/import', express.raw({ type: () => true, limit: MAX_BUNDLE_SIZE }), (req, res) => {
+  const data = req.body;
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    res.status(400).json({ error: 'Invalid bundle data' });
+    return;
+  }
+  let files: Map<string, Buffer>;
+  let project;
+  try {
+    files = new Map(readZip(data, MAX_BUNDLE_CONTENT_SIZE).map((e) => [e.name, e.data]));
+    const projectFile = files.get('project.json');
+    if (!projectFile) throw new Error('Missing project.json');
+    project = JSON.parse(projectFile.toString('utf-8'));
+  } catch {
+    res.status(400).json({ error: 'Invalid project bundle' });
+    return;
+  }
+  if (!project || !Array.isArray(project.patterns)) {
+    res.status(400).json({ error: 'Invalid project data' });
+    return;
+  }
+
+  // Samples: store the bundled audio and give every sample a new id
+  const sampleIds = new Map<string, string>();
+  project.samples = (project.samples ?? []).map((sample: { id: string; storageId: string }) => {
+    const id = createId('sample');
+    sampleIds.set(sample.id, id);
+    const audio = files.get(`samples/${sample.storageId}`);
+    return { ...sample, id, storageId: audio ? storeSample(audio) : sample.storageId };
+  });
+  for (const pattern of project.patterns) {
+    for (const track of pattern.sampleTracks ?? []) {
+      if (track.sampleId) track.sampleId = sampleIds.get(track.sampleId) ?? null;
+    }
+    for (const instrument of getPatternInstruments(pattern)) {
+      for (const zone of instrument.sampler?.zones ?? []) {
+        if (zone.sampleId) zone.sampleId = sampleIds.get(zone.sampleId) ?? null;
+      }
+    }
+  }
+  for (const arrTrack of project.arrangement ?? []) {
+    arrTrack.audioClips = (arrTrack.audioClips ?? [])
+      .filter((clip: { sampleId: string }) => sampleIds.has(clip.sampleId))
+      .map((clip: { sampleId: string }) => ({ ...clip, sampleId: sampleIds.get(clip.sampleId) }));
+  }
+
+  // Presets: reuse an identical local preset, otherwise save under a new id
+  ensurePresetsDir();
+  const presetIds = new Map<string, string>();
+  for (const [name, file] of files) {
+    if (!name.startsWith('presets/') || !name.endsWith('.json')) continue;
+    let preset;
+    try {
+      preset = JSON.parse(file.toString('utf-8'));
+    } catch {
+      continue;
+    }
+    if (!preset || !preset.id || !preset.name || !preset.settings) continue;
+    const existingPath = getPresetPath(preset.id);
+    if (fs.existsSync(existingPath)) {
+      const existing = JSON.parse(fs.readFileSync(existingPath, 'utf-8'));
+      if (JSON.stringify(existing.settings) === JSON.stringify(preset.settings)) {
+        presetIds.set(preset.id, existing.id);
+        continue;
+      }
+    }
+    const id = createId('preset');
+    const now = new Date().toISOString();
+    fs.writeFileSync(
+      getPresetPath(id),
+      JSON.stringify({ ...preset, id, createdAt: now, updatedAt: now }, null, 2),
+      'utf-8',
+    );
+    presetIds.set(preset.id, id);
+  }
+  for (const pattern of project.patterns) {
+    for (const instrument of getPatternInstruments(pattern)) {
+      if (instrument.synthPresetId) instrument.synthPresetId = presetIds.get(instrument.synthPresetId) ?? null;
+    }
+  }
+
+  ensureDataDir();
+  project.id = createId('proj');
+  project.createdAt = new Date().toISOString();
+  project.updatedAt = project.createdAt;
+  fs.writeFileSync(getProjectPath(project.id), JSON.stringify(project, null, 2), 'utf-8');
+  res.json({ id: project.id, name: project.name, updatedAt: project.updatedAt });
+});
+
 // -----------------------------------------------------------------------
 // Serve React client in production
 // -----------------------------------------------------------------------
@@ -0,0 +1,131 @@
+import zlib from 'node:zlib';
+
+/**
+ * Minimal ZIP archive support for project bundles: writes deflated entries
+ * and reads stored or deflated entries (what common zip tools produce).
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+/** MS-DOS date of 1980-01-01, the earliest representable (entries carry no real timestamps) */
+const DOS_DATE = 0x21;
+
+/** Build a ZIP archive from the given entries. */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const chunks: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const crc = zlib.crc32(entry.data);
+    const deflated = zlib.deflateRawSync(entry.data);
+    // Keep whichever is smaller (audio often does not compress)
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORED;
+    const body = method === METHOD_DEFLATE ? deflated : entry.data;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    chunks.push(local, name, body);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(CENTRAL_HEADER, 0);
+    record.writeUInt16LE(20, 4); // version made by
+    record.writeUInt16LE(20, 6); // version needed
+    record.writeUInt16LE(0x0800, 8);
+    record.writeUInt16LE(method, 10);
+    record.writeUInt16LE(DOS_DATE, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(body.length, 20);
+    record.writeUInt32LE(entry.data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...chunks, ...central, end]);
+}
+
+/**
+ * Read all file entries of a ZIP archive. Throws on malformed or unsupported
+ * archives, and on archives that unpack to more than `maxSize` bytes.
+ */
+export function readZip(archive: Buffer, maxSize: number): ZipEntry[] {
+  // The end-of-central-directory record sits at the end, before an optional comment
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const count = archive.readUInt16LE(eocd + 10);
+  let pos = archive.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+  let remaining = maxSize;
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(pos) !== CENTRAL_HEADER) throw new Error('Corrupt zip directory');
+    const method = archive.readUInt16LE(pos + 10);
+    const compressedSize = archive.readUInt32LE(pos + 20);
+    const size = archive.readUInt32LE(pos + 24);
+    const nameLength = archive.readUInt16LE(pos + 28);
+    const extraLength = archive.readUInt16LE(pos + 30);
+    const commentLength = archive.readUInt16LE(pos + 32);
+    const localOffset = archive.readUInt32LE(pos + 42);
+    const name = archive.toString('utf-8', pos + 46, pos + 46 + nameLength);
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // directory entry
+    if (size > remaining) throw new Error('Zip archive is too large');
+
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const localExtraLength = archive.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const body = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(body);
+    } else if (method === METHOD_DEFLATE) {
+      // Inflating past the declared size means the directory lies (e.g. a zip bomb)
+      data = zlib.inflateRawSync(body, { maxOutputLength: Math.max(1, size) });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+    if (data.length !== size) throw new Error('Corrupt zip entry');
+    remaining -= size;
+    entries.push({ name, data });
+  }
+
+  return entries;
+}